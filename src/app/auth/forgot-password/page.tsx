@@ -3,6 +3,7 @@
 import React, { useState } from 'react';
 import Link from 'next/link';
 import authService from '@/lib/auth';
+import { getErrorMessage } from '@/lib/apiClient';
 
 const ForgotPasswordPage: React.FC = () => {
   const [email, setEmail] = useState('');
@@ -24,8 +25,8 @@ const ForgotPasswordPage: React.FC = () => {
       
       await authService.forgotPassword(email);
       setIsSubmitted(true);
-    } catch (error: any) {
-      setError(error.message);
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to send reset email'));
     } finally {
       setIsLoading(false);
     }
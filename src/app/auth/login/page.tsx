@@ -1,25 +1,30 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import React, { useState, useEffect, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
+import TwoFactorChallengeForm from '@/components/auth/TwoFactorChallengeForm';
+import { isOpenRegistrationEnabled } from '@/lib/config';
+import { DEFAULT_AUTHENTICATED_PATH, RETURN_TO_PARAM, sanitizeReturnTo } from '@/lib/redirect';
 
-const LoginPage: React.FC = () => {
+const LoginForm: React.FC = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   
-  const { login, isAuthenticated, error, clearError } = useAuth();
+  const { login, isAuthenticated, isTwoFactorPending, error, clearError } = useAuth();
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const returnTo = searchParams.get(RETURN_TO_PARAM);
 
   // Redirect if already authenticated
   useEffect(() => {
     if (isAuthenticated) {
-      router.push('/dashboard');
+      router.push(sanitizeReturnTo(returnTo) || DEFAULT_AUTHENTICATED_PATH);
     }
-  }, [isAuthenticated, router]);
+  }, [isAuthenticated, returnTo, router]);
 
   // Clear error when component mounts
   useEffect(() => {
@@ -35,7 +40,7 @@ const LoginPage: React.FC = () => {
 
     try {
       setIsLoading(true);
-      await login(email, password);
+      await login(email, password, returnTo);
     } catch (error) {
       // Error is handled by context
     } finally {
@@ -43,6 +48,14 @@ const LoginPage: React.FC = () => {
     }
   };
 
+  if (isTwoFactorPending) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <TwoFactorChallengeForm />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -162,10 +175,14 @@ const LoginPage: React.FC = () => {
 
           <div className="text-center">
             <p className="text-sm text-gray-600">
-              Don't have an admin account?{' '}
-              <Link href="/auth/register" className="font-medium text-blue-600 hover:text-blue-500">
-                Contact system administrator
-              </Link>
+              Don&apos;t have an admin account?{' '}
+              {isOpenRegistrationEnabled ? (
+                <Link href="/auth/register" className="font-medium text-blue-600 hover:text-blue-500">
+                  Create one
+                </Link>
+              ) : (
+                'Ask an administrator for an invitation.'
+              )}
             </p>
           </div>
         </form>
@@ -174,4 +191,11 @@ const LoginPage: React.FC = () => {
   );
 };
 
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+const LoginPage: React.FC = () => (
+  <Suspense fallback={null}>
+    <LoginForm />
+  </Suspense>
+);
+
 export default LoginPage;
@@ -4,6 +4,10 @@ import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
+import PasswordStrengthMeter from '@/components/auth/PasswordStrengthMeter';
+import { ApiError } from '@/lib/apiClient';
+import { isOpenRegistrationEnabled } from '@/lib/config';
+import { validatePassword } from '@/lib/passwordPolicy';
 
 const RegisterPage: React.FC = () => {
   const [formData, setFormData] = useState({
@@ -51,10 +55,9 @@ const RegisterPage: React.FC = () => {
       newErrors.email = 'Email is invalid';
     }
 
-    if (!formData.password) {
-      newErrors.password = 'Password is required';
-    } else if (formData.password.length < 6) {
-      newErrors.password = 'Password must be at least 6 characters';
+    const passwordError = validatePassword(formData.password, { email: formData.email });
+    if (passwordError) {
+      newErrors.password = passwordError;
     }
 
     if (!formData.confirmPassword) {
@@ -104,12 +107,40 @@ const RegisterPage: React.FC = () => {
         phone: formData.phone || undefined,
       });
     } catch (error) {
-      // Error is handled by context
+      // The message is handled by context; show per-field validation next to the inputs
+      if (error instanceof ApiError && error.hasFieldErrors) {
+        setErrors((prev) => ({ ...prev, ...error.fieldErrors }));
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
+  if (!isOpenRegistrationEnabled) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div className="text-center">
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+              Registration Is Invite-Only
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              Admin accounts are created from invitations. Ask an administrator to invite you.
+            </p>
+            <div className="mt-6">
+              <Link
+                href="/auth/login"
+                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                Back to Sign In
+              </Link>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -270,6 +301,7 @@ const RegisterPage: React.FC = () => {
               {errors.password && (
                 <p className="mt-1 text-sm text-red-600">{errors.password}</p>
               )}
+              <PasswordStrengthMeter password={formData.password} email={formData.email} />
             </div>
             
             <div>
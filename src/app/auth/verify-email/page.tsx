@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useState, useEffect, useRef, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { getErrorMessage } from '@/lib/apiClient';
+import authService from '@/lib/auth';
+
+type Status = 'verifying' | 'verified' | 'failed';
+
+const VerifyEmailContent: React.FC = () => {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [status, setStatus] = useState<Status>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState<string | null>(token ? null : 'This verification link is missing its token.');
+  const [isResending, setIsResending] = useState(false);
+  const [isResent, setIsResent] = useState(false);
+  const hasVerified = useRef(false);
+
+  const { isAuthenticated, refreshUser } = useAuth();
+
+  useEffect(() => {
+    // Tokens are single-use, so guard against the effect running twice
+    if (!token || hasVerified.current) {
+      return;
+    }
+    hasVerified.current = true;
+
+    authService
+      .verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch((error) => {
+        setError(getErrorMessage(error, 'Failed to verify email'));
+        setStatus('failed');
+      });
+  }, [token]);
+
+  // Pick up the new verification flag when the admin is signed in on this device
+  useEffect(() => {
+    if (status === 'verified' && isAuthenticated) {
+      refreshUser().catch(() => undefined);
+    }
+  }, [status, isAuthenticated, refreshUser]);
+
+  const handleResend = async () => {
+    try {
+      setIsResending(true);
+      await authService.resendEmailVerification();
+      setIsResent(true);
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to resend verification email'));
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  if (status === 'verifying') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const isVerified = status === 'verified';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <div className={`mx-auto h-12 w-12 flex items-center justify-center rounded-full ${isVerified ? 'bg-green-100' : 'bg-red-100'}`}>
+            {isVerified ? (
+              <svg className="h-8 w-8 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+            ) : (
+              <svg className="h-8 w-8 text-red-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            )}
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            {isVerified ? 'Email Verified' : 'Verification Failed'}
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {isVerified ? 'Thanks for confirming your email address.' : error}
+          </p>
+
+          {!isVerified && isAuthenticated && (
+            <div className="mt-4">
+              {isResent ? (
+                <p className="text-sm text-green-700">A new verification link is on its way.</p>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handleResend}
+                  disabled={isResending}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                >
+                  {isResending ? 'Sending...' : 'Send a new verification link'}
+                </button>
+              )}
+            </div>
+          )}
+
+          <div className="mt-6">
+            <Link
+              href={isAuthenticated ? '/dashboard' : '/auth/login'}
+              className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              {isAuthenticated ? 'Go to Dashboard' : 'Back to Sign In'}
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+const VerifyEmailPage: React.FC = () => (
+  <Suspense fallback={null}>
+    <VerifyEmailContent />
+  </Suspense>
+);
+
+export default VerifyEmailPage;
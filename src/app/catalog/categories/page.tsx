@@ -0,0 +1,182 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import CategoryForm from '@/components/catalog/CategoryForm';
+import CategoryTree from '@/components/catalog/CategoryTree';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import { getErrorMessage } from '@/lib/apiClient';
+import catalogService, { buildCategoryTree, CategoryDetail, CategoryMove } from '@/lib/catalog';
+
+// The form shows the selected category, or a blank one when adding (optionally under a parent)
+type Selection = { mode: 'edit'; categoryId: string } | { mode: 'create'; parentId: string | null } | null;
+
+const CategoriesPage: React.FC = () => {
+  const { user, isLoading, can } = useAuth();
+  const [categories, setCategories] = useState<CategoryDetail[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [moveError, setMoveError] = useState<string | null>(null);
+  const [isMoving, setIsMoving] = useState(false);
+  const [selection, setSelection] = useState<Selection>(null);
+
+  const canEdit = can('products:write');
+  const tree = useMemo(() => buildCategoryTree(categories ?? []), [categories]);
+  const selectedCategory =
+    selection?.mode === 'edit' ? categories?.find((category) => category.id === selection.categoryId) : undefined;
+
+  useEffect(() => {
+    catalogService
+      .getCategories()
+      .then(setCategories)
+      .catch((error) => setLoadError(getErrorMessage(error, 'Failed to load categories')));
+  }, []);
+
+  const handleMove = async (categoryId: string, move: CategoryMove) => {
+    if (isMoving) {
+      return;
+    }
+
+    try {
+      setIsMoving(true);
+      setMoveError(null);
+      setCategories(await catalogService.moveCategory(categoryId, move));
+    } catch (error) {
+      setMoveError(getErrorMessage(error, 'Failed to move category'));
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  const handleSaved = (saved: CategoryDetail) => {
+    setCategories((prev) => {
+      const list = prev ?? [];
+      return list.some((category) => category.id === saved.id)
+        ? list.map((category) => (category.id === saved.id ? saved : category))
+        : [...list, saved];
+    });
+    setSelection({ mode: 'edit', categoryId: saved.id });
+  };
+
+  const handleDeleted = (categoryId: string) => {
+    // Children move up to the deleted category's parent, so reload rather than patch the list
+    setSelection(null);
+    catalogService
+      .getCategories()
+      .then(setCategories)
+      .catch((error) => {
+        setCategories((prev) => prev?.filter((category) => category.id !== categoryId) ?? null);
+        setMoveError(getErrorMessage(error, 'Failed to reload categories'));
+      });
+  };
+
+  if (isLoading || !user) {
+    return <SessionGate />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader backHref="/products" backLabel="Back to Products" />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="grid grid-cols-1 gap-8 lg:grid-cols-5">
+            <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden self-start lg:col-span-2">
+              <div className="px-6 py-6">
+                <div className="mb-4 flex items-start justify-between gap-4">
+                  <div>
+                    <h2 className="text-2xl font-bold text-gray-900 mb-2">Categories</h2>
+                    <p className="text-sm text-gray-600">
+                      Also see{' '}
+                      <Link href="/catalog/collections" className="text-blue-600 hover:text-blue-500">
+                        smart collections
+                      </Link>
+                    </p>
+                  </div>
+                  {canEdit && (
+                    <button
+                      type="button"
+                      onClick={() => setSelection({ mode: 'create', parentId: null })}
+                      className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700"
+                    >
+                      Add Category
+                    </button>
+                  )}
+                </div>
+
+                {moveError && (
+                  <div className="mb-4 rounded-md bg-red-50 p-4">
+                    <p className="text-sm font-medium text-red-800">{moveError}</p>
+                  </div>
+                )}
+
+                {loadError ? (
+                  <p className="text-sm text-red-600">{loadError}</p>
+                ) : !categories ? (
+                  <div className="flex justify-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                  </div>
+                ) : (
+                  <div className={isMoving ? 'opacity-60 pointer-events-none transition-opacity' : ''}>
+                    <CategoryTree
+                      tree={tree}
+                      categories={categories}
+                      selectedId={selection?.mode === 'edit' ? selection.categoryId : null}
+                      onSelect={(categoryId) => setSelection({ mode: 'edit', categoryId })}
+                      onMove={handleMove}
+                      readOnly={!canEdit}
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden self-start lg:col-span-3">
+              <div className="px-8 py-8">
+                {categories && (selectedCategory || selection?.mode === 'create') ? (
+                  <>
+                    <div className="mb-6 flex items-start justify-between gap-4">
+                      <h3 className="text-lg font-bold text-gray-900">
+                        {selectedCategory ? selectedCategory.name : 'New Category'}
+                      </h3>
+                      {selectedCategory && canEdit && (
+                        <button
+                          type="button"
+                          onClick={() => setSelection({ mode: 'create', parentId: selectedCategory.id })}
+                          className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50"
+                        >
+                          Add Subcategory
+                        </button>
+                      )}
+                    </div>
+                    <CategoryForm
+                      // Remount after a drag-and-drop move so the form never saves a stale parent
+                      key={
+                        selectedCategory
+                          ? `${selectedCategory.id}-${selectedCategory.parentId}`
+                          : `new-${selection?.mode === 'create' ? selection.parentId : ''}`
+                      }
+                      category={selectedCategory}
+                      categories={categories}
+                      defaultParentId={selection?.mode === 'create' ? selection.parentId : null}
+                      readOnly={!canEdit}
+                      onSaved={handleSaved}
+                      onDeleted={handleDeleted}
+                    />
+                  </>
+                ) : (
+                  <p className="py-8 text-center text-sm text-gray-500">
+                    {canEdit ? 'Select a category to edit it, or add a new one.' : 'Select a category to see its details.'}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default CategoriesPage;
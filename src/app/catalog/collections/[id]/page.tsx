@@ -0,0 +1,105 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import CollectionForm from '@/components/catalog/CollectionForm';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import { ApiError, getErrorMessage } from '@/lib/apiClient';
+import catalogService, { Collection } from '@/lib/catalog';
+
+const CollectionDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const { user, isLoading, can } = useAuth();
+  const [collection, setCollection] = useState<Collection | null>(null);
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    catalogService
+      .getCollection(id)
+      .then(setCollection)
+      .catch((error) => setLoadError(ApiError.from(error, 'Failed to load collection')));
+  }, [id]);
+
+  const handleDelete = async () => {
+    if (!collection || !window.confirm(`Delete "${collection.title}"? Its products are not affected.`)) {
+      return;
+    }
+
+    try {
+      setIsDeleting(true);
+      setDeleteError(null);
+      await catalogService.deleteCollection(collection.id);
+      router.push('/catalog/collections');
+    } catch (error) {
+      setDeleteError(getErrorMessage(error, 'Failed to delete collection'));
+      setIsDeleting(false);
+    }
+  };
+
+  if (isLoading || !user || (!collection && !loadError)) {
+    return <SessionGate />;
+  }
+
+  const canEdit = can('products:write');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader backHref="/catalog/collections" backLabel="Back to Collections" />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {loadError || !collection ? (
+            <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+              <div className="px-8 py-8 text-center">
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                  {loadError?.isNotFound ? 'Collection Not Found' : 'Something Went Wrong'}
+                </h2>
+                <p className="text-gray-600">
+                  {loadError?.isNotFound ? 'This collection may have been deleted.' : loadError?.message}
+                </p>
+                <Link href="/catalog/collections" className="mt-6 inline-block font-medium text-blue-600 hover:text-blue-500">
+                  Back to Collections
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+              <div className="px-8 pt-8 flex items-start justify-between">
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-900 mb-2">{collection.title}</h2>
+                  <p className="text-gray-600">
+                    {collection.productCount} products · Last updated {new Date(collection.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={handleDelete}
+                    disabled={isDeleting}
+                    className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                  >
+                    {isDeleting ? 'Deleting...' : 'Delete Collection'}
+                  </button>
+                )}
+              </div>
+              {deleteError && (
+                <div className="mx-8 mt-6 rounded-md bg-red-50 p-4">
+                  <p className="text-sm font-medium text-red-800">{deleteError}</p>
+                </div>
+              )}
+              <CollectionForm key={collection.id} collection={collection} readOnly={!canEdit} onSaved={setCollection} />
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default CollectionDetailPage;
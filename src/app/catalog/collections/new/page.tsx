@@ -0,0 +1,37 @@
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import CollectionForm from '@/components/catalog/CollectionForm';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+
+const NewCollectionPage: React.FC = () => {
+  const { user, isLoading } = useAuth();
+  const router = useRouter();
+
+  if (isLoading || !user) {
+    return <SessionGate />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader backHref="/catalog/collections" backLabel="Back to Collections" />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+            <div className="px-8 pt-8">
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">New Collection</h2>
+              <p className="text-gray-600">Products that match the conditions are added and removed automatically</p>
+            </div>
+            <CollectionForm onSaved={(collection) => router.push(`/catalog/collections/${collection.id}`)} />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default NewCollectionPage;
@@ -0,0 +1,102 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import RequirePermission from '@/components/RequirePermission';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import { getErrorMessage } from '@/lib/apiClient';
+import catalogService, { Collection } from '@/lib/catalog';
+
+const CollectionsPage: React.FC = () => {
+  const { user, isLoading } = useAuth();
+  const [collections, setCollections] = useState<Collection[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    catalogService
+      .getCollections()
+      .then(setCollections)
+      .catch((error) => setError(getErrorMessage(error, 'Failed to load collections')));
+  }, []);
+
+  if (isLoading || !user) {
+    return <SessionGate />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader backHref="/catalog/categories" backLabel="Back to Categories" />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+            <div className="px-8 py-8">
+              <div className="mb-6 flex items-start justify-between">
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-900 mb-2">Smart Collections</h2>
+                  <p className="text-gray-600">Collections that pick up products automatically from rules</p>
+                </div>
+                <RequirePermission permission="products:write">
+                  <Link
+                    href="/catalog/collections/new"
+                    className="inline-flex items-center px-6 py-3 border border-transparent text-sm font-medium rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg"
+                  >
+                    Add Collection
+                  </Link>
+                </RequirePermission>
+              </div>
+
+              {error ? (
+                <div className="rounded-md bg-red-50 p-4">
+                  <p className="text-sm font-medium text-red-800">{error}</p>
+                </div>
+              ) : !collections ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : collections.length === 0 ? (
+                <p className="py-8 text-center text-sm text-gray-500">No collections yet.</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      <th className="py-3">Collection</th>
+                      <th className="py-3">Conditions</th>
+                      <th className="py-3 text-right">Products</th>
+                      <th className="py-3 text-right">Updated</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {collections.map((collection) => (
+                      <tr key={collection.id} className="text-sm">
+                        <td className="py-4">
+                          <Link
+                            href={`/catalog/collections/${collection.id}`}
+                            className="font-medium text-gray-900 hover:text-blue-600"
+                          >
+                            {collection.title}
+                          </Link>
+                          <p className="text-xs text-gray-500">/{collection.slug}</p>
+                        </td>
+                        <td className="py-4 text-gray-700">
+                          {collection.rules.length} {collection.rules.length === 1 ? 'condition' : 'conditions'}
+                          {collection.rules.length > 1 && `, match ${collection.match}`}
+                        </td>
+                        <td className="py-4 text-right text-gray-900">{collection.productCount}</td>
+                        <td className="py-4 text-right text-gray-500">{new Date(collection.updatedAt).toLocaleDateString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default CollectionsPage;
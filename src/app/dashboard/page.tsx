@@ -1,22 +1,80 @@
 'use client';
 
-import React from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { useRouter } from 'next/navigation';
-import { useEffect } from 'react';
+import SessionGate from '@/components/layout/SessionGate';
 import Link from 'next/link';
+import RequirePermission from '@/components/RequirePermission';
+import DateRangePicker from '@/components/dashboard/DateRangePicker';
+import KpiCard from '@/components/dashboard/KpiCard';
+import LowStockWidget from '@/components/dashboard/LowStockWidget';
+import SalesCharts from '@/components/dashboard/SalesCharts';
+import VerificationBanner from '@/components/dashboard/VerificationBanner';
+import { DateRangeSelection, resolveDateRange } from '@/lib/dateRange';
+
+const KPI_REFRESH_INTERVAL_MS = 60 * 1000;
+
+const KPI_CARDS: Omit<React.ComponentProps<typeof KpiCard>, 'range' | 'refreshKey'>[] = [
+  {
+    metric: 'orders',
+    title: 'Total Orders',
+    accentClassName: 'from-blue-500 to-blue-600',
+    icon: (
+      <svg className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 11V7a4 4 0 00-8 0v4M5 9h14l1 12H4L5 9z" />
+      </svg>
+    ),
+  },
+  {
+    metric: 'users',
+    title: 'Total Users',
+    accentClassName: 'from-green-500 to-green-600',
+    icon: (
+      <svg className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197m13.5-9a2.5 2.5 0 11-5 0 2.5 2.5 0 015 0z" />
+      </svg>
+    ),
+  },
+  {
+    metric: 'products',
+    title: 'Total Products',
+    accentClassName: 'from-purple-500 to-purple-600',
+    icon: (
+      <svg className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+      </svg>
+    ),
+  },
+  {
+    metric: 'revenue',
+    title: 'Revenue',
+    format: 'currency',
+    accentClassName: 'from-yellow-500 to-orange-500',
+    icon: (
+      <svg className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1" />
+      </svg>
+    ),
+  },
+];
 
 const DashboardPage: React.FC = () => {
-  const { user, isAuthenticated, isAdmin, logout, isLoading } = useAuth();
-  const router = useRouter();
+  const { user, logout, isLoading } = useAuth();
+  const [rangeSelection, setRangeSelection] = useState<DateRangeSelection>({ preset: '7d' });
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const range = useMemo(() => resolveDateRange(rangeSelection), [rangeSelection]);
 
+  // Re-fetch the KPIs periodically, skipping ticks while the tab is in the background
   useEffect(() => {
-    if (!isLoading && !isAuthenticated) {
-      router.push('/auth/login');
-    } else if (!isLoading && !isAdmin) {
-      router.push('/auth/login');
-    }
-  }, [isAuthenticated, isAdmin, isLoading, router]);
+    const interval = setInterval(() => {
+      if (!document.hidden) {
+        setRefreshKey((key) => key + 1);
+      }
+    }, KPI_REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, []);
 
   const handleLogout = async () => {
     try {
@@ -26,16 +84,8 @@ const DashboardPage: React.FC = () => {
     }
   };
 
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
-      </div>
-    );
-  }
-
-  if (!isAuthenticated || !isAdmin) {
-    return null;
+  if (isLoading || !user) {
+    return <SessionGate />;
   }
 
   return (
@@ -85,6 +135,28 @@ const DashboardPage: React.FC = () => {
                   <p className="text-xs text-gray-500">{user?.email}</p>
                 </div>
               </div>
+              <RequirePermission permission="products:read">
+                <Link
+                  href="/products"
+                  className="group flex items-center space-x-2 text-gray-600 hover:text-blue-600 px-4 py-2 rounded-lg hover:bg-blue-50 transition-all duration-200"
+                >
+                  <svg className="h-5 w-5 group-hover:scale-110 transition-transform duration-200" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+                  </svg>
+                  <span className="font-medium">Products</span>
+                </Link>
+              </RequirePermission>
+              <RequirePermission permission="team:manage">
+                <Link
+                  href="/team"
+                  className="group flex items-center space-x-2 text-gray-600 hover:text-blue-600 px-4 py-2 rounded-lg hover:bg-blue-50 transition-all duration-200"
+                >
+                  <svg className="h-5 w-5 group-hover:scale-110 transition-transform duration-200" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+                  </svg>
+                  <span className="font-medium">Team</span>
+                </Link>
+              </RequirePermission>
               <Link
                 href="/profile"
                 className="group flex items-center space-x-2 text-gray-600 hover:text-blue-600 px-4 py-2 rounded-lg hover:bg-blue-50 transition-all duration-200"
@@ -106,6 +178,7 @@ const DashboardPage: React.FC = () => {
             </div>
           </div>
         </div>
+        <VerificationBanner />
       </header>
 
       {/* Main Content */}
@@ -133,165 +206,130 @@ const DashboardPage: React.FC = () => {
           </div>
 
           {/* Stats Grid */}
-          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4 mb-8">
-            <div className="group bg-white/80 backdrop-blur-sm overflow-hidden shadow-xl rounded-2xl border border-gray-200/50 hover:shadow-2xl transform hover:scale-105 transition-all duration-300">
-              <div className="p-6">
-                <div className="flex items-center">
-                  <div className="flex-shrink-0">
-                    <div className="p-3 bg-gradient-to-r from-blue-500 to-blue-600 rounded-xl shadow-lg group-hover:rotate-12 transition-transform duration-300">
-                      <svg className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 11V7a4 4 0 00-8 0v4M5 9h14l1 12H4L5 9z" />
-                      </svg>
-                    </div>
-                  </div>
-                  <div className="ml-4 flex-1">
-                    <dl>
-                      <dt className="text-sm font-medium text-gray-500 truncate">Total Orders</dt>
-                      <dd className="text-2xl font-bold text-gray-900">0</dd>
-                    </dl>
-                  </div>
-                </div>
-                <div className="mt-4">
-                  <div className="flex items-center text-sm text-green-600">
-                    <svg className="h-4 w-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M5.293 9.707a1 1 0 010-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 01-1.414 1.414L11 7.414V15a1 1 0 11-2 0V7.414L6.707 9.707a1 1 0 01-1.414 0z" clipRule="evenodd" />
-                    </svg>
-                    <span className="font-medium">+0% from last month</span>
-                  </div>
-                </div>
+          <RequirePermission permission="analytics:view">
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 mb-6">
+              <div>
+                <h3 className="text-xl font-bold text-gray-900">Overview</h3>
+                <p className="text-sm text-gray-500">Refreshes automatically every minute</p>
               </div>
+              <DateRangePicker value={rangeSelection} onChange={setRangeSelection} />
             </div>
 
-            <div className="group bg-white/80 backdrop-blur-sm overflow-hidden shadow-xl rounded-2xl border border-gray-200/50 hover:shadow-2xl transform hover:scale-105 transition-all duration-300">
-              <div className="p-6">
-                <div className="flex items-center">
-                  <div className="flex-shrink-0">
-                    <div className="p-3 bg-gradient-to-r from-green-500 to-green-600 rounded-xl shadow-lg group-hover:rotate-12 transition-transform duration-300">
+            {range && (
+              <>
+                <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4 mb-8">
+                  {KPI_CARDS.map((card) => (
+                    <KpiCard key={card.metric} {...card} range={range} refreshKey={refreshKey} />
+                  ))}
+                </div>
+
+                <SalesCharts range={range} refreshKey={refreshKey} />
+              </>
+            )}
+          </RequirePermission>
+
+          <RequirePermission permission="inventory:read">
+            <LowStockWidget refreshKey={refreshKey} />
+          </RequirePermission>
+
+          {/* Quick Actions */}
+          <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 p-8">
+            <h3 className="text-xl font-bold text-gray-900 mb-6">Quick Actions</h3>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              <RequirePermission permission="products:write">
+                <Link
+                  href="/products/new"
+                  className="group block p-6 bg-gradient-to-r from-blue-50 to-indigo-50 hover:from-blue-100 hover:to-indigo-100 rounded-xl border border-blue-200 hover:border-blue-300 transition-all duration-200 text-left"
+                >
+                  <div className="flex items-center space-x-4">
+                    <div className="p-3 bg-blue-500 rounded-lg group-hover:scale-110 transition-transform duration-200">
                       <svg className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197m13.5-9a2.5 2.5 0 11-5 0 2.5 2.5 0 015 0z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
                       </svg>
                     </div>
+                    <div>
+                      <h4 className="font-semibold text-gray-900">Add Product</h4>
+                      <p className="text-sm text-gray-600">Create a new product listing</p>
+                    </div>
                   </div>
-                  <div className="ml-4 flex-1">
-                    <dl>
-                      <dt className="text-sm font-medium text-gray-500 truncate">Total Users</dt>
-                      <dd className="text-2xl font-bold text-gray-900">0</dd>
-                    </dl>
-                  </div>
-                </div>
-                <div className="mt-4">
-                  <div className="flex items-center text-sm text-green-600">
-                    <svg className="h-4 w-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M5.293 9.707a1 1 0 010-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 01-1.414 1.414L11 7.414V15a1 1 0 11-2 0V7.414L6.707 9.707a1 1 0 01-1.414 0z" clipRule="evenodd" />
-                    </svg>
-                    <span className="font-medium">+0% from last month</span>
-                  </div>
-                </div>
-              </div>
-            </div>
+                </Link>
+              </RequirePermission>
 
-            <div className="group bg-white/80 backdrop-blur-sm overflow-hidden shadow-xl rounded-2xl border border-gray-200/50 hover:shadow-2xl transform hover:scale-105 transition-all duration-300">
-              <div className="p-6">
-                <div className="flex items-center">
-                  <div className="flex-shrink-0">
-                    <div className="p-3 bg-gradient-to-r from-purple-500 to-purple-600 rounded-xl shadow-lg group-hover:rotate-12 transition-transform duration-300">
+              <RequirePermission permission="orders:read">
+                <Link
+                  href="/orders"
+                  className="group block p-6 bg-gradient-to-r from-green-50 to-emerald-50 hover:from-green-100 hover:to-emerald-100 rounded-xl border border-green-200 hover:border-green-300 transition-all duration-200 text-left"
+                >
+                  <div className="flex items-center space-x-4">
+                    <div className="p-3 bg-green-500 rounded-lg group-hover:scale-110 transition-transform duration-200">
                       <svg className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                       </svg>
                     </div>
+                    <div>
+                      <h4 className="font-semibold text-gray-900">View Orders</h4>
+                      <p className="text-sm text-gray-600">Manage customer orders</p>
+                    </div>
                   </div>
-                  <div className="ml-4 flex-1">
-                    <dl>
-                      <dt className="text-sm font-medium text-gray-500 truncate">Total Products</dt>
-                      <dd className="text-2xl font-bold text-gray-900">0</dd>
-                    </dl>
-                  </div>
-                </div>
-                <div className="mt-4">
-                  <div className="flex items-center text-sm text-green-600">
-                    <svg className="h-4 w-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M5.293 9.707a1 1 0 010-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 01-1.414 1.414L11 7.414V15a1 1 0 11-2 0V7.414L6.707 9.707a1 1 0 01-1.414 0z" clipRule="evenodd" />
-                    </svg>
-                    <span className="font-medium">+0% from last month</span>
-                  </div>
-                </div>
-              </div>
-            </div>
+                </Link>
+              </RequirePermission>
 
-            <div className="group bg-white/80 backdrop-blur-sm overflow-hidden shadow-xl rounded-2xl border border-gray-200/50 hover:shadow-2xl transform hover:scale-105 transition-all duration-300">
-              <div className="p-6">
-                <div className="flex items-center">
-                  <div className="flex-shrink-0">
-                    <div className="p-3 bg-gradient-to-r from-yellow-500 to-orange-500 rounded-xl shadow-lg group-hover:rotate-12 transition-transform duration-300">
+              <RequirePermission permission="inventory:read">
+                <Link
+                  href="/inventory"
+                  className="group block p-6 bg-gradient-to-r from-yellow-50 to-orange-50 hover:from-yellow-100 hover:to-orange-100 rounded-xl border border-yellow-200 hover:border-yellow-300 transition-all duration-200 text-left"
+                >
+                  <div className="flex items-center space-x-4">
+                    <div className="p-3 bg-orange-500 rounded-lg group-hover:scale-110 transition-transform duration-200">
                       <svg className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
                       </svg>
                     </div>
+                    <div>
+                      <h4 className="font-semibold text-gray-900">Inventory</h4>
+                      <p className="text-sm text-gray-600">Track stock across locations</p>
+                    </div>
                   </div>
-                  <div className="ml-4 flex-1">
-                    <dl>
-                      <dt className="text-sm font-medium text-gray-500 truncate">Revenue</dt>
-                      <dd className="text-2xl font-bold text-gray-900">$0</dd>
-                    </dl>
-                  </div>
-                </div>
-                <div className="mt-4">
-                  <div className="flex items-center text-sm text-green-600">
-                    <svg className="h-4 w-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M5.293 9.707a1 1 0 010-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 01-1.414 1.414L11 7.414V15a1 1 0 11-2 0V7.414L6.707 9.707a1 1 0 01-1.414 0z" clipRule="evenodd" />
-                    </svg>
-                    <span className="font-medium">+0% from last month</span>
-                  </div>
-                </div>
-              </div>
-            </div>
-          </div>
-
-          {/* Quick Actions */}
-          <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 p-8">
-            <h3 className="text-xl font-bold text-gray-900 mb-6">Quick Actions</h3>
-            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
-              <button className="group p-6 bg-gradient-to-r from-blue-50 to-indigo-50 hover:from-blue-100 hover:to-indigo-100 rounded-xl border border-blue-200 hover:border-blue-300 transition-all duration-200 text-left">
-                <div className="flex items-center space-x-4">
-                  <div className="p-3 bg-blue-500 rounded-lg group-hover:scale-110 transition-transform duration-200">
-                    <svg className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-                    </svg>
-                  </div>
-                  <div>
-                    <h4 className="font-semibold text-gray-900">Add Product</h4>
-                    <p className="text-sm text-gray-600">Create a new product listing</p>
-                  </div>
-                </div>
-              </button>
+                </Link>
+              </RequirePermission>
 
-              <button className="group p-6 bg-gradient-to-r from-green-50 to-emerald-50 hover:from-green-100 hover:to-emerald-100 rounded-xl border border-green-200 hover:border-green-300 transition-all duration-200 text-left">
-                <div className="flex items-center space-x-4">
-                  <div className="p-3 bg-green-500 rounded-lg group-hover:scale-110 transition-transform duration-200">
-                    <svg className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                    </svg>
-                  </div>
-                  <div>
-                    <h4 className="font-semibold text-gray-900">View Orders</h4>
-                    <p className="text-sm text-gray-600">Manage customer orders</p>
+              <RequirePermission permission="marketing:read">
+                <Link
+                  href="/marketing/discounts"
+                  className="group block p-6 bg-gradient-to-r from-pink-50 to-rose-50 hover:from-pink-100 hover:to-rose-100 rounded-xl border border-pink-200 hover:border-pink-300 transition-all duration-200 text-left"
+                >
+                  <div className="flex items-center space-x-4">
+                    <div className="p-3 bg-pink-500 rounded-lg group-hover:scale-110 transition-transform duration-200">
+                      <svg className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+                      </svg>
+                    </div>
+                    <div>
+                      <h4 className="font-semibold text-gray-900">Discounts</h4>
+                      <p className="text-sm text-gray-600">Manage codes and promotions</p>
+                    </div>
                   </div>
-                </div>
-              </button>
+                </Link>
+              </RequirePermission>
 
-              <button className="group p-6 bg-gradient-to-r from-purple-50 to-violet-50 hover:from-purple-100 hover:to-violet-100 rounded-xl border border-purple-200 hover:border-purple-300 transition-all duration-200 text-left">
-                <div className="flex items-center space-x-4">
-                  <div className="p-3 bg-purple-500 rounded-lg group-hover:scale-110 transition-transform duration-200">
-                    <svg className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197m13.5-9a2.5 2.5 0 11-5 0 2.5 2.5 0 015 0z" />
-                    </svg>
-                  </div>
-                  <div>
-                    <h4 className="font-semibold text-gray-900">Manage Users</h4>
-                    <p className="text-sm text-gray-600">View and manage users</p>
+              <RequirePermission permission="customers:read">
+                <Link
+                  href="/users"
+                  className="group block p-6 bg-gradient-to-r from-purple-50 to-violet-50 hover:from-purple-100 hover:to-violet-100 rounded-xl border border-purple-200 hover:border-purple-300 transition-all duration-200 text-left"
+                >
+                  <div className="flex items-center space-x-4">
+                    <div className="p-3 bg-purple-500 rounded-lg group-hover:scale-110 transition-transform duration-200">
+                      <svg className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197m13.5-9a2.5 2.5 0 11-5 0 2.5 2.5 0 015 0z" />
+                      </svg>
+                    </div>
+                    <div>
+                      <h4 className="font-semibold text-gray-900">Manage Users</h4>
+                      <p className="text-sm text-gray-600">View and manage users</p>
+                    </div>
                   </div>
-                </div>
-              </button>
+                </Link>
+              </RequirePermission>
             </div>
           </div>
         </div>
@@ -0,0 +1,34 @@
+import Link from 'next/link';
+
+export default function ForbiddenPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-red-100">
+            <svg className="h-8 w-8 text-red-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+            </svg>
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Access Denied
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Your role does not have permission to view this page.
+          </p>
+          <p className="mt-4 text-center text-sm text-gray-500">
+            Ask a super admin to update your role if you need access.
+          </p>
+          <div className="mt-6">
+            <Link
+              href="/dashboard"
+              className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Back to Dashboard
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
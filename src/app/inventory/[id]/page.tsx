@@ -0,0 +1,191 @@
+'use client';
+
+import React, { useState, useEffect, ReactNode } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import InventoryLedger from '@/components/inventory/InventoryLedger';
+import LowStockThresholdForm from '@/components/inventory/LowStockThresholdForm';
+import StockAdjustmentForm from '@/components/inventory/StockAdjustmentForm';
+import StockStatusBadge from '@/components/inventory/StockStatusBadge';
+import StockTransferForm from '@/components/inventory/StockTransferForm';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import { ApiError, getErrorMessage } from '@/lib/apiClient';
+import inventoryService, { getLocationStock, InventoryItem, InventorySettings, Location } from '@/lib/inventory';
+
+const Section: React.FC<{ title: string; children: ReactNode }> = ({ title, children }) => (
+  <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+    <div className="px-6 py-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-4">{title}</h3>
+      {children}
+    </div>
+  </div>
+);
+
+const InventoryItemPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, isLoading, can } = useAuth();
+  const [item, setItem] = useState<InventoryItem | null>(null);
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+  const [locations, setLocations] = useState<Location[] | null>(null);
+  const [settings, setSettings] = useState<InventorySettings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [ledgerKey, setLedgerKey] = useState(0);
+
+  useEffect(() => {
+    inventoryService
+      .getItem(id)
+      .then(setItem)
+      .catch((error) => setLoadError(ApiError.from(error, 'Failed to load inventory item')));
+
+    inventoryService
+      .getLocations()
+      .then(setLocations)
+      .catch((error) => setError(getErrorMessage(error, 'Failed to load locations')));
+
+    inventoryService
+      .getSettings()
+      .then(setSettings)
+      .catch((error) => setError(getErrorMessage(error, 'Failed to load inventory settings')));
+  }, [id]);
+
+  // Stock changed, so the ledger has new entries to show
+  const handleStockChanged = (updated: InventoryItem) => {
+    setItem(updated);
+    setLedgerKey((key) => key + 1);
+  };
+
+  const handleThresholdSave = async (threshold: number | null) => {
+    setItem(await inventoryService.setThreshold(id, threshold));
+  };
+
+  if (isLoading || !user || (!item && !loadError)) {
+    return <SessionGate />;
+  }
+
+  const canEdit = can('inventory:write');
+  // Inactive locations keep their history but no longer take new stock
+  const activeLocations = locations?.filter((location) => location.isActive) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader backHref="/inventory" backLabel="Back to Inventory" />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {loadError || !item ? (
+            <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+              <div className="px-8 py-8 text-center">
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                  {loadError?.isNotFound ? 'Item Not Found' : 'Something Went Wrong'}
+                </h2>
+                <p className="text-gray-600">
+                  {loadError?.isNotFound ? 'This SKU may have been deleted.' : loadError?.message}
+                </p>
+                <Link href="/inventory" className="mt-6 inline-block font-medium text-blue-600 hover:text-blue-500">
+                  Back to Inventory
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 gap-8 lg:grid-cols-3">
+              <div className="space-y-8 lg:col-span-2">
+                <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+                  <div className="px-8 py-8">
+                    <div className="mb-6 flex items-start justify-between">
+                      <div>
+                        <h2 className="text-2xl font-bold text-gray-900 mb-2">{item.sku}</h2>
+                        <p className="text-gray-600">
+                          <Link href={`/products/${item.productId}`} className="hover:text-blue-600">
+                            {item.productTitle}
+                          </Link>
+                          {item.variantTitle && ` · ${item.variantTitle}`}
+                        </p>
+                      </div>
+                      <StockStatusBadge status={item.status} />
+                    </div>
+
+                    {error && (
+                      <div className="mb-6 rounded-md bg-red-50 p-4">
+                        <p className="text-sm font-medium text-red-800">{error}</p>
+                      </div>
+                    )}
+
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead>
+                        <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          <th className="py-3">Location</th>
+                          <th className="py-3 text-right">On Hand</th>
+                          <th className="py-3 text-right">Reserved</th>
+                          <th className="py-3 text-right">Available</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {(locations ?? []).map((location) => {
+                          const stock = getLocationStock(item, location.id);
+
+                          return (
+                            <tr key={location.id} className="text-sm">
+                              <td className="py-3 text-gray-900">
+                                {location.name}
+                                <span className="ml-2 text-xs text-gray-500">{location.code}</span>
+                                {!location.isActive && <span className="ml-2 text-xs text-gray-500">(inactive)</span>}
+                              </td>
+                              <td className="py-3 text-right text-gray-700">{stock.onHand}</td>
+                              <td className="py-3 text-right text-gray-700">{stock.reserved}</td>
+                              <td className="py-3 text-right font-medium text-gray-900">{stock.available}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                      <tfoot>
+                        <tr className="text-sm font-semibold text-gray-900 border-t border-gray-200">
+                          <td className="py-3">Total</td>
+                          <td className="py-3 text-right">{item.totalOnHand}</td>
+                          <td className="py-3 text-right">{item.totalOnHand - item.totalAvailable}</td>
+                          <td className="py-3 text-right">{item.totalAvailable}</td>
+                        </tr>
+                      </tfoot>
+                    </table>
+                  </div>
+                </div>
+
+                <Section title="Stock History">
+                  <InventoryLedger itemId={item.id} locations={locations ?? []} refreshKey={ledgerKey} />
+                </Section>
+              </div>
+
+              <div className="space-y-8">
+                {canEdit && locations && (
+                  <>
+                    <Section title="Adjust Stock">
+                      <StockAdjustmentForm item={item} locations={activeLocations} onAdjusted={handleStockChanged} />
+                    </Section>
+                    <Section title="Transfer Stock">
+                      <StockTransferForm item={item} locations={activeLocations} onTransferred={handleStockChanged} />
+                    </Section>
+                  </>
+                )}
+
+                {settings && (
+                  <Section title="Alerts">
+                    <LowStockThresholdForm
+                      id="lowStockThreshold"
+                      threshold={item.lowStockThreshold}
+                      defaultThreshold={settings.defaultLowStockThreshold}
+                      readOnly={!canEdit}
+                      onSave={handleThresholdSave}
+                    />
+                  </Section>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default InventoryItemPage;
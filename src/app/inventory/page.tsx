@@ -0,0 +1,297 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, Suspense } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import LowStockThresholdForm from '@/components/inventory/LowStockThresholdForm';
+import StockStatusBadge from '@/components/inventory/StockStatusBadge';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import Pagination from '@/components/table/Pagination';
+import SortableHeader from '@/components/table/SortableHeader';
+import { useListQuery } from '@/hooks/useListQuery';
+import { getErrorMessage, PaginatedList } from '@/lib/apiClient';
+import inventoryService, {
+  getLocationStock,
+  InventoryItem,
+  InventoryListParams,
+  InventorySettings,
+  InventorySortField,
+  Location,
+  StockFilter,
+} from '@/lib/inventory';
+
+const PAGE_SIZE = 25;
+
+const SORT_FIELDS: InventorySortField[] = ['sku', 'available', 'updatedAt'];
+
+const STOCK_FILTERS: { value: StockFilter; label: string }[] = [
+  { value: 'low', label: 'Low or out of stock' },
+  { value: 'out', label: 'Out of stock' },
+];
+
+// The list state lives in the URL so filters survive reloads and back navigation
+const parseListParams = (searchParams: URLSearchParams): InventoryListParams => {
+  const sortBy = searchParams.get('sortBy') as InventorySortField | null;
+  const stock = searchParams.get('stock');
+
+  return {
+    page: Math.max(1, Number(searchParams.get('page')) || 1),
+    pageSize: PAGE_SIZE,
+    sortBy: sortBy && SORT_FIELDS.includes(sortBy) ? sortBy : 'sku',
+    sortOrder: searchParams.get('sortOrder') === 'desc' ? 'desc' : 'asc',
+    search: searchParams.get('search') || undefined,
+    locationId: searchParams.get('locationId') || undefined,
+    stock: STOCK_FILTERS.some((filter) => filter.value === stock) ? (stock as StockFilter) : undefined,
+  };
+};
+
+const InventoryList: React.FC<{ locations: Location[] }> = ({ locations }) => {
+  const { searchParams, updateQuery, textInputs, setTextInput } = useListQuery<InventoryListParams>('/inventory');
+  const params = useMemo(() => parseListParams(searchParams), [searchParams]);
+
+  const [result, setResult] = useState<PaginatedList<InventoryItem> | null>(null);
+  const [isFetching, setIsFetching] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsFetching(true);
+    setError(null);
+
+    inventoryService
+      .getInventory(params)
+      .then((list) => {
+        if (!isCancelled) {
+          setResult(list);
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setError(getErrorMessage(error, 'Failed to load inventory'));
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsFetching(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [params]);
+
+  const handleSort = (field: InventorySortField) => {
+    const sortOrder = params.sortBy === field && params.sortOrder === 'asc' ? 'desc' : 'asc';
+    updateQuery({ sortBy: field, sortOrder });
+  };
+
+  // With a location selected the stock columns show that location alone
+  const stockAt = (item: InventoryItem) =>
+    params.locationId
+      ? getLocationStock(item, params.locationId)
+      : { onHand: item.totalOnHand, available: item.totalAvailable };
+
+  const selectClassName =
+    'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <>
+      {/* Filters */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-4 mb-6">
+        <div className="sm:col-span-2">
+          <label htmlFor="inventorySearch" className="sr-only">
+            Search
+          </label>
+          <input
+            id="inventorySearch"
+            type="search"
+            value={textInputs.search ?? ''}
+            onChange={(e) => setTextInput('search', e.target.value)}
+            placeholder="Search by SKU or product"
+            className={selectClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="inventoryLocation" className="sr-only">
+            Location
+          </label>
+          <select
+            id="inventoryLocation"
+            value={params.locationId || ''}
+            onChange={(e) => updateQuery({ locationId: e.target.value })}
+            className={selectClassName}
+          >
+            <option value="">All locations</option>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="inventoryStock" className="sr-only">
+            Stock level
+          </label>
+          <select
+            id="inventoryStock"
+            value={params.stock || ''}
+            onChange={(e) => updateQuery({ stock: e.target.value })}
+            className={selectClassName}
+          >
+            <option value="">All stock levels</option>
+            {STOCK_FILTERS.map((filter) => (
+              <option key={filter.value} value={filter.value}>
+                {filter.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-md bg-red-50 p-4">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      {isFetching && !result ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : result && result.items.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">No inventory matches these filters.</p>
+      ) : result ? (
+        <div className={isFetching ? 'opacity-60 transition-opacity' : ''}>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <SortableHeader field="sku" sortBy={params.sortBy} sortOrder={params.sortOrder} onSort={handleSort}>
+                  SKU
+                </SortableHeader>
+                <th className="py-3">Product</th>
+                <th className="py-3 text-right">On Hand</th>
+                <SortableHeader
+                  field="available"
+                  sortBy={params.sortBy}
+                  sortOrder={params.sortOrder}
+                  onSort={handleSort}
+                  className="text-right"
+                >
+                  Available
+                </SortableHeader>
+                <th className="py-3 pl-6">Status</th>
+                <SortableHeader field="updatedAt" sortBy={params.sortBy} sortOrder={params.sortOrder} onSort={handleSort}>
+                  Updated
+                </SortableHeader>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {result.items.map((item) => {
+                const stock = stockAt(item);
+
+                return (
+                  <tr key={item.id} className="text-sm">
+                    <td className="py-4">
+                      <Link href={`/inventory/${item.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                        {item.sku}
+                      </Link>
+                    </td>
+                    <td className="py-4 text-gray-700">
+                      {item.productTitle}
+                      {item.variantTitle && <p className="text-xs text-gray-500">{item.variantTitle}</p>}
+                    </td>
+                    <td className="py-4 text-right text-gray-700">{stock.onHand}</td>
+                    <td className="py-4 text-right font-medium text-gray-900">{stock.available}</td>
+                    <td className="py-4 pl-6">
+                      <StockStatusBadge status={item.status} />
+                    </td>
+                    <td className="py-4 text-gray-500">{new Date(item.updatedAt).toLocaleDateString()}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <Pagination
+            page={result.page}
+            pageSize={result.pageSize}
+            total={result.total}
+            onPageChange={(page) => updateQuery({ page })}
+          />
+        </div>
+      ) : null}
+    </>
+  );
+};
+
+const InventoryPage: React.FC = () => {
+  const { user, isLoading, can } = useAuth();
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [settings, setSettings] = useState<InventorySettings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    inventoryService
+      .getLocations()
+      .then(setLocations)
+      .catch((error) => setError(getErrorMessage(error, 'Failed to load locations')));
+
+    inventoryService
+      .getSettings()
+      .then(setSettings)
+      .catch((error) => setError(getErrorMessage(error, 'Failed to load inventory settings')));
+  }, []);
+
+  const handleDefaultThresholdSave = async (threshold: number | null) => {
+    setSettings(await inventoryService.updateSettings({ defaultLowStockThreshold: threshold ?? 0 }));
+  };
+
+  if (isLoading || !user) {
+    return <SessionGate />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+            <div className="px-8 py-8">
+              <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-900 mb-2">Inventory</h2>
+                  <p className="text-gray-600">Stock levels by SKU across every location</p>
+                </div>
+                {settings && (
+                  <LowStockThresholdForm
+                    id="defaultLowStockThreshold"
+                    threshold={settings.defaultLowStockThreshold}
+                    readOnly={!can('inventory:write')}
+                    onSave={handleDefaultThresholdSave}
+                  />
+                )}
+              </div>
+
+              {error && (
+                <div className="mb-6 rounded-md bg-red-50 p-4">
+                  <p className="text-sm font-medium text-red-800">{error}</p>
+                </div>
+              )}
+
+              {/* useSearchParams needs a Suspense boundary so the page can still be prerendered */}
+              <Suspense fallback={null}>
+                <InventoryList locations={locations} />
+              </Suspense>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default InventoryPage;
@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useState, useEffect, ReactNode } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import DiscountCodesPanel from '@/components/marketing/DiscountCodesPanel';
+import DiscountForm from '@/components/marketing/DiscountForm';
+import DiscountStatusBadge from '@/components/marketing/DiscountStatusBadge';
+import { ApiError, getErrorMessage } from '@/lib/apiClient';
+import discountService, { describeDiscount, Discount } from '@/lib/discounts';
+import { formatCurrency } from '@/lib/format';
+
+const Section: React.FC<{ title: string; children: ReactNode }> = ({ title, children }) => (
+  <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+    <div className="px-6 py-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-4">{title}</h3>
+      {children}
+    </div>
+  </div>
+);
+
+const Stat: React.FC<{ label: string; value: ReactNode }> = ({ label, value }) => (
+  <div className="rounded-lg border border-gray-200 bg-gray-50 p-4">
+    <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</p>
+    <p className="mt-1 text-lg font-semibold text-gray-900">{value}</p>
+  </div>
+);
+
+const DiscountDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const { user, isLoading, can } = useAuth();
+  const [discount, setDiscount] = useState<Discount | null>(null);
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isToggling, setIsToggling] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    discountService
+      .getDiscount(id)
+      .then(setDiscount)
+      .catch((error) => setLoadError(ApiError.from(error, 'Failed to load discount')));
+  }, [id]);
+
+  // Adding or removing codes changes the code count and totals shown above the form
+  const handleCodesChanged = () => {
+    discountService
+      .getDiscount(id)
+      .then(setDiscount)
+      .catch((error) => setActionError(getErrorMessage(error, 'Failed to refresh discount')));
+  };
+
+  const handleToggle = async () => {
+    if (!discount) {
+      return;
+    }
+
+    try {
+      setIsToggling(true);
+      setActionError(null);
+      setDiscount(await discountService.setEnabled(discount.id, !discount.isEnabled));
+    } catch (error) {
+      setActionError(getErrorMessage(error, 'Failed to update discount'));
+    } finally {
+      setIsToggling(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (
+      !discount ||
+      !window.confirm(`Delete "${discount.title}"? Its codes stop working; orders that used it keep their discount.`)
+    ) {
+      return;
+    }
+
+    try {
+      setIsDeleting(true);
+      setActionError(null);
+      await discountService.deleteDiscount(discount.id);
+      router.push('/marketing/discounts');
+    } catch (error) {
+      setActionError(getErrorMessage(error, 'Failed to delete discount'));
+      setIsDeleting(false);
+    }
+  };
+
+  if (isLoading || !user || (!discount && !loadError)) {
+    return <SessionGate />;
+  }
+
+  const canEdit = can('marketing:write');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader backHref="/marketing/discounts" backLabel="Back to Discounts" />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {loadError || !discount ? (
+            <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+              <div className="px-8 py-8 text-center">
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                  {loadError?.isNotFound ? 'Discount Not Found' : 'Something Went Wrong'}
+                </h2>
+                <p className="text-gray-600">
+                  {loadError?.isNotFound ? 'This discount may have been deleted.' : loadError?.message}
+                </p>
+                <Link href="/marketing/discounts" className="mt-6 inline-block font-medium text-blue-600 hover:text-blue-500">
+                  Back to Discounts
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+                <div className="px-8 pt-8 flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+                  <div>
+                    <div className="flex items-center gap-3 mb-2">
+                      <h2 className="text-2xl font-bold text-gray-900">{discount.title}</h2>
+                      <DiscountStatusBadge status={discount.status} />
+                    </div>
+                    <p className="text-gray-600">{describeDiscount(discount)}</p>
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center space-x-4">
+                      <button
+                        type="button"
+                        onClick={handleToggle}
+                        disabled={isToggling}
+                        className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50 disabled:opacity-50"
+                      >
+                        {isToggling ? 'Saving...' : discount.isEnabled ? 'Disable' : 'Enable'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={handleDelete}
+                        disabled={isDeleting}
+                        className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                      >
+                        {isDeleting ? 'Deleting...' : 'Delete Discount'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {actionError && (
+                  <div className="mx-8 mt-6 rounded-md bg-red-50 p-4">
+                    <p className="text-sm font-medium text-red-800">{actionError}</p>
+                  </div>
+                )}
+
+                <div className="px-8 pt-6 grid grid-cols-2 gap-4 sm:grid-cols-4">
+                  <Stat
+                    label="Orders"
+                    value={discount.usageLimit !== null ? `${discount.usage.orders} / ${discount.usageLimit}` : discount.usage.orders}
+                  />
+                  <Stat label="Customers" value={discount.usage.customers} />
+                  <Stat label="Discount Given" value={formatCurrency(discount.usage.discountTotal)} />
+                  <Stat label="Revenue" value={formatCurrency(discount.usage.revenue)} />
+                </div>
+
+                <DiscountForm key={discount.id} discount={discount} readOnly={!canEdit} onSaved={setDiscount} />
+              </div>
+
+              {discount.method === 'code' && (
+                <Section title={`Codes (${discount.codeCount})`}>
+                  <DiscountCodesPanel discountId={discount.id} readOnly={!canEdit} onChange={handleCodesChanged} />
+                </Section>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default DiscountDetailPage;
@@ -0,0 +1,295 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, Suspense } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import RequirePermission from '@/components/RequirePermission';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import DiscountStatusBadge from '@/components/marketing/DiscountStatusBadge';
+import Pagination from '@/components/table/Pagination';
+import SortableHeader from '@/components/table/SortableHeader';
+import { useListQuery } from '@/hooks/useListQuery';
+import { getErrorMessage, PaginatedList } from '@/lib/apiClient';
+import discountService, {
+  describeDiscount,
+  Discount,
+  DISCOUNT_METHOD_LABELS,
+  DISCOUNT_METHODS,
+  DISCOUNT_STATUS_LABELS,
+  DISCOUNT_STATUSES,
+  DISCOUNT_TYPE_LABELS,
+  DISCOUNT_TYPES,
+  DiscountListParams,
+  DiscountMethod,
+  DiscountSortField,
+  DiscountStatus,
+  DiscountType,
+} from '@/lib/discounts';
+
+const PAGE_SIZE = 25;
+
+const SORT_FIELDS: DiscountSortField[] = ['title', 'startsAt', 'usage'];
+
+const pick = <T extends string>(value: string | null, allowed: readonly T[]): T | undefined =>
+  allowed.includes(value as T) ? (value as T) : undefined;
+
+// The list state lives in the URL so filters survive reloads and back navigation
+const parseListParams = (searchParams: URLSearchParams): DiscountListParams => {
+  const sortBy = searchParams.get('sortBy') as DiscountSortField | null;
+
+  return {
+    page: Math.max(1, Number(searchParams.get('page')) || 1),
+    pageSize: PAGE_SIZE,
+    sortBy: sortBy && SORT_FIELDS.includes(sortBy) ? sortBy : 'startsAt',
+    sortOrder: searchParams.get('sortOrder') === 'asc' ? 'asc' : 'desc',
+    search: searchParams.get('search') || undefined,
+    status: pick<DiscountStatus>(searchParams.get('status'), DISCOUNT_STATUSES),
+    type: pick<DiscountType>(searchParams.get('type'), DISCOUNT_TYPES),
+    method: pick<DiscountMethod>(searchParams.get('method'), DISCOUNT_METHODS),
+  };
+};
+
+const formatSchedule = (discount: Discount) => {
+  const startsAt = new Date(discount.startsAt).toLocaleDateString();
+  return discount.endsAt ? `${startsAt} – ${new Date(discount.endsAt).toLocaleDateString()}` : `From ${startsAt}`;
+};
+
+const DiscountList: React.FC = () => {
+  const { searchParams, updateQuery, textInputs, setTextInput } = useListQuery<DiscountListParams>('/marketing/discounts');
+  const params = useMemo(() => parseListParams(searchParams), [searchParams]);
+
+  const [result, setResult] = useState<PaginatedList<Discount> | null>(null);
+  const [isFetching, setIsFetching] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsFetching(true);
+    setError(null);
+
+    discountService
+      .getDiscounts(params)
+      .then((list) => {
+        if (!isCancelled) {
+          setResult(list);
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setError(getErrorMessage(error, 'Failed to load discounts'));
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsFetching(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [params]);
+
+  const handleSort = (field: DiscountSortField) => {
+    const sortOrder = params.sortBy === field && params.sortOrder === 'asc' ? 'desc' : 'asc';
+    updateQuery({ sortBy: field, sortOrder });
+  };
+
+  const selectClassName =
+    'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <>
+      {/* Filters */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-5 mb-6">
+        <div className="sm:col-span-2">
+          <label htmlFor="discountSearch" className="sr-only">
+            Search
+          </label>
+          <input
+            id="discountSearch"
+            type="search"
+            value={textInputs.search ?? ''}
+            onChange={(e) => setTextInput('search', e.target.value)}
+            placeholder="Search by title or code"
+            className={selectClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="discountStatus" className="sr-only">
+            Status
+          </label>
+          <select
+            id="discountStatus"
+            value={params.status || ''}
+            onChange={(e) => updateQuery({ status: e.target.value })}
+            className={selectClassName}
+          >
+            <option value="">All statuses</option>
+            {DISCOUNT_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {DISCOUNT_STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="discountType" className="sr-only">
+            Type
+          </label>
+          <select
+            id="discountType"
+            value={params.type || ''}
+            onChange={(e) => updateQuery({ type: e.target.value })}
+            className={selectClassName}
+          >
+            <option value="">All types</option>
+            {DISCOUNT_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {DISCOUNT_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="discountMethod" className="sr-only">
+            Method
+          </label>
+          <select
+            id="discountMethod"
+            value={params.method || ''}
+            onChange={(e) => updateQuery({ method: e.target.value })}
+            className={selectClassName}
+          >
+            <option value="">Codes and automatic</option>
+            {DISCOUNT_METHODS.map((method) => (
+              <option key={method} value={method}>
+                {DISCOUNT_METHOD_LABELS[method]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-md bg-red-50 p-4">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      {isFetching && !result ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : result && result.items.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">No discounts match these filters.</p>
+      ) : result ? (
+        <div className={isFetching ? 'opacity-60 transition-opacity' : ''}>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <SortableHeader field="title" sortBy={params.sortBy} sortOrder={params.sortOrder} onSort={handleSort}>
+                  Discount
+                </SortableHeader>
+                <th className="py-3">Method</th>
+                <th className="py-3">Status</th>
+                <SortableHeader field="startsAt" sortBy={params.sortBy} sortOrder={params.sortOrder} onSort={handleSort}>
+                  Schedule
+                </SortableHeader>
+                <SortableHeader
+                  field="usage"
+                  sortBy={params.sortBy}
+                  sortOrder={params.sortOrder}
+                  onSort={handleSort}
+                  className="text-right"
+                >
+                  Uses
+                </SortableHeader>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {result.items.map((discount) => (
+                <tr key={discount.id} className="text-sm">
+                  <td className="py-4">
+                    <Link href={`/marketing/discounts/${discount.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                      {discount.title}
+                    </Link>
+                    <p className="text-xs text-gray-500">{describeDiscount(discount)}</p>
+                  </td>
+                  <td className="py-4 text-gray-700">
+                    {DISCOUNT_METHOD_LABELS[discount.method]}
+                    {discount.method === 'code' && (
+                      <p className="text-xs text-gray-500">
+                        {discount.codeCount} {discount.codeCount === 1 ? 'code' : 'codes'}
+                      </p>
+                    )}
+                  </td>
+                  <td className="py-4">
+                    <DiscountStatusBadge status={discount.status} />
+                  </td>
+                  <td className="py-4 text-gray-500">{formatSchedule(discount)}</td>
+                  <td className="py-4 text-right text-gray-900">
+                    {discount.usage.orders}
+                    {discount.usageLimit !== null && <span className="text-gray-500"> / {discount.usageLimit}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <Pagination
+            page={result.page}
+            pageSize={result.pageSize}
+            total={result.total}
+            onPageChange={(page) => updateQuery({ page })}
+          />
+        </div>
+      ) : null}
+    </>
+  );
+};
+
+const DiscountsPage: React.FC = () => {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading || !user) {
+    return <SessionGate />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+            <div className="px-8 py-8">
+              <div className="mb-6 flex items-start justify-between">
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-900 mb-2">Discounts</h2>
+                  <p className="text-gray-600">Discount codes and automatic promotions</p>
+                </div>
+                <RequirePermission permission="marketing:write">
+                  <Link
+                    href="/marketing/discounts/new"
+                    className="inline-flex items-center px-6 py-3 border border-transparent text-sm font-medium rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg"
+                  >
+                    Add Discount
+                  </Link>
+                </RequirePermission>
+              </div>
+
+              {/* useSearchParams needs a Suspense boundary so the page can still be prerendered */}
+              <Suspense fallback={null}>
+                <DiscountList />
+              </Suspense>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default DiscountsPage;
@@ -0,0 +1,356 @@
+'use client';
+
+import React, { useState, useEffect, ReactNode } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import AddressLines from '@/components/orders/AddressLines';
+import CancelOrderForm from '@/components/orders/CancelOrderForm';
+import FulfillmentForm from '@/components/orders/FulfillmentForm';
+import OrderFulfillments from '@/components/orders/OrderFulfillments';
+import OrderNotes from '@/components/orders/OrderNotes';
+import OrderReturns from '@/components/orders/OrderReturns';
+import OrderStatusBadge from '@/components/orders/OrderStatusBadge';
+import OrderTimeline from '@/components/orders/OrderTimeline';
+import PaymentStatusBadge from '@/components/orders/PaymentStatusBadge';
+import RefundForm from '@/components/orders/RefundForm';
+import { ApiError } from '@/lib/apiClient';
+import { formatCurrency } from '@/lib/format';
+import orderService, {
+  CANCEL_REASON_LABELS,
+  canCancel,
+  canFulfill,
+  canRefund,
+  Order,
+  PaymentTransaction,
+} from '@/lib/orders';
+
+const TRANSACTION_KIND_LABELS: Record<PaymentTransaction['kind'], string> = {
+  authorization: 'Authorization',
+  capture: 'Capture',
+  refund: 'Refund',
+  void: 'Void',
+};
+
+const TRANSACTION_STATUS_STYLES: Record<PaymentTransaction['status'], string> = {
+  pending: 'text-yellow-700',
+  success: 'text-green-700',
+  failure: 'text-red-700',
+};
+
+// Only one action form is open at a time
+type ActionPanel = 'fulfill' | 'refund' | 'cancel';
+
+const Section: React.FC<{ title: string; children: ReactNode }> = ({ title, children }) => (
+  <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+    <div className="px-6 py-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-4">{title}</h3>
+      {children}
+    </div>
+  </div>
+);
+
+const OrderDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, isLoading, can } = useAuth();
+  const [order, setOrder] = useState<Order | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [activePanel, setActivePanel] = useState<ActionPanel | null>(null);
+
+  useEffect(() => {
+    orderService
+      .getOrder(id)
+      .then(setOrder)
+      .catch((error) => setError(ApiError.from(error, 'Failed to load order')));
+  }, [id]);
+
+  if (isLoading || !user || (!order && !error)) {
+    return <SessionGate />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader backHref="/orders" backLabel="Back to Orders" />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {error || !order ? (
+            <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+              <div className="px-8 py-8 text-center">
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                  {error?.isNotFound ? 'Order Not Found' : 'Something Went Wrong'}
+                </h2>
+                <p className="text-gray-600">{error?.isNotFound ? 'This order may have been deleted.' : error?.message}</p>
+                <Link href="/orders" className="mt-6 inline-block font-medium text-blue-600 hover:text-blue-500">
+                  Back to Orders
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-900 mb-2">Order #{order.number}</h2>
+                  <p className="text-gray-600">Placed {new Date(order.createdAt).toLocaleString()}</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <OrderStatusBadge status={order.status} />
+                  <PaymentStatusBadge status={order.paymentStatus} />
+                  <Link
+                    href={`/orders/packing-slips?ids=${order.id}`}
+                    target="_blank"
+                    className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50"
+                  >
+                    Packing Slip
+                  </Link>
+                  {can('orders:write') && !activePanel && (
+                    <>
+                      {canCancel(order) && (
+                        <button
+                          type="button"
+                          onClick={() => setActivePanel('cancel')}
+                          className="px-4 py-2 text-sm font-medium rounded-lg text-red-600 border border-red-200 hover:bg-red-50"
+                        >
+                          Cancel Order
+                        </button>
+                      )}
+                      {canRefund(order) && (
+                        <button
+                          type="button"
+                          onClick={() => setActivePanel('refund')}
+                          className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50"
+                        >
+                          Refund
+                        </button>
+                      )}
+                      {canFulfill(order) && (
+                        <button
+                          type="button"
+                          onClick={() => setActivePanel('fulfill')}
+                          className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700"
+                        >
+                          Fulfill Items
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {order.status === 'cancelled' && order.cancelReason && (
+                <div className="rounded-md bg-gray-100 p-4">
+                  <p className="text-sm text-gray-700">
+                    Cancelled: <span className="font-medium">{CANCEL_REASON_LABELS[order.cancelReason]}</span>
+                  </p>
+                </div>
+              )}
+
+              {activePanel === 'fulfill' && (
+                <Section title="Fulfill Items">
+                  <FulfillmentForm
+                    order={order}
+                    onFulfilled={(updated) => {
+                      setOrder(updated);
+                      setActivePanel(null);
+                    }}
+                    onCancel={() => setActivePanel(null)}
+                  />
+                </Section>
+              )}
+
+              {activePanel === 'refund' && (
+                <Section title="Refund">
+                  <RefundForm
+                    order={order}
+                    onRefunded={(updated) => {
+                      setOrder(updated);
+                      setActivePanel(null);
+                    }}
+                    onCancel={() => setActivePanel(null)}
+                  />
+                </Section>
+              )}
+
+              {activePanel === 'cancel' && (
+                <Section title="Cancel Order">
+                  <CancelOrderForm
+                    order={order}
+                    onCancelled={(updated) => {
+                      setOrder(updated);
+                      setActivePanel(null);
+                    }}
+                    onClose={() => setActivePanel(null)}
+                  />
+                </Section>
+              )}
+
+              <div className="grid grid-cols-1 gap-8 lg:grid-cols-3">
+                <div className="space-y-8 lg:col-span-2">
+                  <Section title="Items">
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead>
+                          <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            <th className="py-3 pr-3">Product</th>
+                            <th className="py-3 pr-3 text-right">Price</th>
+                            <th className="py-3 pr-3 text-right">Qty</th>
+                            <th className="py-3 text-right">Total</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {order.lineItems.map((item) => (
+                            <tr key={item.id} className="text-sm">
+                              <td className="py-4 pr-3">
+                                {item.productId && can('products:read') ? (
+                                  <Link
+                                    href={`/products/${item.productId}`}
+                                    className="font-medium text-gray-900 hover:text-blue-600"
+                                  >
+                                    {item.title}
+                                  </Link>
+                                ) : (
+                                  <span className="font-medium text-gray-900">{item.title}</span>
+                                )}
+                                <p className="text-xs text-gray-500">
+                                  {[item.variantTitle, `SKU ${item.sku}`].filter(Boolean).join(' · ')}
+                                </p>
+                              </td>
+                              <td className="py-4 pr-3 text-right text-gray-700">{formatCurrency(item.unitPrice)}</td>
+                              <td className="py-4 pr-3 text-right text-gray-700">
+                                {item.quantity}
+                                {item.fulfilledQuantity > 0 && (
+                                  <p className="text-xs text-gray-500">{item.fulfilledQuantity} fulfilled</p>
+                                )}
+                                {item.refundedQuantity > 0 && (
+                                  <p className="text-xs text-orange-600">{item.refundedQuantity} refunded</p>
+                                )}
+                              </td>
+                              <td className="py-4 text-right text-gray-900">{formatCurrency(item.total)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+
+                    <dl className="mt-6 ml-auto max-w-xs space-y-2 text-sm">
+                      <div className="flex justify-between">
+                        <dt className="text-gray-600">Subtotal</dt>
+                        <dd className="text-gray-900">{formatCurrency(order.subtotal)}</dd>
+                      </div>
+                      {order.discountTotal > 0 && (
+                        <div className="flex justify-between">
+                          <dt className="text-gray-600">Discounts</dt>
+                          <dd className="text-gray-900">−{formatCurrency(order.discountTotal)}</dd>
+                        </div>
+                      )}
+                      <div className="flex justify-between">
+                        <dt className="text-gray-600">Shipping</dt>
+                        <dd className="text-gray-900">{formatCurrency(order.shippingTotal)}</dd>
+                      </div>
+                      <div className="flex justify-between">
+                        <dt className="text-gray-600">Tax</dt>
+                        <dd className="text-gray-900">{formatCurrency(order.taxTotal)}</dd>
+                      </div>
+                      <div className="flex justify-between border-t border-gray-200 pt-2 font-semibold">
+                        <dt className="text-gray-900">Total</dt>
+                        <dd className="text-gray-900">{formatCurrency(order.total)}</dd>
+                      </div>
+                      {order.refundedTotal > 0 && (
+                        <div className="flex justify-between text-orange-700">
+                          <dt>Refunded</dt>
+                          <dd>−{formatCurrency(order.refundedTotal)}</dd>
+                        </div>
+                      )}
+                    </dl>
+                  </Section>
+
+                  <Section title="Fulfillment">
+                    <OrderFulfillments order={order} canEdit={can('orders:write')} onUpdated={setOrder} />
+                  </Section>
+
+                  <Section title="Returns">
+                    <OrderReturns order={order} canEdit={can('orders:write')} />
+                  </Section>
+
+                  <Section title="Payments">
+                    {order.transactions.length === 0 ? (
+                      <p className="text-sm text-gray-500">No payment transactions.</p>
+                    ) : (
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead>
+                          <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            <th className="py-3 pr-3">Type</th>
+                            <th className="py-3 pr-3">Gateway</th>
+                            <th className="py-3 pr-3">Date</th>
+                            <th className="py-3 text-right">Amount</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {order.transactions.map((transaction) => (
+                            <tr key={transaction.id} className="text-sm">
+                              <td className="py-3 pr-3">
+                                <span className="text-gray-900">{TRANSACTION_KIND_LABELS[transaction.kind]}</span>
+                                <span className={`ml-2 text-xs font-medium ${TRANSACTION_STATUS_STYLES[transaction.status]}`}>
+                                  {transaction.status}
+                                </span>
+                              </td>
+                              <td className="py-3 pr-3 text-gray-700">
+                                {transaction.gateway}
+                                {transaction.reference && (
+                                  <p className="text-xs text-gray-500 font-mono">{transaction.reference}</p>
+                                )}
+                              </td>
+                              <td className="py-3 pr-3 text-gray-500">{new Date(transaction.createdAt).toLocaleString()}</td>
+                              <td className="py-3 text-right text-gray-900">
+                                {transaction.kind === 'refund' ? '−' : ''}
+                                {formatCurrency(transaction.amount)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </Section>
+
+                  <Section title="Timeline">
+                    <OrderTimeline events={order.timeline} />
+                  </Section>
+                </div>
+
+                <div className="space-y-8">
+                  <Section title="Customer">
+                    <p className="text-sm font-medium text-gray-900">{order.customer.name}</p>
+                    <a href={`mailto:${order.customer.email}`} className="text-sm text-blue-600 hover:text-blue-500">
+                      {order.customer.email}
+                    </a>
+                  </Section>
+
+                  <Section title="Shipping Address">
+                    <AddressLines address={order.shippingAddress} />
+                  </Section>
+
+                  <Section title="Billing Address">
+                    <AddressLines address={order.billingAddress} />
+                  </Section>
+
+                  <Section title="Internal Notes">
+                    <OrderNotes
+                      orderId={order.id}
+                      notes={order.notes}
+                      canAdd={can('orders:write')}
+                      onAdded={(note) => setOrder((prev) => (prev ? { ...prev, notes: [...prev.notes, note] } : prev))}
+                    />
+                  </Section>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default OrderDetailPage;
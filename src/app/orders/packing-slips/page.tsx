@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import SessionGate from '@/components/layout/SessionGate';
+import { getErrorMessage } from '@/lib/apiClient';
+import orderService, { Address, Order } from '@/lib/orders';
+
+// Keeps a single print job to a size the browser can lay out comfortably
+const MAX_PACKING_SLIPS = 50;
+
+const SlipAddress: React.FC<{ title: string; address: Address | null }> = ({ title, address }) => (
+  <div>
+    <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1">{title}</h3>
+    {address ? (
+      <address className="not-italic text-sm text-gray-900">
+        <p className="font-medium">{address.name}</p>
+        {address.company && <p>{address.company}</p>}
+        <p>{address.line1}</p>
+        {address.line2 && <p>{address.line2}</p>}
+        <p>{[address.city, address.region, address.postalCode].filter(Boolean).join(', ')}</p>
+        <p>{address.country}</p>
+      </address>
+    ) : (
+      <p className="text-sm text-gray-500">Not provided</p>
+    )}
+  </div>
+);
+
+const PackingSlip: React.FC<{ order: Order }> = ({ order }) => (
+  <section className="bg-white p-10 shadow-xl rounded-2xl print:shadow-none print:rounded-none print:p-0">
+    <div className="flex items-start justify-between border-b border-gray-200 pb-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Packing Slip</h2>
+        <p className="text-sm text-gray-600">Order #{order.number}</p>
+      </div>
+      <p className="text-sm text-gray-600">{new Date(order.createdAt).toLocaleDateString()}</p>
+    </div>
+
+    <div className="grid grid-cols-2 gap-8 py-6">
+      <SlipAddress title="Ship to" address={order.shippingAddress} />
+      <SlipAddress title="Bill to" address={order.billingAddress} />
+    </div>
+
+    <table className="min-w-full divide-y divide-gray-300">
+      <thead>
+        <tr className="text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">
+          <th className="py-2 pr-3 w-8"></th>
+          <th className="py-2 pr-3">Item</th>
+          <th className="py-2 pr-3">SKU</th>
+          <th className="py-2 text-right">Qty</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {order.lineItems.map((item) => (
+          <tr key={item.id} className="text-sm">
+            <td className="py-3 pr-3">
+              {/* Tick box for the packer */}
+              <span className="block h-4 w-4 border border-gray-400"></span>
+            </td>
+            <td className="py-3 pr-3 text-gray-900">
+              {item.title}
+              {item.variantTitle && <p className="text-xs text-gray-500">{item.variantTitle}</p>}
+            </td>
+            <td className="py-3 pr-3 font-mono text-gray-700">{item.sku}</td>
+            <td className="py-3 text-right text-gray-900">{item.quantity}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    <p className="mt-8 text-xs text-gray-500">
+      {order.lineItems.reduce((total, item) => total + item.quantity, 0)} items. Contact us if anything is missing or damaged.
+    </p>
+  </section>
+);
+
+const PackingSlips: React.FC = () => {
+  const searchParams = useSearchParams();
+  const orderIds = useMemo(
+    () => (searchParams.get('ids') ?? '').split(',').filter(Boolean).slice(0, MAX_PACKING_SLIPS),
+    [searchParams]
+  );
+
+  const [orders, setOrders] = useState<Order[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (orderIds.length === 0) {
+      setError('No orders selected.');
+      return;
+    }
+
+    Promise.all(orderIds.map((orderId) => orderService.getOrder(orderId)))
+      .then(setOrders)
+      .catch((error) => setError(getErrorMessage(error, 'Failed to load orders')));
+  }, [orderIds]);
+
+  if (error) {
+    return (
+      <div className="rounded-md bg-red-50 p-4">
+        <p className="text-sm font-medium text-red-800">{error}</p>
+      </div>
+    );
+  }
+
+  if (!orders) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="mb-8 flex items-center justify-between print:hidden">
+        <p className="text-gray-600">
+          {orders.length} packing slip{orders.length === 1 ? '' : 's'}. Use your browser&apos;s print dialog to print or save as PDF.
+        </p>
+        <button
+          type="button"
+          onClick={() => window.print()}
+          className="inline-flex items-center px-6 py-3 border border-transparent text-sm font-medium rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg"
+        >
+          Print
+        </button>
+      </div>
+
+      <div className="space-y-8 print:space-y-0">
+        {orders.map((order) => (
+          // Each slip starts on a new sheet
+          <div key={order.id} className="break-after-page last:break-after-auto">
+            <PackingSlip order={order} />
+          </div>
+        ))}
+      </div>
+    </>
+  );
+};
+
+// Printable packing slips for one or more orders, e.g. /orders/packing-slips?ids=a,b
+const PackingSlipsPage: React.FC = () => {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading || !user) {
+    return <SessionGate />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 print:bg-white">
+      <main className="max-w-3xl mx-auto py-8 px-4 print:max-w-none print:p-0">
+        {/* useSearchParams needs a Suspense boundary so the page can still be prerendered */}
+        <Suspense fallback={null}>
+          <PackingSlips />
+        </Suspense>
+      </main>
+    </div>
+  );
+};
+
+export default PackingSlipsPage;
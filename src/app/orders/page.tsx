@@ -0,0 +1,527 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, Suspense } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import BulkFulfillPanel from '@/components/orders/BulkFulfillPanel';
+import OrderStatusBadge from '@/components/orders/OrderStatusBadge';
+import PaymentStatusBadge from '@/components/orders/PaymentStatusBadge';
+import RequirePermission from '@/components/RequirePermission';
+import ExportButton from '@/components/table/ExportButton';
+import Pagination from '@/components/table/Pagination';
+import SortableHeader from '@/components/table/SortableHeader';
+import { useListQuery } from '@/hooks/useListQuery';
+import { getErrorMessage, PaginatedList } from '@/lib/apiClient';
+import { ExportColumn, ExportScope } from '@/lib/dataExport';
+import { parseDateInputValue } from '@/lib/dateRange';
+import { openBlob, saveBlob } from '@/lib/download';
+import { formatCurrency } from '@/lib/format';
+import orderService, {
+  BulkFulfillResult,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUSES,
+  OrderListParams,
+  OrderSortField,
+  OrderStatus,
+  OrderSummary,
+  PAYMENT_STATUS_LABELS,
+  PAYMENT_STATUSES,
+  PaymentStatus,
+} from '@/lib/orders';
+
+const PAGE_SIZE = 25;
+const SORT_FIELDS: OrderSortField[] = ['number', 'createdAt', 'total'];
+
+// Filters typed into text boxes are applied once typing pauses
+const TEXT_FILTER_KEYS: (keyof OrderListParams)[] = ['customer', 'minTotal', 'maxTotal'];
+
+const EXPORT_COLUMNS: ExportColumn<OrderSummary>[] = [
+  { key: 'number', label: 'Order', value: (order) => order.number },
+  { key: 'createdAt', label: 'Placed', value: (order) => order.createdAt },
+  { key: 'customerName', label: 'Customer', value: (order) => order.customer.name },
+  { key: 'customerEmail', label: 'Email', value: (order) => order.customer.email },
+  { key: 'status', label: 'Status', value: (order) => ORDER_STATUS_LABELS[order.status] },
+  { key: 'paymentStatus', label: 'Payment', value: (order) => PAYMENT_STATUS_LABELS[order.paymentStatus] },
+  { key: 'itemCount', label: 'Items', value: (order) => order.itemCount },
+  { key: 'total', label: 'Total', value: (order) => order.total },
+];
+
+const parseAmount = (value: string | null): string | undefined =>
+  value && Number.isFinite(Number(value)) && Number(value) >= 0 ? value : undefined;
+
+const parseDate = (value: string | null): string | undefined =>
+  value && parseDateInputValue(value) ? value : undefined;
+
+// The list state lives in the URL so filters survive reloads and back navigation
+const parseListParams = (searchParams: URLSearchParams): OrderListParams => {
+  const sortBy = searchParams.get('sortBy') as OrderSortField | null;
+  const status = searchParams.get('status') as OrderStatus | null;
+  const paymentStatus = searchParams.get('paymentStatus') as PaymentStatus | null;
+
+  return {
+    page: Math.max(1, Number(searchParams.get('page')) || 1),
+    pageSize: PAGE_SIZE,
+    sortBy: sortBy && SORT_FIELDS.includes(sortBy) ? sortBy : 'createdAt',
+    sortOrder: searchParams.get('sortOrder') === 'asc' ? 'asc' : 'desc',
+    status: status && ORDER_STATUSES.includes(status) ? status : undefined,
+    paymentStatus: paymentStatus && PAYMENT_STATUSES.includes(paymentStatus) ? paymentStatus : undefined,
+    customer: searchParams.get('customer') || undefined,
+    from: parseDate(searchParams.get('from')),
+    to: parseDate(searchParams.get('to')),
+    minTotal: parseAmount(searchParams.get('minTotal')),
+    maxTotal: parseAmount(searchParams.get('maxTotal')),
+  };
+};
+
+const OrderList: React.FC = () => {
+  const { searchParams, updateQuery, textInputs, setTextInput, clearQuery } = useListQuery<OrderListParams>(
+    '/orders',
+    TEXT_FILTER_KEYS
+  );
+  const { can } = useAuth();
+  const params = useMemo(() => parseListParams(searchParams), [searchParams]);
+
+  const [result, setResult] = useState<PaginatedList<OrderSummary> | null>(null);
+  const [isFetching, setIsFetching] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isBulkFulfilling, setIsBulkFulfilling] = useState(false);
+  const [isPrintingLabels, setIsPrintingLabels] = useState(false);
+  const [bulkResult, setBulkResult] = useState<BulkFulfillResult | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsFetching(true);
+    setError(null);
+
+    orderService
+      .getOrders(params)
+      .then((list) => {
+        if (!isCancelled) {
+          setResult(list);
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setError(getErrorMessage(error, 'Failed to load orders'));
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsFetching(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [params, reloadKey]);
+
+  // Selections only make sense for the rows on screen
+  useEffect(() => {
+    setSelected(new Set());
+    setIsBulkFulfilling(false);
+  }, [params]);
+
+  const handleSort = (field: OrderSortField) => {
+    const sortOrder = params.sortBy === field && params.sortOrder === 'asc' ? 'desc' : 'asc';
+    updateQuery({ sortBy: field, sortOrder });
+  };
+
+  const toggleOrder = (orderId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(orderId)) {
+        next.delete(orderId);
+      } else {
+        next.add(orderId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    const pageIds = result?.items.map((order) => order.id) ?? [];
+    setSelected((prev) => (prev.size === pageIds.length ? new Set() : new Set(pageIds)));
+  };
+
+  const handleBulkFulfilled = (fulfillResult: BulkFulfillResult) => {
+    setBulkResult(fulfillResult);
+    setIsBulkFulfilling(false);
+    setSelected(new Set(fulfillResult.failed.map((failure) => failure.orderId)));
+    setReloadKey((key) => key + 1);
+  };
+
+  const handlePrintLabels = async () => {
+    try {
+      setIsPrintingLabels(true);
+      setError(null);
+      const labels = await orderService.getShippingLabels([...selected]);
+      // Popup blockers may stop the tab because it opens after the request, so fall back to a download
+      if (!openBlob(labels)) {
+        saveBlob(labels, 'shipping-labels.pdf');
+      }
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to generate shipping labels'));
+    } finally {
+      setIsPrintingLabels(false);
+    }
+  };
+
+  const orderNumbers = Object.fromEntries(result?.items.map((order) => [order.id, order.number]) ?? []);
+
+  const hasFilters = Boolean(
+    params.status || params.paymentStatus || params.customer || params.from || params.to || params.minTotal || params.maxTotal
+  );
+
+  // Exports keep the list's sort order, with or without its filters
+  const getExportPage = (scope: ExportScope) => (page: number, pageSize: number) =>
+    orderService.getOrders(
+      scope === 'filtered'
+        ? { ...params, page, pageSize }
+        : { page, pageSize, sortBy: params.sortBy, sortOrder: params.sortOrder }
+    );
+
+  const inputClassName =
+    'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+      <div className="px-8 py-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Orders</h2>
+            <p className="text-gray-600">Track and manage customer orders</p>
+          </div>
+          <div className="flex items-center space-x-6">
+            {hasFilters && (
+              <button
+                type="button"
+                onClick={clearQuery}
+                className="text-sm font-medium text-blue-600 hover:text-blue-500"
+              >
+                Clear filters
+              </button>
+            )}
+            <RequirePermission permission="data:export">
+              <ExportButton
+                filenamePrefix="orders"
+                columns={EXPORT_COLUMNS}
+                filteredTotal={result?.total}
+                hasFilters={hasFilters}
+                fetchPage={getExportPage}
+              />
+            </RequirePermission>
+            <Link
+              href="/returns"
+              className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50"
+            >
+              Returns
+            </Link>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3 mb-6">
+          <div>
+            <label htmlFor="orderCustomer" className="block text-xs font-medium text-gray-700 mb-1">
+              Customer
+            </label>
+            <input
+              id="orderCustomer"
+              type="search"
+              value={textInputs.customer ?? ''}
+              onChange={(e) => setTextInput('customer', e.target.value)}
+              placeholder="Name, email or order number"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="orderStatus" className="block text-xs font-medium text-gray-700 mb-1">
+              Status
+            </label>
+            <select
+              id="orderStatus"
+              value={params.status || ''}
+              onChange={(e) => updateQuery({ status: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">All statuses</option>
+              {ORDER_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {ORDER_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="orderPaymentStatus" className="block text-xs font-medium text-gray-700 mb-1">
+              Payment
+            </label>
+            <select
+              id="orderPaymentStatus"
+              value={params.paymentStatus || ''}
+              onChange={(e) => updateQuery({ paymentStatus: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">All payment statuses</option>
+              {PAYMENT_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {PAYMENT_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <span className="block text-xs font-medium text-gray-700 mb-1">Placed between</span>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                aria-label="Placed from"
+                value={params.from || ''}
+                max={params.to}
+                onChange={(e) => updateQuery({ from: e.target.value })}
+                className={inputClassName}
+              />
+              <span className="text-gray-500">–</span>
+              <input
+                type="date"
+                aria-label="Placed to"
+                value={params.to || ''}
+                min={params.from}
+                onChange={(e) => updateQuery({ to: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div>
+            <span className="block text-xs font-medium text-gray-700 mb-1">Total between</span>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                aria-label="Minimum total"
+                min={0}
+                step="0.01"
+                inputMode="decimal"
+                placeholder="Min"
+                value={textInputs.minTotal ?? ''}
+                onChange={(e) => setTextInput('minTotal', e.target.value)}
+                className={inputClassName}
+              />
+              <span className="text-gray-500">–</span>
+              <input
+                type="number"
+                aria-label="Maximum total"
+                min={0}
+                step="0.01"
+                inputMode="decimal"
+                placeholder="Max"
+                value={textInputs.maxTotal ?? ''}
+                onChange={(e) => setTextInput('maxTotal', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-md bg-red-50 p-4">
+            <p className="text-sm font-medium text-red-800">{error}</p>
+          </div>
+        )}
+
+        {bulkResult && (
+          <div className={`mb-6 rounded-md p-4 ${bulkResult.failed.length > 0 ? 'bg-yellow-50' : 'bg-green-50'}`}>
+            <div className="flex items-start justify-between">
+              <div className="text-sm">
+                <p className={`font-medium ${bulkResult.failed.length > 0 ? 'text-yellow-800' : 'text-green-800'}`}>
+                  Fulfilled {bulkResult.fulfilled.length} order{bulkResult.fulfilled.length === 1 ? '' : 's'}.
+                  {bulkResult.failed.length > 0 && ` ${bulkResult.failed.length} could not be fulfilled and are still selected.`}
+                </p>
+                {bulkResult.failed.length > 0 && (
+                  <ul className="mt-2 list-disc pl-5 text-yellow-800">
+                    {bulkResult.failed.map((failure) => (
+                      <li key={failure.orderId}>
+                        {orderNumbers[failure.orderId] ? `#${orderNumbers[failure.orderId]}` : failure.orderId}: {failure.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => setBulkResult(null)}
+                className="text-sm font-medium text-gray-600 hover:text-gray-500"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+
+        {selected.size > 0 && !isBulkFulfilling && (
+          <div className="mb-6 flex flex-wrap items-center gap-4 rounded-xl bg-blue-50 p-4 text-sm">
+            <span className="font-medium text-blue-900">{selected.size} selected</span>
+            <Link
+              href={`/orders/packing-slips?ids=${[...selected].join(',')}`}
+              target="_blank"
+              className="font-medium text-blue-600 hover:text-blue-500"
+            >
+              Print packing slips
+            </Link>
+            <button
+              type="button"
+              onClick={handlePrintLabels}
+              disabled={isPrintingLabels}
+              className="font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+            >
+              {isPrintingLabels ? 'Generating labels...' : 'Print shipping labels'}
+            </button>
+            {can('orders:write') && (
+              <button
+                type="button"
+                onClick={() => setIsBulkFulfilling(true)}
+                className="px-4 py-2 font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700"
+              >
+                Fulfill
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setSelected(new Set())}
+              className="ml-auto font-medium text-gray-600 hover:text-gray-500"
+            >
+              Clear selection
+            </button>
+          </div>
+        )}
+
+        {isBulkFulfilling && (
+          <BulkFulfillPanel
+            orderIds={[...selected]}
+            onDone={handleBulkFulfilled}
+            onCancel={() => setIsBulkFulfilling(false)}
+          />
+        )}
+
+        {isFetching && !result ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : result && result.items.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">No orders match these filters.</p>
+        ) : result ? (
+          <div className={isFetching ? 'opacity-60 transition-opacity' : ''}>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <th className="py-3 pr-3 w-8">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all orders on this page"
+                        checked={result.items.length > 0 && selected.size === result.items.length}
+                        onChange={toggleAll}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                    </th>
+                    <SortableHeader field="number" sortBy={params.sortBy} sortOrder={params.sortOrder} onSort={handleSort}>
+                      Order
+                    </SortableHeader>
+                    <SortableHeader field="createdAt" sortBy={params.sortBy} sortOrder={params.sortOrder} onSort={handleSort}>
+                      Date
+                    </SortableHeader>
+                    <th className="py-3">Customer</th>
+                    <th className="py-3">Status</th>
+                    <th className="py-3">Payment</th>
+                    <SortableHeader
+                      field="total"
+                      sortBy={params.sortBy}
+                      sortOrder={params.sortOrder}
+                      onSort={handleSort}
+                      className="text-right"
+                    >
+                      Total
+                    </SortableHeader>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {result.items.map((order) => (
+                    <tr key={order.id} className={`text-sm ${selected.has(order.id) ? 'bg-blue-50/50' : ''}`}>
+                      <td className="py-4 pr-3">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select order ${order.number}`}
+                          checked={selected.has(order.id)}
+                          onChange={() => toggleOrder(order.id)}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                        />
+                      </td>
+                      <td className="py-4">
+                        <Link href={`/orders/${order.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                          #{order.number}
+                        </Link>
+                      </td>
+                      <td className="py-4 text-gray-500">{new Date(order.createdAt).toLocaleString()}</td>
+                      <td className="py-4">
+                        <p className="text-gray-900">{order.customer.name}</p>
+                        <p className="text-xs text-gray-500">{order.customer.email}</p>
+                      </td>
+                      <td className="py-4">
+                        <OrderStatusBadge status={order.status} />
+                      </td>
+                      <td className="py-4">
+                        <PaymentStatusBadge status={order.paymentStatus} />
+                      </td>
+                      <td className="py-4 text-right text-gray-900">
+                        {formatCurrency(order.total)}
+                        <p className="text-xs text-gray-500">
+                          {order.itemCount} item{order.itemCount === 1 ? '' : 's'}
+                        </p>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <Pagination
+              page={result.page}
+              pageSize={result.pageSize}
+              total={result.total}
+              onPageChange={(page) => updateQuery({ page })}
+            />
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+const OrdersPage: React.FC = () => {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading || !user) {
+    return <SessionGate />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {/* useSearchParams needs a Suspense boundary so the page can still be prerendered */}
+          <Suspense fallback={null}>
+            <OrderList />
+          </Suspense>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default OrdersPage;
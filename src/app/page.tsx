@@ -1,26 +1,7 @@
-'use client';
-
-import { useEffect } from 'react';
-import { useRouter } from 'next/navigation';
-import { useAuth } from '@/contexts/AuthContext';
+import { redirect } from 'next/navigation';
+import { DEFAULT_AUTHENTICATED_PATH } from '@/lib/redirect';
 
+// Middleware sends signed-out visitors to the login page before this renders
 export default function Home() {
-  const { isAuthenticated, isAdmin, isLoading } = useAuth();
-  const router = useRouter();
-
-  useEffect(() => {
-    if (!isLoading) {
-      if (isAuthenticated && isAdmin) {
-        router.push('/dashboard');
-      } else {
-        router.push('/auth/login');
-      }
-    }
-  }, [isAuthenticated, isAdmin, isLoading, router]);
-
-  return (
-    <div className="min-h-screen flex items-center justify-center">
-      <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
-    </div>
-  );
+  redirect(DEFAULT_AUTHENTICATED_PATH);
 }
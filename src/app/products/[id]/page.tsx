@@ -0,0 +1,84 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import ProductForm from '@/components/products/ProductForm';
+import ProductGalleryEditor from '@/components/products/ProductGalleryEditor';
+import ProductStatusBadge from '@/components/products/ProductStatusBadge';
+import { ApiError } from '@/lib/apiClient';
+import productService, { Product } from '@/lib/products';
+
+const ProductDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, isLoading, can } = useAuth();
+  const [product, setProduct] = useState<Product | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  useEffect(() => {
+    productService
+      .getProduct(id)
+      .then(setProduct)
+      .catch((error) => setError(ApiError.from(error, 'Failed to load product')));
+  }, [id]);
+
+  if (isLoading || !user || (!product && !error)) {
+    return <SessionGate />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader backHref="/products" backLabel="Back to Products" />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-8">
+          {error || !product ? (
+            <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+              <div className="px-8 py-8 text-center">
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                  {error?.isNotFound ? 'Product Not Found' : 'Something Went Wrong'}
+                </h2>
+                <p className="text-gray-600">
+                  {error?.isNotFound ? 'This product may have been deleted.' : error?.message}
+                </p>
+                <Link href="/products" className="mt-6 inline-block font-medium text-blue-600 hover:text-blue-500">
+                  Back to Products
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+                <div className="px-8 pt-8 flex items-start justify-between">
+                  <div>
+                    <h2 className="text-2xl font-bold text-gray-900 mb-2">{product.title}</h2>
+                    <p className="text-gray-600">
+                      Last updated {new Date(product.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <ProductStatusBadge status={product.status} />
+                    <Link
+                      href={`/products/${product.id}/variants`}
+                      className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50"
+                    >
+                      Variants
+                    </Link>
+                  </div>
+                </div>
+                <ProductForm key={product.id} product={product} onSaved={setProduct} />
+              </div>
+
+              <ProductGalleryEditor productId={product.id} readOnly={!can('products:write')} />
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ProductDetailPage;
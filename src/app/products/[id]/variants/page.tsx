@@ -0,0 +1,282 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import VariantMatrixTable from '@/components/products/VariantMatrixTable';
+import VariantOptionsEditor from '@/components/products/VariantOptionsEditor';
+import { ApiError, getErrorMessage } from '@/lib/apiClient';
+import productService, { Product } from '@/lib/products';
+import variantService, {
+  countCombinations,
+  generateVariantMatrix,
+  MAX_VARIANTS,
+  ProductOption,
+  toProductVariant,
+  toVariantRow,
+  validateVariantRows,
+  VariantField,
+  VariantRow,
+} from '@/lib/variants';
+
+const ProductVariantsPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, isLoading, can } = useAuth();
+  const canEdit = can('products:write');
+
+  const [product, setProduct] = useState<Product | null>(null);
+  const [options, setOptions] = useState<ProductOption[]>([]);
+  const [rows, setRows] = useState<VariantRow[]>([]);
+  const [rowErrors, setRowErrors] = useState<Record<number, Partial<Record<VariantField, string>>>>({});
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+
+  useEffect(() => {
+    Promise.all([productService.getProduct(id), variantService.getVariants(id)])
+      .then(([loadedProduct, variants]) => {
+        setProduct(loadedProduct);
+        setOptions(variants.options);
+        setRows(variants.variants.map(toVariantRow));
+      })
+      .catch((error) => setLoadError(ApiError.from(error, 'Failed to load variants')));
+  }, [id]);
+
+  // Every option change regenerates the matrix from the current rows
+  const applyOptions = (nextOptions: ProductOption[], nextRows: VariantRow[] = rows) => {
+    if (countCombinations(nextOptions.filter((option) => option.values.length > 0)) > MAX_VARIANTS) {
+      setError(`Products can have at most ${MAX_VARIANTS} variants.`);
+      return;
+    }
+
+    setError(null);
+    setIsSaved(false);
+    setIsDirty(true);
+    setRowErrors({});
+    setOptions(nextOptions);
+    setRows(generateVariantMatrix(nextOptions, nextRows, product?.sku ?? ''));
+  };
+
+  // Removing values or options deletes saved variants, so say how many before doing it
+  const confirmVariantRemoval = (affected: VariantRow[], subject: string) => {
+    if (affected.length === 0) {
+      return true;
+    }
+
+    const units = affected.reduce((total, row) => total + (Number(row.stock) || 0), 0);
+    return window.confirm(
+      `Removing ${subject} will delete ${affected.length} saved variant${affected.length === 1 ? '' : 's'}` +
+        (units > 0 ? ` holding ${units} unit${units === 1 ? '' : 's'} of stock` : '') +
+        ' when you save. Continue?'
+    );
+  };
+
+  const handleAddOption = (name: string) => {
+    if (options.some((option) => option.name.toLowerCase() === name.toLowerCase())) {
+      setError(`There is already an option named "${name}".`);
+      return;
+    }
+    applyOptions([...options, { name, values: [] }]);
+  };
+
+  // Renaming keeps every combination, so the rows are remapped rather than regenerated
+  const handleRenameOption = (index: number, name: string) => {
+    const previousName = options[index].name;
+    if (!name) {
+      setError('Option names cannot be empty.');
+      return;
+    }
+    if (options.some((option, optionIndex) => optionIndex !== index && option.name.toLowerCase() === name.toLowerCase())) {
+      setError(`There is already an option named "${name}".`);
+      return;
+    }
+
+    setError(null);
+    setIsSaved(false);
+    setIsDirty(true);
+    setOptions(options.map((option, optionIndex) => (optionIndex === index ? { ...option, name } : option)));
+    setRows(
+      rows.map((row) => {
+        const { [previousName]: value, ...rest } = row.optionValues;
+        return value === undefined ? row : { ...row, optionValues: { ...rest, [name]: value } };
+      })
+    );
+  };
+
+  // Saved variants that would not survive regenerating the matrix from these options
+  const getRemovedVariants = (nextOptions: ProductOption[]) => {
+    const kept = new Set(generateVariantMatrix(nextOptions, rows, product?.sku ?? '').map((row) => row.id).filter(Boolean));
+    return rows.filter((row) => row.id && !kept.has(row.id));
+  };
+
+  const handleRemoveOption = (index: number) => {
+    const option = options[index];
+    // Rows collapse onto the remaining options; saved variants beyond the first per combination are lost
+    const remaining = options.filter((_, optionIndex) => optionIndex !== index);
+    const affected = getRemovedVariants(remaining);
+
+    if (confirmVariantRemoval(affected, `the ${option.name} option`)) {
+      applyOptions(remaining);
+    }
+  };
+
+  const handleAddValue = (index: number, value: string) => {
+    if (options[index].values.some((existing) => existing.toLowerCase() === value.toLowerCase())) {
+      return;
+    }
+    applyOptions(
+      options.map((option, optionIndex) =>
+        optionIndex === index ? { ...option, values: [...option.values, value] } : option
+      )
+    );
+  };
+
+  const handleRemoveValue = (index: number, value: string) => {
+    const option = options[index];
+    // Removing an option's last value drops the option from the matrix, which keeps its rows
+    const nextOptions = options.map((current, optionIndex) =>
+      optionIndex === index ? { ...current, values: current.values.filter((existing) => existing !== value) } : current
+    );
+    const affected = getRemovedVariants(nextOptions);
+
+    if (confirmVariantRemoval(affected, `${option.name} "${value}"`)) {
+      applyOptions(nextOptions);
+    }
+  };
+
+  const handleChangeRows = (nextRows: VariantRow[]) => {
+    setRows(nextRows);
+    setIsDirty(true);
+    setIsSaved(false);
+  };
+
+  const handleSave = async () => {
+    const errors = validateVariantRows(rows);
+    setRowErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      setError('Fix the highlighted variants before saving.');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const saved = await variantService.saveVariants(id, {
+        options: options.filter((option) => option.values.length > 0),
+        variants: rows.map(toProductVariant),
+      });
+      setOptions(saved.options);
+      setRows(saved.variants.map(toVariantRow));
+      setIsDirty(false);
+      setIsSaved(true);
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to save variants'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading || !user || (!product && !loadError)) {
+    return <SessionGate />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader backHref={`/products/${id}`} backLabel="Back to Product" />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-8">
+          {loadError || !product ? (
+            <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+              <div className="px-8 py-8 text-center">
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                  {loadError?.isNotFound ? 'Product Not Found' : 'Something Went Wrong'}
+                </h2>
+                <p className="text-gray-600">{loadError?.isNotFound ? 'This product may have been deleted.' : loadError?.message}</p>
+                <Link href="/products" className="mt-6 inline-block font-medium text-blue-600 hover:text-blue-500">
+                  Back to Products
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <>
+              {/* Options */}
+              <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+                <div className="px-8 py-8">
+                  <div className="mb-6">
+                    <h2 className="text-2xl font-bold text-gray-900 mb-2">{product.title} Variants</h2>
+                    <p className="text-gray-600">Options define the combinations this product is sold in</p>
+                  </div>
+                  <VariantOptionsEditor
+                    options={options}
+                    readOnly={!canEdit}
+                    onAddOption={handleAddOption}
+                    onRenameOption={handleRenameOption}
+                    onRemoveOption={handleRemoveOption}
+                    onAddValue={handleAddValue}
+                    onRemoveValue={handleRemoveValue}
+                  />
+                </div>
+              </div>
+
+              {/* Variant Matrix */}
+              <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+                <div className="px-8 py-8">
+                  <div className="mb-6 flex items-start justify-between">
+                    <div>
+                      <h2 className="text-2xl font-bold text-gray-900 mb-2">Variants</h2>
+                      <p className="text-gray-600">
+                        {rows.length} of up to {MAX_VARIANTS}. Leave price empty to use the product price.
+                      </p>
+                    </div>
+                    {isDirty && <span className="text-sm font-medium text-yellow-700">Unsaved changes</span>}
+                  </div>
+
+                  {error && (
+                    <div className="mb-6 rounded-md bg-red-50 p-4">
+                      <p className="text-sm font-medium text-red-800">{error}</p>
+                    </div>
+                  )}
+                  {isSaved && (
+                    <div className="mb-6 rounded-md bg-green-50 p-4">
+                      <p className="text-sm font-medium text-green-800">Variants saved.</p>
+                    </div>
+                  )}
+
+                  <VariantMatrixTable
+                    options={options}
+                    rows={rows}
+                    errors={rowErrors}
+                    readOnly={!canEdit}
+                    canEditPricing={can('products:pricing')}
+                    onChangeRows={handleChangeRows}
+                  />
+
+                  {canEdit && (
+                    <div className="mt-8 flex justify-end">
+                      <button
+                        type="button"
+                        onClick={handleSave}
+                        disabled={isSaving || !isDirty}
+                        className="inline-flex items-center px-8 py-3 border-2 border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-4 focus:ring-blue-500/20 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isSaving ? 'Saving...' : 'Save Variants'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ProductVariantsPage;
@@ -0,0 +1,430 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import ImportColumnMapper from '@/components/products/ImportColumnMapper';
+import ImportDryRunReport from '@/components/products/ImportDryRunReport';
+import { getErrorMessage } from '@/lib/apiClient';
+import catalogService from '@/lib/catalog';
+import { saveBlob } from '@/lib/download';
+import productImportService, {
+  checkImportRows,
+  ColumnMapping,
+  getMappingErrors,
+  guessColumnMapping,
+  IMPORT_CHUNK_SIZE,
+  IMPORT_MAX_ROWS,
+  ImportRowCheck,
+  ImportRowResult,
+  summarizeImport,
+} from '@/lib/productImport';
+import { parseSpreadsheet, SPREADSHEET_ACCEPT, SpreadsheetData, toCsv } from '@/lib/spreadsheet';
+
+type Step = 'upload' | 'map' | 'review' | 'import';
+
+const STEPS: { step: Step; label: string }[] = [
+  { step: 'upload', label: 'Upload' },
+  { step: 'map', label: 'Map columns' },
+  { step: 'review', label: 'Review' },
+  { step: 'import', label: 'Import' },
+];
+
+const ProductImportPage: React.FC = () => {
+  const { user, isLoading } = useAuth();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [skipExisting, setSkipExisting] = useState(false);
+  const [checks, setChecks] = useState<ImportRowCheck[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Import progress: chunks before nextChunk have been sent; a failed request leaves nextChunk on the chunk to resume from
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [nextChunk, setNextChunk] = useState(0);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const pauseRequested = useRef(false);
+
+  const summary = useMemo(() => (checks ? summarizeImport(checks) : null), [checks]);
+  const toImport = useMemo(
+    () => checks?.filter((check) => check.input && check.action !== 'skip' && check.errors.length === 0) ?? [],
+    [checks]
+  );
+  const chunkCount = Math.ceil(toImport.length / IMPORT_CHUNK_SIZE);
+  const isComplete = step === 'import' && nextChunk >= chunkCount;
+  const processedCount = Math.min(nextChunk * IMPORT_CHUNK_SIZE, toImport.length);
+  const failedResults = results.filter((result) => result.status === 'failed');
+
+  // Leaving mid-import would drop the remaining chunks
+  useEffect(() => {
+    if (!isImporting) {
+      return;
+    }
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isImporting]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      setError(null);
+      const parsed = await parseSpreadsheet(file);
+      if (parsed.rows.length === 0) {
+        setError('The file has a header row but no products.');
+        return;
+      }
+      if (parsed.rows.length > IMPORT_MAX_ROWS) {
+        setError(`The file has ${parsed.rows.length} rows. Split it into files of up to ${IMPORT_MAX_ROWS} rows.`);
+        return;
+      }
+
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setChecks(null);
+      setStep('map');
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to read the file'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDryRun = async () => {
+    if (!sheet || !mapping) {
+      return;
+    }
+
+    const mappingErrors = getMappingErrors(mapping);
+    if (mappingErrors.length > 0) {
+      setError(mappingErrors.join(' '));
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      setError(null);
+      const skuColumn = mapping.sku as number;
+      const skus = [...new Set(sheet.rows.map((row) => row[skuColumn]).filter(Boolean))];
+      const [existingSkus, categories] = await Promise.all([
+        productImportService.findExistingSkus(skus),
+        mapping.categories !== null ? catalogService.getCategories() : Promise.resolve([]),
+      ]);
+
+      setChecks(checkImportRows(sheet.rows, mapping, existingSkus, categories, skipExisting));
+      setStep('review');
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to validate the file'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Send the valid rows chunk by chunk; stops on a failed request or a pause so the import can resume from there
+  const runImport = async (fromChunk: number) => {
+    setStep('import');
+    setIsImporting(true);
+    setImportError(null);
+    pauseRequested.current = false;
+
+    for (let chunk = fromChunk; chunk < chunkCount; chunk++) {
+      if (pauseRequested.current) {
+        break;
+      }
+
+      const batch = toImport.slice(chunk * IMPORT_CHUNK_SIZE, (chunk + 1) * IMPORT_CHUNK_SIZE);
+      try {
+        const batchResults = await productImportService.importBatch(
+          batch.map((check) => ({ rowNumber: check.rowNumber, product: check.input! }))
+        );
+        setResults((prev) => [...prev, ...batchResults]);
+        setNextChunk(chunk + 1);
+      } catch (error) {
+        setImportError(getErrorMessage(error, 'Failed to import products'));
+        break;
+      }
+    }
+
+    setIsImporting(false);
+  };
+
+  // Every row that was not imported, with its original columns, so it can be fixed and re-uploaded
+  const handleDownloadErrors = () => {
+    if (!sheet || !checks) {
+      return;
+    }
+
+    const problems = [
+      ...checks
+        .filter((check) => check.errors.length > 0)
+        .map((check) => ({ rowNumber: check.rowNumber, error: check.errors.join('; ') })),
+      ...failedResults.map((result) => ({ rowNumber: result.rowNumber, error: result.error || 'Import failed' })),
+    ].sort((a, b) => a.rowNumber - b.rowNumber);
+
+    const csv = toCsv(
+      ['Row', ...sheet.headers, 'Error'],
+      problems.map(({ rowNumber, error }) => [rowNumber, ...sheet.rows[rowNumber - 2], error])
+    );
+    saveBlob(new Blob([csv], { type: 'text/csv' }), `${fileName.replace(/\.[^.]+$/, '')}-errors.csv`);
+  };
+
+  const handleStartOver = () => {
+    setStep('upload');
+    setSheet(null);
+    setMapping(null);
+    setChecks(null);
+    setResults([]);
+    setNextChunk(0);
+    setImportError(null);
+    setError(null);
+  };
+
+  if (isLoading || !user) {
+    return <SessionGate />;
+  }
+
+  const stepIndex = STEPS.findIndex((item) => item.step === step);
+  const createdCount = results.filter((result) => result.status === 'created').length;
+  const updatedCount = results.filter((result) => result.status === 'updated').length;
+  const hasErrorReport = (summary?.invalid ?? 0) > 0 || failedResults.length > 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader backHref="/products" backLabel="Back to Products" />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+            <div className="px-8 py-8">
+              <div className="mb-6">
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">Import Products</h2>
+                <p className="text-gray-600">
+                  Create and update products from a CSV or Excel file. Rows are matched to existing products by SKU.
+                </p>
+              </div>
+
+              <ol className="mb-8 flex flex-wrap gap-x-8 gap-y-2 text-sm">
+                {STEPS.map((item, index) => (
+                  <li
+                    key={item.step}
+                    className={
+                      index === stepIndex
+                        ? 'font-semibold text-blue-600'
+                        : index < stepIndex
+                          ? 'text-gray-900'
+                          : 'text-gray-400'
+                    }
+                  >
+                    {index + 1}. {item.label}
+                  </li>
+                ))}
+              </ol>
+
+              {error && (
+                <div className="mb-6 rounded-md bg-red-50 p-4">
+                  <p className="text-sm font-medium text-red-800">{error}</p>
+                </div>
+              )}
+
+              {step === 'upload' && (
+                <div className="rounded-xl border-2 border-dashed border-gray-300 px-6 py-12 text-center">
+                  <p className="text-sm text-gray-600 mb-4">
+                    The first row must hold the column names. Up to {IMPORT_MAX_ROWS} products per file.
+                  </p>
+                  <label className="inline-flex cursor-pointer items-center px-6 py-3 text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg">
+                    {isWorking ? 'Reading file...' : 'Choose File'}
+                    <input
+                      type="file"
+                      accept={SPREADSHEET_ACCEPT}
+                      onChange={handleFileChange}
+                      disabled={isWorking}
+                      className="sr-only"
+                    />
+                  </label>
+                </div>
+              )}
+
+              {step === 'map' && sheet && mapping && (
+                <>
+                  <p className="text-sm text-gray-600 mb-4">
+                    <span className="font-medium text-gray-900">{fileName}</span> · {sheet.rows.length} rows. Check which
+                    column holds each product field.
+                  </p>
+                  <ImportColumnMapper
+                    headers={sheet.headers}
+                    sampleRow={sheet.rows[0]}
+                    mapping={mapping}
+                    onChange={setMapping}
+                  />
+                  <label className="mt-6 flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={skipExisting}
+                      onChange={(e) => setSkipExisting(e.target.checked)}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                    />
+                    Only create new products; skip rows whose SKU already exists
+                  </label>
+                  <div className="mt-8 flex items-center justify-between">
+                    <button
+                      type="button"
+                      onClick={handleStartOver}
+                      className="text-sm font-medium text-gray-600 hover:text-gray-500"
+                    >
+                      Choose another file
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleDryRun}
+                      disabled={isWorking}
+                      className="inline-flex items-center px-8 py-3 border-2 border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-4 focus:ring-blue-500/20 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isWorking ? 'Checking...' : 'Check File'}
+                    </button>
+                  </div>
+                </>
+              )}
+
+              {step === 'review' && checks && summary && (
+                <>
+                  <p className="text-sm text-gray-600 mb-6">
+                    Nothing has been saved yet. This is what importing <span className="font-medium text-gray-900">{fileName}</span>{' '}
+                    would do.
+                  </p>
+                  <ImportDryRunReport checks={checks} summary={summary} />
+                  <div className="mt-8 flex items-center justify-between">
+                    <div className="flex items-center space-x-6">
+                      <button
+                        type="button"
+                        onClick={() => setStep('map')}
+                        className="text-sm font-medium text-gray-600 hover:text-gray-500"
+                      >
+                        Back to mapping
+                      </button>
+                      {hasErrorReport && (
+                        <button
+                          type="button"
+                          onClick={handleDownloadErrors}
+                          className="text-sm font-medium text-blue-600 hover:text-blue-500"
+                        >
+                          Download error report
+                        </button>
+                      )}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => runImport(0)}
+                      disabled={toImport.length === 0}
+                      className="inline-flex items-center px-8 py-3 border-2 border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-4 focus:ring-blue-500/20 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Import {toImport.length} {toImport.length === 1 ? 'Product' : 'Products'}
+                    </button>
+                  </div>
+                </>
+              )}
+
+              {step === 'import' && (
+                <div aria-live="polite">
+                  <div className="flex items-center justify-between text-sm text-gray-700 mb-2">
+                    <span>
+                      {processedCount} of {toImport.length} rows processed
+                    </span>
+                    <span>
+                      {createdCount} created · {updatedCount} updated · {failedResults.length} failed
+                    </span>
+                  </div>
+                  <div className="h-3 w-full rounded-full bg-gray-200 overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-blue-600 to-indigo-600 transition-all duration-300"
+                      style={{ width: `${toImport.length ? (processedCount / toImport.length) * 100 : 100}%` }}
+                    ></div>
+                  </div>
+
+                  {importError && (
+                    <div className="mt-6 rounded-md bg-red-50 p-4">
+                      <p className="text-sm font-medium text-red-800">{importError}</p>
+                      <p className="mt-1 text-sm text-red-700">
+                        Rows before this point were saved. Resume to continue with the rest.
+                      </p>
+                    </div>
+                  )}
+                  {isComplete && (
+                    <div className="mt-6 rounded-md bg-green-50 p-4">
+                      <p className="text-sm font-medium text-green-800">
+                        Import finished.
+                        {failedResults.length > 0 &&
+                          ` ${failedResults.length} ${failedResults.length === 1 ? 'row was' : 'rows were'} rejected; see the error report.`}
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="mt-8 flex items-center justify-between">
+                    <div className="flex items-center space-x-6">
+                      {hasErrorReport && !isImporting && (
+                        <button
+                          type="button"
+                          onClick={handleDownloadErrors}
+                          className="text-sm font-medium text-blue-600 hover:text-blue-500"
+                        >
+                          Download error report
+                        </button>
+                      )}
+                      {isComplete && (
+                        <button
+                          type="button"
+                          onClick={handleStartOver}
+                          className="text-sm font-medium text-gray-600 hover:text-gray-500"
+                        >
+                          Import another file
+                        </button>
+                      )}
+                    </div>
+                    {isImporting ? (
+                      <button
+                        type="button"
+                        onClick={() => (pauseRequested.current = true)}
+                        className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50"
+                      >
+                        Pause
+                      </button>
+                    ) : isComplete ? (
+                      <Link
+                        href="/products"
+                        className="inline-flex items-center px-6 py-3 border border-transparent text-sm font-medium rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg"
+                      >
+                        View Products
+                      </Link>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => runImport(nextChunk)}
+                        className="inline-flex items-center px-8 py-3 border-2 border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-4 focus:ring-blue-500/20 shadow-lg"
+                      >
+                        Resume Import
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ProductImportPage;
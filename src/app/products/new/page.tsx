@@ -0,0 +1,37 @@
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import ProductForm from '@/components/products/ProductForm';
+
+const NewProductPage: React.FC = () => {
+  const { user, isLoading } = useAuth();
+  const router = useRouter();
+
+  if (isLoading || !user) {
+    return <SessionGate />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader backHref="/products" backLabel="Back to Products" />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+            <div className="px-8 pt-8">
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">New Product</h2>
+              <p className="text-gray-600">Products start as drafts until you publish them</p>
+            </div>
+            <ProductForm onSaved={(product) => router.push(`/products/${product.id}`)} />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default NewProductPage;
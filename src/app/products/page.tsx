@@ -0,0 +1,365 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, Suspense } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import RequirePermission from '@/components/RequirePermission';
+import ProductStatusBadge from '@/components/products/ProductStatusBadge';
+import ExportButton from '@/components/table/ExportButton';
+import Pagination from '@/components/table/Pagination';
+import SortableHeader from '@/components/table/SortableHeader';
+import { useListQuery } from '@/hooks/useListQuery';
+import { getErrorMessage, PaginatedList } from '@/lib/apiClient';
+import { ExportColumn, ExportScope } from '@/lib/dataExport';
+import { formatCurrency } from '@/lib/format';
+import productService, {
+  Category,
+  Product,
+  PRODUCT_STATUS_LABELS,
+  PRODUCT_STATUSES,
+  ProductListParams,
+  ProductSortField,
+  ProductStatus,
+} from '@/lib/products';
+
+const PAGE_SIZE = 20;
+
+const EXPORT_COLUMNS: ExportColumn<Product>[] = [
+  { key: 'id', label: 'ID', value: (product) => product.id, defaultSelected: false },
+  { key: 'sku', label: 'SKU', value: (product) => product.sku },
+  { key: 'title', label: 'Title', value: (product) => product.title },
+  { key: 'description', label: 'Description', value: (product) => product.description, defaultSelected: false },
+  { key: 'price', label: 'Price', value: (product) => product.price },
+  { key: 'compareAtPrice', label: 'Compare-at price', value: (product) => product.compareAtPrice ?? null },
+  { key: 'status', label: 'Status', value: (product) => PRODUCT_STATUS_LABELS[product.status] },
+  {
+    key: 'categories',
+    label: 'Categories',
+    value: (product) => product.categories.map((category) => category.name).join(', '),
+  },
+  { key: 'createdAt', label: 'Created', value: (product) => product.createdAt, defaultSelected: false },
+  { key: 'updatedAt', label: 'Updated', value: (product) => product.updatedAt },
+];
+const SORT_FIELDS: ProductSortField[] = ['title', 'sku', 'price', 'status', 'updatedAt'];
+
+// The list state lives in the URL so filters survive reloads and back navigation
+const parseListParams = (searchParams: URLSearchParams): ProductListParams => {
+  const sortBy = searchParams.get('sortBy') as ProductSortField | null;
+  const status = searchParams.get('status') as ProductStatus | null;
+
+  return {
+    page: Math.max(1, Number(searchParams.get('page')) || 1),
+    pageSize: PAGE_SIZE,
+    sortBy: sortBy && SORT_FIELDS.includes(sortBy) ? sortBy : 'updatedAt',
+    sortOrder: searchParams.get('sortOrder') === 'asc' ? 'asc' : 'desc',
+    search: searchParams.get('search') || undefined,
+    status: status && PRODUCT_STATUSES.includes(status) ? status : undefined,
+    categoryId: searchParams.get('categoryId') || undefined,
+  };
+};
+
+const ProductList: React.FC = () => {
+  const { searchParams, updateQuery, textInputs, setTextInput } = useListQuery<ProductListParams>('/products');
+  const { can } = useAuth();
+  const params = useMemo(() => parseListParams(searchParams), [searchParams]);
+
+  const [result, setResult] = useState<PaginatedList<Product> | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isFetching, setIsFetching] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyProductId, setBusyProductId] = useState<string | null>(null);
+
+  useEffect(() => {
+    productService
+      .getCategories()
+      .then(setCategories)
+      .catch((error) => console.error('Failed to load categories:', error));
+  }, []);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsFetching(true);
+    setError(null);
+
+    productService
+      .getProducts(params)
+      .then((list) => {
+        if (!isCancelled) {
+          setResult(list);
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setError(getErrorMessage(error, 'Failed to load products'));
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsFetching(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [params]);
+
+  const handleSort = (field: ProductSortField) => {
+    const sortOrder = params.sortBy === field && params.sortOrder === 'asc' ? 'desc' : 'asc';
+    updateQuery({ sortBy: field, sortOrder });
+  };
+
+  const handleStatusChange = async (product: Product, status: ProductStatus) => {
+    if (status === 'archived' && !window.confirm(`Archive "${product.title}"? It will be hidden from the storefront.`)) {
+      return;
+    }
+
+    try {
+      setBusyProductId(product.id);
+      setError(null);
+      const updated = await productService.setStatus(product.id, status);
+      setResult((prev) =>
+        prev ? { ...prev, items: prev.items.map((item) => (item.id === updated.id ? updated : item)) } : prev
+      );
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to update product status'));
+    } finally {
+      setBusyProductId(null);
+    }
+  };
+
+  // Exports keep the list's sort order, with or without its filters
+  const getExportPage = (scope: ExportScope) => (page: number, pageSize: number) =>
+    productService.getProducts(
+      scope === 'filtered'
+        ? { ...params, page, pageSize }
+        : { page, pageSize, sortBy: params.sortBy, sortOrder: params.sortOrder }
+    );
+
+  const selectClassName =
+    'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+      <div className="px-8 py-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Products</h2>
+            <p className="text-gray-600">Manage your catalog listings</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <RequirePermission permission="data:export">
+              <ExportButton
+                filenamePrefix="products"
+                columns={EXPORT_COLUMNS}
+                filteredTotal={result?.total}
+                hasFilters={Boolean(params.search || params.status || params.categoryId)}
+                fetchPage={getExportPage}
+              />
+            </RequirePermission>
+            <Link
+              href="/catalog/categories"
+              className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50"
+            >
+              Categories
+            </Link>
+            <Link
+              href="/catalog/collections"
+              className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50"
+            >
+              Collections
+            </Link>
+            <RequirePermission permission="products:write">
+              <Link
+                href="/products/import"
+                className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50"
+              >
+                Import
+              </Link>
+              <Link
+                href="/products/new"
+                className="inline-flex items-center px-6 py-3 border border-transparent text-sm font-medium rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg"
+              >
+                Add Product
+              </Link>
+            </RequirePermission>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-4 mb-6">
+          <div className="sm:col-span-2">
+            <label htmlFor="productSearch" className="sr-only">
+              Search
+            </label>
+            <input
+              id="productSearch"
+              type="search"
+              value={textInputs.search ?? ''}
+              onChange={(e) => setTextInput('search', e.target.value)}
+              placeholder="Search by title or SKU"
+              className={selectClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="productStatus" className="sr-only">
+              Status
+            </label>
+            <select
+              id="productStatus"
+              value={params.status || ''}
+              onChange={(e) => updateQuery({ status: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="">All statuses</option>
+              {PRODUCT_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {PRODUCT_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="productCategory" className="sr-only">
+              Category
+            </label>
+            <select
+              id="productCategory"
+              value={params.categoryId || ''}
+              onChange={(e) => updateQuery({ categoryId: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="">All categories</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-md bg-red-50 p-4">
+            <p className="text-sm font-medium text-red-800">{error}</p>
+          </div>
+        )}
+
+        {isFetching && !result ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : result && result.items.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">No products match these filters.</p>
+        ) : result ? (
+          <div className={isFetching ? 'opacity-60 transition-opacity' : ''}>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <SortableHeader field="title" sortBy={params.sortBy} sortOrder={params.sortOrder} onSort={handleSort}>
+                    Title
+                  </SortableHeader>
+                  <SortableHeader field="sku" sortBy={params.sortBy} sortOrder={params.sortOrder} onSort={handleSort}>
+                    SKU
+                  </SortableHeader>
+                  <SortableHeader field="price" sortBy={params.sortBy} sortOrder={params.sortOrder} onSort={handleSort}>
+                    Price
+                  </SortableHeader>
+                  <SortableHeader field="status" sortBy={params.sortBy} sortOrder={params.sortOrder} onSort={handleSort}>
+                    Status
+                  </SortableHeader>
+                  <SortableHeader field="updatedAt" sortBy={params.sortBy} sortOrder={params.sortOrder} onSort={handleSort}>
+                    Updated
+                  </SortableHeader>
+                  <th className="py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {result.items.map((product) => (
+                  <tr key={product.id} className="text-sm">
+                    <td className="py-4">
+                      <Link href={`/products/${product.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                        {product.title}
+                      </Link>
+                      {product.categories.length > 0 && (
+                        <p className="text-xs text-gray-500">
+                          {product.categories.map((category) => category.name).join(', ')}
+                        </p>
+                      )}
+                    </td>
+                    <td className="py-4 text-gray-700">{product.sku}</td>
+                    <td className="py-4 text-gray-900">
+                      {formatCurrency(product.price)}
+                      {product.compareAtPrice != null && (
+                        <span className="ml-2 text-xs text-gray-400 line-through">
+                          {formatCurrency(product.compareAtPrice)}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-4">
+                      <ProductStatusBadge status={product.status} />
+                    </td>
+                    <td className="py-4 text-gray-500">{new Date(product.updatedAt).toLocaleDateString()}</td>
+                    <td className="py-4 text-right space-x-4">
+                      <Link href={`/products/${product.id}`} className="font-medium text-blue-600 hover:text-blue-500">
+                        {can('products:write') ? 'Edit' : 'View'}
+                      </Link>
+                      {can('products:write') && (
+                        <button
+                          type="button"
+                          onClick={() => handleStatusChange(product, product.status === 'archived' ? 'draft' : 'archived')}
+                          disabled={busyProductId === product.id}
+                          className={`font-medium disabled:opacity-50 ${
+                            product.status === 'archived'
+                              ? 'text-gray-600 hover:text-gray-500'
+                              : 'text-red-600 hover:text-red-500'
+                          }`}
+                        >
+                          {product.status === 'archived' ? 'Restore' : 'Archive'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <Pagination
+              page={result.page}
+              pageSize={result.pageSize}
+              total={result.total}
+              onPageChange={(page) => updateQuery({ page })}
+            />
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+const ProductsPage: React.FC = () => {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading || !user) {
+    return <SessionGate />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {/* useSearchParams needs a Suspense boundary so the page can still be prerendered */}
+          <Suspense fallback={null}>
+            <ProductList />
+          </Suspense>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ProductsPage;
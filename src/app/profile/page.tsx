@@ -2,12 +2,18 @@
 
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { useRouter } from 'next/navigation';
+import SessionGate from '@/components/layout/SessionGate';
 import Link from 'next/link';
+import { getRoleLabel } from '@/lib/permissions';
+import ChangePasswordForm from '@/components/profile/ChangePasswordForm';
+import TwoFactorSettings from '@/components/profile/TwoFactorSettings';
+import PhoneVerificationForm from '@/components/profile/PhoneVerificationForm';
+import SessionsSection from '@/components/profile/SessionsSection';
+import authService from '@/lib/auth';
+import { ApiError } from '@/lib/apiClient';
 
 const ProfilePage: React.FC = () => {
-  const { user, isAuthenticated, isAdmin, updateProfile, isLoading } = useAuth();
-  const router = useRouter();
+  const { user, updateProfile, isLoading } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
   const [formData, setFormData] = useState({
     firstName: '',
@@ -26,14 +32,8 @@ const ProfilePage: React.FC = () => {
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSaving, setIsSaving] = useState(false);
-
-  useEffect(() => {
-    if (!isLoading && !isAuthenticated) {
-      router.push('/auth/login');
-    } else if (!isLoading && !isAdmin) {
-      router.push('/auth/login');
-    }
-  }, [isAuthenticated, isAdmin, isLoading, router]);
+  const [emailResendState, setEmailResendState] = useState<'idle' | 'sending' | 'sent' | 'failed'>('idle');
+  const [isVerifyingPhone, setIsVerifyingPhone] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -118,12 +118,27 @@ const ProfilePage: React.FC = () => {
       await updateProfile(formData);
       setIsEditing(false);
     } catch (error) {
-      console.error('Profile update error:', error);
+      if (error instanceof ApiError && error.hasFieldErrors) {
+        setErrors((prev) => ({ ...prev, ...error.fieldErrors }));
+      } else {
+        console.error('Profile update error:', error);
+      }
     } finally {
       setIsSaving(false);
     }
   };
 
+  const handleResendVerification = async () => {
+    try {
+      setEmailResendState('sending');
+      await authService.resendEmailVerification();
+      setEmailResendState('sent');
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      setEmailResendState('failed');
+    }
+  };
+
   const handleCancel = () => {
     if (user) {
       setFormData({
@@ -146,16 +161,8 @@ const ProfilePage: React.FC = () => {
     setErrors({});
   };
 
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
-      </div>
-    );
-  }
-
-  if (!isAuthenticated || !isAdmin || !user) {
-    return null;
+  if (isLoading || !user) {
+    return <SessionGate />;
   }
 
   return (
@@ -241,7 +248,7 @@ const ProfilePage: React.FC = () => {
                       <svg className="h-4 w-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
                         <path fillRule="evenodd" d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z" clipRule="evenodd" />
                       </svg>
-                      {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
+                      {getRoleLabel(user.role)}
                     </span>
                     <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
                       user.isActive ? 'bg-green-500/30 text-green-100' : 'bg-red-500/30 text-red-100'
@@ -572,7 +579,7 @@ const ProfilePage: React.FC = () => {
                 <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Role</label>
-                    <p className="mt-1 text-sm text-gray-900 capitalize">{user.role}</p>
+                    <p className="mt-1 text-sm text-gray-900">{getRoleLabel(user.role)}</p>
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Account Status</label>
@@ -592,6 +599,19 @@ const ProfilePage: React.FC = () => {
                       }`}>
                         {user.isEmailVerified ? 'Verified' : 'Not Verified'}
                       </span>
+                      {!user.isEmailVerified && (
+                        <button
+                          type="button"
+                          onClick={handleResendVerification}
+                          disabled={emailResendState === 'sending' || emailResendState === 'sent'}
+                          className="ml-3 text-sm font-medium text-blue-600 hover:text-blue-500 disabled:text-gray-500"
+                        >
+                          {emailResendState === 'sending' && 'Sending...'}
+                          {emailResendState === 'sent' && 'Verification email sent'}
+                          {emailResendState === 'failed' && 'Sending failed, try again'}
+                          {emailResendState === 'idle' && 'Resend verification email'}
+                        </button>
+                      )}
                     </p>
                   </div>
                   <div>
@@ -602,7 +622,19 @@ const ProfilePage: React.FC = () => {
                       }`}>
                         {user.isPhoneVerified ? 'Verified' : 'Not Verified'}
                       </span>
+                      {!user.isPhoneVerified && user.phone && !isVerifyingPhone && (
+                        <button
+                          type="button"
+                          onClick={() => setIsVerifyingPhone(true)}
+                          className="ml-3 text-sm font-medium text-blue-600 hover:text-blue-500"
+                        >
+                          Verify phone number
+                        </button>
+                      )}
                     </p>
+                    {isVerifyingPhone && (
+                      <PhoneVerificationForm onClose={() => setIsVerifyingPhone(false)} />
+                    )}
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Member Since</label>
@@ -659,6 +691,11 @@ const ProfilePage: React.FC = () => {
               )}
             </div>
           </div>
+
+          {/* Security */}
+          <ChangePasswordForm />
+          <TwoFactorSettings />
+          <SessionsSection />
         </div>
       </main>
     </div>
@@ -0,0 +1,241 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import ReturnHistory from '@/components/returns/ReturnHistory';
+import ReturnStatusBadge from '@/components/returns/ReturnStatusBadge';
+import { ApiError, getErrorMessage } from '@/lib/apiClient';
+import { formatCurrency } from '@/lib/format';
+import returnService, {
+  isReturnOpen,
+  RETURN_REASON_LABELS,
+  RETURN_STATUS_LABELS,
+  RETURN_TRANSITIONS,
+  ReturnRequest,
+  ReturnStatus,
+} from '@/lib/returns';
+
+const TRANSITION_LABELS: Partial<Record<ReturnStatus, string>> = {
+  approved: 'Approve',
+  received: 'Mark Received',
+  refunded: 'Refund',
+  rejected: 'Reject',
+};
+
+const ReturnDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, isLoading, can } = useAuth();
+  const [returnRequest, setReturnRequest] = useState<ReturnRequest | null>(null);
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+  const [note, setNote] = useState('');
+  const [restock, setRestock] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyAction, setBusyAction] = useState<ReturnStatus | 'note' | null>(null);
+
+  useEffect(() => {
+    returnService
+      .getReturn(id)
+      .then(setReturnRequest)
+      .catch((error) => setLoadError(ApiError.from(error, 'Failed to load return')));
+  }, [id]);
+
+  const runAction = async (action: ReturnStatus | 'note', send: () => Promise<ReturnRequest>) => {
+    try {
+      setBusyAction(action);
+      setError(null);
+      setReturnRequest(await send());
+      setNote('');
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to update return'));
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleTransition = (status: ReturnStatus) => {
+    if (status === 'rejected') {
+      if (!note.trim()) {
+        setError('Add a note explaining why the return is rejected.');
+        return;
+      }
+      if (!window.confirm('Reject this return? The customer will be notified.')) {
+        return;
+      }
+    }
+
+    runAction(status, () =>
+      returnService.transition(id, {
+        status,
+        note: note.trim(),
+        restock: status === 'refunded' ? restock : undefined,
+      })
+    );
+  };
+
+  const handleAddNote = () => {
+    if (note.trim()) {
+      runAction('note', () => returnService.addNote(id, note.trim()));
+    }
+  };
+
+  if (isLoading || !user || (!returnRequest && !loadError)) {
+    return <SessionGate />;
+  }
+
+  const nextStatuses = returnRequest ? RETURN_TRANSITIONS[returnRequest.status] : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader backHref="/returns" backLabel="Back to Returns" />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {loadError || !returnRequest ? (
+            <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+              <div className="px-8 py-8 text-center">
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                  {loadError?.isNotFound ? 'Return Not Found' : 'Something Went Wrong'}
+                </h2>
+                <p className="text-gray-600">{loadError?.isNotFound ? 'This return may have been deleted.' : loadError?.message}</p>
+                <Link href="/returns" className="mt-6 inline-block font-medium text-blue-600 hover:text-blue-500">
+                  Back to Returns
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 gap-8 lg:grid-cols-3">
+              <div className="space-y-8 lg:col-span-2">
+                <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+                  <div className="px-8 py-8">
+                    <div className="mb-6 flex items-start justify-between">
+                      <div>
+                        <h2 className="text-2xl font-bold text-gray-900 mb-2">Return {returnRequest.number}</h2>
+                        <p className="text-gray-600">
+                          For{' '}
+                          <Link href={`/orders/${returnRequest.orderId}`} className="text-blue-600 hover:text-blue-500">
+                            order #{returnRequest.orderNumber}
+                          </Link>{' '}
+                          by {returnRequest.customerName}
+                        </p>
+                      </div>
+                      <ReturnStatusBadge status={returnRequest.status} />
+                    </div>
+
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead>
+                        <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          <th className="py-3 pr-3">Item</th>
+                          <th className="py-3 pr-3">Reason</th>
+                          <th className="py-3 text-right">Qty</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {returnRequest.items.map((item) => (
+                          <tr key={item.lineItemId} className="text-sm">
+                            <td className="py-3 pr-3">
+                              <p className="font-medium text-gray-900">{item.title}</p>
+                              <p className="text-xs text-gray-500">SKU {item.sku}</p>
+                            </td>
+                            <td className="py-3 pr-3 text-gray-700">{RETURN_REASON_LABELS[item.reason]}</td>
+                            <td className="py-3 text-right text-gray-900">{item.quantity}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+
+                    {returnRequest.refundAmount != null && (
+                      <p className="mt-6 text-sm text-gray-700">
+                        Refunded <span className="font-semibold">{formatCurrency(returnRequest.refundAmount)}</span>
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                {can('orders:write') && (
+                  <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+                    <div className="px-8 py-8 space-y-4">
+                      <h3 className="text-lg font-bold text-gray-900">
+                        {isReturnOpen(returnRequest.status) ? 'Process Return' : 'Add a Note'}
+                      </h3>
+
+                      {error && (
+                        <div className="rounded-md bg-red-50 p-4">
+                          <p className="text-sm font-medium text-red-800">{error}</p>
+                        </div>
+                      )}
+
+                      <div>
+                        <label htmlFor="returnActionNote" className="block text-sm font-medium text-gray-700 mb-1">
+                          Note
+                        </label>
+                        <textarea
+                          id="returnActionNote"
+                          rows={3}
+                          value={note}
+                          onChange={(e) => setNote(e.target.value)}
+                          placeholder="Recorded in the return history"
+                          className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        />
+                      </div>
+
+                      {nextStatuses.includes('refunded') && (
+                        <label className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={restock}
+                            onChange={(e) => setRestock(e.target.checked)}
+                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                          />
+                          Return items to stock when refunding
+                        </label>
+                      )}
+
+                      <div className="flex flex-wrap items-center justify-end gap-4">
+                        <button
+                          type="button"
+                          onClick={handleAddNote}
+                          disabled={busyAction !== null || !note.trim()}
+                          className="text-sm font-medium text-gray-600 hover:text-gray-500 disabled:opacity-50"
+                        >
+                          {busyAction === 'note' ? 'Saving...' : 'Add Note Only'}
+                        </button>
+                        {nextStatuses.map((status) => (
+                          <button
+                            key={status}
+                            type="button"
+                            onClick={() => handleTransition(status)}
+                            disabled={busyAction !== null}
+                            className={`px-4 py-2 text-sm font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed ${
+                              status === 'rejected'
+                                ? 'text-red-600 border border-red-200 hover:bg-red-50'
+                                : 'text-white bg-blue-600 hover:bg-blue-700'
+                            }`}
+                          >
+                            {busyAction === status ? 'Saving...' : (TRANSITION_LABELS[status] ?? RETURN_STATUS_LABELS[status])}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden self-start">
+                <div className="px-6 py-6">
+                  <h3 className="text-lg font-bold text-gray-900 mb-4">History</h3>
+                  <ReturnHistory events={returnRequest.history} />
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ReturnDetailPage;
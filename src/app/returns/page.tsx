@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, Suspense } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import ReturnStatusBadge from '@/components/returns/ReturnStatusBadge';
+import Pagination from '@/components/table/Pagination';
+import { useListQuery } from '@/hooks/useListQuery';
+import { getErrorMessage, PaginatedList } from '@/lib/apiClient';
+import returnService, {
+  RETURN_STATUS_LABELS,
+  RETURN_STATUSES,
+  ReturnListParams,
+  ReturnRequest,
+  ReturnStatus,
+} from '@/lib/returns';
+
+const PAGE_SIZE = 25;
+
+// The list state lives in the URL so filters survive reloads and back navigation
+const parseListParams = (searchParams: URLSearchParams): ReturnListParams => {
+  const status = searchParams.get('status') as ReturnStatus | null;
+
+  return {
+    page: Math.max(1, Number(searchParams.get('page')) || 1),
+    pageSize: PAGE_SIZE,
+    status: status && RETURN_STATUSES.includes(status) ? status : undefined,
+    search: searchParams.get('search') || undefined,
+  };
+};
+
+const ReturnList: React.FC = () => {
+  const { searchParams, updateQuery, textInputs, setTextInput } = useListQuery<ReturnListParams>('/returns');
+  const params = useMemo(() => parseListParams(searchParams), [searchParams]);
+
+  const [result, setResult] = useState<PaginatedList<ReturnRequest> | null>(null);
+  const [isFetching, setIsFetching] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsFetching(true);
+    setError(null);
+
+    returnService
+      .getReturns(params)
+      .then((list) => {
+        if (!isCancelled) {
+          setResult(list);
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setError(getErrorMessage(error, 'Failed to load returns'));
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsFetching(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [params]);
+
+  const selectClassName =
+    'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+      <div className="px-8 py-8">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Returns</h2>
+          <p className="text-gray-600">Return requests across all orders</p>
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3 mb-6">
+          <div className="sm:col-span-2">
+            <label htmlFor="returnSearch" className="sr-only">
+              Search
+            </label>
+            <input
+              id="returnSearch"
+              type="search"
+              value={textInputs.search ?? ''}
+              onChange={(e) => setTextInput('search', e.target.value)}
+              placeholder="Search by return number, order number or customer"
+              className={selectClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="returnStatus" className="sr-only">
+              Status
+            </label>
+            <select
+              id="returnStatus"
+              value={params.status || ''}
+              onChange={(e) => updateQuery({ status: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="">All statuses</option>
+              {RETURN_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {RETURN_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-md bg-red-50 p-4">
+            <p className="text-sm font-medium text-red-800">{error}</p>
+          </div>
+        )}
+
+        {isFetching && !result ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : result && result.items.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">No returns match these filters.</p>
+        ) : result ? (
+          <div className={isFetching ? 'opacity-60 transition-opacity' : ''}>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="py-3">Return</th>
+                  <th className="py-3">Order</th>
+                  <th className="py-3">Customer</th>
+                  <th className="py-3">Items</th>
+                  <th className="py-3">Status</th>
+                  <th className="py-3">Updated</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {result.items.map((returnRequest) => (
+                  <tr key={returnRequest.id} className="text-sm">
+                    <td className="py-4">
+                      <Link href={`/returns/${returnRequest.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                        {returnRequest.number}
+                      </Link>
+                    </td>
+                    <td className="py-4">
+                      <Link href={`/orders/${returnRequest.orderId}`} className="text-blue-600 hover:text-blue-500">
+                        #{returnRequest.orderNumber}
+                      </Link>
+                    </td>
+                    <td className="py-4 text-gray-700">{returnRequest.customerName}</td>
+                    <td className="py-4 text-gray-700">
+                      {returnRequest.items.reduce((total, item) => total + item.quantity, 0)}
+                    </td>
+                    <td className="py-4">
+                      <ReturnStatusBadge status={returnRequest.status} />
+                    </td>
+                    <td className="py-4 text-gray-500">{new Date(returnRequest.updatedAt).toLocaleDateString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <Pagination
+              page={result.page}
+              pageSize={result.pageSize}
+              total={result.total}
+              onPageChange={(page) => updateQuery({ page })}
+            />
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+const ReturnsPage: React.FC = () => {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading || !user) {
+    return <SessionGate />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader backHref="/orders" backLabel="Back to Orders" />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {/* useSearchParams needs a Suspense boundary so the page can still be prerendered */}
+          <Suspense fallback={null}>
+            <ReturnList />
+          </Suspense>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ReturnsPage;
@@ -0,0 +1,305 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import { getErrorMessage } from '@/lib/apiClient';
+import { AdminUser } from '@/lib/auth';
+import { ASSIGNABLE_ROLES, getRoleLabel, Role } from '@/lib/permissions';
+import teamService, { Invitation, InvitationStatus } from '@/lib/team';
+
+const STATUS_STYLES: Record<InvitationStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-700',
+  revoked: 'bg-red-100 text-red-800',
+};
+
+const TeamPage: React.FC = () => {
+  const { user, isLoading } = useAuth();
+  const [members, setMembers] = useState<AdminUser[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [isFetching, setIsFetching] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('analyst');
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  const [inviteNotice, setInviteNotice] = useState<string | null>(null);
+  const [isInviting, setIsInviting] = useState(false);
+  const [busyInvitationId, setBusyInvitationId] = useState<string | null>(null);
+
+  const loadTeam = useCallback(async () => {
+    try {
+      setError(null);
+      const [memberList, invitationList] = await Promise.all([
+        teamService.getMembers(),
+        teamService.getInvitations(),
+      ]);
+      setMembers(memberList);
+      setInvitations(invitationList);
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to load team'));
+    } finally {
+      setIsFetching(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTeam();
+  }, [loadTeam]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!/\S+@\S+\.\S+/.test(email)) {
+      setInviteError('Email is invalid');
+      return;
+    }
+
+    try {
+      setIsInviting(true);
+      setInviteError(null);
+      setInviteNotice(null);
+      const invitation = await teamService.sendInvitation({ email: email.trim(), role });
+      setInvitations((prev) => [invitation, ...prev]);
+      setInviteNotice(`Invitation sent to ${invitation.email}`);
+      setEmail('');
+    } catch (error) {
+      setInviteError(getErrorMessage(error, 'Failed to send invitation'));
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleResend = async (invitationId: string) => {
+    try {
+      setBusyInvitationId(invitationId);
+      setError(null);
+      const updated = await teamService.resendInvitation(invitationId);
+      setInvitations((prev) => prev.map((invitation) => (invitation.id === invitationId ? updated : invitation)));
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to resend invitation'));
+    } finally {
+      setBusyInvitationId(null);
+    }
+  };
+
+  const handleRevoke = async (invitationId: string) => {
+    if (!window.confirm('Revoke this invitation? The link will stop working.')) {
+      return;
+    }
+
+    try {
+      setBusyInvitationId(invitationId);
+      setError(null);
+      await teamService.revokeInvitation(invitationId);
+      setInvitations((prev) =>
+        prev.map((invitation) => (invitation.id === invitationId ? { ...invitation, status: 'revoked' } : invitation))
+      );
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to revoke invitation'));
+    } finally {
+      setBusyInvitationId(null);
+    }
+  };
+
+  if (isLoading || !user) {
+    return <SessionGate />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-8">
+          {/* Invite Form */}
+          <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+            <form className="px-8 py-8" onSubmit={handleInvite}>
+              <div className="mb-6">
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">Invite a Team Member</h2>
+                <p className="text-gray-600">They will receive an email link to create their admin account</p>
+              </div>
+
+              {inviteError && (
+                <div className="mb-6 rounded-md bg-red-50 p-4">
+                  <p className="text-sm font-medium text-red-800">{inviteError}</p>
+                </div>
+              )}
+              {inviteNotice && (
+                <div className="mb-6 rounded-md bg-green-50 p-4">
+                  <p className="text-sm font-medium text-green-800">{inviteNotice}</p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 gap-6 sm:grid-cols-3 items-end">
+                <div className="sm:col-span-2">
+                  <label htmlFor="inviteEmail" className="block text-sm font-medium text-gray-700">
+                    Email Address
+                  </label>
+                  <input
+                    id="inviteEmail"
+                    type="email"
+                    required
+                    value={email}
+                    onChange={(e) => {
+                      setEmail(e.target.value);
+                      setInviteError(null);
+                    }}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    placeholder="colleague@example.com"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="inviteRole" className="block text-sm font-medium text-gray-700">
+                    Role
+                  </label>
+                  <select
+                    id="inviteRole"
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as Role)}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  >
+                    {ASSIGNABLE_ROLES.map((assignableRole) => (
+                      <option key={assignableRole} value={assignableRole}>
+                        {getRoleLabel(assignableRole)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="mt-6 flex justify-end">
+                <button
+                  type="submit"
+                  disabled={isInviting || !email}
+                  className="inline-flex items-center px-6 py-3 border border-transparent text-sm font-medium rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isInviting ? 'Sending...' : 'Send Invitation'}
+                </button>
+              </div>
+            </form>
+          </div>
+
+          {error && (
+            <div className="rounded-md bg-red-50 p-4">
+              <p className="text-sm font-medium text-red-800">{error}</p>
+            </div>
+          )}
+
+          {/* Invitations */}
+          <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+            <div className="px-8 py-8">
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">Invitations</h2>
+              {isFetching ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : invitations.length === 0 ? (
+                <p className="text-sm text-gray-500">No invitations yet.</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      <th className="py-3">Email</th>
+                      <th className="py-3">Role</th>
+                      <th className="py-3">Status</th>
+                      <th className="py-3">Expires</th>
+                      <th className="py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {invitations.map((invitation) => (
+                      <tr key={invitation.id} className="text-sm">
+                        <td className="py-4 font-medium text-gray-900">{invitation.email}</td>
+                        <td className="py-4 text-gray-700">{getRoleLabel(invitation.role)}</td>
+                        <td className="py-4">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[invitation.status]}`}>
+                            {invitation.status}
+                          </span>
+                        </td>
+                        <td className="py-4 text-gray-500">{new Date(invitation.expiresAt).toLocaleDateString()}</td>
+                        <td className="py-4 text-right space-x-4">
+                          {(invitation.status === 'pending' || invitation.status === 'expired') && (
+                            <button
+                              type="button"
+                              onClick={() => handleResend(invitation.id)}
+                              disabled={busyInvitationId === invitation.id}
+                              className="font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                            >
+                              Resend
+                            </button>
+                          )}
+                          {invitation.status === 'pending' && (
+                            <button
+                              type="button"
+                              onClick={() => handleRevoke(invitation.id)}
+                              disabled={busyInvitationId === invitation.id}
+                              className="font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                            >
+                              Revoke
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+
+          {/* Members */}
+          <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+            <div className="px-8 py-8">
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">Team Members</h2>
+              {isFetching ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      <th className="py-3">Name</th>
+                      <th className="py-3">Email</th>
+                      <th className="py-3">Role</th>
+                      <th className="py-3">Status</th>
+                      <th className="py-3">Last Login</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {members.map((member) => (
+                      <tr key={member.id} className="text-sm">
+                        <td className="py-4 font-medium text-gray-900">
+                          {member.firstName} {member.lastName}
+                          {member.id === user.id && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                        </td>
+                        <td className="py-4 text-gray-700">{member.email}</td>
+                        <td className="py-4 text-gray-700">{getRoleLabel(member.role)}</td>
+                        <td className="py-4">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            member.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                          }`}>
+                            {member.isActive ? 'Active' : 'Inactive'}
+                          </span>
+                        </td>
+                        <td className="py-4 text-gray-500">
+                          {member.lastLogin ? new Date(member.lastLogin).toLocaleString() : 'Never'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default TeamPage;
@@ -0,0 +1,185 @@
+'use client';
+
+import React, { useState, useEffect, ReactNode } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import AddressLines from '@/components/orders/AddressLines';
+import UserAccountActions from '@/components/users/UserAccountActions';
+import UserOrderHistory from '@/components/users/UserOrderHistory';
+import UserStatusBadges from '@/components/users/UserStatusBadges';
+import { ApiError, getErrorMessage } from '@/lib/apiClient';
+import { AdminUser } from '@/lib/auth';
+import userService, { getUserRoleLabel, isStaffUser, SavedAddress } from '@/lib/users';
+
+const Section: React.FC<{ title: string; children: ReactNode }> = ({ title, children }) => (
+  <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+    <div className="px-6 py-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-4">{title}</h3>
+      {children}
+    </div>
+  </div>
+);
+
+const UserDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, isLoading, can } = useAuth();
+  const [member, setMember] = useState<AdminUser | null>(null);
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+  const [addresses, setAddresses] = useState<SavedAddress[] | null>(null);
+  const [addressError, setAddressError] = useState<string | null>(null);
+
+  useEffect(() => {
+    userService
+      .getUser(id)
+      .then(setMember)
+      .catch((error) => setLoadError(ApiError.from(error, 'Failed to load user')));
+
+    userService
+      .getUserAddresses(id)
+      .then(setAddresses)
+      .catch((error) => setAddressError(getErrorMessage(error, 'Failed to load addresses')));
+  }, [id]);
+
+  if (isLoading || !user || (!member && !loadError)) {
+    return <SessionGate />;
+  }
+
+  // Staff accounts are managed by whoever manages the team; nobody manages their own account here
+  const isSelf = member?.id === user.id;
+  const canManageAccount =
+    !!member && !isSelf && (isStaffUser(member) ? can('team:manage') : can('customers:write'));
+  const canChangeRole = !!member && !isSelf && can('team:manage');
+  const canImpersonate = !!member && !isStaffUser(member) && member.isActive && can('customers:write');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader backHref="/users" backLabel="Back to Users" />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {loadError || !member ? (
+            <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+              <div className="px-8 py-8 text-center">
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                  {loadError?.isNotFound ? 'User Not Found' : 'Something Went Wrong'}
+                </h2>
+                <p className="text-gray-600">{loadError?.isNotFound ? 'This user may have been deleted.' : loadError?.message}</p>
+                <Link href="/users" className="mt-6 inline-block font-medium text-blue-600 hover:text-blue-500">
+                  Back to Users
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 gap-8 lg:grid-cols-3">
+              <div className="space-y-8 lg:col-span-2">
+                <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+                  <div className="px-8 py-8">
+                    <div className="mb-6 flex items-start justify-between">
+                      <div>
+                        <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                          {member.firstName} {member.lastName}
+                        </h2>
+                        <p className="text-gray-600">{member.email}</p>
+                      </div>
+                      <UserStatusBadges user={member} />
+                    </div>
+
+                    <dl className="grid grid-cols-1 gap-4 sm:grid-cols-2 text-sm">
+                      <div>
+                        <dt className="text-gray-500">Role</dt>
+                        <dd className="font-medium text-gray-900">{getUserRoleLabel(member.role)}</dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500">Phone</dt>
+                        <dd className="font-medium text-gray-900">
+                          {member.phone || '—'}
+                          {member.phone && !member.isPhoneVerified && (
+                            <span className="ml-2 text-xs font-normal text-yellow-700">Unverified</span>
+                          )}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500">Signed up</dt>
+                        <dd className="font-medium text-gray-900">{new Date(member.createdAt).toLocaleString()}</dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500">Last login</dt>
+                        <dd className="font-medium text-gray-900">
+                          {member.lastLogin ? new Date(member.lastLogin).toLocaleString() : 'Never'}
+                        </dd>
+                      </div>
+                      {isStaffUser(member) && (
+                        <div>
+                          <dt className="text-gray-500">Two-factor authentication</dt>
+                          <dd className="font-medium text-gray-900">{member.isTwoFactorEnabled ? 'Enabled' : 'Off'}</dd>
+                        </div>
+                      )}
+                    </dl>
+                  </div>
+                </div>
+
+                {can('orders:read') && (
+                  <Section title="Order History">
+                    <UserOrderHistory userId={member.id} />
+                  </Section>
+                )}
+
+                <Section title="Saved Addresses">
+                  {addressError ? (
+                    <p className="text-sm text-red-600">{addressError}</p>
+                  ) : !addresses ? (
+                    <div className="flex justify-center py-4">
+                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+                    </div>
+                  ) : addresses.length === 0 ? (
+                    <p className="text-sm text-gray-500">No saved addresses.</p>
+                  ) : (
+                    <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+                      {addresses.map((address) => (
+                        <div key={address.id} className="rounded-lg border border-gray-200 p-4">
+                          <AddressLines address={address} />
+                          {(address.isDefaultShipping || address.isDefaultBilling) && (
+                            <p className="mt-2 text-xs font-medium text-blue-600">
+                              Default{' '}
+                              {[address.isDefaultShipping && 'shipping', address.isDefaultBilling && 'billing']
+                                .filter(Boolean)
+                                .join(' and ')}
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </Section>
+              </div>
+
+              <div className="self-start">
+                <Section title="Account Actions">
+                  {canManageAccount || canChangeRole || canImpersonate ? (
+                    <UserAccountActions
+                      key={member.id}
+                      user={member}
+                      canManageAccount={canManageAccount}
+                      canChangeRole={canChangeRole}
+                      canImpersonate={canImpersonate}
+                      onUpdated={setMember}
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-500">
+                      {isSelf ? 'Manage your own account from your profile.' : 'You do not have permission to change this account.'}
+                    </p>
+                  )}
+                </Section>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default UserDetailPage;
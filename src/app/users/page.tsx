@@ -0,0 +1,316 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, Suspense } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import PageHeader from '@/components/layout/PageHeader';
+import SessionGate from '@/components/layout/SessionGate';
+import RequirePermission from '@/components/RequirePermission';
+import ExportButton from '@/components/table/ExportButton';
+import Pagination from '@/components/table/Pagination';
+import SortableHeader from '@/components/table/SortableHeader';
+import UserStatusBadges from '@/components/users/UserStatusBadges';
+import { useListQuery } from '@/hooks/useListQuery';
+import { getErrorMessage, PaginatedList } from '@/lib/apiClient';
+import { AdminUser } from '@/lib/auth';
+import { ExportColumn, ExportScope } from '@/lib/dataExport';
+import { parseDateInputValue } from '@/lib/dateRange';
+import { ROLES } from '@/lib/permissions';
+import userService, { CUSTOMER_ROLE, getUserRoleLabel, UserListParams, UserSortField } from '@/lib/users';
+
+const PAGE_SIZE = 25;
+const SORT_FIELDS: UserSortField[] = ['name', 'createdAt', 'lastLogin'];
+const ROLE_FILTERS: string[] = [CUSTOMER_ROLE, ...ROLES];
+
+const EXPORT_COLUMNS: ExportColumn<AdminUser>[] = [
+  { key: 'id', label: 'ID', value: (member) => member.id, defaultSelected: false },
+  { key: 'firstName', label: 'First name', value: (member) => member.firstName },
+  { key: 'lastName', label: 'Last name', value: (member) => member.lastName },
+  { key: 'email', label: 'Email', value: (member) => member.email },
+  { key: 'phone', label: 'Phone', value: (member) => member.phone ?? null },
+  { key: 'role', label: 'Role', value: (member) => getUserRoleLabel(member.role) },
+  { key: 'isActive', label: 'Active', value: (member) => member.isActive },
+  { key: 'isEmailVerified', label: 'Email verified', value: (member) => member.isEmailVerified },
+  { key: 'city', label: 'City', value: (member) => member.address?.city ?? null, defaultSelected: false },
+  { key: 'country', label: 'Country', value: (member) => member.address?.country ?? null, defaultSelected: false },
+  { key: 'createdAt', label: 'Signed up', value: (member) => member.createdAt },
+  { key: 'lastLogin', label: 'Last login', value: (member) => member.lastLogin ?? null },
+];
+
+const parseDate = (value: string | null): string | undefined =>
+  value && parseDateInputValue(value) ? value : undefined;
+
+// The list state lives in the URL so filters survive reloads and back navigation
+const parseListParams = (searchParams: URLSearchParams): UserListParams => {
+  const sortBy = searchParams.get('sortBy') as UserSortField | null;
+  const role = searchParams.get('role');
+  const status = searchParams.get('status');
+  const verified = searchParams.get('verified');
+
+  return {
+    page: Math.max(1, Number(searchParams.get('page')) || 1),
+    pageSize: PAGE_SIZE,
+    sortBy: sortBy && SORT_FIELDS.includes(sortBy) ? sortBy : 'createdAt',
+    sortOrder: searchParams.get('sortOrder') === 'asc' ? 'asc' : 'desc',
+    search: searchParams.get('search') || undefined,
+    role: role && ROLE_FILTERS.includes(role) ? role : undefined,
+    status: status === 'active' || status === 'inactive' ? status : undefined,
+    verified: verified === 'yes' || verified === 'no' ? verified : undefined,
+    signupFrom: parseDate(searchParams.get('signupFrom')),
+    signupTo: parseDate(searchParams.get('signupTo')),
+  };
+};
+
+const UserList: React.FC = () => {
+  const { searchParams, updateQuery, textInputs, setTextInput } = useListQuery<UserListParams>('/users');
+  const params = useMemo(() => parseListParams(searchParams), [searchParams]);
+
+  const [result, setResult] = useState<PaginatedList<AdminUser> | null>(null);
+  const [isFetching, setIsFetching] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsFetching(true);
+    setError(null);
+
+    userService
+      .getUsers(params)
+      .then((list) => {
+        if (!isCancelled) {
+          setResult(list);
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setError(getErrorMessage(error, 'Failed to load users'));
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsFetching(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [params]);
+
+  const handleSort = (field: UserSortField) => {
+    const sortOrder = params.sortBy === field && params.sortOrder === 'asc' ? 'desc' : 'asc';
+    updateQuery({ sortBy: field, sortOrder });
+  };
+
+  const hasFilters = Boolean(
+    params.search || params.role || params.status || params.verified || params.signupFrom || params.signupTo
+  );
+
+  // Exports keep the list's sort order, with or without its filters
+  const getExportPage = (scope: ExportScope) => (page: number, pageSize: number) =>
+    userService.getUsers(
+      scope === 'filtered'
+        ? { ...params, page, pageSize }
+        : { page, pageSize, sortBy: params.sortBy, sortOrder: params.sortOrder }
+    );
+
+  const inputClassName =
+    'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+      <div className="px-8 py-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Users</h2>
+            <p className="text-gray-600">Customers and staff accounts</p>
+          </div>
+          <RequirePermission permission="data:export">
+            <ExportButton
+              filenamePrefix="users"
+              columns={EXPORT_COLUMNS}
+              filteredTotal={result?.total}
+              hasFilters={hasFilters}
+              fetchPage={getExportPage}
+            />
+          </RequirePermission>
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-4 mb-6">
+          <div className="sm:col-span-2">
+            <label htmlFor="userSearch" className="block text-xs font-medium text-gray-700 mb-1">
+              Search
+            </label>
+            <input
+              id="userSearch"
+              type="search"
+              value={textInputs.search ?? ''}
+              onChange={(e) => setTextInput('search', e.target.value)}
+              placeholder="Name, email or phone"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="userRole" className="block text-xs font-medium text-gray-700 mb-1">
+              Role
+            </label>
+            <select
+              id="userRole"
+              value={params.role || ''}
+              onChange={(e) => updateQuery({ role: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">All roles</option>
+              {ROLE_FILTERS.map((role) => (
+                <option key={role} value={role}>
+                  {getUserRoleLabel(role)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="userStatus" className="block text-xs font-medium text-gray-700 mb-1">
+              Status
+            </label>
+            <select
+              id="userStatus"
+              value={params.status || ''}
+              onChange={(e) => updateQuery({ status: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">Any status</option>
+              <option value="active">Active</option>
+              <option value="inactive">Deactivated</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="userVerified" className="block text-xs font-medium text-gray-700 mb-1">
+              Email
+            </label>
+            <select
+              id="userVerified"
+              value={params.verified || ''}
+              onChange={(e) => updateQuery({ verified: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">Verified or not</option>
+              <option value="yes">Verified</option>
+              <option value="no">Unverified</option>
+            </select>
+          </div>
+          <div className="sm:col-span-2">
+            <span className="block text-xs font-medium text-gray-700 mb-1">Signed up between</span>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                aria-label="Signed up from"
+                value={params.signupFrom || ''}
+                max={params.signupTo}
+                onChange={(e) => updateQuery({ signupFrom: e.target.value })}
+                className={inputClassName}
+              />
+              <span className="text-gray-500">–</span>
+              <input
+                type="date"
+                aria-label="Signed up to"
+                value={params.signupTo || ''}
+                min={params.signupFrom}
+                onChange={(e) => updateQuery({ signupTo: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-md bg-red-50 p-4">
+            <p className="text-sm font-medium text-red-800">{error}</p>
+          </div>
+        )}
+
+        {isFetching && !result ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : result && result.items.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">No users match these filters.</p>
+        ) : result ? (
+          <div className={isFetching ? 'opacity-60 transition-opacity' : ''}>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <SortableHeader field="name" sortBy={params.sortBy} sortOrder={params.sortOrder} onSort={handleSort}>
+                      User
+                    </SortableHeader>
+                    <th className="py-3">Role</th>
+                    <th className="py-3">Status</th>
+                    <SortableHeader field="createdAt" sortBy={params.sortBy} sortOrder={params.sortOrder} onSort={handleSort}>
+                      Signed Up
+                    </SortableHeader>
+                    <SortableHeader field="lastLogin" sortBy={params.sortBy} sortOrder={params.sortOrder} onSort={handleSort}>
+                      Last Login
+                    </SortableHeader>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {result.items.map((member) => (
+                    <tr key={member.id} className="text-sm">
+                      <td className="py-4">
+                        <Link href={`/users/${member.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                          {member.firstName} {member.lastName}
+                        </Link>
+                        <p className="text-xs text-gray-500">{member.email}</p>
+                      </td>
+                      <td className="py-4 text-gray-700">{getUserRoleLabel(member.role)}</td>
+                      <td className="py-4">
+                        <UserStatusBadges user={member} />
+                      </td>
+                      <td className="py-4 text-gray-500">{new Date(member.createdAt).toLocaleDateString()}</td>
+                      <td className="py-4 text-gray-500">
+                        {member.lastLogin ? new Date(member.lastLogin).toLocaleString() : 'Never'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <Pagination
+              page={result.page}
+              pageSize={result.pageSize}
+              total={result.total}
+              onPageChange={(page) => updateQuery({ page })}
+            />
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+const UsersPage: React.FC = () => {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading || !user) {
+    return <SessionGate />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <PageHeader />
+
+      <main className="max-w-6xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {/* useSearchParams needs a Suspense boundary so the page can still be prerendered */}
+          <Suspense fallback={null}>
+            <UserList />
+          </Suspense>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default UsersPage;
@@ -0,0 +1,20 @@
+'use client';
+
+import React, { ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Permission } from '@/lib/permissions';
+
+interface RequirePermissionProps {
+  permission: Permission;
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+// Renders children only when the signed-in admin holds the given permission
+const RequirePermission: React.FC<RequirePermissionProps> = ({ permission, fallback = null, children }) => {
+  const { can } = useAuth();
+
+  return <>{can(permission) ? children : fallback}</>;
+};
+
+export default RequirePermission;
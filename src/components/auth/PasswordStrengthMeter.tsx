@@ -0,0 +1,60 @@
+'use client';
+
+import React from 'react';
+import { evaluatePassword, PasswordContext, PasswordStrength } from '@/lib/passwordPolicy';
+
+interface PasswordStrengthMeterProps extends PasswordContext {
+  password: string;
+}
+
+const STRENGTH_STYLES: Record<PasswordStrength, { label: string; bar: string; text: string }> = {
+  weak: { label: 'Weak', bar: 'bg-red-500', text: 'text-red-600' },
+  fair: { label: 'Fair', bar: 'bg-yellow-500', text: 'text-yellow-600' },
+  good: { label: 'Good', bar: 'bg-blue-500', text: 'text-blue-600' },
+  strong: { label: 'Strong', bar: 'bg-green-500', text: 'text-green-600' },
+};
+
+// Live strength bar and policy checklist shown under new-password fields
+const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password, email }) => {
+  if (!password) {
+    return null;
+  }
+
+  const { checks, score, strength } = evaluatePassword(password, { email });
+  const style = STRENGTH_STYLES[strength];
+
+  return (
+    <div className="mt-2 space-y-2" aria-live="polite">
+      <div className="flex items-center space-x-3">
+        <div className="flex-1 grid grid-cols-4 gap-1">
+          {[1, 2, 3, 4].map((segment) => (
+            <div
+              key={segment}
+              className={`h-1.5 rounded-full ${segment <= Math.max(score, 1) ? style.bar : 'bg-gray-200'}`}
+            />
+          ))}
+        </div>
+        <span className={`text-xs font-medium ${style.text}`}>{style.label}</span>
+      </div>
+      <ul className="space-y-1">
+        {checks.map((check) => (
+          <li
+            key={check.id}
+            className={`flex items-center text-xs ${check.passed ? 'text-green-600' : 'text-gray-500'}`}
+          >
+            <svg className="h-3.5 w-3.5 mr-1.5 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+              {check.passed ? (
+                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+              ) : (
+                <circle cx="10" cy="10" r="3" />
+              )}
+            </svg>
+            {check.label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { TwoFactorMethod } from '@/lib/auth';
+
+const TwoFactorChallengeForm: React.FC = () => {
+  const [code, setCode] = useState('');
+  const [method, setMethod] = useState<TwoFactorMethod>('totp');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { verifyTwoFactor, cancelTwoFactor, error, clearError } = useAuth();
+
+  const isRecovery = method === 'recovery_code';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!code.trim()) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await verifyTwoFactor(code.trim(), method);
+    } catch {
+      // Error is handled by context
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleMethod = () => {
+    setMethod(isRecovery ? 'totp' : 'recovery_code');
+    setCode('');
+    clearError();
+  };
+
+  return (
+    <div className="max-w-md w-full space-y-8">
+      <div>
+        <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-blue-600">
+          <svg className="h-8 w-8 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+          </svg>
+        </div>
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+          Two-Factor Verification
+        </h2>
+        <p className="mt-2 text-center text-sm text-gray-600">
+          {isRecovery
+            ? 'Enter one of the recovery codes you saved when enabling two-factor authentication'
+            : 'Enter the 6-digit code from your authenticator app'}
+        </p>
+      </div>
+
+      <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+        {error && (
+          <div className="rounded-md bg-red-50 p-4">
+            <div className="flex">
+              <div className="flex-shrink-0">
+                <svg className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                </svg>
+              </div>
+              <div className="ml-3">
+                <h3 className="text-sm font-medium text-red-800">
+                  {error}
+                </h3>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+            {isRecovery ? 'Recovery code' : 'Authentication code'}
+          </label>
+          <input
+            id="code"
+            name="code"
+            type="text"
+            inputMode={isRecovery ? 'text' : 'numeric'}
+            autoComplete="one-time-code"
+            autoFocus
+            required
+            maxLength={isRecovery ? 20 : 6}
+            value={code}
+            onChange={(e) => setCode(isRecovery ? e.target.value : e.target.value.replace(/\D/g, ''))}
+            className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm tracking-widest text-center font-mono"
+            placeholder={isRecovery ? 'xxxx-xxxx' : '000000'}
+          />
+        </div>
+
+        <div>
+          <button
+            type="submit"
+            disabled={isSubmitting || !code.trim()}
+            className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting && (
+              <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+            )}
+            {isSubmitting ? 'Verifying...' : 'Verify'}
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between text-sm">
+          <button
+            type="button"
+            onClick={toggleMethod}
+            className="font-medium text-blue-600 hover:text-blue-500"
+          >
+            {isRecovery ? 'Use authenticator app' : 'Use a recovery code'}
+          </button>
+          <button
+            type="button"
+            onClick={cancelTwoFactor}
+            className="font-medium text-gray-600 hover:text-gray-500"
+          >
+            Back to sign in
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TwoFactorChallengeForm;
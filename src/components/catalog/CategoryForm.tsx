@@ -0,0 +1,258 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import MediaUploader from '@/components/media/MediaUploader';
+import SeoFields from '@/components/catalog/SeoFields';
+import { ApiError, getErrorMessage } from '@/lib/apiClient';
+import catalogService, {
+  CategoryDetail,
+  CategoryFormValues,
+  categoryFormSchema,
+  EMPTY_CATEGORY_FORM,
+  getCategoryPaths,
+  isSelfOrDescendant,
+  slugify,
+  toCategoryFormValues,
+  toCategoryInput,
+} from '@/lib/catalog';
+
+interface CategoryFormProps {
+  // Omitted when creating a new category
+  category?: CategoryDetail;
+  categories: CategoryDetail[];
+  // Pre-selected parent for a new category
+  defaultParentId?: string | null;
+  readOnly?: boolean;
+  onSaved: (category: CategoryDetail) => void;
+  onDeleted: (categoryId: string) => void;
+}
+
+const CategoryForm: React.FC<CategoryFormProps> = ({
+  category,
+  categories,
+  defaultParentId = null,
+  readOnly = false,
+  onSaved,
+  onDeleted,
+}) => {
+  const [error, setError] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    setValue,
+    setError: setFieldError,
+    formState: { errors, isSubmitting, isDirty, dirtyFields },
+  } = useForm<CategoryFormValues>({
+    resolver: zodResolver(categoryFormSchema),
+    defaultValues: category ? toCategoryFormValues(category) : { ...EMPTY_CATEGORY_FORM, parentId: defaultParentId ?? '' },
+  });
+
+  const imageUrl = watch('imageUrl');
+  const nameField = register('name');
+
+  // A category cannot become a child of itself or of one of its own descendants
+  const parentOptions = getCategoryPaths(categories).filter(
+    ({ id }) => !category || !isSelfOrDescendant(categories, category.id, id)
+  );
+
+  const onSubmit = async (values: CategoryFormValues) => {
+    try {
+      setError(null);
+      setIsSaved(false);
+      const input = toCategoryInput(values);
+      const saved = category
+        ? await catalogService.updateCategory(category.id, input)
+        : await catalogService.createCategory(input);
+
+      reset(toCategoryFormValues(saved));
+      setIsSaved(true);
+      onSaved(saved);
+    } catch (error) {
+      const apiError = ApiError.from(error, category ? 'Failed to update category' : 'Failed to create category');
+      if (apiError.hasFieldErrors) {
+        Object.entries(apiError.fieldErrors).forEach(([field, message]) =>
+          setFieldError(field as keyof CategoryFormValues, { message })
+        );
+      } else {
+        setError(apiError.message);
+      }
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!category) {
+      return;
+    }
+
+    const hasChildren = categories.some((candidate) => candidate.parentId === category.id);
+    const prompt = `Delete "${category.name}"?${hasChildren ? ' Its subcategories will move up a level.' : ''}${
+      category.productCount > 0 ? ` ${category.productCount} products will lose this category.` : ''
+    }`;
+    if (!window.confirm(prompt)) {
+      return;
+    }
+
+    try {
+      setIsDeleting(true);
+      setError(null);
+      await catalogService.deleteCategory(category.id);
+      onDeleted(category.id);
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to delete category'));
+      setIsDeleting(false);
+    }
+  };
+
+  const inputClassName = (field: keyof CategoryFormValues) =>
+    `mt-1 block w-full border rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+      errors[field] ? 'border-red-300' : 'border-gray-300'
+    } ${readOnly ? 'bg-gray-50 text-gray-600' : ''}`;
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} noValidate>
+      {error && (
+        <div className="mb-6 rounded-md bg-red-50 p-4">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+      {isSaved && !isDirty && (
+        <div className="mb-6 rounded-md bg-green-50 p-4">
+          <p className="text-sm font-medium text-green-800">Category saved.</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+        <div>
+          <label htmlFor="categoryName" className="block text-sm font-medium text-gray-700">
+            Name
+          </label>
+          <input
+            id="categoryName"
+            type="text"
+            readOnly={readOnly}
+            {...nameField}
+            onChange={(e) => {
+              nameField.onChange(e);
+              // Suggest a slug for new categories until the slug is edited by hand
+              if (!category && !dirtyFields.slug) {
+                setValue('slug', slugify(e.target.value));
+              }
+            }}
+            className={inputClassName('name')}
+          />
+          {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="categorySlug" className="block text-sm font-medium text-gray-700">
+            Slug
+          </label>
+          <input id="categorySlug" type="text" readOnly={readOnly} {...register('slug')} className={inputClassName('slug')} />
+          {errors.slug ? (
+            <p className="mt-1 text-sm text-red-600">{errors.slug.message}</p>
+          ) : (
+            <p className="mt-1 text-xs text-gray-500">Used in the category URL</p>
+          )}
+        </div>
+
+        <div className="sm:col-span-2">
+          <label htmlFor="categoryParent" className="block text-sm font-medium text-gray-700">
+            Parent Category
+          </label>
+          <select id="categoryParent" disabled={readOnly} {...register('parentId')} className={inputClassName('parentId')}>
+            <option value="">None (top level)</option>
+            {parentOptions.map(({ id, path }) => (
+              <option key={id} value={id}>
+                {path}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="sm:col-span-2">
+          <label htmlFor="categoryDescription" className="block text-sm font-medium text-gray-700">
+            Description
+          </label>
+          <textarea
+            id="categoryDescription"
+            rows={4}
+            readOnly={readOnly}
+            {...register('description')}
+            className={inputClassName('description')}
+          />
+          {errors.description && <p className="mt-1 text-sm text-red-600">{errors.description.message}</p>}
+        </div>
+
+        <div className="sm:col-span-2">
+          <span className="block text-sm font-medium text-gray-700 mb-2">Image</span>
+          {imageUrl ? (
+            <div className="flex items-center gap-4">
+              <img src={imageUrl} alt="" className="h-24 w-24 rounded-lg object-cover border border-gray-200" />
+              {!readOnly && (
+                <button
+                  type="button"
+                  onClick={() => setValue('imageUrl', '', { shouldDirty: true })}
+                  className="text-sm font-medium text-red-600 hover:text-red-500"
+                >
+                  Remove image
+                </button>
+              )}
+            </div>
+          ) : readOnly ? (
+            <p className="text-sm text-gray-500">No image.</p>
+          ) : (
+            <MediaUploader maxFiles={1} onUploaded={(asset) => setValue('imageUrl', asset.url, { shouldDirty: true })} />
+          )}
+        </div>
+
+        <div className="sm:col-span-2">
+          <SeoFields
+            idPrefix="category"
+            titleField={register('seoTitle')}
+            descriptionField={register('seoDescription')}
+            title={watch('seoTitle')}
+            description={watch('seoDescription')}
+            fallbackTitle={watch('name')}
+            fallbackDescription={watch('description')}
+            titleError={errors.seoTitle?.message}
+            descriptionError={errors.seoDescription?.message}
+            readOnly={readOnly}
+          />
+        </div>
+      </div>
+
+      {!readOnly && (
+        <div className="mt-8 flex items-center justify-between gap-4">
+          {category ? (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={isDeleting || isSubmitting}
+              className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+            >
+              {isDeleting ? 'Deleting...' : 'Delete Category'}
+            </button>
+          ) : (
+            <span />
+          )}
+          <button
+            type="submit"
+            disabled={isSubmitting || isDeleting || (!!category && !isDirty)}
+            className="inline-flex items-center px-8 py-3 border-2 border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-4 focus:ring-blue-500/20 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Saving...' : category ? 'Save Changes' : 'Create Category'}
+          </button>
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default CategoryForm;
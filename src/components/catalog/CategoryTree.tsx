@@ -0,0 +1,211 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CategoryDetail, CategoryMove, CategoryNode, isSelfOrDescendant } from '@/lib/catalog';
+
+interface CategoryTreeProps {
+  tree: CategoryNode[];
+  // The same categories as a flat list, used to work out sibling positions
+  categories: CategoryDetail[];
+  selectedId: string | null;
+  onSelect: (categoryId: string) => void;
+  onMove: (categoryId: string, move: CategoryMove) => void;
+  readOnly?: boolean;
+}
+
+// Dropping on the top or bottom edge of a row reorders; dropping on the middle nests inside it
+type DropPlacement = 'before' | 'inside' | 'after';
+
+interface DropTarget {
+  categoryId: string;
+  placement: DropPlacement;
+}
+
+const EDGE_FRACTION = 0.25;
+
+const getSiblings = (categories: CategoryDetail[], parentId: string | null, excludeId?: string) =>
+  categories
+    .filter((category) => category.parentId === parentId && category.id !== excludeId)
+    .sort((a, b) => a.position - b.position);
+
+const CategoryTree: React.FC<CategoryTreeProps> = ({ tree, categories, selectedId, onSelect, onMove, readOnly = false }) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+
+  // Where the dragged category would end up, or null when the drop is not allowed
+  const resolveMove = (categoryId: string, target: DropTarget): CategoryMove | null => {
+    const targetCategory = categories.find((category) => category.id === target.categoryId);
+    if (!targetCategory || categoryId === target.categoryId) {
+      return null;
+    }
+
+    const parentId = target.placement === 'inside' ? targetCategory.id : targetCategory.parentId;
+    // A category cannot be moved underneath itself
+    if (isSelfOrDescendant(categories, categoryId, parentId)) {
+      return null;
+    }
+
+    const siblings = getSiblings(categories, parentId, categoryId);
+    if (target.placement === 'inside') {
+      return { parentId, position: siblings.length };
+    }
+
+    const index = siblings.findIndex((sibling) => sibling.id === targetCategory.id);
+    return { parentId, position: target.placement === 'before' ? index : index + 1 };
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, categoryId: string) => {
+    if (!draggingId) {
+      return;
+    }
+
+    const { top, height } = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - top) / height;
+    const placement: DropPlacement = offset < EDGE_FRACTION ? 'before' : offset > 1 - EDGE_FRACTION ? 'after' : 'inside';
+    const target = { categoryId, placement };
+
+    if (!resolveMove(draggingId, target)) {
+      setDropTarget(null);
+      return;
+    }
+
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (dropTarget?.categoryId !== categoryId || dropTarget.placement !== placement) {
+      setDropTarget(target);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const move = draggingId && dropTarget ? resolveMove(draggingId, dropTarget) : null;
+    if (draggingId && move) {
+      onMove(draggingId, move);
+    }
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  // Keyboard-friendly alternative to dragging within the same parent
+  const moveWithinParent = (category: CategoryDetail, offset: -1 | 1) => {
+    const siblings = getSiblings(categories, category.parentId, category.id);
+    const currentIndex = getSiblings(categories, category.parentId).findIndex((sibling) => sibling.id === category.id);
+    const position = currentIndex + offset;
+
+    if (position >= 0 && position <= siblings.length) {
+      onMove(category.id, { parentId: category.parentId, position });
+    }
+  };
+
+  const toggleCollapsed = (categoryId: string) => {
+    setCollapsedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(categoryId)) {
+        next.delete(categoryId);
+      } else {
+        next.add(categoryId);
+      }
+      return next;
+    });
+  };
+
+  const renderNodes = (nodes: CategoryNode[], depth: number) => (
+    <ul role={depth === 0 ? 'tree' : 'group'} className="space-y-1">
+      {nodes.map((node, index) => {
+        const isSelected = node.id === selectedId;
+        const isCollapsed = collapsedIds.has(node.id);
+        const placement = dropTarget?.categoryId === node.id ? dropTarget.placement : null;
+
+        return (
+          <li key={node.id} role="treeitem" aria-selected={isSelected} aria-expanded={node.children.length > 0 ? !isCollapsed : undefined}>
+            <div
+              draggable={!readOnly}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                // Firefox only starts a drag when some data is set
+                e.dataTransfer.setData('text/plain', node.id);
+                setDraggingId(node.id);
+              }}
+              onDragOver={(e) => handleDragOver(e, node.id)}
+              onDrop={handleDrop}
+              onDragEnd={() => {
+                setDraggingId(null);
+                setDropTarget(null);
+              }}
+              style={{ paddingLeft: `${depth * 1.25 + 0.5}rem` }}
+              className={`flex items-center gap-2 rounded-lg border-y-2 pr-2 py-1.5 text-sm ${
+                placement === 'before' ? 'border-t-blue-500' : 'border-t-transparent'
+              } ${placement === 'after' ? 'border-b-blue-500' : 'border-b-transparent'} ${
+                placement === 'inside' ? 'bg-blue-100' : isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'
+              } ${draggingId === node.id ? 'opacity-50' : ''} ${readOnly ? '' : 'cursor-move'}`}
+            >
+              {node.children.length > 0 ? (
+                <button
+                  type="button"
+                  onClick={() => toggleCollapsed(node.id)}
+                  aria-label={isCollapsed ? `Expand ${node.name}` : `Collapse ${node.name}`}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <svg className={`h-4 w-4 transition-transform ${isCollapsed ? '' : 'rotate-90'}`} fill="currentColor" viewBox="0 0 20 20">
+                    <path d="M7 5l6 5-6 5V5z" />
+                  </svg>
+                </button>
+              ) : (
+                <span className="w-4" />
+              )}
+              <button
+                type="button"
+                onClick={() => onSelect(node.id)}
+                className={`flex-1 text-left truncate ${isSelected ? 'font-semibold text-blue-700' : 'text-gray-800'}`}
+              >
+                {node.name}
+              </button>
+              <span className="text-xs text-gray-500">{node.productCount}</span>
+              {isSelected && !readOnly && (
+                <span className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => moveWithinParent(node, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${node.name} up`}
+                    className="px-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveWithinParent(node, 1)}
+                    disabled={index === nodes.length - 1}
+                    aria-label={`Move ${node.name} down`}
+                    className="px-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                </span>
+              )}
+            </div>
+            {node.children.length > 0 && !isCollapsed && renderNodes(node.children, depth + 1)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  if (tree.length === 0) {
+    return <p className="text-sm text-gray-500">No categories yet.</p>;
+  }
+
+  return (
+    <div>
+      {renderNodes(tree, 0)}
+      {!readOnly && (
+        <p className="mt-4 text-xs text-gray-500">
+          Drag a category onto another to nest it, or onto the top or bottom edge of a row to reorder.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CategoryTree;
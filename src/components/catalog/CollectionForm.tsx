@@ -0,0 +1,342 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import CollectionPreview from '@/components/catalog/CollectionPreview';
+import SeoFields from '@/components/catalog/SeoFields';
+import { ApiError, getErrorMessage } from '@/lib/apiClient';
+import catalogService, {
+  Collection,
+  COLLECTION_RULE_FIELD_LABELS,
+  COLLECTION_RULE_FIELDS,
+  COLLECTION_RULE_OPERATOR_LABELS,
+  CollectionFormValues,
+  collectionFormSchema,
+  CollectionRuleField,
+  EMPTY_COLLECTION_FORM,
+  EMPTY_COLLECTION_RULE,
+  FIELD_OPERATORS,
+  getCategoryPaths,
+  NUMERIC_RULE_FIELDS,
+  slugify,
+  toCollectionFormValues,
+} from '@/lib/catalog';
+import { PRODUCT_STATUS_LABELS, PRODUCT_STATUSES } from '@/lib/products';
+
+interface CollectionFormProps {
+  // Omitted when creating a new collection
+  collection?: Collection;
+  readOnly?: boolean;
+  onSaved: (collection: Collection) => void;
+}
+
+const RULE_VALUE_PLACEHOLDERS: Partial<Record<CollectionRuleField, string>> = {
+  tag: 'summer',
+  title: 'shirt',
+  price: '50.00',
+  inventory: '10',
+};
+
+const CollectionForm: React.FC<CollectionFormProps> = ({ collection, readOnly = false, onSaved }) => {
+  const [categoryPaths, setCategoryPaths] = useState<{ id: string; path: string }[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    watch,
+    setValue,
+    setError: setFieldError,
+    formState: { errors, isSubmitting, isDirty, dirtyFields },
+  } = useForm<CollectionFormValues>({
+    resolver: zodResolver(collectionFormSchema),
+    defaultValues: collection ? toCollectionFormValues(collection) : EMPTY_COLLECTION_FORM,
+  });
+  const { fields, append, remove } = useFieldArray({ control, name: 'rules' });
+
+  const match = watch('match');
+  const rules = watch('rules');
+  const titleField = register('title');
+
+  useEffect(() => {
+    catalogService
+      .getCategories()
+      .then((categories) => setCategoryPaths(getCategoryPaths(categories)))
+      .catch((error) => setError(getErrorMessage(error, 'Failed to load categories')));
+  }, []);
+
+  const onSubmit = async (values: CollectionFormValues) => {
+    try {
+      setError(null);
+      setIsSaved(false);
+      const saved = collection
+        ? await catalogService.updateCollection(collection.id, values)
+        : await catalogService.createCollection(values);
+
+      reset(toCollectionFormValues(saved));
+      setIsSaved(true);
+      onSaved(saved);
+    } catch (error) {
+      const apiError = ApiError.from(error, collection ? 'Failed to update collection' : 'Failed to create collection');
+      if (apiError.hasFieldErrors) {
+        Object.entries(apiError.fieldErrors).forEach(([field, message]) =>
+          setFieldError(field as keyof CollectionFormValues, { message })
+        );
+      } else {
+        setError(apiError.message);
+      }
+    }
+  };
+
+  // Switching the field resets the condition and value, which rarely carry over
+  const handleFieldChange = (index: number, field: CollectionRuleField) => {
+    setValue(`rules.${index}.field`, field, { shouldDirty: true });
+    setValue(`rules.${index}.operator`, FIELD_OPERATORS[field][0], { shouldDirty: true });
+    setValue(`rules.${index}.value`, '', { shouldDirty: true });
+  };
+
+  const inputClassName = (hasError: boolean) =>
+    `mt-1 block w-full border rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+      hasError ? 'border-red-300' : 'border-gray-300'
+    } ${readOnly ? 'bg-gray-50 text-gray-600' : ''}`;
+
+  return (
+    <form className="px-8 py-8" onSubmit={handleSubmit(onSubmit)} noValidate>
+      {error && (
+        <div className="mb-6 rounded-md bg-red-50 p-4">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+      {isSaved && !isDirty && (
+        <div className="mb-6 rounded-md bg-green-50 p-4">
+          <p className="text-sm font-medium text-green-800">Collection saved.</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+        <div>
+          <label htmlFor="collectionTitle" className="block text-sm font-medium text-gray-700">
+            Title
+          </label>
+          <input
+            id="collectionTitle"
+            type="text"
+            readOnly={readOnly}
+            {...titleField}
+            onChange={(e) => {
+              titleField.onChange(e);
+              // Suggest a slug for new collections until the slug is edited by hand
+              if (!collection && !dirtyFields.slug) {
+                setValue('slug', slugify(e.target.value));
+              }
+            }}
+            className={inputClassName(!!errors.title)}
+          />
+          {errors.title && <p className="mt-1 text-sm text-red-600">{errors.title.message}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="collectionSlug" className="block text-sm font-medium text-gray-700">
+            Slug
+          </label>
+          <input id="collectionSlug" type="text" readOnly={readOnly} {...register('slug')} className={inputClassName(!!errors.slug)} />
+          {errors.slug ? (
+            <p className="mt-1 text-sm text-red-600">{errors.slug.message}</p>
+          ) : (
+            <p className="mt-1 text-xs text-gray-500">Used in the collection URL</p>
+          )}
+        </div>
+
+        <div className="sm:col-span-2">
+          <label htmlFor="collectionDescription" className="block text-sm font-medium text-gray-700">
+            Description
+          </label>
+          <textarea
+            id="collectionDescription"
+            rows={3}
+            readOnly={readOnly}
+            {...register('description')}
+            className={inputClassName(!!errors.description)}
+          />
+          {errors.description && <p className="mt-1 text-sm text-red-600">{errors.description.message}</p>}
+        </div>
+      </div>
+
+      <div className="mt-8 grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <fieldset className="lg:col-span-2 space-y-4">
+          <legend className="text-sm font-semibold text-gray-900">Conditions</legend>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+            <span>Products must match</span>
+            <label className="flex items-center">
+              <input
+                type="radio"
+                value="all"
+                disabled={readOnly}
+                {...register('match')}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 mr-2"
+              />
+              all conditions
+            </label>
+            <label className="flex items-center">
+              <input
+                type="radio"
+                value="any"
+                disabled={readOnly}
+                {...register('match')}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 mr-2"
+              />
+              any condition
+            </label>
+          </div>
+
+          {fields.map((ruleField, index) => {
+            const rule = rules[index] ?? ruleField;
+            const ruleErrors = errors.rules?.[index];
+            const valueInputId = `ruleValue${index}`;
+
+            return (
+              <div key={ruleField.id} className="grid grid-cols-1 gap-2 sm:grid-cols-[10rem_12rem_1fr_auto] sm:items-start">
+                <select
+                  aria-label={`Condition ${index + 1} field`}
+                  disabled={readOnly}
+                  value={rule.field}
+                  onChange={(e) => handleFieldChange(index, e.target.value as CollectionRuleField)}
+                  className={inputClassName(false)}
+                >
+                  {COLLECTION_RULE_FIELDS.map((field) => (
+                    <option key={field} value={field}>
+                      {COLLECTION_RULE_FIELD_LABELS[field]}
+                    </option>
+                  ))}
+                </select>
+
+                <div>
+                  <select
+                    aria-label={`Condition ${index + 1} operator`}
+                    disabled={readOnly}
+                    {...register(`rules.${index}.operator`)}
+                    className={inputClassName(!!ruleErrors?.operator)}
+                  >
+                    {FIELD_OPERATORS[rule.field].map((operator) => (
+                      <option key={operator} value={operator}>
+                        {COLLECTION_RULE_OPERATOR_LABELS[operator]}
+                      </option>
+                    ))}
+                  </select>
+                  {ruleErrors?.operator && <p className="mt-1 text-sm text-red-600">{ruleErrors.operator.message}</p>}
+                </div>
+
+                <div>
+                  {rule.field === 'category' ? (
+                    <select
+                      id={valueInputId}
+                      aria-label={`Condition ${index + 1} value`}
+                      disabled={readOnly}
+                      {...register(`rules.${index}.value`)}
+                      className={inputClassName(!!ruleErrors?.value)}
+                    >
+                      <option value="">Select a category</option>
+                      {categoryPaths.map(({ id, path }) => (
+                        <option key={id} value={id}>
+                          {path}
+                        </option>
+                      ))}
+                    </select>
+                  ) : rule.field === 'status' ? (
+                    <select
+                      id={valueInputId}
+                      aria-label={`Condition ${index + 1} value`}
+                      disabled={readOnly}
+                      {...register(`rules.${index}.value`)}
+                      className={inputClassName(!!ruleErrors?.value)}
+                    >
+                      <option value="">Select a status</option>
+                      {PRODUCT_STATUSES.map((status) => (
+                        <option key={status} value={status}>
+                          {PRODUCT_STATUS_LABELS[status]}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      id={valueInputId}
+                      aria-label={`Condition ${index + 1} value`}
+                      type="text"
+                      inputMode={NUMERIC_RULE_FIELDS.includes(rule.field) ? 'decimal' : undefined}
+                      readOnly={readOnly}
+                      placeholder={RULE_VALUE_PLACEHOLDERS[rule.field]}
+                      {...register(`rules.${index}.value`)}
+                      className={inputClassName(!!ruleErrors?.value)}
+                    />
+                  )}
+                  {ruleErrors?.value && <p className="mt-1 text-sm text-red-600">{ruleErrors.value.message}</p>}
+                </div>
+
+                {!readOnly && (
+                  <button
+                    type="button"
+                    onClick={() => remove(index)}
+                    disabled={fields.length === 1}
+                    aria-label={`Remove condition ${index + 1}`}
+                    className="mt-1 px-3 py-2 text-sm font-medium text-gray-500 hover:text-red-600 disabled:opacity-30"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            );
+          })}
+
+          {errors.rules?.root && <p className="text-sm text-red-600">{errors.rules.root.message}</p>}
+          {errors.rules?.message && <p className="text-sm text-red-600">{errors.rules.message}</p>}
+
+          {!readOnly && (
+            <button
+              type="button"
+              onClick={() => append(EMPTY_COLLECTION_RULE)}
+              className="text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Add condition
+            </button>
+          )}
+        </fieldset>
+
+        <CollectionPreview match={match} rules={rules} />
+      </div>
+
+      <div className="mt-8">
+        <SeoFields
+          idPrefix="collection"
+          titleField={register('seoTitle')}
+          descriptionField={register('seoDescription')}
+          title={watch('seoTitle')}
+          description={watch('seoDescription')}
+          fallbackTitle={watch('title')}
+          fallbackDescription={watch('description')}
+          titleError={errors.seoTitle?.message}
+          descriptionError={errors.seoDescription?.message}
+          readOnly={readOnly}
+        />
+      </div>
+
+      {!readOnly && (
+        <div className="mt-8 flex justify-end">
+          <button
+            type="submit"
+            disabled={isSubmitting || (!!collection && !isDirty)}
+            className="inline-flex items-center px-8 py-3 border-2 border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-4 focus:ring-blue-500/20 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Saving...' : collection ? 'Save Changes' : 'Create Collection'}
+          </button>
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default CollectionForm;
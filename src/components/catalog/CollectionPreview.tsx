@@ -0,0 +1,93 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ApiError } from '@/lib/apiClient';
+import catalogService, { CollectionMatch, CollectionPreview as PreviewResult, collectionFormSchema, CollectionRule } from '@/lib/catalog';
+import { formatCurrency } from '@/lib/format';
+
+const PREVIEW_DEBOUNCE_MS = 500;
+
+interface CollectionPreviewProps {
+  match: CollectionMatch;
+  rules: CollectionRule[];
+}
+
+// Live count of the products the rules match, refreshed shortly after the rules stop changing
+const CollectionPreview: React.FC<CollectionPreviewProps> = ({ match, rules }) => {
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isIncomplete, setIsIncomplete] = useState(false);
+
+  // watch() hands back a new rules array every render, so the effect keys off the serialized criteria
+  const criteriaKey = JSON.stringify({ match, rules });
+
+  useEffect(() => {
+    const criteria = JSON.parse(criteriaKey) as CollectionPreviewProps;
+    const parsed = collectionFormSchema.shape.rules.safeParse(criteria.rules);
+    setIsIncomplete(!parsed.success);
+    if (!parsed.success) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      setIsFetching(true);
+      setError(null);
+      catalogService
+        .previewCollection(criteria.match, parsed.data, controller.signal)
+        .then(setPreview)
+        .catch((error) => {
+          const apiError = ApiError.from(error, 'Failed to preview collection');
+          if (!apiError.isCanceled) {
+            setError(apiError.message);
+          }
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) {
+            setIsFetching(false);
+          }
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [criteriaKey]);
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-gray-50 p-4" aria-live="polite">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold text-gray-900">Matching Products</p>
+        {isFetching && <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>}
+      </div>
+
+      {isIncomplete ? (
+        <p className="mt-2 text-sm text-gray-500">Complete the rules to see which products match.</p>
+      ) : error ? (
+        <p className="mt-2 text-sm text-red-600">{error}</p>
+      ) : preview ? (
+        <div className={isFetching ? 'opacity-60 transition-opacity' : ''}>
+          <p className="mt-2 text-3xl font-bold text-gray-900">{preview.count}</p>
+          <p className="text-xs text-gray-500">{preview.count === 1 ? 'product matches' : 'products match'} right now</p>
+          {preview.sample.length > 0 && (
+            <ul className="mt-4 divide-y divide-gray-200">
+              {preview.sample.map((product) => (
+                <li key={product.id} className="flex justify-between py-2 text-sm">
+                  <Link href={`/products/${product.id}`} className="truncate text-gray-900 hover:text-blue-600">
+                    {product.title}
+                  </Link>
+                  <span className="ml-4 text-gray-500">{formatCurrency(product.price)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default CollectionPreview;
@@ -0,0 +1,95 @@
+'use client';
+
+import React from 'react';
+import { UseFormRegisterReturn } from 'react-hook-form';
+import { SEO_DESCRIPTION_MAX_LENGTH, SEO_TITLE_MAX_LENGTH } from '@/lib/catalog';
+
+interface SeoFieldsProps {
+  idPrefix: string;
+  titleField: UseFormRegisterReturn;
+  descriptionField: UseFormRegisterReturn;
+  title: string;
+  description: string;
+  // Shown in the preview when no SEO title is set, e.g. the category name
+  fallbackTitle: string;
+  fallbackDescription: string;
+  titleError?: string;
+  descriptionError?: string;
+  readOnly?: boolean;
+}
+
+const counterClassName = (length: number, max: number) => (length > max ? 'text-red-600' : 'text-gray-500');
+
+// Search title and description with length counters and a preview of the search result
+const SeoFields: React.FC<SeoFieldsProps> = ({
+  idPrefix,
+  titleField,
+  descriptionField,
+  title,
+  description,
+  fallbackTitle,
+  fallbackDescription,
+  titleError,
+  descriptionError,
+  readOnly = false,
+}) => {
+  const inputClassName = (hasError: boolean) =>
+    `mt-1 block w-full border rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+      hasError ? 'border-red-300' : 'border-gray-300'
+    } ${readOnly ? 'bg-gray-50 text-gray-600' : ''}`;
+
+  return (
+    <fieldset className="space-y-4">
+      <legend className="text-sm font-semibold text-gray-900">Search Engine Listing</legend>
+
+      <div>
+        <div className="flex justify-between">
+          <label htmlFor={`${idPrefix}SeoTitle`} className="block text-sm font-medium text-gray-700">
+            SEO Title
+          </label>
+          <span className={`text-xs ${counterClassName(title.length, SEO_TITLE_MAX_LENGTH)}`}>
+            {title.length}/{SEO_TITLE_MAX_LENGTH}
+          </span>
+        </div>
+        <input
+          id={`${idPrefix}SeoTitle`}
+          type="text"
+          readOnly={readOnly}
+          placeholder={fallbackTitle}
+          {...titleField}
+          className={inputClassName(!!titleError)}
+        />
+        {titleError && <p className="mt-1 text-sm text-red-600">{titleError}</p>}
+      </div>
+
+      <div>
+        <div className="flex justify-between">
+          <label htmlFor={`${idPrefix}SeoDescription`} className="block text-sm font-medium text-gray-700">
+            SEO Description
+          </label>
+          <span className={`text-xs ${counterClassName(description.length, SEO_DESCRIPTION_MAX_LENGTH)}`}>
+            {description.length}/{SEO_DESCRIPTION_MAX_LENGTH}
+          </span>
+        </div>
+        <textarea
+          id={`${idPrefix}SeoDescription`}
+          rows={2}
+          readOnly={readOnly}
+          {...descriptionField}
+          className={inputClassName(!!descriptionError)}
+        />
+        {descriptionError && <p className="mt-1 text-sm text-red-600">{descriptionError}</p>}
+      </div>
+
+      <div className="rounded-lg border border-gray-200 bg-gray-50 p-4">
+        <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Preview</p>
+        <p className="text-blue-700 text-base truncate">{title || fallbackTitle || 'Page title'}</p>
+        <p className="text-sm text-gray-600 line-clamp-2">
+          {(description || fallbackDescription).slice(0, SEO_DESCRIPTION_MAX_LENGTH) || 'No description'}
+        </p>
+      </div>
+    </fieldset>
+  );
+};
+
+export default SeoFields;
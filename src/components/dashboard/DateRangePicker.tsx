@@ -0,0 +1,112 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  DATE_RANGE_PRESETS,
+  DateRangePreset,
+  DateRangeSelection,
+  startOfDay,
+  toDateInputValue,
+  validateCustomRange,
+} from '@/lib/dateRange';
+
+interface DateRangePickerProps {
+  value: DateRangeSelection;
+  onChange: (selection: DateRangeSelection) => void;
+}
+
+const DateRangePicker: React.FC<DateRangePickerProps> = ({ value, onChange }) => {
+  // Custom bounds are edited locally and only applied once they form a valid range
+  const [customFrom, setCustomFrom] = useState(value.customFrom || '');
+  const [customTo, setCustomTo] = useState(value.customTo || '');
+  const [customError, setCustomError] = useState<string | null>(null);
+  const [isCustomOpen, setIsCustomOpen] = useState(value.preset === 'custom');
+
+  const today = toDateInputValue(startOfDay(new Date()));
+
+  const handlePresetClick = (preset: DateRangePreset) => {
+    if (preset === 'custom') {
+      setIsCustomOpen(true);
+      return;
+    }
+
+    setIsCustomOpen(false);
+    setCustomError(null);
+    onChange({ preset });
+  };
+
+  const handleApplyCustom = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const error = validateCustomRange(customFrom, customTo);
+    setCustomError(error);
+    if (!error) {
+      onChange({ preset: 'custom', customFrom, customTo });
+    }
+  };
+
+  const isActive = (preset: DateRangePreset) =>
+    preset === 'custom' ? isCustomOpen : !isCustomOpen && value.preset === preset;
+
+  return (
+    <div className="flex flex-col items-end space-y-3">
+      <div className="inline-flex rounded-xl bg-white/80 border border-gray-200/50 shadow-sm p-1">
+        {DATE_RANGE_PRESETS.map(({ value: preset, label }) => (
+          <button
+            key={preset}
+            type="button"
+            onClick={() => handlePresetClick(preset)}
+            className={`px-4 py-2 text-sm font-medium rounded-lg transition-all duration-200 ${
+              isActive(preset)
+                ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow'
+                : 'text-gray-600 hover:text-blue-600 hover:bg-blue-50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {isCustomOpen && (
+        <form className="flex flex-wrap items-end justify-end gap-3" onSubmit={handleApplyCustom}>
+          <div>
+            <label htmlFor="rangeFrom" className="block text-xs font-medium text-gray-500">
+              From
+            </label>
+            <input
+              id="rangeFrom"
+              type="date"
+              max={customTo || today}
+              value={customFrom}
+              onChange={(e) => setCustomFrom(e.target.value)}
+              className="mt-1 block border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="rangeTo" className="block text-xs font-medium text-gray-500">
+              To
+            </label>
+            <input
+              id="rangeTo"
+              type="date"
+              min={customFrom || undefined}
+              max={today}
+              value={customTo}
+              onChange={(e) => setCustomTo(e.target.value)}
+              className="mt-1 block border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Apply
+          </button>
+          {customError && <p className="w-full text-right text-sm text-red-600">{customError}</p>}
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default DateRangePicker;
@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useState, useEffect, ReactNode } from 'react';
+import analyticsService, { getDeltaPercent, KpiMetric, KpiValue } from '@/lib/analytics';
+import { getErrorMessage } from '@/lib/apiClient';
+import { DateRange, getComparisonLabel } from '@/lib/dateRange';
+import { formatCurrency, formatNumber } from '@/lib/format';
+
+interface KpiCardProps {
+  metric: KpiMetric;
+  title: string;
+  icon: ReactNode;
+  // Tailwind gradient classes for the icon badge
+  accentClassName: string;
+  range: DateRange;
+  // Bumped by the dashboard to re-fetch on its auto-refresh interval
+  refreshKey: number;
+  format?: 'number' | 'currency';
+}
+
+const KpiCard: React.FC<KpiCardProps> = ({ metric, title, icon, accentClassName, range, refreshKey, format = 'number' }) => {
+  const [kpi, setKpi] = useState<KpiValue | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+
+  // Show the skeleton again when the period changes, but not on background refreshes
+  useEffect(() => {
+    setKpi(null);
+    setError(null);
+  }, [metric, range]);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    analyticsService
+      .getKpi(metric, range)
+      .then((value) => {
+        if (!isCancelled) {
+          setKpi(value);
+          setError(null);
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setError(getErrorMessage(error, `Failed to load ${title.toLowerCase()}`));
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [metric, range, refreshKey, retryCount, title]);
+
+  const handleRetry = () => {
+    setError(null);
+    setRetryCount((count) => count + 1);
+  };
+
+  const formatValue = (value: number) =>
+    format === 'currency' ? formatCurrency(value) : formatNumber(value);
+
+  const renderDelta = (value: KpiValue) => {
+    const delta = getDeltaPercent(value);
+
+    if (delta === null) {
+      return <span className="text-gray-500">No data for the previous period</span>;
+    }
+
+    const rounded = Math.round(delta * 10) / 10;
+    const color = rounded > 0 ? 'text-green-600' : rounded < 0 ? 'text-red-600' : 'text-gray-500';
+
+    return (
+      <div className={`flex items-center ${color}`}>
+        {rounded !== 0 && (
+          <svg className={`h-4 w-4 mr-1 ${rounded < 0 ? 'rotate-180' : ''}`} fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M5.293 9.707a1 1 0 010-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 01-1.414 1.414L11 7.414V15a1 1 0 11-2 0V7.414L6.707 9.707a1 1 0 01-1.414 0z" clipRule="evenodd" />
+          </svg>
+        )}
+        <span className="font-medium">
+          {rounded > 0 ? '+' : ''}
+          {rounded}% {getComparisonLabel(range)}
+        </span>
+      </div>
+    );
+  };
+
+  // Keep showing the last value if a background refresh fails
+  const showError = error && !kpi;
+
+  return (
+    <div className="group bg-white/80 backdrop-blur-sm overflow-hidden shadow-xl rounded-2xl border border-gray-200/50 hover:shadow-2xl transform hover:scale-105 transition-all duration-300">
+      <div className="p-6">
+        <div className="flex items-center">
+          <div className="flex-shrink-0">
+            <div className={`p-3 bg-gradient-to-r ${accentClassName} rounded-xl shadow-lg group-hover:rotate-12 transition-transform duration-300`}>
+              {icon}
+            </div>
+          </div>
+          <div className="ml-4 flex-1">
+            <dl>
+              <dt className="text-sm font-medium text-gray-500 truncate">{title}</dt>
+              <dd className="text-2xl font-bold text-gray-900">
+                {kpi ? (
+                  formatValue(kpi.value)
+                ) : showError ? (
+                  <span className="text-gray-400">&mdash;</span>
+                ) : (
+                  <div className="mt-1 h-7 w-24 rounded-md bg-gray-200 animate-pulse"></div>
+                )}
+              </dd>
+            </dl>
+          </div>
+        </div>
+        <div className="mt-4 text-sm">
+          {kpi ? (
+            renderDelta(kpi)
+          ) : showError ? (
+            <div className="flex items-center justify-between">
+              <span className="text-red-600 truncate" title={error || undefined}>{error}</span>
+              <button
+                type="button"
+                onClick={handleRetry}
+                className="ml-2 font-medium text-blue-600 hover:text-blue-500"
+              >
+                Retry
+              </button>
+            </div>
+          ) : (
+            <div className="h-5 w-40 rounded-md bg-gray-200 animate-pulse"></div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KpiCard;
@@ -0,0 +1,93 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import StockStatusBadge from '@/components/inventory/StockStatusBadge';
+import { getErrorMessage, PaginatedList } from '@/lib/apiClient';
+import inventoryService, { InventoryItem } from '@/lib/inventory';
+
+const LOW_STOCK_LIMIT = 5;
+
+interface LowStockWidgetProps {
+  // Bumped by the dashboard to re-fetch on its auto-refresh interval
+  refreshKey: number;
+}
+
+// The SKUs closest to running out, linking through to the filtered inventory list
+const LowStockWidget: React.FC<LowStockWidgetProps> = ({ refreshKey }) => {
+  const [result, setResult] = useState<PaginatedList<InventoryItem> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    inventoryService
+      .getLowStock(LOW_STOCK_LIMIT)
+      .then((list) => {
+        if (!isCancelled) {
+          setResult(list);
+          setError(null);
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setError(getErrorMessage(error, 'Failed to load low stock items'));
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [refreshKey]);
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 p-8 mb-8">
+      <div className="flex items-start justify-between mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-gray-900">Low Stock</h3>
+          <p className="text-sm text-gray-500">
+            {result ? `${result.total} ${result.total === 1 ? 'SKU needs' : 'SKUs need'} restocking` : 'SKUs at or below their threshold'}
+          </p>
+        </div>
+        <Link href="/inventory?stock=low&sortBy=available" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+          View all
+        </Link>
+      </div>
+
+      {/* Keep showing the last list if a background refresh fails */}
+      {error && !result ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : !result ? (
+        <div className="space-y-3">
+          {Array.from({ length: 3 }, (_, index) => (
+            <div key={index} className="h-6 rounded-md bg-gray-200 animate-pulse"></div>
+          ))}
+        </div>
+      ) : result.items.length === 0 ? (
+        <p className="text-sm text-gray-500">Everything is above its low stock threshold.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {result.items.map((item) => (
+            <li key={item.id} className="flex items-center justify-between py-3 text-sm">
+              <div className="min-w-0">
+                <Link href={`/inventory/${item.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                  {item.sku}
+                </Link>
+                <p className="truncate text-xs text-gray-500">
+                  {item.productTitle}
+                  {item.variantTitle && ` · ${item.variantTitle}`}
+                </p>
+              </div>
+              <div className="ml-4 flex items-center space-x-4">
+                <span className="font-semibold text-gray-900">{item.totalAvailable} left</span>
+                <StockStatusBadge status={item.status} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LowStockWidget;
@@ -0,0 +1,155 @@
+'use client';
+
+import React, { useState } from 'react';
+import analyticsService, { SeriesInterval, StatusCount, TopProduct } from '@/lib/analytics';
+import { DateRange } from '@/lib/dateRange';
+import { formatCompactCurrency, formatCurrency, formatNumber } from '@/lib/format';
+import BarChart, { BarChartItem } from './charts/BarChart';
+import ChartCard from './charts/ChartCard';
+import FunnelChart from './charts/FunnelChart';
+import LineChart from './charts/LineChart';
+
+interface SalesChartsProps {
+  range: DateRange;
+  refreshKey: number;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  pending: '#f59e0b',
+  processing: '#3b82f6',
+  shipped: '#6366f1',
+  delivered: '#10b981',
+  cancelled: '#ef4444',
+  refunded: '#6b7280',
+};
+
+// Loaders live at module level so ChartCard sees stable functions
+const loadRevenue = (range: DateRange) => analyticsService.getRevenueSeries(range);
+const loadOrdersByStatus = (range: DateRange) => analyticsService.getOrdersByStatus(range);
+const loadTopProducts = (range: DateRange) => analyticsService.getTopProducts(range);
+const loadFunnel = (range: DateRange) => analyticsService.getConversionFunnel(range);
+
+const formatStatus = (status: string) =>
+  status.charAt(0).toUpperCase() + status.slice(1).replace(/_/g, ' ');
+
+const formatSeriesLabel = (interval: SeriesInterval) => (date: string) =>
+  interval === 'hour'
+    ? new Date(date).toLocaleTimeString(undefined, { hour: 'numeric' })
+    : new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const toStatusItems = (counts: StatusCount[]): BarChartItem[] =>
+  counts.map(({ status, count, previousCount }) => ({
+    key: status,
+    label: formatStatus(status),
+    value: count,
+    previousValue: previousCount,
+    color: STATUS_COLORS[status] || '#9ca3af',
+  }));
+
+const renderUnitsChange = (product: TopProduct) => {
+  const change = product.unitsSold - product.previousUnitsSold;
+  if (change === 0) {
+    return <span className="text-gray-500">No change</span>;
+  }
+
+  return (
+    <span className={change > 0 ? 'text-green-600' : 'text-red-600'}>
+      {change > 0 ? '+' : ''}
+      {formatNumber(change)}
+    </span>
+  );
+};
+
+const SalesCharts: React.FC<SalesChartsProps> = ({ range, refreshKey }) => {
+  const [showComparison, setShowComparison] = useState(false);
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-gray-900">Sales &amp; Traffic</h3>
+        <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showComparison}
+            onChange={(e) => setShowComparison(e.target.checked)}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <span>Compare to previous period</span>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <ChartCard
+          title="Revenue"
+          description={showComparison ? 'Dashed line shows the previous period' : undefined}
+          range={range}
+          refreshKey={refreshKey}
+          load={loadRevenue}
+          className="lg:col-span-2"
+        >
+          {(series) => (
+            <LineChart
+              current={series.current}
+              previous={showComparison ? series.previous : undefined}
+              formatValue={formatCurrency}
+              formatAxisValue={formatCompactCurrency}
+              formatLabel={formatSeriesLabel(series.interval)}
+            />
+          )}
+        </ChartCard>
+
+        <ChartCard title="Orders by Status" range={range} refreshKey={refreshKey} load={loadOrdersByStatus}>
+          {(counts) => (
+            <BarChart items={toStatusItems(counts)} showComparison={showComparison} formatValue={formatNumber} />
+          )}
+        </ChartCard>
+
+        <ChartCard title="Conversion Funnel" range={range} refreshKey={refreshKey} load={loadFunnel}>
+          {(stages) => <FunnelChart stages={stages} showComparison={showComparison} />}
+        </ChartCard>
+
+        <ChartCard
+          title="Top Selling Products"
+          range={range}
+          refreshKey={refreshKey}
+          load={loadTopProducts}
+          className="lg:col-span-2"
+        >
+          {(products) =>
+            products.length === 0 ? (
+              <p className="py-12 text-center text-sm text-gray-500">No sales in this period.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <th className="py-3 w-10">#</th>
+                    <th className="py-3">Product</th>
+                    <th className="py-3 text-right">Units Sold</th>
+                    {showComparison && <th className="py-3 text-right">vs Previous</th>}
+                    <th className="py-3 text-right">Revenue</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {products.map((product, index) => (
+                    <tr key={product.productId} className="text-sm">
+                      <td className="py-4 text-gray-500">{index + 1}</td>
+                      <td className="py-4">
+                        <p className="font-medium text-gray-900">{product.name}</p>
+                        {product.sku && <p className="text-xs text-gray-500">{product.sku}</p>}
+                      </td>
+                      <td className="py-4 text-right text-gray-900">{formatNumber(product.unitsSold)}</td>
+                      {showComparison && <td className="py-4 text-right">{renderUnitsChange(product)}</td>}
+                      <td className="py-4 text-right font-medium text-gray-900">{formatCurrency(product.revenue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )
+          }
+        </ChartCard>
+      </div>
+    </div>
+  );
+};
+
+export default SalesCharts;
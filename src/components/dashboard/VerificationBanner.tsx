@@ -0,0 +1,95 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import authService from '@/lib/auth';
+
+const DISMISS_KEY = 'verification_banner_dismissed';
+
+// Reminds admins with an unverified email or phone to finish verification
+const VerificationBanner: React.FC = () => {
+  const { user } = useAuth();
+  const [isDismissed, setIsDismissed] = useState(true);
+  const [resendState, setResendState] = useState<'idle' | 'sending' | 'sent' | 'failed'>('idle');
+
+  // Dismissal only lasts for the browser session so the reminder comes back
+  useEffect(() => {
+    setIsDismissed(sessionStorage.getItem(DISMISS_KEY) === '1');
+  }, []);
+
+  if (!user || isDismissed) {
+    return null;
+  }
+
+  const needsEmail = !user.isEmailVerified;
+  const needsPhone = !!user.phone && !user.isPhoneVerified;
+
+  if (!needsEmail && !needsPhone) {
+    return null;
+  }
+
+  const handleDismiss = () => {
+    sessionStorage.setItem(DISMISS_KEY, '1');
+    setIsDismissed(true);
+  };
+
+  const handleResend = async () => {
+    try {
+      setResendState('sending');
+      await authService.resendEmailVerification();
+      setResendState('sent');
+    } catch {
+      setResendState('failed');
+    }
+  };
+
+  const pending = [needsEmail && 'email address', needsPhone && 'phone number'].filter(Boolean).join(' and ');
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <svg className="h-5 w-5 text-yellow-500 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+          </svg>
+          <p className="text-sm text-yellow-800">
+            Please verify your {pending} to keep your admin account secure.
+          </p>
+        </div>
+        <div className="flex items-center space-x-4 text-sm font-medium">
+          {needsEmail && (
+            <button
+              type="button"
+              onClick={handleResend}
+              disabled={resendState === 'sending' || resendState === 'sent'}
+              className="text-yellow-800 hover:text-yellow-900 underline disabled:no-underline disabled:opacity-75"
+            >
+              {resendState === 'sending' && 'Sending...'}
+              {resendState === 'sent' && 'Verification email sent'}
+              {resendState === 'failed' && 'Sending failed, try again'}
+              {resendState === 'idle' && 'Resend verification email'}
+            </button>
+          )}
+          {needsPhone && (
+            <Link href="/profile" className="text-yellow-800 hover:text-yellow-900 underline">
+              Verify phone
+            </Link>
+          )}
+          <button
+            type="button"
+            onClick={handleDismiss}
+            className="text-yellow-600 hover:text-yellow-800"
+            aria-label="Dismiss"
+          >
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerificationBanner;
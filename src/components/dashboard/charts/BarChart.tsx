@@ -0,0 +1,105 @@
+'use client';
+
+import React, { useState } from 'react';
+import ChartTooltip from './ChartTooltip';
+
+export interface BarChartItem {
+  key: string;
+  label: string;
+  value: number;
+  previousValue?: number;
+  // SVG fill color for the bar
+  color: string;
+}
+
+interface BarChartProps {
+  items: BarChartItem[];
+  showComparison: boolean;
+  formatValue: (value: number) => string;
+}
+
+const WIDTH = 640;
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+const LABEL_WIDTH = 120;
+const VALUE_WIDTH = 64;
+const PLOT_WIDTH = WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+
+// Horizontal bars, one row per item, with an optional outline for the previous period
+const BarChart: React.FC<BarChartProps> = ({ items, showComparison, formatValue }) => {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  if (items.length === 0) {
+    return <p className="py-12 text-center text-sm text-gray-500">No data for this period.</p>;
+  }
+
+  const height = items.length * ROW_HEIGHT;
+  const maxValue = Math.max(
+    1,
+    ...items.map((item) => Math.max(item.value, showComparison ? item.previousValue ?? 0 : 0))
+  );
+  const barWidth = (value: number) => (value / maxValue) * PLOT_WIDTH;
+
+  const hoverItem = hoverIndex !== null ? items[hoverIndex] : null;
+
+  return (
+    <div className="relative">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+        {items.map((item, index) => {
+          const rowY = index * ROW_HEIGHT;
+          const barY = rowY + (ROW_HEIGHT - BAR_HEIGHT) / 2;
+
+          return (
+            <g
+              key={item.key}
+              onMouseEnter={() => setHoverIndex(index)}
+              onMouseLeave={() => setHoverIndex(null)}
+            >
+              <rect x={0} y={rowY} width={WIDTH} height={ROW_HEIGHT} fill={hoverIndex === index ? '#f3f4f6' : 'transparent'} />
+              <text x={0} y={rowY + ROW_HEIGHT / 2} dominantBaseline="middle" className="fill-gray-700 text-xs">
+                {item.label}
+              </text>
+              <rect x={LABEL_WIDTH} y={barY} width={barWidth(item.value)} height={BAR_HEIGHT} rx={4} fill={item.color} />
+              {showComparison && item.previousValue !== undefined && (
+                <rect
+                  x={LABEL_WIDTH}
+                  y={barY}
+                  width={barWidth(item.previousValue)}
+                  height={BAR_HEIGHT}
+                  rx={4}
+                  fill="none"
+                  stroke="#6b7280"
+                  strokeDasharray="4 3"
+                />
+              )}
+              <text
+                x={WIDTH}
+                y={rowY + ROW_HEIGHT / 2}
+                textAnchor="end"
+                dominantBaseline="middle"
+                className="fill-gray-900 text-xs font-semibold"
+              >
+                {formatValue(item.value)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      {hoverIndex !== null && hoverItem && (
+        <ChartTooltip
+          left={((LABEL_WIDTH + barWidth(hoverItem.value) / 2) / WIDTH) * 100}
+          top={((hoverIndex * ROW_HEIGHT) / height) * 100}
+        >
+          <p className="font-semibold">{hoverItem.label}</p>
+          <p>{formatValue(hoverItem.value)}</p>
+          {showComparison && hoverItem.previousValue !== undefined && (
+            <p className="text-gray-300">Previous period: {formatValue(hoverItem.previousValue)}</p>
+          )}
+        </ChartTooltip>
+      )}
+    </div>
+  );
+};
+
+export default BarChart;
@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useState, useEffect, ReactNode } from 'react';
+import { getErrorMessage } from '@/lib/apiClient';
+import { DateRange } from '@/lib/dateRange';
+
+interface ChartCardProps<T> {
+  title: string;
+  description?: string;
+  range: DateRange;
+  refreshKey: number;
+  // Must be stable between renders; a new function triggers a re-fetch
+  load: (range: DateRange) => Promise<T>;
+  children: (data: T) => ReactNode;
+  className?: string;
+}
+
+// Dashboard panel that loads its own data for the selected range and handles loading and error states
+const ChartCard = <T,>({ title, description, range, refreshKey, load, children, className = '' }: ChartCardProps<T>) => {
+  const [data, setData] = useState<T | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+
+  // Show the skeleton again when the period changes, but not on background refreshes
+  useEffect(() => {
+    setData(null);
+    setError(null);
+  }, [load, range]);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    load(range)
+      .then((result) => {
+        if (!isCancelled) {
+          setData(result);
+          setError(null);
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setError(getErrorMessage(error, `Failed to load ${title.toLowerCase()}`));
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [load, range, refreshKey, retryCount, title]);
+
+  const handleRetry = () => {
+    setError(null);
+    setRetryCount((count) => count + 1);
+  };
+
+  return (
+    <div className={`bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden ${className}`}>
+      <div className="px-8 py-8">
+        <div className="mb-6">
+          <h3 className="text-xl font-bold text-gray-900">{title}</h3>
+          {description && <p className="text-sm text-gray-500">{description}</p>}
+        </div>
+
+        {data !== null ? (
+          children(data)
+        ) : error ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <p className="text-sm text-red-600">{error}</p>
+            <button
+              type="button"
+              onClick={handleRetry}
+              className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Retry
+            </button>
+          </div>
+        ) : (
+          <div className="h-56 rounded-xl bg-gray-100 animate-pulse"></div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChartCard;
@@ -0,0 +1,19 @@
+import React, { ReactNode } from 'react';
+
+interface ChartTooltipProps {
+  // Anchor position as a percentage of the chart container
+  left: number;
+  top: number;
+  children: ReactNode;
+}
+
+const ChartTooltip: React.FC<ChartTooltipProps> = ({ left, top, children }) => (
+  <div
+    className="pointer-events-none absolute z-10 -translate-x-1/2 -translate-y-full rounded-lg bg-gray-900/90 px-3 py-2 text-xs text-white shadow-lg whitespace-nowrap"
+    style={{ left: `${left}%`, top: `${top}%` }}
+  >
+    {children}
+  </div>
+);
+
+export default ChartTooltip;
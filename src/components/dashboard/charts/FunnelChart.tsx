@@ -0,0 +1,124 @@
+'use client';
+
+import React, { useState } from 'react';
+import { FunnelStage } from '@/lib/analytics';
+import { formatNumber, formatPercent } from '@/lib/format';
+import ChartTooltip from './ChartTooltip';
+
+interface FunnelChartProps {
+  stages: FunnelStage[];
+  showComparison: boolean;
+}
+
+const WIDTH = 640;
+const STAGE_HEIGHT = 44;
+const STAGE_GAP = 6;
+const COLORS = ['#4f46e5', '#6366f1', '#818cf8', '#a5b4fc', '#c7d2fe'];
+
+// Share of the previous stage that made it to this one
+const getStepRate = (stages: FunnelStage[], index: number, key: 'count' | 'previousCount'): number | null => {
+  if (index === 0) {
+    return null;
+  }
+  const base = stages[index - 1][key];
+  return base > 0 ? (stages[index][key] / base) * 100 : null;
+};
+
+// Centered bars narrowing from the first stage to the last
+const FunnelChart: React.FC<FunnelChartProps> = ({ stages, showComparison }) => {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  if (stages.length === 0 || stages[0].count === 0) {
+    return <p className="py-12 text-center text-sm text-gray-500">No visitors in this period.</p>;
+  }
+
+  const height = stages.length * (STAGE_HEIGHT + STAGE_GAP) - STAGE_GAP;
+  const maxCount = Math.max(stages[0].count, showComparison ? stages[0].previousCount : 0);
+  const stageWidth = (count: number) => Math.max(2, (count / maxCount) * WIDTH);
+  const stageY = (index: number) => index * (STAGE_HEIGHT + STAGE_GAP);
+
+  const overallRate = (stages[stages.length - 1].count / stages[0].count) * 100;
+  const hoverStage = hoverIndex !== null ? stages[hoverIndex] : null;
+  const hoverStepRate = hoverIndex !== null ? getStepRate(stages, hoverIndex, 'count') : null;
+  const hoverPreviousStepRate = hoverIndex !== null ? getStepRate(stages, hoverIndex, 'previousCount') : null;
+
+  return (
+    <div>
+      <div className="relative">
+        <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+          {stages.map((stage, index) => {
+            const width = stageWidth(stage.count);
+            const previousWidth = stageWidth(stage.previousCount);
+
+            return (
+              <g
+                key={stage.stage}
+                onMouseEnter={() => setHoverIndex(index)}
+                onMouseLeave={() => setHoverIndex(null)}
+              >
+                <rect
+                  x={(WIDTH - width) / 2}
+                  y={stageY(index)}
+                  width={width}
+                  height={STAGE_HEIGHT}
+                  rx={6}
+                  fill={COLORS[Math.min(index, COLORS.length - 1)]}
+                  opacity={hoverIndex === null || hoverIndex === index ? 1 : 0.6}
+                />
+                {showComparison && (
+                  <rect
+                    x={(WIDTH - previousWidth) / 2}
+                    y={stageY(index)}
+                    width={previousWidth}
+                    height={STAGE_HEIGHT}
+                    rx={6}
+                    fill="none"
+                    stroke="#374151"
+                    strokeDasharray="5 4"
+                  />
+                )}
+                <text
+                  x={WIDTH / 2}
+                  y={stageY(index) + STAGE_HEIGHT / 2}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  className="fill-white text-xs font-semibold"
+                  style={{ paintOrder: 'stroke', stroke: 'rgba(17, 24, 39, 0.35)', strokeWidth: 3 }}
+                >
+                  {stage.label}: {formatNumber(stage.count)}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+
+        {hoverIndex !== null && hoverStage && (
+          <ChartTooltip left={50} top={(stageY(hoverIndex) / height) * 100}>
+            <p className="font-semibold">{hoverStage.label}</p>
+            <p>{formatNumber(hoverStage.count)}</p>
+            {hoverStepRate !== null && <p>{formatPercent(hoverStepRate)} of previous step</p>}
+            {showComparison && (
+              <p className="text-gray-300">
+                Previous period: {formatNumber(hoverStage.previousCount)}
+                {hoverPreviousStepRate !== null && ` (${formatPercent(hoverPreviousStepRate)})`}
+              </p>
+            )}
+          </ChartTooltip>
+        )}
+      </div>
+
+      <p className="mt-4 text-sm text-gray-600">
+        Overall conversion: <span className="font-semibold text-gray-900">{formatPercent(overallRate, 2)}</span>
+        {showComparison && stages[0].previousCount > 0 && (
+          <span className="text-gray-500">
+            {' '}
+            (previous period{' '}
+            {formatPercent((stages[stages.length - 1].previousCount / stages[0].previousCount) * 100, 2)})
+          </span>
+        )}
+      </p>
+    </div>
+  );
+};
+
+export default FunnelChart;
@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useState } from 'react';
+import { SeriesPoint } from '@/lib/analytics';
+import ChartTooltip from './ChartTooltip';
+
+interface LineChartProps {
+  current: SeriesPoint[];
+  // Previous period, drawn as a dashed overlay when provided
+  previous?: SeriesPoint[];
+  formatValue: (value: number) => string;
+  formatAxisValue: (value: number) => string;
+  formatLabel: (date: string) => string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 56 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+const TICK_COUNT = 4;
+const MAX_X_LABELS = 6;
+
+// Round the axis maximum up to 1, 2 or 5 times a power of ten so ticks land on readable values
+const getNiceMax = (value: number): number => {
+  if (value <= 0) {
+    return TICK_COUNT;
+  }
+
+  const roughStep = value / TICK_COUNT;
+  const magnitude = 10 ** Math.floor(Math.log10(roughStep));
+  const step = [1, 2, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= roughStep) as number;
+  return step * TICK_COUNT;
+};
+
+const LineChart: React.FC<LineChartProps> = ({ current, previous, formatValue, formatAxisValue, formatLabel }) => {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  if (current.length === 0) {
+    return <p className="py-12 text-center text-sm text-gray-500">No data for this period.</p>;
+  }
+
+  const count = current.length;
+  const maxValue = getNiceMax(Math.max(...current.map((point) => point.value), ...(previous ?? []).map((point) => point.value)));
+
+  const x = (index: number) => PADDING.left + (count === 1 ? PLOT_WIDTH / 2 : (index * PLOT_WIDTH) / (count - 1));
+  const y = (value: number) => PADDING.top + PLOT_HEIGHT - (value / maxValue) * PLOT_HEIGHT;
+
+  const toPath = (points: SeriesPoint[]) =>
+    points
+      .slice(0, count)
+      .map((point, index) => `${index === 0 ? 'M' : 'L'}${x(index).toFixed(1)},${y(point.value).toFixed(1)}`)
+      .join(' ');
+
+  const currentPath = toPath(current);
+  const areaPath = `${currentPath} L${x(count - 1).toFixed(1)},${y(0)} L${x(0).toFixed(1)},${y(0)} Z`;
+  const ticks = Array.from({ length: TICK_COUNT + 1 }, (_, index) => (maxValue / TICK_COUNT) * index);
+  const labelStep = Math.ceil(count / MAX_X_LABELS);
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const svgX = ((e.clientX - bounds.left) / bounds.width) * WIDTH;
+    const index = count === 1 ? 0 : Math.round(((svgX - PADDING.left) / PLOT_WIDTH) * (count - 1));
+    setHoverIndex(Math.min(count - 1, Math.max(0, index)));
+  };
+
+  const hoverPoint = hoverIndex !== null ? current[hoverIndex] : null;
+  const hoverPrevious = hoverIndex !== null ? previous?.[hoverIndex] : undefined;
+
+  return (
+    <div className="relative">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+        role="img"
+      >
+        <defs>
+          <linearGradient id="lineChartArea" x1="0" y1="0" x2="0" y2="1">
+            <stop offset="0%" stopColor="#4f46e5" stopOpacity={0.2} />
+            <stop offset="100%" stopColor="#4f46e5" stopOpacity={0} />
+          </linearGradient>
+        </defs>
+
+        {ticks.map((tick) => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+            <text x={PADDING.left - 8} y={y(tick)} textAnchor="end" dominantBaseline="middle" className="fill-gray-400 text-[10px]">
+              {formatAxisValue(tick)}
+            </text>
+          </g>
+        ))}
+
+        {current.map((point, index) =>
+          index % labelStep === 0 ? (
+            <text key={point.date} x={x(index)} y={HEIGHT - 8} textAnchor="middle" className="fill-gray-400 text-[10px]">
+              {formatLabel(point.date)}
+            </text>
+          ) : null
+        )}
+
+        <path d={areaPath} fill="url(#lineChartArea)" />
+        {previous && previous.length > 0 && (
+          <path d={toPath(previous)} fill="none" stroke="#9ca3af" strokeWidth={2} strokeDasharray="6 4" />
+        )}
+        <path d={currentPath} fill="none" stroke="#4f46e5" strokeWidth={2.5} strokeLinejoin="round" />
+
+        {hoverIndex !== null && (
+          <g>
+            <line x1={x(hoverIndex)} x2={x(hoverIndex)} y1={PADDING.top} y2={PADDING.top + PLOT_HEIGHT} stroke="#c7d2fe" />
+            {hoverPrevious && <circle cx={x(hoverIndex)} cy={y(hoverPrevious.value)} r={4} fill="#9ca3af" />}
+            <circle cx={x(hoverIndex)} cy={y(current[hoverIndex].value)} r={5} fill="#4f46e5" stroke="#fff" strokeWidth={2} />
+          </g>
+        )}
+      </svg>
+
+      {hoverIndex !== null && hoverPoint && (
+        <ChartTooltip left={(x(hoverIndex) / WIDTH) * 100} top={(y(hoverPoint.value) / HEIGHT) * 100 - 4}>
+          <p className="font-semibold">{formatLabel(hoverPoint.date)}</p>
+          <p>{formatValue(hoverPoint.value)}</p>
+          {hoverPrevious && (
+            <p className="text-gray-300">
+              Previous ({formatLabel(hoverPrevious.date)}): {formatValue(hoverPrevious.value)}
+            </p>
+          )}
+        </ChartTooltip>
+      )}
+    </div>
+  );
+};
+
+export default LineChart;
@@ -0,0 +1,132 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Pagination from '@/components/table/Pagination';
+import { getErrorMessage, PaginatedList } from '@/lib/apiClient';
+import inventoryService, { LEDGER_REASON_LABELS, LedgerEntry, Location } from '@/lib/inventory';
+
+const PAGE_SIZE = 20;
+
+interface InventoryLedgerProps {
+  itemId: string;
+  locations: Location[];
+  // Bumped by the page after an adjustment or transfer so new entries show up
+  refreshKey: number;
+}
+
+// Every stock movement for one SKU, newest first
+const InventoryLedger: React.FC<InventoryLedgerProps> = ({ itemId, locations, refreshKey }) => {
+  const [page, setPage] = useState(1);
+  const [locationId, setLocationId] = useState('');
+  const [result, setResult] = useState<PaginatedList<LedgerEntry> | null>(null);
+  const [isFetching, setIsFetching] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsFetching(true);
+    setError(null);
+
+    inventoryService
+      .getLedger(itemId, page, PAGE_SIZE, locationId || undefined)
+      .then((list) => {
+        if (!isCancelled) {
+          setResult(list);
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setError(getErrorMessage(error, 'Failed to load stock history'));
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsFetching(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [itemId, page, locationId, refreshKey]);
+
+  const locationName = (id: string) => locations.find((location) => location.id === id)?.name ?? 'Unknown location';
+
+  return (
+    <div>
+      {locations.length > 1 && (
+        <div className="mb-4 max-w-xs">
+          <label htmlFor="ledgerLocation" className="sr-only">
+            Location
+          </label>
+          <select
+            id="ledgerLocation"
+            value={locationId}
+            onChange={(e) => {
+              setLocationId(e.target.value);
+              setPage(1);
+            }}
+            className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          >
+            <option value="">All locations</option>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : !result ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : result.items.length === 0 ? (
+        <p className="text-sm text-gray-500">No stock movements yet.</p>
+      ) : (
+        <div className={isFetching ? 'opacity-60 transition-opacity' : ''}>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <th className="py-3">Date</th>
+                <th className="py-3">Location</th>
+                <th className="py-3">Reason</th>
+                <th className="py-3 text-right">Change</th>
+                <th className="py-3 text-right">Balance</th>
+                <th className="py-3 pl-6">Note</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {result.items.map((entry) => (
+                <tr key={entry.id} className="text-sm">
+                  <td className="py-3 text-gray-500">{new Date(entry.createdAt).toLocaleString()}</td>
+                  <td className="py-3 text-gray-700">{locationName(entry.locationId)}</td>
+                  <td className="py-3 text-gray-700">
+                    {LEDGER_REASON_LABELS[entry.reason]}
+                    {entry.reference && <p className="text-xs text-gray-500">{entry.reference}</p>}
+                  </td>
+                  <td className={`py-3 text-right font-medium ${entry.change < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {entry.change > 0 ? '+' : ''}
+                    {entry.change}
+                  </td>
+                  <td className="py-3 text-right text-gray-900">{entry.balanceAfter}</td>
+                  <td className="py-3 pl-6 text-gray-700">
+                    {entry.note || '—'}
+                    {entry.actorName && <p className="text-xs text-gray-500">by {entry.actorName}</p>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <Pagination page={result.page} pageSize={result.pageSize} total={result.total} onPageChange={setPage} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InventoryLedger;
@@ -0,0 +1,92 @@
+'use client';
+
+import React, { useState } from 'react';
+import { getErrorMessage } from '@/lib/apiClient';
+
+interface LowStockThresholdFormProps {
+  id: string;
+  threshold: number | null;
+  // When set, a blank value falls back to this store-wide default
+  defaultThreshold?: number;
+  readOnly?: boolean;
+  onSave: (threshold: number | null) => Promise<void>;
+}
+
+// Inline editor for the available quantity at or below which stock counts as low
+const LowStockThresholdForm: React.FC<LowStockThresholdFormProps> = ({ id, threshold, defaultThreshold, readOnly = false, onSave }) => {
+  const [value, setValue] = useState(threshold === null ? '' : String(threshold));
+  const [error, setError] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const allowsDefault = defaultThreshold !== undefined;
+  const isDirty = value !== (threshold === null ? '' : String(threshold));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = value.trim() ? Number(value) : null;
+    if (parsed === null && !allowsDefault) {
+      setError('Enter a threshold.');
+      return;
+    }
+    if (parsed !== null && (!Number.isInteger(parsed) || parsed < 0)) {
+      setError('Enter a whole number of units, or 0 to only flag items that are out of stock.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      setIsSaved(false);
+      await onSave(parsed);
+      setIsSaved(true);
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to update threshold'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+        Low stock threshold
+      </label>
+      <div className="flex items-center gap-3">
+        <input
+          id={id}
+          type="number"
+          min={0}
+          step={1}
+          readOnly={readOnly}
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setIsSaved(false);
+          }}
+          placeholder={allowsDefault ? `Default (${defaultThreshold})` : undefined}
+          className={`block w-40 border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+            readOnly ? 'bg-gray-50 text-gray-600' : ''
+          }`}
+        />
+        {!readOnly && (
+          <button
+            type="submit"
+            disabled={isSubmitting || !isDirty}
+            className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Saving...' : 'Save'}
+          </button>
+        )}
+        {isSaved && !isDirty && <span className="text-sm text-green-700">Saved</span>}
+      </div>
+      {error ? (
+        <p className="mt-1 text-sm text-red-600">{error}</p>
+      ) : (
+        allowsDefault && <p className="mt-1 text-xs text-gray-500">Leave blank to use the store default.</p>
+      )}
+    </form>
+  );
+};
+
+export default LowStockThresholdForm;
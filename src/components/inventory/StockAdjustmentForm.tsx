@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useState } from 'react';
+import { getErrorMessage } from '@/lib/apiClient';
+import inventoryService, {
+  ADJUSTMENT_REASON_LABELS,
+  ADJUSTMENT_REASONS,
+  AdjustmentReason,
+  getLocationStock,
+  InventoryItem,
+  Location,
+  toAdjustmentChange,
+} from '@/lib/inventory';
+
+interface StockAdjustmentFormProps {
+  item: InventoryItem;
+  locations: Location[];
+  onAdjusted: (item: InventoryItem) => void;
+}
+
+const StockAdjustmentForm: React.FC<StockAdjustmentFormProps> = ({ item, locations, onAdjusted }) => {
+  const [locationId, setLocationId] = useState(locations[0]?.id ?? '');
+  const [reason, setReason] = useState<AdjustmentReason>('received');
+  const [quantity, setQuantity] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const onHand = locationId ? getLocationStock(item, locationId).onHand : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = Number(quantity);
+    if (!locationId) {
+      setError('Choose a location.');
+      return;
+    }
+    if (!quantity.trim() || !Number.isInteger(parsed) || parsed === 0) {
+      setError(reason === 'correction' ? 'Enter a whole number of units, e.g. 5 or -3.' : 'Enter a whole number of units.');
+      return;
+    }
+
+    const change = toAdjustmentChange(reason, parsed);
+    if (onHand + change < 0) {
+      setError(`Only ${onHand} on hand at this location.`);
+      return;
+    }
+    if (reason === 'correction' && !note.trim()) {
+      setError('Add a note explaining the correction.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      onAdjusted(await inventoryService.adjustStock(item.id, { locationId, change, reason, note: note.trim() }));
+      setQuantity('');
+      setNote('');
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to adjust stock'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="adjustLocation" className="block text-sm font-medium text-gray-700 mb-1">
+          Location
+        </label>
+        <select id="adjustLocation" value={locationId} onChange={(e) => setLocationId(e.target.value)} className={inputClassName}>
+          {locations.map((location) => (
+            <option key={location.id} value={location.id}>
+              {location.name}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">{onHand} on hand</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="adjustReason" className="block text-sm font-medium text-gray-700 mb-1">
+            Reason
+          </label>
+          <select
+            id="adjustReason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value as AdjustmentReason)}
+            className={inputClassName}
+          >
+            {ADJUSTMENT_REASONS.map((value) => (
+              <option key={value} value={value}>
+                {ADJUSTMENT_REASON_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="adjustQuantity" className="block text-sm font-medium text-gray-700 mb-1">
+            {reason === 'correction' ? 'Change' : 'Quantity'}
+          </label>
+          <input
+            id="adjustQuantity"
+            type="number"
+            step={1}
+            min={reason === 'correction' ? undefined : 1}
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            placeholder={reason === 'correction' ? '-3' : '10'}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="adjustNote" className="block text-sm font-medium text-gray-700 mb-1">
+          Note {reason !== 'correction' && '(optional)'}
+        </label>
+        <input id="adjustNote" type="text" value={note} onChange={(e) => setNote(e.target.value)} className={inputClassName} />
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={isSubmitting || locations.length === 0}
+          className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Saving...' : 'Adjust Stock'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default StockAdjustmentForm;
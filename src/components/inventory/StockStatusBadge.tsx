@@ -0,0 +1,16 @@
+import React from 'react';
+import { STOCK_STATUS_LABELS, StockStatus } from '@/lib/inventory';
+
+const STATUS_STYLES: Record<StockStatus, string> = {
+  in_stock: 'bg-green-100 text-green-800',
+  low_stock: 'bg-yellow-100 text-yellow-800',
+  out_of_stock: 'bg-red-100 text-red-800',
+};
+
+const StockStatusBadge: React.FC<{ status: StockStatus }> = ({ status }) => (
+  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+    {STOCK_STATUS_LABELS[status]}
+  </span>
+);
+
+export default StockStatusBadge;
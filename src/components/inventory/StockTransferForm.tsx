@@ -0,0 +1,140 @@
+'use client';
+
+import React, { useState } from 'react';
+import { getErrorMessage } from '@/lib/apiClient';
+import inventoryService, { getLocationStock, InventoryItem, Location } from '@/lib/inventory';
+
+interface StockTransferFormProps {
+  item: InventoryItem;
+  locations: Location[];
+  onTransferred: (item: InventoryItem) => void;
+}
+
+const StockTransferForm: React.FC<StockTransferFormProps> = ({ item, locations, onTransferred }) => {
+  const [fromLocationId, setFromLocationId] = useState(locations[0]?.id ?? '');
+  const [toLocationId, setToLocationId] = useState(locations[1]?.id ?? '');
+  const [quantity, setQuantity] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Reserved units stay put so open orders can still be fulfilled from the source location
+  const available = fromLocationId ? getLocationStock(item, fromLocationId).available : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = Number(quantity);
+    if (!fromLocationId || !toLocationId || fromLocationId === toLocationId) {
+      setError('Choose two different locations.');
+      return;
+    }
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      setError('Enter a whole number of units.');
+      return;
+    }
+    if (parsed > available) {
+      setError(`Only ${available} available to transfer from this location.`);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      onTransferred(
+        await inventoryService.transferStock(item.id, { fromLocationId, toLocationId, quantity: parsed, note: note.trim() })
+      );
+      setQuantity('');
+      setNote('');
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to transfer stock'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  if (locations.length < 2) {
+    return <p className="text-sm text-gray-500">Add a second location to transfer stock between them.</p>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="transferFrom" className="block text-sm font-medium text-gray-700 mb-1">
+            From
+          </label>
+          <select
+            id="transferFrom"
+            value={fromLocationId}
+            onChange={(e) => setFromLocationId(e.target.value)}
+            className={inputClassName}
+          >
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">{available} available</p>
+        </div>
+        <div>
+          <label htmlFor="transferTo" className="block text-sm font-medium text-gray-700 mb-1">
+            To
+          </label>
+          <select id="transferTo" value={toLocationId} onChange={(e) => setToLocationId(e.target.value)} className={inputClassName}>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id} disabled={location.id === fromLocationId}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="transferQuantity" className="block text-sm font-medium text-gray-700 mb-1">
+            Quantity
+          </label>
+          <input
+            id="transferQuantity"
+            type="number"
+            min={1}
+            max={available}
+            step={1}
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="transferNote" className="block text-sm font-medium text-gray-700 mb-1">
+            Note (optional)
+          </label>
+          <input id="transferNote" type="text" value={note} onChange={(e) => setNote(e.target.value)} className={inputClassName} />
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={isSubmitting || available === 0}
+          className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Transferring...' : 'Transfer Stock'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default StockTransferForm;
@@ -0,0 +1,59 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getStorefrontImpersonationUrl, storefrontUrl } from '@/lib/config';
+
+// Shown on every page while a customer is being impersonated, so it is never left running by accident
+const ImpersonationBanner: React.FC = () => {
+  const { impersonation, stopImpersonation } = useAuth();
+  const [isExiting, setIsExiting] = useState(false);
+
+  if (!impersonation) {
+    return null;
+  }
+
+  const handleExit = async () => {
+    setIsExiting(true);
+    try {
+      await stopImpersonation();
+    } finally {
+      setIsExiting(false);
+    }
+  };
+
+  const { customer } = impersonation;
+
+  return (
+    <div role="status" className="sticky top-0 z-50 bg-amber-500 text-white shadow-md print:hidden">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-medium">
+          Viewing the store as {customer.firstName} {customer.lastName} ({customer.email}) until{' '}
+          {new Date(impersonation.expiresAt).toLocaleTimeString()}
+        </p>
+        <div className="flex items-center gap-3">
+          {storefrontUrl && (
+            <a
+              href={getStorefrontImpersonationUrl(impersonation.token)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm font-medium underline hover:text-amber-100"
+            >
+              Open storefront
+            </a>
+          )}
+          <button
+            type="button"
+            onClick={handleExit}
+            disabled={isExiting}
+            className="px-3 py-1 text-sm font-semibold rounded-lg bg-white text-amber-700 hover:bg-amber-50 disabled:opacity-50"
+          >
+            {isExiting ? 'Exiting...' : 'Exit impersonation'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImpersonationBanner;
@@ -0,0 +1,64 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface PageHeaderProps {
+  backHref?: string;
+  backLabel?: string;
+}
+
+// Header used by admin sub-pages: a back link and the signed-in user's chip
+const PageHeader: React.FC<PageHeaderProps> = ({ backHref = '/dashboard', backLabel = 'Back to Dashboard' }) => {
+  const { user } = useAuth();
+
+  return (
+    <header className="bg-white/80 backdrop-blur-md shadow-lg border-b border-gray-200/50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center py-6">
+          <div className="flex items-center space-x-4">
+            <Link
+              href={backHref}
+              className="group flex items-center space-x-2 text-gray-500 hover:text-blue-600 transition-colors duration-200"
+            >
+              <div className="p-2 rounded-lg bg-gray-100 group-hover:bg-blue-100 transition-colors duration-200">
+                <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </div>
+              <span className="font-medium">{backLabel}</span>
+            </Link>
+          </div>
+          {user && (
+            <div className="flex items-center space-x-3 bg-white/60 backdrop-blur-sm rounded-xl px-4 py-2 shadow-sm border border-gray-200/50">
+              <div className="flex-shrink-0">
+                {user.profilePicture ? (
+                  <img
+                    className="h-10 w-10 rounded-full ring-2 ring-white shadow-md"
+                    src={user.profilePicture}
+                    alt={user.firstName}
+                  />
+                ) : (
+                  <div className="h-10 w-10 rounded-full bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center shadow-md">
+                    <span className="text-sm font-bold text-white">
+                      {user.firstName?.charAt(0)?.toUpperCase() || 'A'}
+                    </span>
+                  </div>
+                )}
+              </div>
+              <div className="hidden md:block">
+                <p className="text-sm font-semibold text-gray-800">
+                  {user.firstName} {user.lastName}
+                </p>
+                <p className="text-xs text-gray-500">{user.email}</p>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </header>
+  );
+};
+
+export default PageHeader;
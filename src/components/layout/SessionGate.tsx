@@ -0,0 +1,27 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { buildLoginPath } from '@/lib/redirect';
+
+// Full-page spinner for admin pages that are not ready to render. Middleware only checks the session on
+// navigation, so when it could not be restored here (expired, or the API was unreachable) go to sign in.
+const SessionGate: React.FC = () => {
+  const { user, isLoading } = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.replace(buildLoginPath(`${window.location.pathname}${window.location.search}`));
+    }
+  }, [isLoading, user, router]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+    </div>
+  );
+};
+
+export default SessionGate;
@@ -0,0 +1,374 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import ExportButton from '@/components/table/ExportButton';
+import Pagination from '@/components/table/Pagination';
+import SortableHeader from '@/components/table/SortableHeader';
+import { ApiError, getErrorMessage, PaginatedList, SortOrder } from '@/lib/apiClient';
+import { ExportColumn, ExportScope } from '@/lib/dataExport';
+import discountService, {
+  BULK_CODE_MAX_COUNT,
+  CODE_MAX_LENGTH,
+  codeSchema,
+  DiscountCode,
+  DiscountCodeSortField,
+  generateDiscountCode,
+} from '@/lib/discounts';
+import { formatCurrency } from '@/lib/format';
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+const GENERATED_CODE_LENGTH = 8;
+
+const EXPORT_COLUMNS: ExportColumn<DiscountCode>[] = [
+  { key: 'code', label: 'Code', value: (code) => code.code },
+  { key: 'orders', label: 'Orders', value: (code) => code.usage.orders },
+  { key: 'customers', label: 'Customers', value: (code) => code.usage.customers },
+  { key: 'discountTotal', label: 'Discount given', value: (code) => code.usage.discountTotal },
+  { key: 'revenue', label: 'Revenue', value: (code) => code.usage.revenue },
+  { key: 'lastUsedAt', label: 'Last used', value: (code) => code.usage.lastUsedAt },
+  { key: 'createdAt', label: 'Created', value: (code) => code.createdAt, defaultSelected: false },
+];
+
+interface DiscountCodesPanelProps {
+  discountId: string;
+  readOnly: boolean;
+  // Called after codes are added or removed so the page can refresh its totals
+  onChange: () => void;
+}
+
+// Codes of a discount with the usage of each, plus forms to add one code or generate a batch
+const DiscountCodesPanel: React.FC<DiscountCodesPanelProps> = ({ discountId, readOnly, onChange }) => {
+  const [page, setPage] = useState(1);
+  const [sortBy, setSortBy] = useState<DiscountCodeSortField>('code');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [result, setResult] = useState<PaginatedList<DiscountCode> | null>(null);
+  const [isFetching, setIsFetching] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newCode, setNewCode] = useState('');
+  const [addError, setAddError] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const [bulkCount, setBulkCount] = useState('100');
+  const [bulkPrefix, setBulkPrefix] = useState('');
+  const [bulkError, setBulkError] = useState<string | null>(null);
+  const [bulkMessage, setBulkMessage] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsFetching(true);
+    setError(null);
+
+    discountService
+      .getCodes(discountId, { page, pageSize: PAGE_SIZE, sortBy, sortOrder, search: search || undefined })
+      .then((list) => {
+        if (!isCancelled) {
+          setResult(list);
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setError(getErrorMessage(error, 'Failed to load discount codes'));
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsFetching(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [discountId, page, sortBy, sortOrder, search, refreshKey]);
+
+  // Apply the search box once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const refresh = () => {
+    setRefreshKey((key) => key + 1);
+    onChange();
+  };
+
+  const handleSort = (field: DiscountCodeSortField) => {
+    setSortOrder(sortBy === field && sortOrder === 'asc' ? 'desc' : 'asc');
+    setSortBy(field);
+    setPage(1);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = codeSchema.safeParse(newCode);
+    if (!parsed.success) {
+      setAddError(newCode.trim() ? parsed.error.issues[0].message : 'Enter a code or generate one');
+      return;
+    }
+
+    try {
+      setIsAdding(true);
+      setAddError(null);
+      await discountService.addCode(discountId, parsed.data);
+      setNewCode('');
+      refresh();
+    } catch (error) {
+      const apiError = ApiError.from(error, 'Failed to add code');
+      setAddError(apiError.fieldErrors.code ?? apiError.message);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const count = Number(bulkCount);
+    if (!/^\d+$/.test(bulkCount.trim()) || count < 1 || count > BULK_CODE_MAX_COUNT) {
+      setBulkError(`Enter a number of codes between 1 and ${BULK_CODE_MAX_COUNT}`);
+      return;
+    }
+    const prefix = bulkPrefix.trim().toUpperCase();
+    if (!/^[A-Z0-9_-]*$/.test(prefix) || prefix.length + GENERATED_CODE_LENGTH > CODE_MAX_LENGTH) {
+      setBulkError(
+        `Use letters, numbers, dashes and underscores, up to ${CODE_MAX_LENGTH - GENERATED_CODE_LENGTH} characters`
+      );
+      return;
+    }
+
+    try {
+      setIsGenerating(true);
+      setBulkError(null);
+      setBulkMessage(null);
+      const created = await discountService.generateCodes(discountId, { count, prefix, length: GENERATED_CODE_LENGTH });
+      setBulkMessage(`Generated ${created} ${created === 1 ? 'code' : 'codes'}.`);
+      refresh();
+    } catch (error) {
+      setBulkError(getErrorMessage(error, 'Failed to generate codes'));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleDelete = async (code: DiscountCode) => {
+    if (!window.confirm(`Delete code ${code.code}? Customers will no longer be able to use it.`)) {
+      return;
+    }
+
+    try {
+      setDeletingId(code.id);
+      setError(null);
+      await discountService.deleteCode(discountId, code.id);
+      refresh();
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to delete code'));
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const getExportPage = (scope: ExportScope) => (exportPage: number, pageSize: number) =>
+    discountService.getCodes(discountId, {
+      page: exportPage,
+      pageSize,
+      sortBy,
+      sortOrder,
+      search: scope === 'filtered' ? search || undefined : undefined,
+    });
+
+  const inputClassName =
+    'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <div className="space-y-6">
+      {!readOnly && (
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+          <form onSubmit={handleAdd} noValidate className="rounded-lg border border-gray-200 p-4">
+            <p className="text-sm font-semibold text-gray-900 mb-3">Add a Code</p>
+            <div className="flex items-start gap-2">
+              <label htmlFor="newDiscountCode" className="sr-only">
+                Code
+              </label>
+              <input
+                id="newDiscountCode"
+                type="text"
+                autoComplete="off"
+                value={newCode}
+                onChange={(e) => setNewCode(e.target.value)}
+                placeholder="SUMMER20"
+                className={`${inputClassName} font-mono uppercase`}
+              />
+              <button
+                type="button"
+                onClick={() => setNewCode(generateDiscountCode(GENERATED_CODE_LENGTH))}
+                className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50"
+              >
+                Generate
+              </button>
+              <button
+                type="submit"
+                disabled={isAdding}
+                className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isAdding ? 'Adding...' : 'Add'}
+              </button>
+            </div>
+            {addError && <p className="mt-2 text-sm text-red-600">{addError}</p>}
+          </form>
+
+          <form onSubmit={handleGenerate} noValidate className="rounded-lg border border-gray-200 p-4">
+            <p className="text-sm font-semibold text-gray-900 mb-3">Generate Unique Codes</p>
+            <div className="flex items-start gap-2">
+              <div className="w-28">
+                <label htmlFor="bulkCodeCount" className="sr-only">
+                  Number of codes
+                </label>
+                <input
+                  id="bulkCodeCount"
+                  type="text"
+                  inputMode="numeric"
+                  value={bulkCount}
+                  onChange={(e) => setBulkCount(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex-1">
+                <label htmlFor="bulkCodePrefix" className="sr-only">
+                  Prefix
+                </label>
+                <input
+                  id="bulkCodePrefix"
+                  type="text"
+                  autoComplete="off"
+                  value={bulkPrefix}
+                  onChange={(e) => setBulkPrefix(e.target.value)}
+                  placeholder="Prefix (optional)"
+                  className={`${inputClassName} font-mono uppercase`}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isGenerating}
+                className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isGenerating ? 'Generating...' : 'Generate'}
+              </button>
+            </div>
+            {bulkError ? (
+              <p className="mt-2 text-sm text-red-600">{bulkError}</p>
+            ) : bulkMessage ? (
+              <p className="mt-2 text-sm text-green-700">{bulkMessage}</p>
+            ) : (
+              <p className="mt-2 text-xs text-gray-500">
+                Each code is the prefix followed by {GENERATED_CODE_LENGTH} random characters
+              </p>
+            )}
+          </form>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="sm:w-72">
+          <label htmlFor="discountCodeSearch" className="sr-only">
+            Search codes
+          </label>
+          <input
+            id="discountCodeSearch"
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search codes"
+            className={inputClassName}
+          />
+        </div>
+        <ExportButton
+          filenamePrefix="discount-codes"
+          columns={EXPORT_COLUMNS}
+          filteredTotal={result?.total}
+          hasFilters={!!search}
+          fetchPage={getExportPage}
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!result ? (
+        !error && (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        )
+      ) : result.items.length === 0 ? (
+        <p className="text-sm text-gray-500">{search ? 'No codes match this search.' : 'No codes yet.'}</p>
+      ) : (
+        <div className={isFetching ? 'opacity-60 transition-opacity' : ''}>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <SortableHeader field="code" sortBy={sortBy} sortOrder={sortOrder} onSort={handleSort}>
+                  Code
+                </SortableHeader>
+                <SortableHeader field="orders" sortBy={sortBy} sortOrder={sortOrder} onSort={handleSort} className="text-right">
+                  Orders
+                </SortableHeader>
+                <th className="py-3 text-right">Customers</th>
+                <th className="py-3 text-right">Discount Given</th>
+                <th className="py-3 text-right">Revenue</th>
+                <SortableHeader
+                  field="lastUsedAt"
+                  sortBy={sortBy}
+                  sortOrder={sortOrder}
+                  onSort={handleSort}
+                  className="pl-6"
+                >
+                  Last Used
+                </SortableHeader>
+                {!readOnly && <th className="py-3"></th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {result.items.map((code) => (
+                <tr key={code.id} className="text-sm">
+                  <td className="py-3 font-mono font-medium text-gray-900">{code.code}</td>
+                  <td className="py-3 text-right text-gray-900">{code.usage.orders}</td>
+                  <td className="py-3 text-right text-gray-700">{code.usage.customers}</td>
+                  <td className="py-3 text-right text-gray-700">{formatCurrency(code.usage.discountTotal)}</td>
+                  <td className="py-3 text-right text-gray-700">{formatCurrency(code.usage.revenue)}</td>
+                  <td className="py-3 pl-6 text-gray-500">
+                    {code.usage.lastUsedAt ? new Date(code.usage.lastUsedAt).toLocaleString() : 'Never'}
+                  </td>
+                  {!readOnly && (
+                    <td className="py-3 text-right">
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(code)}
+                        disabled={deletingId === code.id}
+                        className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                      >
+                        {deletingId === code.id ? 'Deleting...' : 'Delete'}
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <Pagination page={result.page} pageSize={result.pageSize} total={result.total} onPageChange={setPage} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiscountCodesPanel;
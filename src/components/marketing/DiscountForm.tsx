@@ -0,0 +1,462 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import DiscountProductPicker from '@/components/marketing/DiscountProductPicker';
+import { ApiError, getErrorMessage } from '@/lib/apiClient';
+import catalogService, { Collection } from '@/lib/catalog';
+import discountService, {
+  codeSchema,
+  Discount,
+  DISCOUNT_METHOD_LABELS,
+  DISCOUNT_METHODS,
+  DISCOUNT_TARGET_LABELS,
+  DISCOUNT_TARGETS,
+  DISCOUNT_TYPE_LABELS,
+  DISCOUNT_TYPES,
+  DiscountFormValues,
+  discountFormSchema,
+  generateDiscountCode,
+  getEmptyDiscountForm,
+  toDiscountFormValues,
+  toDiscountInput,
+} from '@/lib/discounts';
+
+interface DiscountFormProps {
+  // Omitted when creating a new discount
+  discount?: Discount;
+  readOnly?: boolean;
+  onSaved: (discount: Discount) => void;
+}
+
+const GENERATED_CODE_LENGTH = 8;
+
+const DiscountForm: React.FC<DiscountFormProps> = ({ discount, readOnly = false, onSaved }) => {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    watch,
+    setValue,
+    setError: setFieldError,
+    formState: { errors, isSubmitting, isDirty },
+  } = useForm<DiscountFormValues>({
+    resolver: zodResolver(discountFormSchema),
+    defaultValues: discount ? toDiscountFormValues(discount) : getEmptyDiscountForm(),
+  });
+
+  const method = watch('method');
+  const type = watch('type');
+  const appliesTo = watch('appliesTo');
+
+  useEffect(() => {
+    catalogService
+      .getCollections()
+      .then(setCollections)
+      .catch((error) => setError(getErrorMessage(error, 'Failed to load collections')));
+  }, []);
+
+  const onSubmit = async (values: DiscountFormValues) => {
+    // The first code is only asked for when creating; later codes are managed on the discount page
+    let code: string | undefined;
+    if (!discount && values.method === 'code') {
+      const parsed = codeSchema.safeParse(values.code);
+      if (!parsed.success) {
+        setFieldError('code', { message: values.code.trim() ? parsed.error.issues[0].message : 'Enter a code or generate one' });
+        return;
+      }
+      code = parsed.data;
+    }
+
+    try {
+      setError(null);
+      setIsSaved(false);
+      const input = toDiscountInput(values);
+      const saved = discount
+        ? await discountService.updateDiscount(discount.id, input)
+        : await discountService.createDiscount({ ...input, code });
+
+      reset(toDiscountFormValues(saved));
+      setIsSaved(true);
+      onSaved(saved);
+    } catch (error) {
+      const apiError = ApiError.from(error, discount ? 'Failed to update discount' : 'Failed to create discount');
+      if (apiError.hasFieldErrors) {
+        Object.entries(apiError.fieldErrors).forEach(([field, message]) =>
+          setFieldError(field as keyof DiscountFormValues, { message })
+        );
+      } else {
+        setError(apiError.message);
+      }
+    }
+  };
+
+  const inputClassName = (hasError: boolean) =>
+    `mt-1 block w-full border rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+      hasError ? 'border-red-300' : 'border-gray-300'
+    } ${readOnly ? 'bg-gray-50 text-gray-600' : ''}`;
+
+  const radioClassName = 'h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 mr-2';
+
+  return (
+    <form className="px-8 py-8" onSubmit={handleSubmit(onSubmit)} noValidate>
+      {error && (
+        <div className="mb-6 rounded-md bg-red-50 p-4">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+      {isSaved && !isDirty && (
+        <div className="mb-6 rounded-md bg-green-50 p-4">
+          <p className="text-sm font-medium text-green-800">Discount saved.</p>
+        </div>
+      )}
+
+      <div className="space-y-8">
+        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+          <div>
+            <label htmlFor="discountTitle" className="block text-sm font-medium text-gray-700">
+              Title
+            </label>
+            <input
+              id="discountTitle"
+              type="text"
+              readOnly={readOnly}
+              {...register('title')}
+              className={inputClassName(!!errors.title)}
+            />
+            {errors.title ? (
+              <p className="mt-1 text-sm text-red-600">{errors.title.message}</p>
+            ) : (
+              <p className="mt-1 text-xs text-gray-500">Automatic discounts show this to customers at checkout</p>
+            )}
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700">Method</span>
+            {discount ? (
+              <>
+                <p className="mt-3 text-sm text-gray-900">{DISCOUNT_METHOD_LABELS[discount.method]}</p>
+                <p className="mt-1 text-xs text-gray-500">The method cannot be changed after creation</p>
+              </>
+            ) : (
+              <div className="mt-3 flex flex-wrap gap-x-6 gap-y-2">
+                {DISCOUNT_METHODS.map((value) => (
+                  <label key={value} className="flex items-center text-sm text-gray-700">
+                    <input type="radio" value={value} {...register('method')} className={radioClassName} />
+                    {DISCOUNT_METHOD_LABELS[value]}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {!discount && method === 'code' && (
+            <div>
+              <label htmlFor="discountCode" className="block text-sm font-medium text-gray-700">
+                Code
+              </label>
+              <div className="flex items-start gap-2">
+                <input
+                  id="discountCode"
+                  type="text"
+                  autoComplete="off"
+                  {...register('code')}
+                  className={`${inputClassName(!!errors.code)} font-mono uppercase`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setValue('code', generateDiscountCode(GENERATED_CODE_LENGTH), { shouldDirty: true })}
+                  className="mt-1 px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50"
+                >
+                  Generate
+                </button>
+              </div>
+              {errors.code ? (
+                <p className="mt-1 text-sm text-red-600">{errors.code.message}</p>
+              ) : (
+                <p className="mt-1 text-xs text-gray-500">More codes, including bulk batches, can be added after saving</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <fieldset>
+          <legend className="text-sm font-semibold text-gray-900">Value</legend>
+          <div className="mt-3 grid grid-cols-1 gap-6 sm:grid-cols-2">
+            <div>
+              <label htmlFor="discountType" className="block text-sm font-medium text-gray-700">
+                Type
+              </label>
+              <select id="discountType" disabled={readOnly} {...register('type')} className={inputClassName(false)}>
+                {DISCOUNT_TYPES.map((value) => (
+                  <option key={value} value={value}>
+                    {DISCOUNT_TYPE_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {(type === 'percentage' || type === 'fixed_amount') && (
+              <div>
+                <label htmlFor="discountValue" className="block text-sm font-medium text-gray-700">
+                  {type === 'percentage' ? 'Percent off' : 'Amount off ($)'}
+                </label>
+                <input
+                  id="discountValue"
+                  type="text"
+                  inputMode="decimal"
+                  readOnly={readOnly}
+                  placeholder={type === 'percentage' ? '20' : '10.00'}
+                  {...register('value')}
+                  className={inputClassName(!!errors.value)}
+                />
+                {errors.value ? (
+                  <p className="mt-1 text-sm text-red-600">{errors.value.message}</p>
+                ) : (
+                  type === 'fixed_amount' && (
+                    <p className="mt-1 text-xs text-gray-500">Taken off the eligible items, never more than their total</p>
+                  )
+                )}
+              </div>
+            )}
+
+            {type === 'free_shipping' && (
+              <p className="self-end text-sm text-gray-500">Removes the shipping charge from qualifying orders.</p>
+            )}
+          </div>
+
+          {type === 'buy_x_get_y' && (
+            <div className="mt-6 grid grid-cols-1 gap-6 sm:grid-cols-3">
+              <div>
+                <label htmlFor="discountBuyQuantity" className="block text-sm font-medium text-gray-700">
+                  Customer buys
+                </label>
+                <input
+                  id="discountBuyQuantity"
+                  type="text"
+                  inputMode="numeric"
+                  readOnly={readOnly}
+                  placeholder="2"
+                  {...register('buyQuantity')}
+                  className={inputClassName(!!errors.buyQuantity)}
+                />
+                {errors.buyQuantity && <p className="mt-1 text-sm text-red-600">{errors.buyQuantity.message}</p>}
+              </div>
+              <div>
+                <label htmlFor="discountGetQuantity" className="block text-sm font-medium text-gray-700">
+                  Customer gets
+                </label>
+                <input
+                  id="discountGetQuantity"
+                  type="text"
+                  inputMode="numeric"
+                  readOnly={readOnly}
+                  placeholder="1"
+                  {...register('getQuantity')}
+                  className={inputClassName(!!errors.getQuantity)}
+                />
+                {errors.getQuantity && <p className="mt-1 text-sm text-red-600">{errors.getQuantity.message}</p>}
+              </div>
+              <div>
+                <label htmlFor="discountGetPercent" className="block text-sm font-medium text-gray-700">
+                  At percent off
+                </label>
+                <input
+                  id="discountGetPercent"
+                  type="text"
+                  inputMode="decimal"
+                  readOnly={readOnly}
+                  {...register('getDiscountPercent')}
+                  className={inputClassName(!!errors.getDiscountPercent)}
+                />
+                {errors.getDiscountPercent ? (
+                  <p className="mt-1 text-sm text-red-600">{errors.getDiscountPercent.message}</p>
+                ) : (
+                  <p className="mt-1 text-xs text-gray-500">100 makes them free</p>
+                )}
+              </div>
+              <p className="sm:col-span-3 text-xs text-gray-500">
+                Both the bought and the discounted items come from the eligible products below; the cheapest ones are
+                discounted.
+              </p>
+            </div>
+          )}
+        </fieldset>
+
+        {type !== 'free_shipping' && (
+          <fieldset>
+            <legend className="text-sm font-semibold text-gray-900">Applies To</legend>
+            <div className="mt-3 flex flex-wrap gap-x-6 gap-y-2">
+              {DISCOUNT_TARGETS.map((value) => (
+                <label key={value} className="flex items-center text-sm text-gray-700">
+                  <input type="radio" value={value} disabled={readOnly} {...register('appliesTo')} className={radioClassName} />
+                  {DISCOUNT_TARGET_LABELS[value]}
+                </label>
+              ))}
+            </div>
+
+            {appliesTo === 'products' && (
+              <div className="mt-4">
+                <Controller
+                  control={control}
+                  name="products"
+                  render={({ field }) => (
+                    <DiscountProductPicker value={field.value} onChange={field.onChange} readOnly={readOnly} />
+                  )}
+                />
+                {errors.products && <p className="mt-2 text-sm text-red-600">{errors.products.message}</p>}
+              </div>
+            )}
+
+            {appliesTo === 'collections' && (
+              <div className="mt-4">
+                <Controller
+                  control={control}
+                  name="collectionIds"
+                  render={({ field }) =>
+                    collections.length === 0 ? (
+                      <p className="text-sm text-gray-500">No collections available.</p>
+                    ) : (
+                      <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+                        {collections.map((collection) => (
+                          <label key={collection.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              disabled={readOnly}
+                              checked={field.value.includes(collection.id)}
+                              onChange={(e) =>
+                                field.onChange(
+                                  e.target.checked
+                                    ? [...field.value, collection.id]
+                                    : field.value.filter((collectionId) => collectionId !== collection.id)
+                                )
+                              }
+                              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                            />
+                            <span>{collection.title}</span>
+                          </label>
+                        ))}
+                      </div>
+                    )
+                  }
+                />
+                {errors.collectionIds && <p className="mt-2 text-sm text-red-600">{errors.collectionIds.message}</p>}
+              </div>
+            )}
+          </fieldset>
+        )}
+
+        <fieldset>
+          <legend className="text-sm font-semibold text-gray-900">Requirements and Limits</legend>
+          <div className="mt-3 grid grid-cols-1 gap-6 sm:grid-cols-3">
+            <div>
+              <label htmlFor="discountMinimumOrder" className="block text-sm font-medium text-gray-700">
+                Minimum order value ($)
+              </label>
+              <input
+                id="discountMinimumOrder"
+                type="text"
+                inputMode="decimal"
+                readOnly={readOnly}
+                placeholder="No minimum"
+                {...register('minimumOrderValue')}
+                className={inputClassName(!!errors.minimumOrderValue)}
+              />
+              {errors.minimumOrderValue && <p className="mt-1 text-sm text-red-600">{errors.minimumOrderValue.message}</p>}
+            </div>
+            <div>
+              <label htmlFor="discountUsageLimit" className="block text-sm font-medium text-gray-700">
+                Total uses
+              </label>
+              <input
+                id="discountUsageLimit"
+                type="text"
+                inputMode="numeric"
+                readOnly={readOnly}
+                placeholder="Unlimited"
+                {...register('usageLimit')}
+                className={inputClassName(!!errors.usageLimit)}
+              />
+              {errors.usageLimit ? (
+                <p className="mt-1 text-sm text-red-600">{errors.usageLimit.message}</p>
+              ) : (
+                method === 'code' && <p className="mt-1 text-xs text-gray-500">Shared by every code</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="discountPerCustomerLimit" className="block text-sm font-medium text-gray-700">
+                Uses per customer
+              </label>
+              <input
+                id="discountPerCustomerLimit"
+                type="text"
+                inputMode="numeric"
+                readOnly={readOnly}
+                placeholder="Unlimited"
+                {...register('perCustomerLimit')}
+                className={inputClassName(!!errors.perCustomerLimit)}
+              />
+              {errors.perCustomerLimit && <p className="mt-1 text-sm text-red-600">{errors.perCustomerLimit.message}</p>}
+            </div>
+          </div>
+        </fieldset>
+
+        <fieldset>
+          <legend className="text-sm font-semibold text-gray-900">Schedule</legend>
+          <div className="mt-3 grid grid-cols-1 gap-6 sm:grid-cols-2">
+            <div>
+              <label htmlFor="discountStartsAt" className="block text-sm font-medium text-gray-700">
+                Starts
+              </label>
+              <input
+                id="discountStartsAt"
+                type="datetime-local"
+                readOnly={readOnly}
+                {...register('startsAt')}
+                className={inputClassName(!!errors.startsAt)}
+              />
+              {errors.startsAt && <p className="mt-1 text-sm text-red-600">{errors.startsAt.message}</p>}
+            </div>
+            <div>
+              <label htmlFor="discountEndsAt" className="block text-sm font-medium text-gray-700">
+                Ends
+              </label>
+              <input
+                id="discountEndsAt"
+                type="datetime-local"
+                readOnly={readOnly}
+                {...register('endsAt')}
+                className={inputClassName(!!errors.endsAt)}
+              />
+              {errors.endsAt ? (
+                <p className="mt-1 text-sm text-red-600">{errors.endsAt.message}</p>
+              ) : (
+                <p className="mt-1 text-xs text-gray-500">Leave blank to run until disabled</p>
+              )}
+            </div>
+          </div>
+        </fieldset>
+      </div>
+
+      {!readOnly && (
+        <div className="mt-8 flex justify-end">
+          <button
+            type="submit"
+            disabled={isSubmitting || (!!discount && !isDirty)}
+            className="inline-flex items-center px-8 py-3 border-2 border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-4 focus:ring-blue-500/20 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Saving...' : discount ? 'Save Changes' : 'Create Discount'}
+          </button>
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default DiscountForm;
@@ -0,0 +1,135 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { getErrorMessage } from '@/lib/apiClient';
+import { DiscountItemRef } from '@/lib/discounts';
+import { formatCurrency } from '@/lib/format';
+import productService, { Product } from '@/lib/products';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const RESULT_LIMIT = 8;
+
+interface DiscountProductPickerProps {
+  value: DiscountItemRef[];
+  onChange: (products: DiscountItemRef[]) => void;
+  readOnly?: boolean;
+}
+
+// Search the catalog and collect the products a discount applies to
+const DiscountProductPicker: React.FC<DiscountProductPickerProps> = ({ value, onChange, readOnly = false }) => {
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<Product[]>([]);
+  const [isFetching, setIsFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const query = search.trim();
+    if (!query) {
+      setResults([]);
+      return;
+    }
+
+    let isCancelled = false;
+    const timeout = setTimeout(() => {
+      setIsFetching(true);
+      setError(null);
+      productService
+        .getProducts({ page: 1, pageSize: RESULT_LIMIT, sortBy: 'title', sortOrder: 'asc', search: query })
+        .then((list) => {
+          if (!isCancelled) {
+            setResults(list.items);
+          }
+        })
+        .catch((error) => {
+          if (!isCancelled) {
+            setError(getErrorMessage(error, 'Failed to search products'));
+          }
+        })
+        .finally(() => {
+          if (!isCancelled) {
+            setIsFetching(false);
+          }
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [search]);
+
+  const selectedIds = new Set(value.map((product) => product.id));
+
+  return (
+    <div>
+      {!readOnly && (
+        <div className="relative">
+          <label htmlFor="discountProductSearch" className="sr-only">
+            Search products
+          </label>
+          <input
+            id="discountProductSearch"
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search products by title or SKU"
+            className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+          {isFetching && (
+            <div className="absolute right-3 top-2.5 animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      {results.length > 0 && (
+        <ul className="mt-2 divide-y divide-gray-100 rounded-md border border-gray-200">
+          {results.map((product) => (
+            <li key={product.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <div>
+                <p className="font-medium text-gray-900">{product.title}</p>
+                <p className="text-xs text-gray-500">
+                  {product.sku} · {formatCurrency(product.price)}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange([...value, { id: product.id, title: product.title }])}
+                disabled={selectedIds.has(product.id)}
+                className="text-sm font-medium text-blue-600 hover:text-blue-500 disabled:text-gray-400"
+              >
+                {selectedIds.has(product.id) ? 'Added' : 'Add'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {value.length > 0 && (
+        <ul className="mt-4 flex flex-wrap gap-2">
+          {value.map((product) => (
+            <li
+              key={product.id}
+              className="inline-flex items-center rounded-full bg-blue-50 border border-blue-200 px-3 py-1 text-sm text-blue-800"
+            >
+              {product.title}
+              {!readOnly && (
+                <button
+                  type="button"
+                  onClick={() => onChange(value.filter((selected) => selected.id !== product.id))}
+                  aria-label={`Remove ${product.title}`}
+                  className="ml-2 text-blue-500 hover:text-red-600"
+                >
+                  ×
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DiscountProductPicker;
@@ -0,0 +1,17 @@
+import React from 'react';
+import { DISCOUNT_STATUS_LABELS, DiscountStatus } from '@/lib/discounts';
+
+const STATUS_STYLES: Record<DiscountStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  expired: 'bg-gray-100 text-gray-700',
+  disabled: 'bg-red-100 text-red-800',
+};
+
+const DiscountStatusBadge: React.FC<{ status: DiscountStatus }> = ({ status }) => (
+  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+    {DISCOUNT_STATUS_LABELS[status]}
+  </span>
+);
+
+export default DiscountStatusBadge;
@@ -0,0 +1,275 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ApiError } from '@/lib/apiClient';
+import mediaService, {
+  ACCEPTED_IMAGE_TYPES,
+  formatFileSize,
+  MAX_SOURCE_BYTES,
+  MAX_UPLOAD_BYTES,
+  MediaAsset,
+  resizeImage,
+  validateImageFile,
+} from '@/lib/media';
+
+interface MediaUploaderProps {
+  onUploaded: (asset: MediaAsset) => void;
+  // How many more files may be added, e.g. free gallery slots
+  maxFiles?: number;
+  disabled?: boolean;
+}
+
+type UploadStatus = 'queued' | 'processing' | 'uploading' | 'done' | 'error';
+
+interface UploadItem {
+  key: number;
+  file: File;
+  previewUrl: string;
+  status: UploadStatus;
+  progress: number;
+  error?: string;
+}
+
+const MAX_CONCURRENT_UPLOADS = 2;
+
+// Drag-and-drop image uploader with per-file progress. Images are resized in the
+// browser before upload and handed to onUploaded one by one as they finish.
+const MediaUploader: React.FC<MediaUploaderProps> = ({ onUploaded, maxFiles, disabled = false }) => {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const nextKey = useRef(0);
+  const controllers = useRef(new Map<number, AbortController>());
+  const onUploadedRef = useRef(onUploaded);
+  const itemsRef = useRef(items);
+
+  useEffect(() => {
+    onUploadedRef.current = onUploaded;
+  }, [onUploaded]);
+
+  const updateItem = useCallback((key: number, changes: Partial<UploadItem>) => {
+    setItems((prev) => prev.map((item) => (item.key === key ? { ...item, ...changes } : item)));
+  }, []);
+
+  const startUpload = useCallback(
+    async (item: UploadItem) => {
+      const controller = new AbortController();
+      controllers.current.set(item.key, controller);
+
+      try {
+        const file = await resizeImage(item.file);
+        if (file.size > MAX_UPLOAD_BYTES) {
+          throw new ApiError(`Still larger than ${formatFileSize(MAX_UPLOAD_BYTES)} after compression`);
+        }
+
+        updateItem(item.key, { status: 'uploading' });
+        const asset = await mediaService.upload(file, {
+          signal: controller.signal,
+          onProgress: (progress) => updateItem(item.key, { progress }),
+        });
+
+        updateItem(item.key, { status: 'done', progress: 1 });
+        onUploadedRef.current(asset);
+      } catch (error) {
+        const apiError = ApiError.from(error, 'Upload failed');
+        updateItem(item.key, { status: 'error', error: apiError.isCanceled ? 'Canceled' : apiError.message });
+      } finally {
+        controllers.current.delete(item.key);
+      }
+    },
+    [updateItem]
+  );
+
+  // Start queued uploads while there is a free slot
+  useEffect(() => {
+    const active = items.filter((item) => item.status === 'processing' || item.status === 'uploading').length;
+    const next = items.filter((item) => item.status === 'queued').slice(0, MAX_CONCURRENT_UPLOADS - active);
+    next.forEach((item) => {
+      updateItem(item.key, { status: 'processing' });
+      startUpload(item);
+    });
+  }, [items, updateItem, startUpload]);
+
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  // Cancel in-flight uploads and release previews when the uploader goes away
+  useEffect(() => {
+    const activeControllers = controllers.current;
+    return () => {
+      activeControllers.forEach((controller) => controller.abort());
+      itemsRef.current.forEach((item) => URL.revokeObjectURL(item.previewUrl));
+    };
+  }, []);
+
+  const addFiles = (fileList: FileList | null) => {
+    if (!fileList || disabled) {
+      return;
+    }
+
+    let files = Array.from(fileList);
+    setNotice(null);
+
+    if (maxFiles !== undefined && files.length > maxFiles) {
+      setNotice(`Only ${maxFiles} more image${maxFiles === 1 ? '' : 's'} can be added.`);
+      files = files.slice(0, maxFiles);
+    }
+
+    const newItems = files.map((file): UploadItem => {
+      const error = validateImageFile(file);
+      return {
+        key: nextKey.current++,
+        file,
+        previewUrl: URL.createObjectURL(file),
+        status: error ? 'error' : 'queued',
+        progress: 0,
+        error: error ?? undefined,
+      };
+    });
+
+    setItems((prev) => [...prev, ...newItems]);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(e.dataTransfer.files);
+  };
+
+  const handleCancel = (key: number) => {
+    controllers.current.get(key)?.abort();
+  };
+
+  const handleRetry = (key: number) => {
+    updateItem(key, { status: 'queued', progress: 0, error: undefined });
+  };
+
+  const handleRemove = (key: number) => {
+    setItems((prev) => {
+      const item = prev.find((current) => current.key === key);
+      if (item) {
+        URL.revokeObjectURL(item.previewUrl);
+      }
+      return prev.filter((current) => current.key !== key);
+    });
+  };
+
+  const handleClearFinished = () => {
+    setItems((prev) => {
+      prev.filter((item) => item.status === 'done').forEach((item) => URL.revokeObjectURL(item.previewUrl));
+      return prev.filter((item) => item.status !== 'done');
+    });
+  };
+
+  const isAtLimit = maxFiles !== undefined && maxFiles <= 0;
+
+  return (
+    <div>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled && !isAtLimit) {
+            setIsDragging(true);
+          }
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center rounded-xl border-2 border-dashed px-6 py-8 text-center transition-colors duration-200 ${
+          isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 bg-gray-50'
+        } ${disabled || isAtLimit ? 'opacity-50' : ''}`}
+      >
+        <svg className="h-10 w-10 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+        <p className="mt-2 text-sm text-gray-700">
+          Drag images here or{' '}
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            disabled={disabled || isAtLimit}
+            className="font-medium text-blue-600 hover:text-blue-500 disabled:cursor-not-allowed"
+          >
+            browse
+          </button>
+        </p>
+        <p className="mt-1 text-xs text-gray-500">
+          JPEG, PNG, WebP or GIF up to {formatFileSize(MAX_SOURCE_BYTES)}. Large images are resized automatically.
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_IMAGE_TYPES.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {notice && <p className="mt-2 text-sm text-yellow-700">{notice}</p>}
+
+      {items.length > 0 && (
+        <ul className="mt-4 space-y-3">
+          {items.map((item) => (
+            <li key={item.key} className="flex items-center space-x-4 rounded-lg border border-gray-200 bg-white p-3">
+              <img src={item.previewUrl} alt="" className="h-12 w-12 rounded-md object-cover bg-gray-100" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between text-sm">
+                  <p className="font-medium text-gray-900 truncate">{item.file.name}</p>
+                  <span className="ml-2 text-xs text-gray-500">{formatFileSize(item.file.size)}</span>
+                </div>
+                {item.status === 'error' ? (
+                  <p className="mt-1 text-xs text-red-600">{item.error}</p>
+                ) : item.status === 'done' ? (
+                  <p className="mt-1 text-xs text-green-600">Uploaded</p>
+                ) : (
+                  <div className="mt-2 h-2 w-full rounded-full bg-gray-200 overflow-hidden">
+                    <div
+                      className={`h-2 rounded-full bg-blue-600 transition-all duration-200 ${
+                        item.status === 'processing' ? 'animate-pulse' : ''
+                      }`}
+                      style={{ width: `${Math.round(item.progress * 100)}%` }}
+                    ></div>
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center space-x-3 text-sm font-medium">
+                {item.status === 'uploading' && (
+                  <button type="button" onClick={() => handleCancel(item.key)} className="text-gray-600 hover:text-gray-500">
+                    Cancel
+                  </button>
+                )}
+                {item.status === 'error' && !validateImageFile(item.file) && (
+                  <button type="button" onClick={() => handleRetry(item.key)} className="text-blue-600 hover:text-blue-500">
+                    Retry
+                  </button>
+                )}
+                {(item.status === 'error' || item.status === 'done') && (
+                  <button type="button" onClick={() => handleRemove(item.key)} className="text-gray-400 hover:text-gray-600">
+                    Dismiss
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {items.some((item) => item.status === 'done') && (
+        <button
+          type="button"
+          onClick={handleClearFinished}
+          className="mt-3 text-sm font-medium text-gray-600 hover:text-gray-500"
+        >
+          Clear finished uploads
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MediaUploader;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { Address } from '@/lib/orders';
+
+const AddressLines: React.FC<{ address: Address | null }> = ({ address }) => {
+  if (!address) {
+    return <p className="text-sm text-gray-500">No address provided.</p>;
+  }
+
+  return (
+    <address className="not-italic text-sm text-gray-700 space-y-0.5">
+      <p className="font-medium text-gray-900">{address.name}</p>
+      {address.company && <p>{address.company}</p>}
+      <p>{address.line1}</p>
+      {address.line2 && <p>{address.line2}</p>}
+      <p>{[address.city, address.region, address.postalCode].filter(Boolean).join(', ')}</p>
+      <p>{address.country}</p>
+      {address.phone && <p className="pt-1 text-gray-500">{address.phone}</p>}
+    </address>
+  );
+};
+
+export default AddressLines;
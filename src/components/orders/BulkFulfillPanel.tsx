@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useState } from 'react';
+import { getErrorMessage } from '@/lib/apiClient';
+import orderService, { BulkFulfillResult, Carrier, CARRIER_LABELS, CARRIERS } from '@/lib/orders';
+
+interface BulkFulfillPanelProps {
+  orderIds: string[];
+  onDone: (result: BulkFulfillResult) => void;
+  onCancel: () => void;
+}
+
+// Fulfills everything still open on the selected orders in one request.
+// Tracking numbers differ per parcel, so they are added per order afterwards.
+const BulkFulfillPanel: React.FC<BulkFulfillPanelProps> = ({ orderIds, onDone, onCancel }) => {
+  const [carrier, setCarrier] = useState<Carrier | ''>('');
+  const [markShipped, setMarkShipped] = useState(false);
+  const [notifyCustomer, setNotifyCustomer] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      onDone(
+        await orderService.bulkFulfill({
+          orderIds,
+          carrier: carrier || null,
+          markShipped,
+          notifyCustomer: markShipped && notifyCustomer,
+        })
+      );
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to fulfill orders'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-6 rounded-xl bg-gray-50 p-4 space-y-4">
+      <p className="text-sm text-gray-700">
+        Fulfill all remaining items on {orderIds.length} order{orderIds.length === 1 ? '' : 's'}. Orders that are
+        cancelled or already fulfilled are skipped.
+      </p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-6">
+        <select
+          aria-label="Carrier"
+          value={carrier}
+          onChange={(e) => setCarrier(e.target.value as Carrier | '')}
+          className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">No carrier yet</option>
+          {CARRIERS.map((value) => (
+            <option key={value} value={value}>
+              {CARRIER_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={markShipped}
+            onChange={(e) => setMarkShipped(e.target.checked)}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+          />
+          Mark as shipped
+        </label>
+        <label className={`flex items-center text-sm ${markShipped ? 'text-gray-700' : 'text-gray-400'}`}>
+          <input
+            type="checkbox"
+            checked={markShipped && notifyCustomer}
+            disabled={!markShipped}
+            onChange={(e) => setNotifyCustomer(e.target.checked)}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+          />
+          Email customers
+        </label>
+      </div>
+
+      <div className="flex items-center justify-end space-x-6">
+        <button type="button" onClick={onCancel} className="text-sm font-medium text-gray-600 hover:text-gray-500">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Fulfilling...' : `Fulfill ${orderIds.length} Order${orderIds.length === 1 ? '' : 's'}`}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default BulkFulfillPanel;
@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useState } from 'react';
+import { getErrorMessage } from '@/lib/apiClient';
+import orderService, { CANCEL_REASON_LABELS, CANCEL_REASONS, CancelReason, Order } from '@/lib/orders';
+
+interface CancelOrderFormProps {
+  order: Order;
+  onCancelled: (order: Order) => void;
+  onClose: () => void;
+}
+
+const CancelOrderForm: React.FC<CancelOrderFormProps> = ({ order, onCancelled, onClose }) => {
+  const [reason, setReason] = useState<CancelReason | ''>('');
+  const [note, setNote] = useState('');
+  const [refundPayment, setRefundPayment] = useState(order.paymentStatus !== 'pending');
+  const [restock, setRestock] = useState(true);
+  const [notifyCustomer, setNotifyCustomer] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason) {
+      setError('Choose a reason for cancelling.');
+      return;
+    }
+    if (reason === 'other' && !note.trim()) {
+      setError('Add a note explaining the cancellation.');
+      return;
+    }
+    if (!window.confirm(`Cancel order #${order.number}? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      onCancelled(
+        await orderService.cancelOrder(order.id, { reason, note: note.trim(), refundPayment, restock, notifyCustomer })
+      );
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to cancel order'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="cancelReason" className="block text-sm font-medium text-gray-700 mb-1">
+            Reason
+          </label>
+          <select
+            id="cancelReason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value as CancelReason | '')}
+            className={inputClassName}
+          >
+            <option value="">Select a reason</option>
+            {CANCEL_REASONS.map((value) => (
+              <option key={value} value={value}>
+                {CANCEL_REASON_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="cancelNote" className="block text-sm font-medium text-gray-700 mb-1">
+            Note (internal)
+          </label>
+          <input
+            id="cancelNote"
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {order.paymentStatus !== 'pending' && order.paymentStatus !== 'failed' && (
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={refundPayment}
+              onChange={(e) => setRefundPayment(e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+            />
+            Refund or void the payment
+          </label>
+        )}
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={restock}
+            onChange={(e) => setRestock(e.target.checked)}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+          />
+          Return items to stock
+        </label>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={notifyCustomer}
+            onChange={(e) => setNotifyCustomer(e.target.checked)}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+          />
+          Email the customer
+        </label>
+      </div>
+
+      <div className="flex items-center justify-end space-x-6">
+        <button type="button" onClick={onClose} className="text-sm font-medium text-gray-600 hover:text-gray-500">
+          Keep Order
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="inline-flex items-center px-6 py-3 border border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Cancelling...' : 'Cancel Order'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default CancelOrderForm;
@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ApiError } from '@/lib/apiClient';
+import orderService, { Carrier, CARRIER_LABELS, CARRIERS, getUnfulfilledQuantity, Order } from '@/lib/orders';
+
+interface FulfillmentFormProps {
+  order: Order;
+  onFulfilled: (order: Order) => void;
+  onCancel: () => void;
+}
+
+// Pick how many of each remaining item go into this shipment, then add carrier details
+const FulfillmentForm: React.FC<FulfillmentFormProps> = ({ order, onFulfilled, onCancel }) => {
+  const openItems = order.lineItems.filter((item) => getUnfulfilledQuantity(item) > 0);
+
+  const [quantities, setQuantities] = useState<Record<string, string>>(() =>
+    Object.fromEntries(openItems.map((item) => [item.id, String(getUnfulfilledQuantity(item))]))
+  );
+  const [carrier, setCarrier] = useState<Carrier | ''>('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [markShipped, setMarkShipped] = useState(true);
+  const [notifyCustomer, setNotifyCustomer] = useState(true);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const validate = (): Record<string, string> => {
+    const nextErrors: Record<string, string> = {};
+
+    openItems.forEach((item) => {
+      const value = quantities[item.id];
+      const quantity = Number(value);
+      if (!/^\d+$/.test(value) || quantity > getUnfulfilledQuantity(item)) {
+        nextErrors[item.id] = `Enter 0 to ${getUnfulfilledQuantity(item)}`;
+      }
+    });
+
+    if (Object.keys(nextErrors).length === 0 && openItems.every((item) => Number(quantities[item.id]) === 0)) {
+      nextErrors.items = 'Select at least one item to fulfill';
+    }
+    if (trackingNumber.trim() && !carrier) {
+      nextErrors.carrier = 'Choose the carrier for this tracking number';
+    }
+
+    return nextErrors;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const nextErrors = validate();
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const updated = await orderService.createFulfillment(order.id, {
+        items: openItems
+          .map((item) => ({ lineItemId: item.id, quantity: Number(quantities[item.id]) }))
+          .filter((item) => item.quantity > 0),
+        carrier: carrier || null,
+        trackingNumber: trackingNumber.trim() || null,
+        markShipped,
+        notifyCustomer: markShipped && notifyCustomer,
+      });
+      onFulfilled(updated);
+    } catch (error) {
+      const apiError = ApiError.from(error, 'Failed to fulfill items');
+      setErrors({ ...apiError.fieldErrors, form: apiError.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {errors.form && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm font-medium text-red-800">{errors.form}</p>
+        </div>
+      )}
+
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead>
+          <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+            <th className="py-3 pr-3">Item</th>
+            <th className="py-3 pr-3 text-right">Remaining</th>
+            <th className="py-3 w-32">Ship now</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {openItems.map((item) => (
+            <tr key={item.id} className="text-sm align-top">
+              <td className="py-3 pr-3">
+                <p className="font-medium text-gray-900">{item.title}</p>
+                <p className="text-xs text-gray-500">
+                  {[item.variantTitle, `SKU ${item.sku}`].filter(Boolean).join(' · ')}
+                </p>
+              </td>
+              <td className="py-3 pr-3 text-right text-gray-700">
+                {getUnfulfilledQuantity(item)} of {item.quantity}
+              </td>
+              <td className="py-3">
+                <input
+                  type="number"
+                  aria-label={`Quantity of ${item.title} to ship`}
+                  min={0}
+                  max={getUnfulfilledQuantity(item)}
+                  value={quantities[item.id]}
+                  onChange={(e) => setQuantities((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                  className={`block w-full border rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                    errors[item.id] ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                />
+                {errors[item.id] && <p className="mt-1 text-xs text-red-600">{errors[item.id]}</p>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {errors.items && <p className="text-sm text-red-600">{errors.items}</p>}
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="fulfillmentCarrier" className="block text-sm font-medium text-gray-700 mb-1">
+            Carrier
+          </label>
+          <select
+            id="fulfillmentCarrier"
+            value={carrier}
+            onChange={(e) => setCarrier(e.target.value as Carrier | '')}
+            className={inputClassName}
+          >
+            <option value="">No carrier yet</option>
+            {CARRIERS.map((value) => (
+              <option key={value} value={value}>
+                {CARRIER_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          {errors.carrier && <p className="mt-1 text-sm text-red-600">{errors.carrier}</p>}
+        </div>
+        <div>
+          <label htmlFor="fulfillmentTracking" className="block text-sm font-medium text-gray-700 mb-1">
+            Tracking number
+          </label>
+          <input
+            id="fulfillmentTracking"
+            type="text"
+            value={trackingNumber}
+            onChange={(e) => setTrackingNumber(e.target.value)}
+            className={inputClassName}
+          />
+          {errors.trackingNumber && <p className="mt-1 text-sm text-red-600">{errors.trackingNumber}</p>}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={markShipped}
+            onChange={(e) => setMarkShipped(e.target.checked)}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+          />
+          Mark as shipped now
+        </label>
+        <label className={`flex items-center text-sm ${markShipped ? 'text-gray-700' : 'text-gray-400'}`}>
+          <input
+            type="checkbox"
+            checked={markShipped && notifyCustomer}
+            disabled={!markShipped}
+            onChange={(e) => setNotifyCustomer(e.target.checked)}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+          />
+          Email the customer a shipping confirmation
+        </label>
+      </div>
+
+      <div className="flex items-center justify-end space-x-6">
+        <button type="button" onClick={onCancel} className="text-sm font-medium text-gray-600 hover:text-gray-500">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="inline-flex items-center px-8 py-3 border-2 border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-4 focus:ring-blue-500/20 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Fulfilling...' : 'Fulfill Items'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default FulfillmentForm;
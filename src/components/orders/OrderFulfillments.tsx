@@ -0,0 +1,227 @@
+'use client';
+
+import React, { useState } from 'react';
+import { getErrorMessage } from '@/lib/apiClient';
+import { openBlob, saveBlob } from '@/lib/download';
+import orderService, {
+  Carrier,
+  CARRIER_LABELS,
+  CARRIERS,
+  Fulfillment,
+  FULFILLMENT_STATUS_LABELS,
+  FulfillmentStatus,
+  FulfillmentUpdate,
+  Order,
+} from '@/lib/orders';
+
+interface OrderFulfillmentsProps {
+  order: Order;
+  canEdit: boolean;
+  onUpdated: (order: Order) => void;
+}
+
+const STATUS_STYLES: Record<FulfillmentStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  shipped: 'bg-indigo-100 text-indigo-800',
+  delivered: 'bg-green-100 text-green-800',
+};
+
+// Shipments already created for the order, with tracking and status actions
+const OrderFulfillments: React.FC<OrderFulfillmentsProps> = ({ order, canEdit, onUpdated }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [carrier, setCarrier] = useState<Carrier | ''>('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const lineItemTitles = Object.fromEntries(order.lineItems.map((item) => [item.id, item.title]));
+
+  const update = async (fulfillment: Fulfillment, changes: FulfillmentUpdate) => {
+    try {
+      setBusyId(fulfillment.id);
+      setError(null);
+      onUpdated(await orderService.updateFulfillment(order.id, fulfillment.id, changes));
+      setEditingId(null);
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to update shipment'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const startEditing = (fulfillment: Fulfillment) => {
+    setEditingId(fulfillment.id);
+    setCarrier(fulfillment.carrier ?? '');
+    setTrackingNumber(fulfillment.trackingNumber ?? '');
+  };
+
+  const handleSaveTracking = (e: React.FormEvent, fulfillment: Fulfillment) => {
+    e.preventDefault();
+    if (!carrier || !trackingNumber.trim()) {
+      setError('Enter a carrier and tracking number.');
+      return;
+    }
+    update(fulfillment, { carrier, trackingNumber: trackingNumber.trim() });
+  };
+
+  const handlePrintLabel = async () => {
+    try {
+      setBusyId('labels');
+      setError(null);
+      const labels = await orderService.getShippingLabels([order.id]);
+      // Popup blockers may stop the tab because it opens after the request, so fall back to a download
+      if (!openBlob(labels)) {
+        saveBlob(labels, `labels-${order.number}.pdf`);
+      }
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to generate shipping labels'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (order.fulfillments.length === 0) {
+    return <p className="text-sm text-gray-500">Nothing has been fulfilled yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      {order.fulfillments.map((fulfillment, index) => (
+        <div key={fulfillment.id} className="rounded-xl border border-gray-200 p-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center space-x-3">
+              <h4 className="font-semibold text-gray-900">Shipment {index + 1}</h4>
+              <span
+                className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[fulfillment.status]}`}
+              >
+                {FULFILLMENT_STATUS_LABELS[fulfillment.status]}
+              </span>
+            </div>
+            <span className="text-xs text-gray-500">
+              {new Date(fulfillment.deliveredAt ?? fulfillment.shippedAt ?? fulfillment.createdAt).toLocaleString()}
+            </span>
+          </div>
+
+          <ul className="mt-3 text-sm text-gray-700">
+            {fulfillment.items.map((item) => (
+              <li key={item.lineItemId}>
+                {item.quantity} × {lineItemTitles[item.lineItemId] ?? 'Removed item'}
+              </li>
+            ))}
+          </ul>
+
+          {editingId === fulfillment.id ? (
+            <form className="mt-4 flex flex-wrap items-center gap-3" onSubmit={(e) => handleSaveTracking(e, fulfillment)}>
+              <select
+                aria-label="Carrier"
+                value={carrier}
+                onChange={(e) => setCarrier(e.target.value as Carrier | '')}
+                className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Carrier</option>
+                {CARRIERS.map((value) => (
+                  <option key={value} value={value}>
+                    {CARRIER_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                aria-label="Tracking number"
+                placeholder="Tracking number"
+                value={trackingNumber}
+                onChange={(e) => setTrackingNumber(e.target.value)}
+                className="flex-1 min-w-40 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={busyId === fulfillment.id}
+                className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                Save
+              </button>
+              <button
+                type="button"
+                onClick={() => setEditingId(null)}
+                className="text-sm font-medium text-gray-600 hover:text-gray-500"
+              >
+                Cancel
+              </button>
+            </form>
+          ) : (
+            fulfillment.trackingNumber && (
+              <p className="mt-3 text-sm text-gray-700">
+                {fulfillment.carrier ? CARRIER_LABELS[fulfillment.carrier] : 'Tracking'}:{' '}
+                {fulfillment.trackingUrl ? (
+                  <a
+                    href={fulfillment.trackingUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-mono text-blue-600 hover:text-blue-500"
+                  >
+                    {fulfillment.trackingNumber}
+                  </a>
+                ) : (
+                  <span className="font-mono">{fulfillment.trackingNumber}</span>
+                )}
+              </p>
+            )
+          )}
+
+          {canEdit && editingId !== fulfillment.id && (
+            <div className="mt-4 flex flex-wrap items-center gap-4 text-sm font-medium">
+              {fulfillment.status !== 'delivered' && (
+                <button
+                  type="button"
+                  onClick={() => startEditing(fulfillment)}
+                  className="text-blue-600 hover:text-blue-500"
+                >
+                  {fulfillment.trackingNumber ? 'Edit tracking' : 'Add tracking'}
+                </button>
+              )}
+              {fulfillment.status === 'pending' && (
+                <button
+                  type="button"
+                  onClick={() => update(fulfillment, { status: 'shipped' })}
+                  disabled={busyId === fulfillment.id}
+                  className="text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+                >
+                  Mark shipped
+                </button>
+              )}
+              {fulfillment.status === 'shipped' && (
+                <button
+                  type="button"
+                  onClick={() => update(fulfillment, { status: 'delivered' })}
+                  disabled={busyId === fulfillment.id}
+                  className="text-green-600 hover:text-green-500 disabled:opacity-50"
+                >
+                  Mark delivered
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {order.fulfillments.some((fulfillment) => fulfillment.carrier && fulfillment.carrier !== 'other') && (
+        <button
+          type="button"
+          onClick={handlePrintLabel}
+          disabled={busyId === 'labels'}
+          className="text-sm font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+        >
+          {busyId === 'labels' ? 'Generating labels...' : 'Print shipping labels'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default OrderFulfillments;
@@ -0,0 +1,87 @@
+'use client';
+
+import React, { useState } from 'react';
+import { getErrorMessage } from '@/lib/apiClient';
+import orderService, { OrderNote } from '@/lib/orders';
+
+interface OrderNotesProps {
+  orderId: string;
+  notes: OrderNote[];
+  canAdd: boolean;
+  onAdded: (note: OrderNote) => void;
+}
+
+const MAX_NOTE_LENGTH = 2000;
+
+// Internal notes are only visible to staff
+const OrderNotes: React.FC<OrderNotesProps> = ({ orderId, notes, canAdd, onAdded }) => {
+  const [body, setBody] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      onAdded(await orderService.addNote(orderId, body.trim()));
+      setBody('');
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to add note'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      {notes.length === 0 ? (
+        <p className="text-sm text-gray-500">No notes yet.</p>
+      ) : (
+        <ul className="space-y-4">
+          {notes.map((note) => (
+            <li key={note.id} className="rounded-lg bg-gray-50 p-4">
+              <p className="text-sm text-gray-900 whitespace-pre-line">{note.body}</p>
+              <p className="mt-2 text-xs text-gray-500">
+                {note.author} · {new Date(note.createdAt).toLocaleString()}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canAdd && (
+        <form className="mt-6" onSubmit={handleSubmit}>
+          <label htmlFor="orderNote" className="sr-only">
+            Add a note
+          </label>
+          <textarea
+            id="orderNote"
+            rows={3}
+            value={body}
+            maxLength={MAX_NOTE_LENGTH}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Add a note for other staff"
+            className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+          <div className="mt-3 flex justify-end">
+            <button
+              type="submit"
+              disabled={isSubmitting || !body.trim()}
+              className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Adding...' : 'Add Note'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default OrderNotes;
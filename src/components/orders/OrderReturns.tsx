@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import CreateReturnForm from '@/components/returns/CreateReturnForm';
+import ReturnStatusBadge from '@/components/returns/ReturnStatusBadge';
+import { getErrorMessage } from '@/lib/apiClient';
+import { Order } from '@/lib/orders';
+import returnService, { ReturnRequest } from '@/lib/returns';
+
+interface OrderReturnsProps {
+  order: Order;
+  canEdit: boolean;
+}
+
+// Returns opened against the order; each links to its own page for processing
+const OrderReturns: React.FC<OrderReturnsProps> = ({ order, canEdit }) => {
+  const [returns, setReturns] = useState<ReturnRequest[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    returnService
+      .getOrderReturns(order.id)
+      .then((loaded) => {
+        if (!isCancelled) {
+          setReturns(loaded);
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setError(getErrorMessage(error, 'Failed to load returns'));
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [order.id]);
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (!returns) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {returns.length === 0 && !isCreating && <p className="text-sm text-gray-500">No returns for this order.</p>}
+
+      {returns.length > 0 && (
+        <ul className="divide-y divide-gray-200">
+          {returns.map((returnRequest) => (
+            <li key={returnRequest.id} className="flex items-center justify-between py-3 text-sm">
+              <div>
+                <Link href={`/returns/${returnRequest.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                  {returnRequest.number}
+                </Link>
+                <p className="text-xs text-gray-500">
+                  {returnRequest.items.reduce((total, item) => total + item.quantity, 0)} items ·{' '}
+                  {new Date(returnRequest.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+              <ReturnStatusBadge status={returnRequest.status} />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isCreating ? (
+        <CreateReturnForm
+          order={order}
+          onCreated={(created) => {
+            setReturns((prev) => [...(prev ?? []), created]);
+            setIsCreating(false);
+          }}
+          onCancel={() => setIsCreating(false)}
+        />
+      ) : (
+        canEdit &&
+        order.lineItems.some((item) => item.fulfilledQuantity > 0) && (
+          <button
+            type="button"
+            onClick={() => setIsCreating(true)}
+            className="text-sm font-medium text-blue-600 hover:text-blue-500"
+          >
+            Start a return
+          </button>
+        )
+      )}
+    </div>
+  );
+};
+
+export default OrderReturns;
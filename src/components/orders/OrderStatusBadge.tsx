@@ -0,0 +1,19 @@
+import React from 'react';
+import { ORDER_STATUS_LABELS, OrderStatus } from '@/lib/orders';
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  processing: 'bg-blue-100 text-blue-800',
+  partially_shipped: 'bg-purple-100 text-purple-800',
+  shipped: 'bg-indigo-100 text-indigo-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-700',
+};
+
+const OrderStatusBadge: React.FC<{ status: OrderStatus }> = ({ status }) => (
+  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+    {ORDER_STATUS_LABELS[status]}
+  </span>
+);
+
+export default OrderStatusBadge;
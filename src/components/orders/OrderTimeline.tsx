@@ -0,0 +1,32 @@
+import React from 'react';
+import OrderStatusBadge from '@/components/orders/OrderStatusBadge';
+import { OrderEvent } from '@/lib/orders';
+
+// Status history, newest first
+const OrderTimeline: React.FC<{ events: OrderEvent[] }> = ({ events }) => {
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No history recorded yet.</p>;
+  }
+
+  const sorted = [...events].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+      {sorted.map((event) => (
+        <li key={event.id} className="ml-6">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-white bg-blue-500"></span>
+          <div className="flex flex-wrap items-center gap-2">
+            <OrderStatusBadge status={event.status} />
+            <time className="text-xs text-gray-500" dateTime={event.createdAt}>
+              {new Date(event.createdAt).toLocaleString()}
+            </time>
+          </div>
+          <p className="mt-1 text-sm text-gray-900">{event.message}</p>
+          <p className="text-xs text-gray-500">{event.actor ?? 'System'}</p>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default OrderTimeline;
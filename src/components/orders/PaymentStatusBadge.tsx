@@ -0,0 +1,19 @@
+import React from 'react';
+import { PAYMENT_STATUS_LABELS, PaymentStatus } from '@/lib/orders';
+
+const STATUS_STYLES: Record<PaymentStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  authorized: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  partially_refunded: 'bg-orange-100 text-orange-800',
+  refunded: 'bg-gray-100 text-gray-700',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const PaymentStatusBadge: React.FC<{ status: PaymentStatus }> = ({ status }) => (
+  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+    {PAYMENT_STATUS_LABELS[status]}
+  </span>
+);
+
+export default PaymentStatusBadge;
@@ -0,0 +1,230 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ApiError } from '@/lib/apiClient';
+import { formatCurrency, toCents } from '@/lib/format';
+import orderService, { getRefundableQuantity, Order } from '@/lib/orders';
+
+interface RefundFormProps {
+  order: Order;
+  onRefunded: (order: Order) => void;
+  onCancel: () => void;
+}
+
+interface RefundLine {
+  quantity: string;
+  restock: boolean;
+}
+
+const AMOUNT_PATTERN = /^\d+(\.\d{1,2})?$/;
+
+// Refund selected units of each line item, plus optionally some of the shipping charge
+const RefundForm: React.FC<RefundFormProps> = ({ order, onRefunded, onCancel }) => {
+  const refundableItems = order.lineItems.filter((item) => getRefundableQuantity(item) > 0);
+
+  const [lines, setLines] = useState<Record<string, RefundLine>>(() =>
+    Object.fromEntries(refundableItems.map((item) => [item.id, { quantity: '0', restock: true }]))
+  );
+  const [shippingAmount, setShippingAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [notifyCustomer, setNotifyCustomer] = useState(true);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const updateLine = (lineItemId: string, changes: Partial<RefundLine>) => {
+    setLines((prev) => ({ ...prev, [lineItemId]: { ...prev[lineItemId], ...changes } }));
+  };
+
+  // Totals are worked out in whole cents so float drift (0.1 * 3 > 0.3) cannot block a full refund
+  const availableCents = toCents(order.total) - toCents(order.refundedTotal);
+  const itemsCents = refundableItems.reduce(
+    (total, item) => total + (Number(lines[item.id].quantity) || 0) * toCents(item.unitPrice),
+    0
+  );
+  const refundCents = itemsCents + toCents(Number(shippingAmount) || 0);
+  const available = availableCents / 100;
+  const refundAmount = refundCents / 100;
+
+  const validate = (): Record<string, string> => {
+    const nextErrors: Record<string, string> = {};
+
+    refundableItems.forEach((item) => {
+      const value = lines[item.id].quantity;
+      if (!/^\d+$/.test(value) || Number(value) > getRefundableQuantity(item)) {
+        nextErrors[item.id] = `Enter 0 to ${getRefundableQuantity(item)}`;
+      }
+    });
+
+    if (
+      shippingAmount &&
+      (!AMOUNT_PATTERN.test(shippingAmount) || toCents(Number(shippingAmount)) > toCents(order.shippingTotal))
+    ) {
+      nextErrors.shippingAmount = `Enter up to ${formatCurrency(order.shippingTotal)}`;
+    }
+    if (Object.keys(nextErrors).length === 0) {
+      if (refundCents <= 0) {
+        nextErrors.form = 'Select items or a shipping amount to refund.';
+      } else if (refundCents > availableCents) {
+        nextErrors.form = `Only ${formatCurrency(available)} is left to refund on this order.`;
+      }
+    }
+
+    return nextErrors;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const nextErrors = validate();
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const updated = await orderService.createRefund(order.id, {
+        items: refundableItems
+          .map((item) => ({
+            lineItemId: item.id,
+            quantity: Number(lines[item.id].quantity),
+            restock: lines[item.id].restock,
+          }))
+          .filter((item) => item.quantity > 0),
+        shippingAmount: Number(shippingAmount) || 0,
+        reason: reason.trim(),
+        notifyCustomer,
+      });
+      onRefunded(updated);
+    } catch (error) {
+      const apiError = ApiError.from(error, 'Failed to issue refund');
+      setErrors({ ...apiError.fieldErrors, form: apiError.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {errors.form && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm font-medium text-red-800">{errors.form}</p>
+        </div>
+      )}
+
+      {refundableItems.length > 0 && (
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <th className="py-3 pr-3">Item</th>
+              <th className="py-3 pr-3 text-right">Price</th>
+              <th className="py-3 pr-3 w-32">Refund qty</th>
+              <th className="py-3">Restock</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {refundableItems.map((item) => (
+              <tr key={item.id} className="text-sm align-top">
+                <td className="py-3 pr-3">
+                  <p className="font-medium text-gray-900">{item.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {getRefundableQuantity(item)} of {item.quantity} refundable
+                  </p>
+                </td>
+                <td className="py-3 pr-3 text-right text-gray-700">{formatCurrency(item.unitPrice)}</td>
+                <td className="py-3 pr-3">
+                  <input
+                    type="number"
+                    aria-label={`Quantity of ${item.title} to refund`}
+                    min={0}
+                    max={getRefundableQuantity(item)}
+                    value={lines[item.id].quantity}
+                    onChange={(e) => updateLine(item.id, { quantity: e.target.value })}
+                    className={`block w-full border rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                      errors[item.id] ? 'border-red-300' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors[item.id] && <p className="mt-1 text-xs text-red-600">{errors[item.id]}</p>}
+                </td>
+                <td className="py-3">
+                  <input
+                    type="checkbox"
+                    aria-label={`Restock ${item.title}`}
+                    checked={lines[item.id].restock}
+                    onChange={(e) => updateLine(item.id, { restock: e.target.checked })}
+                    className="mt-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="refundShipping" className="block text-sm font-medium text-gray-700 mb-1">
+            Shipping refund
+          </label>
+          <input
+            id="refundShipping"
+            type="text"
+            inputMode="decimal"
+            placeholder="0.00"
+            value={shippingAmount}
+            onChange={(e) => setShippingAmount(e.target.value)}
+            className={inputClassName}
+          />
+          {errors.shippingAmount && <p className="mt-1 text-sm text-red-600">{errors.shippingAmount}</p>}
+        </div>
+        <div>
+          <label htmlFor="refundReason" className="block text-sm font-medium text-gray-700 mb-1">
+            Reason (internal)
+          </label>
+          <input
+            id="refundReason"
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className={inputClassName}
+          />
+          {errors.reason && <p className="mt-1 text-sm text-red-600">{errors.reason}</p>}
+        </div>
+      </div>
+
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={notifyCustomer}
+          onChange={(e) => setNotifyCustomer(e.target.checked)}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+        />
+        Email the customer a refund confirmation
+      </label>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 border-t border-gray-200 pt-6">
+        <p className="text-sm text-gray-700">
+          Refund <span className="font-semibold text-gray-900">{formatCurrency(refundAmount)}</span> of{' '}
+          {formatCurrency(available)} available
+        </p>
+        <div className="flex items-center space-x-6">
+          <button type="button" onClick={onCancel} className="text-sm font-medium text-gray-600 hover:text-gray-500">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="inline-flex items-center px-8 py-3 border-2 border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-4 focus:ring-blue-500/20 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Refunding...' : `Refund ${formatCurrency(refundAmount)}`}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default RefundForm;
@@ -0,0 +1,73 @@
+'use client';
+
+import React from 'react';
+import { ColumnMapping, IMPORT_FIELD_LABELS, IMPORT_FIELDS, ImportField } from '@/lib/productImport';
+
+interface ImportColumnMapperProps {
+  headers: string[];
+  // The first data row, shown next to each mapped column
+  sampleRow: string[] | undefined;
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+}
+
+const FIELD_HINTS: Partial<Record<ImportField, string>> = {
+  sku: 'Matches rows to existing products',
+  status: 'Draft, Published or Archived; new products default to Draft',
+  categories: 'Names or paths like "Clothing > Shirts", separated by commas',
+  compareAtPrice: 'Leave blank to clear',
+};
+
+const ImportColumnMapper: React.FC<ImportColumnMapperProps> = ({ headers, sampleRow, mapping, onChange }) => {
+  const handleChange = (field: ImportField, value: string) => {
+    onChange({ ...mapping, [field]: value === '' ? null : Number(value) });
+  };
+
+  return (
+    <table className="min-w-full divide-y divide-gray-200">
+      <thead>
+        <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+          <th className="py-3">Product field</th>
+          <th className="py-3">Column in file</th>
+          <th className="py-3 pl-6">First row</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {IMPORT_FIELDS.map((field) => {
+          const column = mapping[field];
+
+          return (
+            <tr key={field} className="text-sm">
+              <td className="py-3 pr-4 align-top">
+                <label htmlFor={`mapping-${field}`} className="font-medium text-gray-900">
+                  {IMPORT_FIELD_LABELS[field]}
+                </label>
+                {FIELD_HINTS[field] && <p className="text-xs text-gray-500">{FIELD_HINTS[field]}</p>}
+              </td>
+              <td className="py-3 align-top">
+                <select
+                  id={`mapping-${field}`}
+                  value={column ?? ''}
+                  onChange={(e) => handleChange(field, e.target.value)}
+                  className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                >
+                  <option value="">Don&apos;t import</option>
+                  {headers.map((header, index) => (
+                    <option key={index} value={index}>
+                      {header || `Column ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </td>
+              <td className="py-3 pl-6 align-top text-gray-500">
+                <span className="block max-w-xs truncate">{column !== null ? sampleRow?.[column] || '—' : ''}</span>
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
+
+export default ImportColumnMapper;
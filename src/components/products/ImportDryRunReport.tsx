@@ -0,0 +1,76 @@
+'use client';
+
+import React from 'react';
+import { ImportRowCheck, ImportSummary } from '@/lib/productImport';
+
+// Only the first rows with problems are listed; the downloadable report has all of them
+const MAX_LISTED_ERRORS = 100;
+
+const SUMMARY_TILES: { key: keyof ImportSummary; label: string; className: string }[] = [
+  { key: 'create', label: 'New products', className: 'bg-green-50 text-green-800 border-green-200' },
+  { key: 'update', label: 'Updates', className: 'bg-blue-50 text-blue-800 border-blue-200' },
+  { key: 'skip', label: 'Skipped', className: 'bg-gray-50 text-gray-700 border-gray-200' },
+  { key: 'invalid', label: 'With errors', className: 'bg-red-50 text-red-800 border-red-200' },
+];
+
+interface ImportDryRunReportProps {
+  checks: ImportRowCheck[];
+  summary: ImportSummary;
+}
+
+const ImportDryRunReport: React.FC<ImportDryRunReportProps> = ({ checks, summary }) => {
+  const invalid = checks.filter((check) => check.errors.length > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+        {SUMMARY_TILES.map((tile) => (
+          <div key={tile.key} className={`rounded-lg border p-4 ${tile.className}`}>
+            <p className="text-2xl font-bold">{summary[tile.key]}</p>
+            <p className="text-sm">{tile.label}</p>
+          </div>
+        ))}
+      </div>
+
+      {invalid.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Rows with errors</h4>
+          <p className="text-sm text-gray-500 mb-4">
+            These rows will not be imported. Fix them in the file and upload it again, or import the valid rows now.
+          </p>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <th className="py-3">Row</th>
+                <th className="py-3">SKU</th>
+                <th className="py-3">Problems</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {invalid.slice(0, MAX_LISTED_ERRORS).map((check) => (
+                <tr key={check.rowNumber} className="text-sm align-top">
+                  <td className="py-3 text-gray-500">{check.rowNumber}</td>
+                  <td className="py-3 font-medium text-gray-900">{check.sku || '—'}</td>
+                  <td className="py-3 text-red-700">
+                    <ul className="list-disc pl-4 space-y-1">
+                      {check.errors.map((error) => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </ul>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {invalid.length > MAX_LISTED_ERRORS && (
+            <p className="mt-2 text-sm text-gray-500">
+              Showing the first {MAX_LISTED_ERRORS} of {invalid.length}. Download the error report to see them all.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportDryRunReport;
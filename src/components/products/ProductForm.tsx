@@ -0,0 +1,231 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useAuth } from '@/contexts/AuthContext';
+import { ApiError, getErrorMessage } from '@/lib/apiClient';
+import productService, {
+  Category,
+  EMPTY_PRODUCT_FORM,
+  Product,
+  PRODUCT_STATUS_LABELS,
+  PRODUCT_STATUSES,
+  ProductFormValues,
+  productFormSchema,
+  toProductFormValues,
+  toProductInput,
+} from '@/lib/products';
+
+interface ProductFormProps {
+  // Omitted when creating a new product
+  product?: Product;
+  onSaved: (product: Product) => void;
+}
+
+const ProductForm: React.FC<ProductFormProps> = ({ product, onSaved }) => {
+  const { can } = useAuth();
+  const canEdit = can('products:write');
+  const canEditPricing = canEdit && can('products:pricing');
+
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    setError: setFieldError,
+    formState: { errors, isSubmitting, isDirty },
+  } = useForm<ProductFormValues>({
+    resolver: zodResolver(productFormSchema),
+    defaultValues: product ? toProductFormValues(product) : EMPTY_PRODUCT_FORM,
+  });
+
+  useEffect(() => {
+    productService
+      .getCategories()
+      .then(setCategories)
+      .catch((error) => setError(getErrorMessage(error, 'Failed to load categories')));
+  }, []);
+
+  const onSubmit = async (values: ProductFormValues) => {
+    try {
+      setError(null);
+      setIsSaved(false);
+      const input = toProductInput(values);
+      const saved = product
+        ? await productService.updateProduct(product.id, input)
+        : await productService.createProduct(input);
+
+      reset(toProductFormValues(saved));
+      setIsSaved(true);
+      onSaved(saved);
+    } catch (error) {
+      const apiError = ApiError.from(error, product ? 'Failed to update product' : 'Failed to create product');
+      if (apiError.hasFieldErrors) {
+        Object.entries(apiError.fieldErrors).forEach(([field, message]) =>
+          setFieldError(field as keyof ProductFormValues, { message })
+        );
+      } else {
+        setError(apiError.message);
+      }
+    }
+  };
+
+  const inputClassName = (field: keyof ProductFormValues, isReadOnly = !canEdit) =>
+    `mt-1 block w-full border rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+      errors[field] ? 'border-red-300' : 'border-gray-300'
+    } ${isReadOnly ? 'bg-gray-50 text-gray-600' : ''}`;
+
+  return (
+    <form className="px-8 py-8" onSubmit={handleSubmit(onSubmit)} noValidate>
+      {error && (
+        <div className="mb-6 rounded-md bg-red-50 p-4">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+      {isSaved && !isDirty && (
+        <div className="mb-6 rounded-md bg-green-50 p-4">
+          <p className="text-sm font-medium text-green-800">Product saved.</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+        <div className="sm:col-span-2">
+          <label htmlFor="title" className="block text-sm font-medium text-gray-700">
+            Title
+          </label>
+          <input id="title" type="text" readOnly={!canEdit} {...register('title')} className={inputClassName('title')} />
+          {errors.title && <p className="mt-1 text-sm text-red-600">{errors.title.message}</p>}
+        </div>
+
+        <div className="sm:col-span-2">
+          <label htmlFor="description" className="block text-sm font-medium text-gray-700">
+            Description
+          </label>
+          <textarea
+            id="description"
+            rows={5}
+            readOnly={!canEdit}
+            {...register('description')}
+            className={inputClassName('description')}
+          />
+          {errors.description && <p className="mt-1 text-sm text-red-600">{errors.description.message}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="sku" className="block text-sm font-medium text-gray-700">
+            SKU
+          </label>
+          <input id="sku" type="text" readOnly={!canEdit} {...register('sku')} className={inputClassName('sku')} />
+          {errors.sku && <p className="mt-1 text-sm text-red-600">{errors.sku.message}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="status" className="block text-sm font-medium text-gray-700">
+            Status
+          </label>
+          <select id="status" disabled={!canEdit} {...register('status')} className={inputClassName('status')}>
+            {PRODUCT_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {PRODUCT_STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+          {errors.status && <p className="mt-1 text-sm text-red-600">{errors.status.message}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="price" className="block text-sm font-medium text-gray-700">
+            Price (USD)
+          </label>
+          <input
+            id="price"
+            type="text"
+            inputMode="decimal"
+            readOnly={!canEditPricing}
+            placeholder="0.00"
+            {...register('price')}
+            className={inputClassName('price', !canEditPricing)}
+          />
+          {errors.price && <p className="mt-1 text-sm text-red-600">{errors.price.message}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="compareAtPrice" className="block text-sm font-medium text-gray-700">
+            Compare-at Price (Optional)
+          </label>
+          <input
+            id="compareAtPrice"
+            type="text"
+            inputMode="decimal"
+            readOnly={!canEditPricing}
+            placeholder="0.00"
+            {...register('compareAtPrice')}
+            className={inputClassName('compareAtPrice', !canEditPricing)}
+          />
+          {errors.compareAtPrice ? (
+            <p className="mt-1 text-sm text-red-600">{errors.compareAtPrice.message}</p>
+          ) : (
+            <p className="mt-1 text-xs text-gray-500">Shown struck through next to the price</p>
+          )}
+        </div>
+
+        {canEdit && !canEditPricing && (
+          <p className="sm:col-span-2 text-sm text-gray-500">Your role cannot change pricing.</p>
+        )}
+
+        <div className="sm:col-span-2">
+          <span className="block text-sm font-medium text-gray-700">Categories</span>
+          <Controller
+            control={control}
+            name="categoryIds"
+            render={({ field }) =>
+              categories.length === 0 ? (
+                <p className="mt-2 text-sm text-gray-500">No categories available.</p>
+              ) : (
+                <div className="mt-2 grid grid-cols-2 gap-2 sm:grid-cols-3">
+                  {categories.map((category) => (
+                    <label key={category.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        disabled={!canEdit}
+                        checked={field.value.includes(category.id)}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.checked
+                              ? [...field.value, category.id]
+                              : field.value.filter((categoryId) => categoryId !== category.id)
+                          )
+                        }
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      <span>{category.name}</span>
+                    </label>
+                  ))}
+                </div>
+              )
+            }
+          />
+        </div>
+      </div>
+
+      {canEdit && (
+        <div className="mt-8 flex justify-end">
+          <button
+            type="submit"
+            disabled={isSubmitting || (!!product && !isDirty)}
+            className="inline-flex items-center px-8 py-3 border-2 border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-4 focus:ring-blue-500/20 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Saving...' : product ? 'Save Changes' : 'Create Product'}
+          </button>
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default ProductForm;
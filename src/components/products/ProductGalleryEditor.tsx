@@ -0,0 +1,279 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import MediaUploader from '@/components/media/MediaUploader';
+import { getErrorMessage } from '@/lib/apiClient';
+import mediaService, { MAX_GALLERY_IMAGES, MediaAsset, ProductGallery } from '@/lib/media';
+
+interface ProductGalleryEditorProps {
+  productId: string;
+  readOnly: boolean;
+}
+
+const MAX_ALT_LENGTH = 250;
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+// Gallery card for the product page: upload, reorder, choose the primary image and edit alt text
+const ProductGalleryEditor: React.FC<ProductGalleryEditorProps> = ({ productId, readOnly }) => {
+  const [gallery, setGallery] = useState<ProductGallery | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    mediaService
+      .getProductGallery(productId)
+      .then((loaded) => {
+        if (!isCancelled) {
+          setGallery(loaded);
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setLoadError(getErrorMessage(error, 'Failed to load images'));
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [productId]);
+
+  const updateGallery = (update: (current: ProductGallery) => ProductGallery) => {
+    setGallery((current) => (current ? update(current) : current));
+    setIsDirty(true);
+    setIsSaved(false);
+  };
+
+  const handleUploaded = (asset: MediaAsset) => {
+    updateGallery((current) => ({
+      images: [...current.images, asset],
+      primaryImageId: current.primaryImageId ?? asset.id,
+    }));
+  };
+
+  const handleMove = (from: number, to: number) => {
+    updateGallery((current) => ({ ...current, images: moveItem(current.images, from, to) }));
+  };
+
+  const handleRemove = (imageId: string) => {
+    updateGallery((current) => {
+      const images = current.images.filter((image) => image.id !== imageId);
+      // Fall back to the next image in order so the product keeps a thumbnail
+      const primaryImageId = current.primaryImageId === imageId ? (images[0]?.id ?? null) : current.primaryImageId;
+      return { images, primaryImageId };
+    });
+  };
+
+  const handleAltChange = (imageId: string, alt: string) => {
+    updateGallery((current) => ({
+      ...current,
+      images: current.images.map((image) => (image.id === imageId ? { ...image, alt } : image)),
+    }));
+  };
+
+  // Images move as the pointer passes over them, so the drop itself has nothing left to do
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null && dragIndex !== index) {
+      handleMove(dragIndex, index);
+      setDragIndex(index);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!gallery) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const saved = await mediaService.saveProductGallery(productId, {
+        images: gallery.images.map((image) => ({ id: image.id, alt: image.alt.trim() })),
+        primaryImageId: gallery.primaryImageId,
+      });
+      setGallery(saved);
+      setIsDirty(false);
+      setIsSaved(true);
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to save images'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const missingAltCount = gallery?.images.filter((image) => !image.alt.trim()).length ?? 0;
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+      <div className="px-8 py-8">
+        <div className="mb-6 flex items-start justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Images</h2>
+            <p className="text-gray-600">
+              Drag to reorder. The primary image is used as the product thumbnail.
+            </p>
+          </div>
+          {isDirty && <span className="text-sm font-medium text-yellow-700">Unsaved changes</span>}
+        </div>
+
+        {loadError ? (
+          <div className="rounded-md bg-red-50 p-4">
+            <p className="text-sm font-medium text-red-800">{loadError}</p>
+          </div>
+        ) : !gallery ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <>
+            {error && (
+              <div className="mb-6 rounded-md bg-red-50 p-4">
+                <p className="text-sm font-medium text-red-800">{error}</p>
+              </div>
+            )}
+            {isSaved && (
+              <div className="mb-6 rounded-md bg-green-50 p-4">
+                <p className="text-sm font-medium text-green-800">Images saved.</p>
+              </div>
+            )}
+
+            {gallery.images.length === 0 ? (
+              <p className="mb-6 text-sm text-gray-500">This product has no images yet.</p>
+            ) : (
+              <ul className="mb-6 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                {gallery.images.map((image, index) => {
+                  const isPrimary = image.id === gallery.primaryImageId;
+                  return (
+                    <li
+                      key={image.id}
+                      draggable={!readOnly}
+                      onDragStart={() => setDragIndex(index)}
+                      onDragOver={(e) => handleDragOver(e, index)}
+                      onDrop={(e) => e.preventDefault()}
+                      onDragEnd={() => setDragIndex(null)}
+                      className={`rounded-xl border bg-white p-3 ${
+                        isPrimary ? 'border-blue-500 ring-2 ring-blue-500/20' : 'border-gray-200'
+                      } ${dragIndex === index ? 'opacity-50' : ''} ${readOnly ? '' : 'cursor-move'}`}
+                    >
+                      <div className="relative">
+                        <img
+                          src={image.url}
+                          alt={image.alt}
+                          className="h-40 w-full rounded-lg object-cover bg-gray-100"
+                        />
+                        {isPrimary && (
+                          <span className="absolute left-2 top-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-600 text-white">
+                            Primary
+                          </span>
+                        )}
+                      </div>
+
+                      <label htmlFor={`alt-${image.id}`} className="mt-3 block text-xs font-medium text-gray-700">
+                        Alt text
+                      </label>
+                      <input
+                        id={`alt-${image.id}`}
+                        type="text"
+                        value={image.alt}
+                        maxLength={MAX_ALT_LENGTH}
+                        readOnly={readOnly}
+                        placeholder="Describe the image"
+                        onChange={(e) => handleAltChange(image.id, e.target.value)}
+                        className={`mt-1 block w-full border rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                          image.alt.trim() ? 'border-gray-300' : 'border-yellow-300'
+                        } ${readOnly ? 'bg-gray-50 text-gray-600' : ''}`}
+                      />
+
+                      {!readOnly && (
+                        <div className="mt-3 flex items-center justify-between text-sm font-medium">
+                          <div className="flex items-center space-x-3">
+                            {/* Buttons keep reordering usable without a pointer */}
+                            <button
+                              type="button"
+                              onClick={() => handleMove(index, index - 1)}
+                              disabled={index === 0}
+                              aria-label={`Move image ${index + 1} earlier`}
+                              className="text-gray-600 hover:text-gray-500 disabled:opacity-30 disabled:cursor-not-allowed"
+                            >
+                              &larr;
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleMove(index, index + 1)}
+                              disabled={index === gallery.images.length - 1}
+                              aria-label={`Move image ${index + 1} later`}
+                              className="text-gray-600 hover:text-gray-500 disabled:opacity-30 disabled:cursor-not-allowed"
+                            >
+                              &rarr;
+                            </button>
+                            {!isPrimary && (
+                              <button
+                                type="button"
+                                onClick={() => updateGallery((current) => ({ ...current, primaryImageId: image.id }))}
+                                className="text-blue-600 hover:text-blue-500"
+                              >
+                                Make primary
+                              </button>
+                            )}
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => handleRemove(image.id)}
+                            className="text-red-600 hover:text-red-500"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            {missingAltCount > 0 && (
+              <p className="mb-6 text-sm text-yellow-700">
+                {missingAltCount} image{missingAltCount === 1 ? ' is' : 's are'} missing alt text. Alt text is read
+                by screen readers and used by search engines.
+              </p>
+            )}
+
+            {!readOnly && (
+              <>
+                <MediaUploader
+                  onUploaded={handleUploaded}
+                  maxFiles={MAX_GALLERY_IMAGES - gallery.images.length}
+                />
+                <div className="mt-8 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={isSaving || !isDirty}
+                    className="inline-flex items-center px-8 py-3 border-2 border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-4 focus:ring-blue-500/20 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSaving ? 'Saving...' : 'Save Images'}
+                  </button>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProductGalleryEditor;
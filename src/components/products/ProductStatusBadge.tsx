@@ -0,0 +1,16 @@
+import React from 'react';
+import { PRODUCT_STATUS_LABELS, ProductStatus } from '@/lib/products';
+
+const STATUS_STYLES: Record<ProductStatus, string> = {
+  draft: 'bg-yellow-100 text-yellow-800',
+  published: 'bg-green-100 text-green-800',
+  archived: 'bg-gray-100 text-gray-700',
+};
+
+const ProductStatusBadge: React.FC<{ status: ProductStatus }> = ({ status }) => (
+  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+    {PRODUCT_STATUS_LABELS[status]}
+  </span>
+);
+
+export default ProductStatusBadge;
@@ -0,0 +1,180 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { getVariantTitle, ProductOption, VariantField, VariantRow } from '@/lib/variants';
+
+interface VariantMatrixTableProps {
+  options: ProductOption[];
+  rows: VariantRow[];
+  errors: Record<number, Partial<Record<VariantField, string>>>;
+  readOnly: boolean;
+  canEditPricing: boolean;
+  onChangeRows: (rows: VariantRow[]) => void;
+}
+
+const COLUMNS: { field: VariantField; label: string; placeholder?: string; inputMode?: 'decimal' | 'numeric' }[] = [
+  { field: 'sku', label: 'SKU' },
+  { field: 'price', label: 'Price', placeholder: 'Product price', inputMode: 'decimal' },
+  { field: 'barcode', label: 'Barcode', inputMode: 'numeric' },
+  { field: 'weight', label: 'Weight (g)', inputMode: 'decimal' },
+  { field: 'stock', label: 'Stock', inputMode: 'numeric' },
+];
+
+// SKUs and barcodes identify a single variant, so only these columns can be bulk edited
+const BULK_FIELDS: VariantField[] = ['price', 'weight', 'stock'];
+
+const VariantMatrixTable: React.FC<VariantMatrixTableProps> = ({
+  options,
+  rows,
+  errors,
+  readOnly,
+  canEditPricing,
+  onChangeRows,
+}) => {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [bulkField, setBulkField] = useState<VariantField>('price');
+  const [bulkValue, setBulkValue] = useState('');
+
+  // Row indexes change when the matrix is regenerated
+  useEffect(() => {
+    setSelected(new Set());
+  }, [options]);
+
+  const isFieldReadOnly = (field: VariantField) => readOnly || (field === 'price' && !canEditPricing);
+  const bulkFields = BULK_FIELDS.filter((field) => !isFieldReadOnly(field));
+
+  const handleCellChange = (index: number, field: VariantField, value: string) => {
+    onChangeRows(rows.map((row, rowIndex) => (rowIndex === index ? { ...row, [field]: value } : row)));
+  };
+
+  const toggleRow = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected((prev) => (prev.size === rows.length ? new Set() : new Set(rows.map((_, index) => index))));
+  };
+
+  // Applies to the selected rows, or to every row when nothing is selected
+  const handleBulkApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChangeRows(
+      rows.map((row, index) => (selected.size === 0 || selected.has(index) ? { ...row, [bulkField]: bulkValue.trim() } : row))
+    );
+    setBulkValue('');
+  };
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500">Add option values to generate variants.</p>;
+  }
+
+  return (
+    <div>
+      {!readOnly && bulkFields.length > 0 && (
+        <form className="mb-4 flex flex-wrap items-center gap-3 rounded-xl bg-gray-50 p-4" onSubmit={handleBulkApply}>
+          <span className="text-sm font-medium text-gray-700">Set</span>
+          <select
+            aria-label="Column to bulk edit"
+            value={bulkField}
+            onChange={(e) => setBulkField(e.target.value as VariantField)}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {bulkFields.map((field) => (
+              <option key={field} value={field}>
+                {COLUMNS.find((column) => column.field === field)?.label}
+              </option>
+            ))}
+          </select>
+          <span className="text-sm text-gray-700">to</span>
+          <input
+            type="text"
+            aria-label="Bulk value"
+            value={bulkValue}
+            onChange={(e) => setBulkValue(e.target.value)}
+            className="w-32 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700"
+          >
+            {selected.size > 0 ? `Apply to ${selected.size} selected` : `Apply to all ${rows.length}`}
+          </button>
+        </form>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {!readOnly && (
+                <th className="py-3 pr-3 w-8">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all variants"
+                    checked={selected.size === rows.length}
+                    onChange={toggleAll}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                </th>
+              )}
+              <th className="py-3 pr-3">Variant</th>
+              {COLUMNS.map((column) => (
+                <th key={column.field} className="py-3 pr-3">
+                  {column.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {rows.map((row, index) => (
+              <tr key={row.id ?? JSON.stringify(row.optionValues)} className="text-sm align-top">
+                {!readOnly && (
+                  <td className="py-3 pr-3">
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${getVariantTitle(row.optionValues, options)}`}
+                      checked={selected.has(index)}
+                      onChange={() => toggleRow(index)}
+                      className="mt-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                  </td>
+                )}
+                <td className="py-3 pr-3 font-medium text-gray-900 whitespace-nowrap">
+                  <span className="leading-9">{getVariantTitle(row.optionValues, options)}</span>
+                  {!row.id && <span className="ml-2 text-xs text-green-600">new</span>}
+                </td>
+                {COLUMNS.map(({ field, placeholder, inputMode }) => (
+                  <td key={field} className="py-3 pr-3">
+                    <input
+                      type="text"
+                      aria-label={`${field} for ${getVariantTitle(row.optionValues, options)}`}
+                      value={row[field]}
+                      placeholder={placeholder}
+                      inputMode={inputMode}
+                      readOnly={isFieldReadOnly(field)}
+                      onChange={(e) => handleCellChange(index, field, e.target.value)}
+                      className={`block w-full min-w-24 border rounded-md px-2 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                        errors[index]?.[field] ? 'border-red-300' : 'border-gray-300'
+                      } ${isFieldReadOnly(field) ? 'bg-gray-50 text-gray-600' : ''}`}
+                    />
+                    {errors[index]?.[field] && <p className="mt-1 text-xs text-red-600">{errors[index][field]}</p>}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default VariantMatrixTable;
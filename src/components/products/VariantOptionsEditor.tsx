@@ -0,0 +1,161 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ProductOption } from '@/lib/variants';
+
+interface VariantOptionsEditorProps {
+  options: ProductOption[];
+  readOnly: boolean;
+  onAddOption: (name: string) => void;
+  onRenameOption: (index: number, name: string) => void;
+  onRemoveOption: (index: number) => void;
+  onAddValue: (index: number, value: string) => void;
+  onRemoveValue: (index: number, value: string) => void;
+}
+
+// Edits option names (Size, Color) and their values; the page regenerates the variant matrix
+const VariantOptionsEditor: React.FC<VariantOptionsEditorProps> = ({
+  options,
+  readOnly,
+  onAddOption,
+  onRenameOption,
+  onRemoveOption,
+  onAddValue,
+  onRemoveValue,
+}) => {
+  const [newOptionName, setNewOptionName] = useState('');
+  const [newValues, setNewValues] = useState<Record<number, string>>({});
+  const [nameDrafts, setNameDrafts] = useState<Record<number, string>>({});
+
+  // Names are committed on blur so a half-typed name never reshapes the variant matrix.
+  // The draft is dropped either way, so a rejected name reverts to the current one.
+  const commitName = (index: number) => {
+    const draft = nameDrafts[index];
+    if (draft !== undefined && draft.trim() !== options[index].name) {
+      onRenameOption(index, draft.trim());
+    }
+    setNameDrafts((prev) => {
+      const next = { ...prev };
+      delete next[index];
+      return next;
+    });
+  };
+
+  const handleAddOption = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newOptionName.trim()) {
+      onAddOption(newOptionName.trim());
+      setNewOptionName('');
+    }
+  };
+
+  const handleAddValue = (index: number) => {
+    const value = newValues[index]?.trim();
+    if (value) {
+      onAddValue(index, value);
+      setNewValues((prev) => ({ ...prev, [index]: '' }));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {options.length === 0 && (
+        <p className="text-sm text-gray-500">
+          This product has no options. Add one such as Size or Color to create variants.
+        </p>
+      )}
+
+      {options.map((option, index) => (
+        <div key={index} className="rounded-xl border border-gray-200 p-4">
+          <div className="flex items-center justify-between gap-4">
+            <input
+              type="text"
+              aria-label="Option name"
+              value={nameDrafts[index] ?? option.name}
+              readOnly={readOnly}
+              onChange={(e) => setNameDrafts((prev) => ({ ...prev, [index]: e.target.value }))}
+              onBlur={() => commitName(index)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  e.currentTarget.blur();
+                }
+              }}
+              className="block w-48 border border-gray-300 rounded-md px-3 py-2 text-sm font-medium focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            {!readOnly && (
+              <button
+                type="button"
+                onClick={() => onRemoveOption(index)}
+                className="text-sm font-medium text-red-600 hover:text-red-500"
+              >
+                Remove option
+              </button>
+            )}
+          </div>
+
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            {option.values.map((value) => (
+              <span
+                key={value}
+                className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-50 text-blue-700 border border-blue-200"
+              >
+                {value}
+                {!readOnly && (
+                  <button
+                    type="button"
+                    onClick={() => onRemoveValue(index, value)}
+                    className="ml-2 text-blue-400 hover:text-red-600"
+                    aria-label={`Remove ${value}`}
+                  >
+                    &times;
+                  </button>
+                )}
+              </span>
+            ))}
+
+            {!readOnly && (
+              <input
+                type="text"
+                aria-label={`Add a value to ${option.name || 'this option'}`}
+                placeholder="Add value and press Enter"
+                value={newValues[index] || ''}
+                onChange={(e) => setNewValues((prev) => ({ ...prev, [index]: e.target.value }))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ',') {
+                    e.preventDefault();
+                    handleAddValue(index);
+                  }
+                }}
+                onBlur={() => handleAddValue(index)}
+                className="w-48 border border-gray-300 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            )}
+          </div>
+        </div>
+      ))}
+
+      {!readOnly && (
+        <form className="flex items-center gap-3" onSubmit={handleAddOption}>
+          <input
+            type="text"
+            aria-label="New option name"
+            placeholder="Option name, e.g. Size"
+            value={newOptionName}
+            onChange={(e) => setNewOptionName(e.target.value)}
+            className="w-64 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!newOptionName.trim()}
+            className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add Option
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default VariantOptionsEditor;
@@ -0,0 +1,177 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import PasswordStrengthMeter from '@/components/auth/PasswordStrengthMeter';
+import authService from '@/lib/auth';
+import { ApiError, getErrorMessage } from '@/lib/apiClient';
+import { validatePassword } from '@/lib/passwordPolicy';
+
+const EMPTY_FORM = {
+  currentPassword: '',
+  newPassword: '',
+  confirmPassword: '',
+};
+
+const ChangePasswordForm: React.FC = () => {
+  const { user } = useAuth();
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.currentPassword) {
+      newErrors.currentPassword = 'Current password is required';
+    }
+
+    const passwordError = validatePassword(formData.newPassword, { email: user?.email });
+    if (passwordError) {
+      newErrors.newPassword = passwordError;
+    } else if (formData.newPassword === formData.currentPassword) {
+      newErrors.newPassword = 'New password must be different from your current password';
+    }
+
+    if (!formData.confirmPassword) {
+      newErrors.confirmPassword = 'Please confirm your new password';
+    } else if (formData.newPassword !== formData.confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    setIsSaved(false);
+
+    if (errors[name]) {
+      setErrors((prev) => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await authService.changePassword(formData.currentPassword, formData.newPassword);
+      setFormData(EMPTY_FORM);
+      setIsSaved(true);
+    } catch (error) {
+      if (error instanceof ApiError && error.hasFieldErrors) {
+        setErrors(error.fieldErrors);
+      } else {
+        setError(getErrorMessage(error, 'Failed to change password'));
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = (field: string) =>
+    `mt-1 block w-full border rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+      errors[field] ? 'border-red-300' : 'border-gray-300'
+    }`;
+
+  return (
+    <div className="mt-8 bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+      <form className="px-8 py-8" onSubmit={handleSubmit}>
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Change Password</h2>
+          <p className="text-gray-600">Update the password you use to sign in</p>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-md bg-red-50 p-4">
+            <p className="text-sm font-medium text-red-800">{error}</p>
+          </div>
+        )}
+        {isSaved && (
+          <div className="mb-6 rounded-md bg-green-50 p-4">
+            <p className="text-sm font-medium text-green-800">Your password has been changed.</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+          <div className="sm:col-span-2 sm:max-w-md">
+            <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700">
+              Current Password
+            </label>
+            <input
+              type="password"
+              name="currentPassword"
+              id="currentPassword"
+              autoComplete="current-password"
+              value={formData.currentPassword}
+              onChange={handleInputChange}
+              className={inputClassName('currentPassword')}
+            />
+            {errors.currentPassword && (
+              <p className="mt-1 text-sm text-red-600">{errors.currentPassword}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700">
+              New Password
+            </label>
+            <input
+              type="password"
+              name="newPassword"
+              id="newPassword"
+              autoComplete="new-password"
+              value={formData.newPassword}
+              onChange={handleInputChange}
+              className={inputClassName('newPassword')}
+            />
+            {errors.newPassword && (
+              <p className="mt-1 text-sm text-red-600">{errors.newPassword}</p>
+            )}
+            <PasswordStrengthMeter password={formData.newPassword} email={user?.email} />
+          </div>
+
+          <div>
+            <label htmlFor="confirmNewPassword" className="block text-sm font-medium text-gray-700">
+              Confirm New Password
+            </label>
+            <input
+              type="password"
+              name="confirmPassword"
+              id="confirmNewPassword"
+              autoComplete="new-password"
+              value={formData.confirmPassword}
+              onChange={handleInputChange}
+              className={inputClassName('confirmPassword')}
+            />
+            {errors.confirmPassword && (
+              <p className="mt-1 text-sm text-red-600">{errors.confirmPassword}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-8 flex justify-end">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="inline-flex items-center px-8 py-3 border-2 border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-4 focus:ring-blue-500/20 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Updating...' : 'Update Password'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ChangePasswordForm;
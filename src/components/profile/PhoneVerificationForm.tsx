@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getErrorMessage } from '@/lib/apiClient';
+import authService from '@/lib/auth';
+
+const RESEND_COOLDOWN_SECONDS = 60;
+
+interface PhoneVerificationFormProps {
+  onClose: () => void;
+}
+
+const PhoneVerificationForm: React.FC<PhoneVerificationFormProps> = ({ onClose }) => {
+  const { user, refreshUser } = useAuth();
+  const [isCodeSent, setIsCodeSent] = useState(false);
+  const [code, setCode] = useState('');
+  const [cooldown, setCooldown] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (cooldown <= 0) {
+      return;
+    }
+    const timer = setTimeout(() => setCooldown(cooldown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const handleSendCode = async () => {
+    try {
+      setIsWorking(true);
+      setError(null);
+      await authService.sendPhoneVerificationCode();
+      setIsCodeSent(true);
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to send verification code'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsWorking(true);
+      setError(null);
+      await authService.verifyPhone(code);
+      await refreshUser();
+      onClose();
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to verify phone number'));
+      setCode('');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 p-4 rounded-xl border border-blue-200 bg-blue-50/50 space-y-3">
+      {!isCodeSent ? (
+        <>
+          <p className="text-sm text-gray-700">
+            We&apos;ll text a 6-digit code to <strong>{user?.phone}</strong>.
+          </p>
+          <div className="flex items-center space-x-3">
+            <button
+              type="button"
+              onClick={handleSendCode}
+              disabled={isWorking}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isWorking ? 'Sending...' : 'Send Code'}
+            </button>
+            <button type="button" onClick={onClose} className="text-sm font-medium text-gray-600 hover:text-gray-500">
+              Cancel
+            </button>
+          </div>
+        </>
+      ) : (
+        <form onSubmit={handleVerify} className="space-y-3">
+          <label htmlFor="phoneCode" className="block text-sm text-gray-700">
+            Enter the code sent to <strong>{user?.phone}</strong>
+          </label>
+          <div className="flex items-center space-x-3">
+            <input
+              id="phoneCode"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              autoFocus
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              className="w-32 border border-gray-300 rounded-md px-3 py-2 text-center font-mono tracking-widest focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              placeholder="000000"
+            />
+            <button
+              type="submit"
+              disabled={isWorking || code.length !== 6}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+            >
+              {isWorking ? 'Verifying...' : 'Verify'}
+            </button>
+            <button type="button" onClick={onClose} className="text-sm font-medium text-gray-600 hover:text-gray-500">
+              Cancel
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={handleSendCode}
+            disabled={isWorking || cooldown > 0}
+            className="text-sm font-medium text-blue-600 hover:text-blue-500 disabled:text-gray-400"
+          >
+            {cooldown > 0 ? `Resend code in ${cooldown}s` : 'Resend code'}
+          </button>
+        </form>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default PhoneVerificationForm;
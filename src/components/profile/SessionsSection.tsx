@@ -0,0 +1,160 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getErrorMessage } from '@/lib/apiClient';
+import authService, { AdminSession } from '@/lib/auth';
+
+const describeDevice = (session: AdminSession) => {
+  const browser = [session.browser, session.os && `on ${session.os}`].filter(Boolean).join(' ');
+  return session.device ? `${session.device}${browser ? ` · ${browser}` : ''}` : browser || 'Unknown device';
+};
+
+const SessionsSection: React.FC = () => {
+  const { logout } = useAuth();
+  const [sessions, setSessions] = useState<AdminSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [isRevokingOthers, setIsRevokingOthers] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setError(null);
+      const data = await authService.getSessions();
+      // Current device first, then most recently active
+      setSessions(
+        [...data].sort((a, b) =>
+          Number(b.isCurrent) - Number(a.isCurrent) ||
+          new Date(b.lastActiveAt).getTime() - new Date(a.lastActiveAt).getTime()
+        )
+      );
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to load sessions'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (sessionId: string) => {
+    try {
+      setRevokingId(sessionId);
+      setError(null);
+      await authService.revokeSession(sessionId);
+      setSessions((prev) => prev.filter((session) => session.id !== sessionId));
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to revoke session'));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!window.confirm('Sign out of all other devices?')) {
+      return;
+    }
+
+    try {
+      setIsRevokingOthers(true);
+      setError(null);
+      await authService.revokeOtherSessions();
+      setSessions((prev) => prev.filter((session) => session.isCurrent));
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to revoke sessions'));
+    } finally {
+      setIsRevokingOthers(false);
+    }
+  };
+
+  const handleLogoutEverywhere = async () => {
+    if (!window.confirm('Sign out of every device, including this one?')) {
+      return;
+    }
+    await logout({ everywhere: true });
+  };
+
+  const hasOtherSessions = sessions.some((session) => !session.isCurrent);
+
+  return (
+    <div className="mt-8 bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+      <div className="px-8 py-8">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Sessions</h2>
+            <p className="text-gray-600">Devices where your admin account is signed in</p>
+          </div>
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={handleRevokeOthers}
+              disabled={!hasOtherSessions || isRevokingOthers}
+              className="inline-flex items-center px-4 py-2 border-2 border-gray-300 text-sm font-semibold rounded-xl text-gray-700 bg-white hover:bg-gray-50 hover:border-gray-400 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isRevokingOthers ? 'Signing out...' : 'Sign out other sessions'}
+            </button>
+            <button
+              type="button"
+              onClick={handleLogoutEverywhere}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700"
+            >
+              Log out everywhere
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-md bg-red-50 p-4">
+            <p className="text-sm font-medium text-red-800">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {sessions.map((session) => (
+              <li key={session.id} className="py-4 flex items-center justify-between">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <p className="text-sm font-semibold text-gray-900">{describeDevice(session)}</p>
+                    {session.isCurrent && (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        This device
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {session.ipAddress}
+                    {session.location && ` · ${session.location}`}
+                    {' · '}Last active {new Date(session.lastActiveAt).toLocaleString()}
+                  </p>
+                </div>
+                {!session.isCurrent && (
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(session.id)}
+                    disabled={revokingId === session.id}
+                    className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                  >
+                    {revokingId === session.id ? 'Revoking...' : 'Revoke'}
+                  </button>
+                )}
+              </li>
+            ))}
+            {sessions.length === 0 && !error && (
+              <li className="py-4 text-sm text-gray-500">No active sessions found.</li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionsSection;
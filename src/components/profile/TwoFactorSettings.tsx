@@ -0,0 +1,279 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getErrorMessage } from '@/lib/apiClient';
+import authService, { TwoFactorSetup } from '@/lib/auth';
+
+type Step = 'idle' | 'setup' | 'recovery_codes' | 'disable' | 'regenerate';
+
+const TwoFactorSettings: React.FC = () => {
+  const { user, refreshUser } = useAuth();
+  const [step, setStep] = useState<Step>('idle');
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const isEnabled = !!user?.isTwoFactorEnabled;
+
+  const reset = () => {
+    setStep('idle');
+    setSetup(null);
+    setCode('');
+    setPassword('');
+    setError(null);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setIsWorking(true);
+      setError(null);
+      await action();
+    } catch (error) {
+      setError(getErrorMessage(error, 'Something went wrong'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleStartSetup = () =>
+    run(async () => {
+      const data = await authService.setupTwoFactor();
+      setSetup(data);
+      setStep('setup');
+    });
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const codes = await authService.enableTwoFactor(code);
+      setRecoveryCodes(codes);
+      setCode('');
+      setSetup(null);
+      setStep('recovery_codes');
+    });
+  };
+
+  const handleRegenerate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const codes = await authService.regenerateRecoveryCodes(code);
+      setRecoveryCodes(codes);
+      setCode('');
+      setStep('recovery_codes');
+    });
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await authService.disableTwoFactor(password);
+      await refreshUser();
+      reset();
+    });
+  };
+
+  const handleRecoveryCodesSaved = () =>
+    run(async () => {
+      setRecoveryCodes([]);
+      await refreshUser();
+      reset();
+    });
+
+  const handleDownloadCodes = () => {
+    const blob = new Blob([recoveryCodes.join('\n')], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'admin-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      maxLength={6}
+      value={code}
+      onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+      className="w-40 px-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500/20 focus:border-blue-500 text-center font-mono tracking-widest"
+      placeholder="000000"
+    />
+  );
+
+  return (
+    <div className="mt-8 bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl border border-gray-200/50 overflow-hidden">
+      <div className="px-8 py-8">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Two-Factor Authentication</h2>
+            <p className="text-gray-600">Require a code from an authenticator app when signing in</p>
+          </div>
+          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+            isEnabled ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+          }`}>
+            {isEnabled ? 'Enabled' : 'Disabled'}
+          </span>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-md bg-red-50 p-4">
+            <p className="text-sm font-medium text-red-800">{error}</p>
+          </div>
+        )}
+
+        {step === 'idle' && (
+          <div className="flex space-x-4">
+            {isEnabled ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => setStep('regenerate')}
+                  className="inline-flex items-center px-6 py-3 border-2 border-gray-300 text-sm font-semibold rounded-xl text-gray-700 bg-white hover:bg-gray-50 hover:border-gray-400 transition-all duration-200"
+                >
+                  Regenerate Recovery Codes
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setStep('disable')}
+                  className="inline-flex items-center px-6 py-3 border-2 border-red-200 text-sm font-semibold rounded-xl text-red-700 bg-white hover:bg-red-50 transition-all duration-200"
+                >
+                  Disable
+                </button>
+              </>
+            ) : (
+              <button
+                type="button"
+                onClick={handleStartSetup}
+                disabled={isWorking}
+                className="inline-flex items-center px-6 py-3 border border-transparent text-sm font-medium rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isWorking ? 'Starting...' : 'Enable Two-Factor Authentication'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {step === 'setup' && setup && (
+          <form onSubmit={handleEnable} className="space-y-6">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-8 space-y-4 sm:space-y-0">
+              <img src={setup.qrCode} alt="Authenticator QR code" className="h-44 w-44 rounded-xl border border-gray-200" />
+              <div className="space-y-2">
+                <p className="text-sm text-gray-700">
+                  1. Scan the QR code with Google Authenticator, 1Password or a similar app.
+                </p>
+                <p className="text-sm text-gray-700">Can&apos;t scan it? Enter this key manually:</p>
+                <code className="block p-2 bg-gray-100 rounded-md text-sm font-mono break-all">{setup.secret}</code>
+                <p className="text-sm text-gray-700">2. Enter the 6-digit code the app shows.</p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-4">
+              {codeInput}
+              <button
+                type="submit"
+                disabled={isWorking || code.length !== 6}
+                className="inline-flex items-center px-6 py-3 border border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isWorking ? 'Verifying...' : 'Verify & Enable'}
+              </button>
+              <button type="button" onClick={reset} className="text-sm font-medium text-gray-600 hover:text-gray-500">
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {step === 'recovery_codes' && (
+          <div className="space-y-6">
+            <div className="rounded-md bg-yellow-50 p-4">
+              <p className="text-sm text-yellow-800">
+                Save these recovery codes somewhere safe. Each code can be used once to sign in if you lose
+                access to your authenticator app. They will not be shown again.
+              </p>
+            </div>
+            <ul className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode} className="p-2 bg-gray-100 rounded-md text-sm font-mono text-center">
+                  {recoveryCode}
+                </li>
+              ))}
+            </ul>
+            <div className="flex space-x-4">
+              <button
+                type="button"
+                onClick={handleDownloadCodes}
+                className="inline-flex items-center px-6 py-3 border-2 border-gray-300 text-sm font-semibold rounded-xl text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Download
+              </button>
+              <button
+                type="button"
+                onClick={handleRecoveryCodesSaved}
+                disabled={isWorking}
+                className="inline-flex items-center px-6 py-3 border border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 disabled:opacity-50"
+              >
+                I&apos;ve saved my codes
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'regenerate' && (
+          <form onSubmit={handleRegenerate} className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Enter a code from your authenticator app. Your existing recovery codes will stop working.
+            </p>
+            <div className="flex items-center space-x-4">
+              {codeInput}
+              <button
+                type="submit"
+                disabled={isWorking || code.length !== 6}
+                className="inline-flex items-center px-6 py-3 border border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isWorking ? 'Generating...' : 'Generate New Codes'}
+              </button>
+              <button type="button" onClick={reset} className="text-sm font-medium text-gray-600 hover:text-gray-500">
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {step === 'disable' && (
+          <form onSubmit={handleDisable} className="space-y-4">
+            <label htmlFor="twoFactorPassword" className="block text-sm font-medium text-gray-700">
+              Confirm your password to disable two-factor authentication
+            </label>
+            <div className="flex items-center space-x-4">
+              <input
+                id="twoFactorPassword"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-72 px-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:ring-4 focus:ring-red-500/20 focus:border-red-500"
+              />
+              <button
+                type="submit"
+                disabled={isWorking || !password}
+                className="inline-flex items-center px-6 py-3 border border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isWorking ? 'Disabling...' : 'Disable'}
+              </button>
+              <button type="button" onClick={reset} className="text-sm font-medium text-gray-600 hover:text-gray-500">
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ApiError } from '@/lib/apiClient';
+import { Order } from '@/lib/orders';
+import returnService, { RETURN_REASON_LABELS, RETURN_REASONS, ReturnReason, ReturnRequest } from '@/lib/returns';
+
+interface CreateReturnFormProps {
+  order: Order;
+  onCreated: (returnRequest: ReturnRequest) => void;
+  onCancel: () => void;
+}
+
+interface ReturnLine {
+  quantity: string;
+  reason: ReturnReason | '';
+}
+
+// Only shipped units can be sent back
+const CreateReturnForm: React.FC<CreateReturnFormProps> = ({ order, onCreated, onCancel }) => {
+  const returnableItems = order.lineItems.filter((item) => item.fulfilledQuantity > 0);
+
+  const [lines, setLines] = useState<Record<string, ReturnLine>>(() =>
+    Object.fromEntries(returnableItems.map((item) => [item.id, { quantity: '0', reason: '' }]))
+  );
+  const [note, setNote] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const updateLine = (lineItemId: string, changes: Partial<ReturnLine>) => {
+    setLines((prev) => ({ ...prev, [lineItemId]: { ...prev[lineItemId], ...changes } }));
+  };
+
+  const validate = (): Record<string, string> => {
+    const nextErrors: Record<string, string> = {};
+
+    returnableItems.forEach((item) => {
+      const { quantity, reason } = lines[item.id];
+      if (!/^\d+$/.test(quantity) || Number(quantity) > item.fulfilledQuantity) {
+        nextErrors[item.id] = `Enter 0 to ${item.fulfilledQuantity}`;
+      } else if (Number(quantity) > 0 && !reason) {
+        nextErrors[item.id] = 'Choose a reason';
+      }
+    });
+
+    if (Object.keys(nextErrors).length === 0 && returnableItems.every((item) => Number(lines[item.id].quantity) === 0)) {
+      nextErrors.form = 'Select at least one item to return.';
+    }
+
+    return nextErrors;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const nextErrors = validate();
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const created = await returnService.createReturn(order.id, {
+        items: returnableItems
+          .filter((item) => Number(lines[item.id].quantity) > 0)
+          .map((item) => ({
+            lineItemId: item.id,
+            quantity: Number(lines[item.id].quantity),
+            reason: lines[item.id].reason as ReturnReason,
+          })),
+        note: note.trim(),
+      });
+      onCreated(created);
+    } catch (error) {
+      const apiError = ApiError.from(error, 'Failed to create return');
+      setErrors({ ...apiError.fieldErrors, form: apiError.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (returnableItems.length === 0) {
+    return <p className="text-sm text-gray-500">Nothing has shipped yet, so there is nothing to return.</p>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {errors.form && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm font-medium text-red-800">{errors.form}</p>
+        </div>
+      )}
+
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead>
+          <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+            <th className="py-3 pr-3">Item</th>
+            <th className="py-3 pr-3 w-24">Qty</th>
+            <th className="py-3">Reason</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {returnableItems.map((item) => (
+            <tr key={item.id} className="text-sm align-top">
+              <td className="py-3 pr-3">
+                <p className="font-medium text-gray-900">{item.title}</p>
+                <p className="text-xs text-gray-500">{item.fulfilledQuantity} shipped</p>
+              </td>
+              <td className="py-3 pr-3">
+                <input
+                  type="number"
+                  aria-label={`Quantity of ${item.title} to return`}
+                  min={0}
+                  max={item.fulfilledQuantity}
+                  value={lines[item.id].quantity}
+                  onChange={(e) => updateLine(item.id, { quantity: e.target.value })}
+                  className={`block w-full border rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                    errors[item.id] ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                />
+              </td>
+              <td className="py-3">
+                <select
+                  aria-label={`Reason for returning ${item.title}`}
+                  value={lines[item.id].reason}
+                  onChange={(e) => updateLine(item.id, { reason: e.target.value as ReturnReason | '' })}
+                  className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Select a reason</option>
+                  {RETURN_REASONS.map((reason) => (
+                    <option key={reason} value={reason}>
+                      {RETURN_REASON_LABELS[reason]}
+                    </option>
+                  ))}
+                </select>
+                {errors[item.id] && <p className="mt-1 text-xs text-red-600">{errors[item.id]}</p>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div>
+        <label htmlFor="returnNote" className="block text-sm font-medium text-gray-700 mb-1">
+          Note
+        </label>
+        <textarea
+          id="returnNote"
+          rows={2}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        />
+      </div>
+
+      <div className="flex items-center justify-end space-x-6">
+        <button type="button" onClick={onCancel} className="text-sm font-medium text-gray-600 hover:text-gray-500">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Creating...' : 'Create Return'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default CreateReturnForm;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { RETURN_STATUS_LABELS, ReturnEvent } from '@/lib/returns';
+
+const describeEvent = (event: ReturnEvent): string => {
+  if (!event.toStatus) {
+    return 'Added a note';
+  }
+  if (!event.fromStatus) {
+    return `Opened the return as ${RETURN_STATUS_LABELS[event.toStatus].toLowerCase()}`;
+  }
+  return `Moved from ${RETURN_STATUS_LABELS[event.fromStatus]} to ${RETURN_STATUS_LABELS[event.toStatus]}`;
+};
+
+// Audit trail for a single return, newest first
+const ReturnHistory: React.FC<{ events: ReturnEvent[] }> = ({ events }) => {
+  const sorted = [...events].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+      {sorted.map((event) => (
+        <li key={event.id} className="ml-6">
+          <span
+            className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-white ${
+              event.toStatus ? 'bg-blue-500' : 'bg-gray-400'
+            }`}
+          ></span>
+          <p className="text-sm text-gray-900">
+            <span className="font-medium">{event.actor}</span> · {describeEvent(event)}
+          </p>
+          {event.note && <p className="mt-1 text-sm text-gray-700 whitespace-pre-line">{event.note}</p>}
+          <time className="text-xs text-gray-500" dateTime={event.createdAt}>
+            {new Date(event.createdAt).toLocaleString()}
+          </time>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default ReturnHistory;
@@ -0,0 +1,18 @@
+import React from 'react';
+import { RETURN_STATUS_LABELS, ReturnStatus } from '@/lib/returns';
+
+const STATUS_STYLES: Record<ReturnStatus, string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  received: 'bg-indigo-100 text-indigo-800',
+  refunded: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-700',
+};
+
+const ReturnStatusBadge: React.FC<{ status: ReturnStatus }> = ({ status }) => (
+  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+    {RETURN_STATUS_LABELS[status]}
+  </span>
+);
+
+export default ReturnStatusBadge;
@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useState, useRef } from 'react';
+import { ApiError } from '@/lib/apiClient';
+import {
+  buildExportFile,
+  EXPORT_FORMAT_LABELS,
+  EXPORT_FORMATS,
+  ExportColumn,
+  ExportFormat,
+  ExportPageFetcher,
+  ExportScope,
+  fetchAllPages,
+  getExportFilename,
+} from '@/lib/dataExport';
+import { saveBlob } from '@/lib/download';
+
+interface ExportButtonProps<T> {
+  // Used in the file name, e.g. "orders"
+  filenamePrefix: string;
+  columns: ExportColumn<T>[];
+  // Rows matching the current filters, when known
+  filteredTotal?: number;
+  hasFilters: boolean;
+  fetchPage: (scope: ExportScope) => ExportPageFetcher<T>;
+}
+
+interface Progress {
+  loaded: number;
+  total: number;
+}
+
+// Export button for list views; opens a panel to pick the rows, columns and file format
+const ExportButton = <T,>({ filenamePrefix, columns, filteredTotal, hasFilters, fetchPage }: ExportButtonProps<T>) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<ExportScope>('filtered');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(columns.filter((column) => column.defaultSelected !== false).map((column) => column.key))
+  );
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const isExporting = progress !== null;
+
+  const toggleColumn = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    const exportColumns = columns.filter((column) => selected.has(column.key));
+    if (exportColumns.length === 0) {
+      setError('Choose at least one column.');
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    try {
+      setError(null);
+      setProgress({ loaded: 0, total: 0 });
+      const rows = await fetchAllPages(fetchPage(hasFilters ? scope : 'all'), {
+        signal: controller.signal,
+        onProgress: (loaded, total) => setProgress({ loaded, total }),
+      });
+      const blob = await buildExportFile(rows, exportColumns, format);
+      saveBlob(blob, getExportFilename(filenamePrefix, format));
+      setIsOpen(false);
+    } catch (error) {
+      const apiError = ApiError.from(error, 'Export failed');
+      if (!apiError.isCanceled) {
+        setError(apiError.message);
+      }
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const radioClassName = 'h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 mr-2';
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50"
+      >
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-80 rounded-xl border border-gray-200 bg-white p-5 shadow-xl text-left">
+          {error && (
+            <div className="mb-4 rounded-md bg-red-50 p-3">
+              <p className="text-sm font-medium text-red-800">{error}</p>
+            </div>
+          )}
+
+          <fieldset disabled={isExporting} className="space-y-4">
+            {hasFilters && (
+              <div>
+                <p className="text-sm font-semibold text-gray-900 mb-2">Rows</p>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="exportScope"
+                    checked={scope === 'filtered'}
+                    onChange={() => setScope('filtered')}
+                    className={radioClassName}
+                  />
+                  Matching the current filters{filteredTotal !== undefined && ` (${filteredTotal})`}
+                </label>
+                <label className="mt-1 flex items-center text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="exportScope"
+                    checked={scope === 'all'}
+                    onChange={() => setScope('all')}
+                    className={radioClassName}
+                  />
+                  Everything
+                </label>
+              </div>
+            )}
+
+            <div>
+              <p className="text-sm font-semibold text-gray-900 mb-2">Format</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {EXPORT_FORMATS.map((value) => (
+                  <label key={value} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="exportFormat"
+                      checked={format === value}
+                      onChange={() => setFormat(value)}
+                      className={radioClassName}
+                    />
+                    {EXPORT_FORMAT_LABELS[value]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm font-semibold text-gray-900">Columns</p>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setSelected(
+                      selected.size === columns.length ? new Set() : new Set(columns.map((column) => column.key))
+                    )
+                  }
+                  className="text-xs font-medium text-blue-600 hover:text-blue-500"
+                >
+                  {selected.size === columns.length ? 'Select none' : 'Select all'}
+                </button>
+              </div>
+              <div className="max-h-48 overflow-y-auto space-y-1">
+                {columns.map((column) => (
+                  <label key={column.key} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(column.key)}
+                      onChange={() => toggleColumn(column.key)}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                    />
+                    {column.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </fieldset>
+
+          {progress && (
+            <div className="mt-4" aria-live="polite">
+              <div className="h-2 w-full rounded-full bg-gray-200 overflow-hidden">
+                <div
+                  className="h-full bg-blue-600 transition-all duration-300"
+                  style={{ width: `${progress.total ? (progress.loaded / progress.total) * 100 : 0}%` }}
+                ></div>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                {progress.total ? `Fetched ${progress.loaded} of ${progress.total}` : 'Starting...'}
+              </p>
+            </div>
+          )}
+
+          <div className="mt-5 flex items-center justify-end space-x-4">
+            <button
+              type="button"
+              onClick={() => (isExporting ? controllerRef.current?.abort() : setIsOpen(false))}
+              className="text-sm font-medium text-gray-600 hover:text-gray-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={isExporting}
+              className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isExporting ? 'Exporting...' : 'Download'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportButton;
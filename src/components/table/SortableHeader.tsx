@@ -0,0 +1,39 @@
+'use client';
+
+import React, { ReactNode } from 'react';
+import { SortOrder } from '@/lib/apiClient';
+
+interface SortableHeaderProps<T extends string> {
+  field: T;
+  sortBy: T;
+  sortOrder: SortOrder;
+  onSort: (field: T) => void;
+  className?: string;
+  children: ReactNode;
+}
+
+// Table header cell that toggles sorting on its column
+const SortableHeader = <T extends string>({ field, sortBy, sortOrder, onSort, className = '', children }: SortableHeaderProps<T>) => {
+  const isActive = sortBy === field;
+
+  return (
+    <th className={`py-3 ${className}`} aria-sort={isActive ? (sortOrder === 'asc' ? 'ascending' : 'descending') : 'none'}>
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className={`inline-flex items-center uppercase tracking-wider hover:text-gray-900 ${isActive ? 'text-gray-900' : ''}`}
+      >
+        {children}
+        <svg className={`ml-1 h-3 w-3 ${isActive ? '' : 'opacity-30'}`} fill="currentColor" viewBox="0 0 20 20">
+          {isActive && sortOrder === 'asc' ? (
+            <path d="M10 5l5 7H5l5-7z" />
+          ) : (
+            <path d="M10 15l-5-7h10l-5 7z" />
+          )}
+        </svg>
+      </button>
+    </th>
+  );
+};
+
+export default SortableHeader;
@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getErrorMessage } from '@/lib/apiClient';
+import { AdminUser } from '@/lib/auth';
+import { ASSIGNABLE_ROLES } from '@/lib/permissions';
+import userService, { CUSTOMER_ROLE, getUserRoleLabel } from '@/lib/users';
+
+interface UserAccountActionsProps {
+  user: AdminUser;
+  canManageAccount: boolean;
+  canChangeRole: boolean;
+  canImpersonate: boolean;
+  onUpdated: (user: AdminUser) => void;
+}
+
+type AccountAction = 'active' | 'reset' | 'verification' | 'role' | 'impersonate';
+
+const ROLE_OPTIONS: string[] = [CUSTOMER_ROLE, ...ASSIGNABLE_ROLES];
+
+const UserAccountActions: React.FC<UserAccountActionsProps> = ({
+  user,
+  canManageAccount,
+  canChangeRole,
+  canImpersonate,
+  onUpdated,
+}) => {
+  const { impersonation, startImpersonation } = useAuth();
+  const [role, setRole] = useState(user.role);
+  const [busyAction, setBusyAction] = useState<AccountAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const runAction = async (action: AccountAction, send: () => Promise<string>) => {
+    try {
+      setBusyAction(action);
+      setError(null);
+      setMessage(null);
+      setMessage(await send());
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to update account'));
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleToggleActive = () => {
+    const prompt = user.isActive
+      ? `Deactivate ${user.email}? They will be signed out and unable to sign in.`
+      : `Reactivate ${user.email}? They will be able to sign in again.`;
+    if (!window.confirm(prompt)) {
+      return;
+    }
+
+    runAction('active', async () => {
+      onUpdated(await userService.setActive(user.id, !user.isActive));
+      return user.isActive ? 'Account deactivated.' : 'Account reactivated.';
+    });
+  };
+
+  const handlePasswordReset = () => {
+    if (!window.confirm(`Send a password reset link to ${user.email}?`)) {
+      return;
+    }
+
+    runAction('reset', async () => {
+      await userService.sendPasswordReset(user.id);
+      return `Password reset link sent to ${user.email}.`;
+    });
+  };
+
+  const handleResendVerification = () => {
+    runAction('verification', async () => {
+      await userService.resendVerification(user.id);
+      return `Verification email sent to ${user.email}.`;
+    });
+  };
+
+  const handleImpersonate = () => {
+    if (!window.confirm(`View the store as ${user.email}? This is recorded in the audit trail.`)) {
+      return;
+    }
+
+    runAction('impersonate', async () => {
+      await startImpersonation(user.id);
+      return `Now viewing as ${user.email}. Use the banner at the top to open the storefront or exit.`;
+    });
+  };
+
+  const handleChangeRole = () => {
+    if (!window.confirm(`Change ${user.email} from ${getUserRoleLabel(user.role)} to ${getUserRoleLabel(role)}?`)) {
+      return;
+    }
+
+    runAction('role', async () => {
+      onUpdated(await userService.changeRole(user.id, role));
+      return `Role changed to ${getUserRoleLabel(role)}.`;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="rounded-md bg-green-50 p-4">
+          <p className="text-sm font-medium text-green-800">{message}</p>
+        </div>
+      )}
+
+      {canImpersonate && (
+        <div>
+          <button
+            type="button"
+            onClick={handleImpersonate}
+            disabled={busyAction !== null || !!impersonation}
+            className="w-full px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busyAction === 'impersonate' ? 'Starting...' : 'View as Customer'}
+          </button>
+          {impersonation && (
+            <p className="mt-1 text-xs text-gray-500">Exit the current impersonation before starting another.</p>
+          )}
+        </div>
+      )}
+
+      {canManageAccount && (
+        <div className="flex flex-col gap-2">
+          {!user.isEmailVerified && (
+            <button
+              type="button"
+              onClick={handleResendVerification}
+              disabled={busyAction !== null}
+              className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busyAction === 'verification' ? 'Sending...' : 'Resend Verification Email'}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handlePasswordReset}
+            disabled={busyAction !== null}
+            className="px-4 py-2 text-sm font-medium rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busyAction === 'reset' ? 'Sending...' : 'Send Password Reset'}
+          </button>
+          <button
+            type="button"
+            onClick={handleToggleActive}
+            disabled={busyAction !== null}
+            className={`px-4 py-2 text-sm font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed ${
+              user.isActive ? 'text-red-600 border border-red-200 hover:bg-red-50' : 'text-white bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {busyAction === 'active' ? 'Saving...' : user.isActive ? 'Deactivate Account' : 'Reactivate Account'}
+          </button>
+        </div>
+      )}
+
+      {canChangeRole && (
+        <div className="pt-4 border-t border-gray-200">
+          <label htmlFor="userRole" className="block text-sm font-medium text-gray-700 mb-1">
+            Role
+          </label>
+          <div className="flex gap-2">
+            <select
+              id="userRole"
+              value={role}
+              onChange={(e) => setRole(e.target.value)}
+              className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              {/* Keep a legacy role selectable so the current value still shows */}
+              {!ROLE_OPTIONS.includes(user.role) && <option value={user.role}>{getUserRoleLabel(user.role)}</option>}
+              {ROLE_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {getUserRoleLabel(option)}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleChangeRole}
+              disabled={busyAction !== null || role === user.role}
+              className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busyAction === 'role' ? 'Saving...' : 'Change'}
+            </button>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">Staff roles grant access to this admin panel.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserAccountActions;
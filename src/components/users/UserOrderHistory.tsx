@@ -0,0 +1,102 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import OrderStatusBadge from '@/components/orders/OrderStatusBadge';
+import Pagination from '@/components/table/Pagination';
+import { getErrorMessage, PaginatedList } from '@/lib/apiClient';
+import { formatCurrency } from '@/lib/format';
+import { OrderSummary } from '@/lib/orders';
+import userService from '@/lib/users';
+
+const PAGE_SIZE = 10;
+
+// The user's orders, newest first, each linking to the order page
+const UserOrderHistory: React.FC<{ userId: string }> = ({ userId }) => {
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<PaginatedList<OrderSummary> | null>(null);
+  const [isFetching, setIsFetching] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsFetching(true);
+    setError(null);
+
+    userService
+      .getUserOrders(userId, page, PAGE_SIZE)
+      .then((list) => {
+        if (!isCancelled) {
+          setResult(list);
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setError(getErrorMessage(error, 'Failed to load orders'));
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsFetching(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [userId, page]);
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (!result) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (result.items.length === 0) {
+    return <p className="text-sm text-gray-500">No orders yet.</p>;
+  }
+
+  return (
+    <div className={isFetching ? 'opacity-60 transition-opacity' : ''}>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead>
+          <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+            <th className="py-3">Order</th>
+            <th className="py-3">Placed</th>
+            <th className="py-3">Status</th>
+            <th className="py-3 text-right">Total</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {result.items.map((order) => (
+            <tr key={order.id} className="text-sm">
+              <td className="py-3">
+                <Link href={`/orders/${order.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                  #{order.number}
+                </Link>
+                <p className="text-xs text-gray-500">
+                  {order.itemCount} {order.itemCount === 1 ? 'item' : 'items'}
+                </p>
+              </td>
+              <td className="py-3 text-gray-500">{new Date(order.createdAt).toLocaleDateString()}</td>
+              <td className="py-3">
+                <OrderStatusBadge status={order.status} />
+              </td>
+              <td className="py-3 text-right text-gray-900">{formatCurrency(order.total)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <Pagination page={result.page} pageSize={result.pageSize} total={result.total} onPageChange={setPage} />
+    </div>
+  );
+};
+
+export default UserOrderHistory;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { AdminUser } from '@/lib/auth';
+
+// Account state at a glance: active or deactivated, plus email verification
+const UserStatusBadges: React.FC<{ user: AdminUser }> = ({ user }) => (
+  <div className="flex flex-wrap gap-1">
+    <span
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+        user.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+      }`}
+    >
+      {user.isActive ? 'Active' : 'Deactivated'}
+    </span>
+    {!user.isEmailVerified && (
+      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+        Unverified
+      </span>
+    )}
+  </div>
+);
+
+export default UserStatusBadges;
@@ -1,24 +1,50 @@
 'use client';
 
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
 import { useRouter } from 'next/navigation';
-import authService, { AdminUser } from '@/lib/auth';
+import authService, {
+  AcceptInvitationRequest,
+  AdminUser,
+  ImpersonationSession,
+  isTwoFactorChallenge,
+  LogoutOptions,
+  RegisterRequest,
+  TwoFactorMethod,
+} from '@/lib/auth';
+import { getErrorMessage } from '@/lib/apiClient';
+import { hasPermission, isStaffRole, Permission } from '@/lib/permissions';
+import { DEFAULT_AUTHENTICATED_PATH, sanitizeReturnTo } from '@/lib/redirect';
 
 interface AuthContextType {
   user: AdminUser | null;
   isLoading: boolean;
   isAuthenticated: boolean;
   isAdmin: boolean;
-  login: (email: string, password: string) => Promise<void>;
-  register: (userData: any) => Promise<void>;
-  logout: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+  login: (email: string, password: string, returnTo?: string | null) => Promise<void>;
+  isTwoFactorPending: boolean;
+  verifyTwoFactor: (code: string, method: TwoFactorMethod) => Promise<void>;
+  cancelTwoFactor: () => void;
+  register: (userData: RegisterRequest) => Promise<void>;
+  acceptInvitation: (request: AcceptInvitationRequest) => Promise<void>;
+  logout: (options?: LogoutOptions) => Promise<void>;
+  resetPassword: (token: string, password: string) => Promise<boolean>;
   updateProfile: (userData: Partial<AdminUser>) => Promise<void>;
+  refreshUser: () => Promise<void>;
+  impersonation: ImpersonationSession | null;
+  startImpersonation: (customerId: string) => Promise<ImpersonationSession>;
+  stopImpersonation: () => Promise<void>;
   error: string | null;
   clearError: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+interface PendingTwoFactor {
+  challengeToken: string;
+  returnTo?: string | null;
+}
+
 interface AuthProviderProps {
   children: ReactNode;
 }
@@ -27,6 +53,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<AdminUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [pendingTwoFactor, setPendingTwoFactor] = useState<PendingTwoFactor | null>(null);
+  const [impersonation, setImpersonation] = useState<ImpersonationSession | null>(null);
   const router = useRouter();
 
   // Initialize auth state
@@ -44,6 +72,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
             try {
               const freshUser = await authService.getCurrentUser();
               setUser(freshUser);
+              setImpersonation(authService.getImpersonation());
             } catch (error) {
               // Token might be expired, clear auth
               authService.clearAuth();
@@ -63,53 +92,125 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initAuth();
   }, []);
 
-  const login = async (email: string, password: string) => {
+  // Hide the banner once the scoped token has expired
+  useEffect(() => {
+    if (!impersonation) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      authService.clearImpersonation();
+      setImpersonation(null);
+    }, new Date(impersonation.expiresAt).getTime() - Date.now());
+    return () => clearTimeout(timeout);
+  }, [impersonation]);
+
+  const login = async (email: string, password: string, returnTo?: string | null) => {
     try {
       setIsLoading(true);
       setError(null);
       
       const response = await authService.login({ email, password });
-      const userData = response.data.user;
-      
-      // Verify user is admin
-      if (userData.role !== 'admin') {
-        await authService.logout();
-        throw new Error('Access denied. Admin privileges required.');
+
+      // Password accepted, wait for the second factor before signing in
+      if (isTwoFactorChallenge(response.data)) {
+        setPendingTwoFactor({ challengeToken: response.data.challengeToken, returnTo });
+        return;
       }
-      
-      setUser(userData);
-      router.push('/dashboard');
-    } catch (error: any) {
-      setError(error.message);
+
+      await completeLogin(response.data.user, returnTo);
+    } catch (error) {
+      setError(getErrorMessage(error, 'Login failed'));
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const verifyTwoFactor = async (code: string, method: TwoFactorMethod) => {
+    if (!pendingTwoFactor) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await authService.verifyTwoFactor(pendingTwoFactor.challengeToken, code, method);
+      setPendingTwoFactor(null);
+      await completeLogin(response.data.user, pendingTwoFactor.returnTo);
+    } catch (error) {
+      setError(getErrorMessage(error, 'Verification failed'));
       throw error;
     } finally {
       setIsLoading(false);
     }
   };
 
-  const register = async (userData: any) => {
+  const cancelTwoFactor = () => {
+    setPendingTwoFactor(null);
+    setError(null);
+  };
+
+  const completeLogin = async (userData: AdminUser, returnTo?: string | null) => {
+    // Verify user holds an admin panel role
+    if (!isStaffRole(userData.role)) {
+      await authService.logout();
+      throw new Error('Access denied. Admin privileges required.');
+    }
+
+    setUser(userData);
+    router.push(sanitizeReturnTo(returnTo) || DEFAULT_AUTHENTICATED_PATH);
+  };
+
+  const register = async (userData: RegisterRequest) => {
     try {
       setIsLoading(true);
       setError(null);
       
+      // The backend assigns the role, so the new account may not be staff
       const response = await authService.register(userData);
-      const user = response.data.user;
-      
-      setUser(user);
-      router.push('/dashboard');
-    } catch (error: any) {
-      setError(error.message);
+      await completeLogin(response.data.user);
+    } catch (error) {
+      setError(getErrorMessage(error, 'Registration failed'));
       throw error;
     } finally {
       setIsLoading(false);
     }
   };
 
-  const logout = async () => {
+  const acceptInvitation = async (request: AcceptInvitationRequest) => {
     try {
       setIsLoading(true);
-      await authService.logout();
+      setError(null);
+
+      const response = await authService.acceptInvitation(request);
+      await completeLogin(response.data.user);
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to accept invitation'));
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Returns true when the reset also signed the user in
+  const resetPassword = async (token: string, password: string) => {
+    const response = await authService.resetPassword(token, password);
+    if (!response.data) {
+      return false;
+    }
+
+    await completeLogin(response.data.user);
+    return true;
+  };
+
+  const logout = async (options?: LogoutOptions) => {
+    try {
+      setIsLoading(true);
+      await authService.logout(options);
       setUser(null);
+      setImpersonation(null);
       router.push('/auth/login');
     } catch (error) {
       console.error('Logout error:', error);
@@ -123,25 +224,54 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setError(null);
       const updatedUser = await authService.updateProfile(userData);
       setUser(updatedUser);
-    } catch (error: any) {
-      setError(error.message);
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to update profile'));
       throw error;
     }
   };
 
-  const clearError = () => {
-    setError(null);
+  // Stable so pages can list it as an effect dependency
+  const refreshUser = useCallback(async () => {
+    const freshUser = await authService.getCurrentUser();
+    setUser(freshUser);
+  }, []);
+
+  const startImpersonation = async (customerId: string) => {
+    const session = await authService.startImpersonation(customerId);
+    setImpersonation(session);
+    return session;
+  };
+
+  const stopImpersonation = async () => {
+    await authService.stopImpersonation();
+    setImpersonation(null);
   };
 
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  const can = (permission: Permission) => hasPermission(user?.role, permission);
+
   const value: AuthContextType = {
     user,
     isLoading,
     isAuthenticated: !!user,
-    isAdmin: user?.role === 'admin',
+    isAdmin: isStaffRole(user?.role),
+    can,
     login,
+    isTwoFactorPending: !!pendingTwoFactor,
+    verifyTwoFactor,
+    cancelTwoFactor,
     register,
+    acceptInvitation,
     logout,
+    resetPassword,
     updateProfile,
+    refreshUser,
+    impersonation,
+    startImpersonation,
+    stopImpersonation,
     error,
     clearError,
   };
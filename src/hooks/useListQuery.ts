@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+
+const TEXT_DEBOUNCE_MS = 300;
+
+const SEARCH_KEYS = ['search'];
+
+export type ListQueryChanges<P> = Partial<Record<keyof P, string | number | undefined>>;
+
+type TextInputs<P> = Partial<Record<keyof P & string, string>>;
+
+// List state kept in the URL so filters survive reloads and back navigation. Text boxes (by default just
+// "search") are applied once typing pauses; textKeys must be a module-level constant so the effect stays put.
+export const useListQuery = <P extends object>(
+  basePath: string,
+  textKeys: readonly (keyof P & string)[] = SEARCH_KEYS as (keyof P & string)[]
+) => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [textInputs, setTextInputs] = useState<TextInputs<P>>(
+    () => Object.fromEntries(textKeys.map((key) => [key, searchParams.get(key) ?? ''])) as TextInputs<P>
+  );
+
+  // Debounced updates run after later renders, so they read the query string as it is when they fire
+  const searchParamsRef = useRef(searchParams);
+  useEffect(() => {
+    searchParamsRef.current = searchParams;
+  }, [searchParams]);
+
+  const updateQuery = useCallback(
+    (changes: ListQueryChanges<P>) => {
+      const next = new URLSearchParams(searchParamsRef.current.toString());
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value === undefined || value === '') {
+          next.delete(key);
+        } else {
+          next.set(key, String(value));
+        }
+      });
+
+      // Any change other than paging starts again from the first page
+      if (!('page' in changes)) {
+        next.delete('page');
+      }
+
+      const query = next.toString();
+      router.replace(query ? `${basePath}?${query}` : basePath);
+    },
+    [router, basePath]
+  );
+
+  const setTextInput = useCallback((key: keyof P & string, value: string) => {
+    setTextInputs((prev) => ({ ...prev, [key]: value }));
+  }, []);
+
+  // Drop every filter, including text that has not been applied yet
+  const clearQuery = useCallback(() => {
+    setTextInputs({});
+    router.replace(basePath);
+  }, [router, basePath]);
+
+  useEffect(() => {
+    const changed = textKeys.filter((key) => (textInputs[key] ?? '').trim() !== (searchParams.get(key) ?? ''));
+    if (changed.length === 0) {
+      return;
+    }
+
+    const timeout = setTimeout(
+      () => updateQuery(Object.fromEntries(changed.map((key) => [key, textInputs[key]?.trim()])) as ListQueryChanges<P>),
+      TEXT_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [textKeys, textInputs, searchParams, updateQuery]);
+
+  return { searchParams, updateQuery, textInputs, setTextInput, clearQuery };
+};
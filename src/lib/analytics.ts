@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import apiClient from './apiClient';
+import { DateRange, getPreviousRange, getRangeDays } from './dateRange';
+
+export type KpiMetric = 'orders' | 'users' | 'products' | 'revenue';
+
+// A metric for the selected period alongside the same metric for the period before it
+export interface KpiValue {
+  value: number;
+  previousValue: number;
+}
+
+export type SeriesInterval = 'hour' | 'day';
+
+export interface SeriesPoint {
+  date: string;
+  value: number;
+}
+
+// Points for the selected period and the previous one, aligned by position
+export interface RevenueSeries {
+  interval: SeriesInterval;
+  current: SeriesPoint[];
+  previous: SeriesPoint[];
+}
+
+export interface StatusCount {
+  status: string;
+  count: number;
+  previousCount: number;
+}
+
+export interface TopProduct {
+  productId: string;
+  name: string;
+  sku?: string;
+  unitsSold: number;
+  revenue: number;
+  previousUnitsSold: number;
+}
+
+export interface FunnelStage {
+  stage: string;
+  label: string;
+  count: number;
+  previousCount: number;
+}
+
+const kpiValueSchema: z.ZodType<KpiValue> = z.object({
+  value: z.number(),
+  previousValue: z.number(),
+});
+
+const seriesPointSchema: z.ZodType<SeriesPoint> = z.object({
+  date: z.string(),
+  value: z.number(),
+});
+
+const revenueSeriesSchema: z.ZodType<RevenueSeries> = z.object({
+  interval: z.enum(['hour', 'day']),
+  current: z.array(seriesPointSchema),
+  previous: z.array(seriesPointSchema),
+});
+
+const statusCountSchema: z.ZodType<StatusCount> = z.object({
+  status: z.string(),
+  count: z.number(),
+  previousCount: z.number(),
+});
+
+const topProductSchema: z.ZodType<TopProduct> = z.object({
+  productId: z.string(),
+  name: z.string(),
+  sku: z.string().optional(),
+  unitsSold: z.number(),
+  revenue: z.number(),
+  previousUnitsSold: z.number(),
+});
+
+const funnelStageSchema: z.ZodType<FunnelStage> = z.object({
+  stage: z.string(),
+  label: z.string(),
+  count: z.number(),
+  previousCount: z.number(),
+});
+
+// Query parameters describing a period and the period it is compared against
+export const toRangeParams = (range: DateRange) => {
+  const previous = getPreviousRange(range);
+
+  return {
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    compareFrom: previous.from.toISOString(),
+    compareTo: previous.to.toISOString(),
+  };
+};
+
+// Percentage change from the previous period, or null when there is nothing to compare against
+export const getDeltaPercent = ({ value, previousValue }: KpiValue): number | null => {
+  if (previousValue === 0) {
+    return value === 0 ? 0 : null;
+  }
+  return ((value - previousValue) / Math.abs(previousValue)) * 100;
+};
+
+class AnalyticsService {
+  // Fetch a single headline metric so each dashboard card can load and fail on its own
+  async getKpi(metric: KpiMetric, range: DateRange): Promise<KpiValue> {
+    return apiClient.get(`/admin/analytics/kpis/${metric}`, kpiValueSchema, {
+      params: toRangeParams(range),
+      errorMessage: 'Failed to load metric',
+    });
+  }
+
+  // Revenue bucketed by hour for single-day ranges and by day otherwise
+  async getRevenueSeries(range: DateRange): Promise<RevenueSeries> {
+    const interval: SeriesInterval = getRangeDays(range) <= 1 ? 'hour' : 'day';
+
+    return apiClient.get('/admin/analytics/revenue', revenueSeriesSchema, {
+      params: { ...toRangeParams(range), interval },
+      errorMessage: 'Failed to load revenue',
+    });
+  }
+
+  // Order counts per fulfillment status
+  async getOrdersByStatus(range: DateRange): Promise<StatusCount[]> {
+    return apiClient.get('/admin/analytics/orders-by-status', z.array(statusCountSchema), {
+      params: toRangeParams(range),
+      errorMessage: 'Failed to load orders by status',
+    });
+  }
+
+  // Best sellers by units sold
+  async getTopProducts(range: DateRange, limit = 10): Promise<TopProduct[]> {
+    return apiClient.get('/admin/analytics/top-products', z.array(topProductSchema), {
+      params: { ...toRangeParams(range), limit },
+      errorMessage: 'Failed to load top products',
+    });
+  }
+
+  // Visitors remaining at each step from first visit to purchase, in funnel order
+  async getConversionFunnel(range: DateRange): Promise<FunnelStage[]> {
+    return apiClient.get('/admin/analytics/funnel', z.array(funnelStageSchema), {
+      params: toRangeParams(range),
+      errorMessage: 'Failed to load conversion funnel',
+    });
+  }
+}
+
+const analyticsService = new AnalyticsService();
+
+export default analyticsService;
@@ -1,5 +1,22 @@
-import axios from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 import Cookies from 'js-cookie';
+import { buildLoginPath } from './redirect';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Do not attempt a token refresh when this request fails with 401
+    skipAuthRefresh?: boolean;
+    // Set once a request has been replayed after a refresh
+    _retry?: boolean;
+  }
+}
+
+type RefreshHandler = () => Promise<string>;
+
+interface QueuedRequest {
+  resolve: (token: string) => void;
+  reject: (error: unknown) => void;
+}
 
 // Create axios instance
 const api = axios.create({
@@ -10,6 +27,34 @@ const api = axios.create({
   },
 });
 
+let refreshHandler: RefreshHandler | null = null;
+let isRefreshing = false;
+let refreshQueue: QueuedRequest[] = [];
+
+// Registers the function used to obtain a new access token (set by the auth service)
+export const setRefreshHandler = (handler: RefreshHandler): void => {
+  refreshHandler = handler;
+};
+
+const flushRefreshQueue = (error: unknown, token: string | null) => {
+  refreshQueue.forEach(({ resolve, reject }) => {
+    if (token) {
+      resolve(token);
+    } else {
+      reject(error);
+    }
+  });
+  refreshQueue = [];
+};
+
+const redirectToLogin = () => {
+  Cookies.remove('admin_token');
+  Cookies.remove('admin_user');
+  Cookies.remove('admin_refresh_token');
+  Cookies.remove('admin_impersonation');
+  window.location.href = buildLoginPath(`${window.location.pathname}${window.location.search}`);
+};
+
 // Request interceptor to add auth token
 api.interceptors.request.use(
   (config) => {
@@ -24,19 +69,58 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor to handle token expiration
+// Response interceptor to refresh expired tokens and replay the failed requests
 api.interceptors.response.use(
   (response) => {
     return response;
   },
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
-      Cookies.remove('admin_token');
-      Cookies.remove('admin_user');
-      window.location.href = '/auth/login';
+  async (error: AxiosError) => {
+    const originalRequest = error.config as InternalAxiosRequestConfig | undefined;
+
+    if (error.response?.status !== 401 || !originalRequest || originalRequest.skipAuthRefresh) {
+      return Promise.reject(error);
+    }
+
+    if (originalRequest._retry || !refreshHandler || !Cookies.get('admin_refresh_token')) {
+      // Token expired or invalid and cannot be renewed
+      redirectToLogin();
+      return Promise.reject(error);
+    }
+
+    // A refresh is already in flight, wait for it and replay with the new token
+    if (isRefreshing) {
+      return new Promise<string>((resolve, reject) => {
+        refreshQueue.push({ resolve, reject });
+      }).then((token) => {
+        originalRequest._retry = true;
+        originalRequest.headers.Authorization = `Bearer ${token}`;
+        return api(originalRequest);
+      });
+    }
+
+    // Sent with a token that a finished refresh has since replaced, replay with the current one
+    const currentToken = Cookies.get('admin_token');
+    if (currentToken && originalRequest.headers.Authorization !== `Bearer ${currentToken}`) {
+      originalRequest._retry = true;
+      originalRequest.headers.Authorization = `Bearer ${currentToken}`;
+      return api(originalRequest);
+    }
+
+    originalRequest._retry = true;
+    isRefreshing = true;
+
+    try {
+      const token = await refreshHandler();
+      flushRefreshQueue(null, token);
+      originalRequest.headers.Authorization = `Bearer ${token}`;
+      return api(originalRequest);
+    } catch (refreshError) {
+      flushRefreshQueue(refreshError, null);
+      redirectToLogin();
+      return Promise.reject(refreshError);
+    } finally {
+      isRefreshing = false;
     }
-    return Promise.reject(error);
   }
 );
 
@@ -0,0 +1,195 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import { z } from 'zod';
+import api from './api';
+
+// Every backend response is wrapped in this envelope
+export interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data: T;
+}
+
+export interface ApiRequestConfig extends AxiosRequestConfig {
+  // Message used when the backend does not provide one
+  errorMessage?: string;
+}
+
+export const envelopeSchema = <T>(data: z.ZodType<T>) =>
+  z.object({
+    success: z.boolean(),
+    message: z.string().optional(),
+    data,
+  });
+
+// Schema for endpoints whose response data is ignored
+export const emptySchema = z.unknown();
+
+export type SortOrder = 'asc' | 'desc';
+
+// One page of a server-side paginated list
+export interface PaginatedList<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export const paginatedSchema = <T>(item: z.ZodType<T>): z.ZodType<PaginatedList<T>> =>
+  z.object({
+    items: z.array(item),
+    total: z.number(),
+    page: z.number(),
+    pageSize: z.number(),
+  });
+
+const errorBodySchema = z.object({
+  error: z.string().optional(),
+  message: z.string().optional(),
+  code: z.string().optional(),
+  errors: z
+    .union([
+      z.array(z.object({ field: z.string(), message: z.string() })),
+      z.record(z.string(), z.union([z.string(), z.array(z.string())])),
+    ])
+    .optional(),
+});
+
+type ErrorBody = z.infer<typeof errorBodySchema>;
+
+const normalizeFieldErrors = (errors: ErrorBody['errors']): Record<string, string> => {
+  if (!errors) {
+    return {};
+  }
+
+  if (Array.isArray(errors)) {
+    return Object.fromEntries(errors.map(({ field, message }) => [field, message]));
+  }
+
+  return Object.fromEntries(
+    Object.entries(errors).map(([field, messages]) => [field, Array.isArray(messages) ? messages[0] : messages])
+  );
+};
+
+interface ApiErrorOptions {
+  status?: number | null;
+  code?: string | null;
+  fieldErrors?: Record<string, string>;
+}
+
+export class ApiError extends Error {
+  readonly status: number | null;
+  readonly code: string | null;
+  readonly fieldErrors: Record<string, string>;
+
+  constructor(message: string, { status = null, code = null, fieldErrors = {} }: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+  }
+
+  get isNetworkError(): boolean {
+    return this.code === 'NETWORK_ERROR';
+  }
+
+  get isCanceled(): boolean {
+    return this.code === 'CANCELED';
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+
+  // Normalize anything thrown by axios, zod or our own code into an ApiError
+  static from(error: unknown, fallbackMessage: string): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    if (axios.isCancel(error)) {
+      return new ApiError('Request was canceled', { code: 'CANCELED' });
+    }
+
+    if (axios.isAxiosError(error)) {
+      if (!error.response) {
+        return new ApiError(fallbackMessage, { code: 'NETWORK_ERROR' });
+      }
+
+      const parsed = errorBodySchema.safeParse(error.response.data);
+      const body: ErrorBody = parsed.success ? parsed.data : {};
+
+      return new ApiError(body.error || body.message || fallbackMessage, {
+        status: error.response.status,
+        code: body.code ?? null,
+        fieldErrors: normalizeFieldErrors(body.errors),
+      });
+    }
+
+    return new ApiError(error instanceof Error && error.message ? error.message : fallbackMessage);
+  }
+}
+
+// Message to show the user for any caught error
+export const getErrorMessage = (error: unknown, fallbackMessage: string): string =>
+  ApiError.from(error, fallbackMessage).message;
+
+// Send a request and validate the response envelope against the data schema
+export const request = async <T>(config: ApiRequestConfig, schema: z.ZodType<T>): Promise<ApiResponse<T>> => {
+  const { errorMessage = 'Request failed', ...axiosConfig } = config;
+
+  let status: number;
+  let body: unknown;
+  try {
+    const response = await api.request(axiosConfig);
+    status = response.status;
+    body = response.data;
+  } catch (error) {
+    throw ApiError.from(error, errorMessage);
+  }
+
+  const parsed = envelopeSchema(schema).safeParse(body);
+  if (!parsed.success) {
+    console.error(`Unexpected response from ${axiosConfig.url}:`, parsed.error.issues);
+    throw new ApiError(errorMessage, { status, code: 'INVALID_RESPONSE' });
+  }
+
+  return parsed.data;
+};
+
+// Fetch a binary file such as a PDF; these endpoints are not wrapped in the envelope
+export const requestBlob = async (config: ApiRequestConfig): Promise<Blob> => {
+  const { errorMessage = 'Download failed', ...axiosConfig } = config;
+
+  try {
+    const response = await api.request<Blob>({ ...axiosConfig, responseType: 'blob' });
+    return response.data;
+  } catch (error) {
+    throw ApiError.from(error, errorMessage);
+  }
+};
+
+const apiClient = {
+  get: <T>(url: string, schema: z.ZodType<T>, config: ApiRequestConfig = {}) =>
+    request({ ...config, method: 'get', url }, schema).then((response) => response.data),
+
+  post: <T>(url: string, data: unknown, schema: z.ZodType<T>, config: ApiRequestConfig = {}) =>
+    request({ ...config, method: 'post', url, data }, schema).then((response) => response.data),
+
+  put: <T>(url: string, data: unknown, schema: z.ZodType<T>, config: ApiRequestConfig = {}) =>
+    request({ ...config, method: 'put', url, data }, schema).then((response) => response.data),
+
+  patch: <T>(url: string, data: unknown, schema: z.ZodType<T>, config: ApiRequestConfig = {}) =>
+    request({ ...config, method: 'patch', url, data }, schema).then((response) => response.data),
+
+  delete: <T>(url: string, schema: z.ZodType<T>, config: ApiRequestConfig = {}) =>
+    request({ ...config, method: 'delete', url }, schema).then((response) => response.data),
+
+  download: (url: string, config: ApiRequestConfig = {}) => requestBlob({ ...config, method: 'get', url }),
+};
+
+export default apiClient;
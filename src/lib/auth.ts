@@ -1,11 +1,15 @@
-import api from './api';
 import Cookies from 'js-cookie';
+import { z } from 'zod';
+import { setRefreshHandler } from './api';
+import apiClient, { ApiError, ApiResponse, emptySchema, request } from './apiClient';
+import { isStaffRole } from './permissions';
 
 export interface AdminUser {
   id: string;
   email: string;
   firstName: string;
   lastName: string;
+  // Staff roles, but also 'customer' and legacy values; narrow with isStaffRole where a Role is needed
   role: string;
   isEmailVerified: boolean;
   isPhoneVerified: boolean;
@@ -24,6 +28,7 @@ export interface AdminUser {
   createdAt: string;
   updatedAt: string;
   lastLogin?: string;
+  isTwoFactorEnabled?: boolean;
 }
 
 export interface LoginRequest {
@@ -39,16 +44,71 @@ export interface RegisterRequest {
   phone?: string;
 }
 
-export interface AuthResponse {
-  success: boolean;
-  message: string;
-  data: {
-    user: AdminUser;
-    token: string;
-    refreshToken: string;
+export interface AcceptInvitationRequest {
+  token: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+}
+
+export interface AuthSession {
+  user: AdminUser;
+  token: string;
+  refreshToken: string;
+}
+
+// Returned by login instead of a session when the account has 2FA enabled
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+export type AuthResponse<T = AuthSession> = ApiResponse<T>;
+
+export type LoginResponse = AuthResponse<AuthSession | TwoFactorChallenge>;
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // data URL of the otpauth QR code image
+}
+
+export interface AdminSession {
+  id: string;
+  device?: string;
+  browser?: string;
+  os?: string;
+  ipAddress: string;
+  location?: string;
+  createdAt: string;
+  lastActiveAt: string;
+  isCurrent: boolean;
+}
+
+// A customer-scoped token held next to (never instead of) the admin token while viewing as that customer
+export interface ImpersonationSession {
+  id: string;
+  token: string;
+  expiresAt: string;
+  customer: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
   };
 }
 
+export interface LogoutOptions {
+  // Revoke every session for this account, not just the current one
+  everywhere?: boolean;
+}
+
+export const isTwoFactorChallenge = (data: AuthSession | TwoFactorChallenge): data is TwoFactorChallenge =>
+  'twoFactorRequired' in data && data.twoFactorRequired === true;
+
 export interface ForgotPasswordRequest {
   email: string;
 }
@@ -58,52 +118,211 @@ export interface ResetPasswordRequest {
   password: string;
 }
 
+export const adminUserSchema: z.ZodType<AdminUser> = z.object({
+  id: z.string(),
+  email: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  role: z.string(),
+  isEmailVerified: z.boolean(),
+  isPhoneVerified: z.boolean(),
+  isActive: z.boolean(),
+  phone: z.string().optional(),
+  dateOfBirth: z.string().optional(),
+  gender: z.string().optional(),
+  profilePicture: z.string().optional(),
+  address: z
+    .object({
+      street: z.string().optional(),
+      city: z.string().optional(),
+      state: z.string().optional(),
+      country: z.string().optional(),
+      zipCode: z.string().optional(),
+    })
+    .optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  lastLogin: z.string().optional(),
+  isTwoFactorEnabled: z.boolean().optional(),
+});
+
+const authSessionSchema: z.ZodType<AuthSession> = z.object({
+  user: adminUserSchema,
+  token: z.string(),
+  refreshToken: z.string(),
+});
+
+const twoFactorChallengeSchema: z.ZodType<TwoFactorChallenge> = z.object({
+  twoFactorRequired: z.literal(true),
+  challengeToken: z.string(),
+});
+
+const twoFactorSetupSchema: z.ZodType<TwoFactorSetup> = z.object({
+  secret: z.string(),
+  otpauthUrl: z.string(),
+  qrCode: z.string(),
+});
+
+const recoveryCodesSchema = z.object({ recoveryCodes: z.array(z.string()) });
+
+const adminSessionSchema: z.ZodType<AdminSession> = z.object({
+  id: z.string(),
+  device: z.string().optional(),
+  browser: z.string().optional(),
+  os: z.string().optional(),
+  ipAddress: z.string(),
+  location: z.string().optional(),
+  createdAt: z.string(),
+  lastActiveAt: z.string(),
+  isCurrent: z.boolean(),
+});
+
+const impersonationSessionSchema: z.ZodType<ImpersonationSession> = z.object({
+  id: z.string(),
+  token: z.string(),
+  expiresAt: z.string(),
+  customer: z.object({
+    id: z.string(),
+    email: z.string(),
+    firstName: z.string(),
+    lastName: z.string(),
+  }),
+});
+
+const refreshResponseSchema = z.object({
+  token: z.string(),
+  refreshToken: z.string().optional(),
+});
+
 class AuthService {
   private readonly TOKEN_KEY = 'admin_token';
   private readonly USER_KEY = 'admin_user';
   private readonly REFRESH_TOKEN_KEY = 'admin_refresh_token';
+  private readonly IMPERSONATION_KEY = 'admin_impersonation';
 
   // Login admin user
-  async login(credentials: LoginRequest): Promise<AuthResponse> {
-    try {
-      const response = await api.post('/auth/login', credentials);
-      const { data } = response.data;
-
-      // Store tokens and user data
-      this.setToken(data.token);
-      this.setRefreshToken(data.refreshToken);
-      this.setUser(data.user);
+  async login(credentials: LoginRequest): Promise<LoginResponse> {
+    // A 401 here means bad credentials, not an expired session
+    const response = await request(
+      { method: 'post', url: '/auth/login', data: credentials, skipAuthRefresh: true, errorMessage: 'Login failed' },
+      z.union([authSessionSchema, twoFactorChallengeSchema])
+    );
 
-      return response.data;
-    } catch (error: any) {
-      throw new Error(error.response?.data?.error || 'Login failed');
+    // Tokens are only issued once the second factor is verified
+    if (!isTwoFactorChallenge(response.data)) {
+      this.setSession(response.data);
     }
+
+    return response;
   }
 
   // Register admin user
   async register(userData: RegisterRequest): Promise<AuthResponse> {
-    try {
-      const response = await api.post('/auth/register', {
-        ...userData,
-        role: 'admin', // Force admin role for admin panel
-      });
-      const { data } = response.data;
+    // The backend assigns the role; admin roles are only granted through invitations
+    const response = await request(
+      { method: 'post', url: '/auth/register', data: userData, errorMessage: 'Registration failed' },
+      authSessionSchema
+    );
+
+    this.setSession(response.data);
+    return response;
+  }
 
-      // Store tokens and user data
-      this.setToken(data.token);
-      this.setRefreshToken(data.refreshToken);
-      this.setUser(data.user);
+  // Create an account from an invitation and sign in with the invited role
+  async acceptInvitation(invitation: AcceptInvitationRequest): Promise<AuthResponse> {
+    const response = await request(
+      {
+        method: 'post',
+        url: '/auth/invitations/accept',
+        data: invitation,
+        skipAuthRefresh: true,
+        errorMessage: 'Failed to accept invitation',
+      },
+      authSessionSchema
+    );
+
+    this.setSession(response.data);
+    return response;
+  }
+
+  // Complete a login that was challenged for a second factor
+  async verifyTwoFactor(challengeToken: string, code: string, method: TwoFactorMethod): Promise<AuthResponse> {
+    const response = await request(
+      {
+        method: 'post',
+        url: '/auth/2fa/verify',
+        data: { challengeToken, code, method },
+        skipAuthRefresh: true,
+        errorMessage: 'Verification failed',
+      },
+      authSessionSchema
+    );
+
+    this.setSession(response.data);
+    return response;
+  }
+
+  // Start 2FA enrollment and get the authenticator secret
+  async setupTwoFactor(): Promise<TwoFactorSetup> {
+    return apiClient.post('/auth/2fa/setup', undefined, twoFactorSetupSchema, {
+      errorMessage: 'Failed to start two-factor setup',
+    });
+  }
+
+  // Confirm enrollment with a code from the authenticator app
+  async enableTwoFactor(code: string): Promise<string[]> {
+    const { recoveryCodes } = await apiClient.post('/auth/2fa/enable', { code }, recoveryCodesSchema, {
+      errorMessage: 'Failed to enable two-factor authentication',
+    });
+    return recoveryCodes;
+  }
+
+  // Turn off 2FA, requires the account password
+  async disableTwoFactor(password: string): Promise<void> {
+    await apiClient.post('/auth/2fa/disable', { password }, emptySchema, {
+      errorMessage: 'Failed to disable two-factor authentication',
+    });
+  }
+
+  // Replace the recovery codes, invalidating the previous set
+  async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const { recoveryCodes } = await apiClient.post('/auth/2fa/recovery-codes', { code }, recoveryCodesSchema, {
+      errorMessage: 'Failed to regenerate recovery codes',
+    });
+    return recoveryCodes;
+  }
 
-      return response.data;
-    } catch (error: any) {
-      throw new Error(error.response?.data?.error || 'Registration failed');
+  // Start viewing the store as a customer; the backend records the start in the audit trail
+  async startImpersonation(customerId: string): Promise<ImpersonationSession> {
+    const session = await apiClient.post(`/admin/users/${customerId}/impersonate`, undefined, impersonationSessionSchema, {
+      errorMessage: 'Failed to start impersonation',
+    });
+    this.setImpersonation(session);
+    return session;
+  }
+
+  // End the impersonation session so the stop is audited and the scoped token revoked
+  async stopImpersonation(): Promise<void> {
+    const session = this.getImpersonation();
+    if (!session) {
+      return;
+    }
+
+    try {
+      await apiClient.post(`/admin/impersonation/${session.id}/end`, undefined, emptySchema);
+    } catch (error) {
+      // The scoped token expires on its own, so drop it locally regardless
+      console.error('Failed to end impersonation:', error);
+    } finally {
+      this.clearImpersonation();
     }
   }
 
   // Logout admin user
-  async logout(): Promise<void> {
+  async logout(options: LogoutOptions = {}): Promise<void> {
     try {
-      await api.post('/auth/logout');
+      await this.stopImpersonation();
+      await apiClient.post('/auth/logout', { allSessions: !!options.everywhere }, emptySchema);
     } catch (error) {
       // Continue with logout even if API call fails
       console.error('Logout API call failed:', error);
@@ -112,24 +331,107 @@ class AuthService {
     }
   }
 
+  // List the devices this account is signed in on
+  async getSessions(): Promise<AdminSession[]> {
+    return apiClient.get('/auth/sessions', z.array(adminSessionSchema), {
+      errorMessage: 'Failed to load sessions',
+    });
+  }
+
+  // Sign out a single other device
+  async revokeSession(sessionId: string): Promise<void> {
+    await apiClient.delete(`/auth/sessions/${sessionId}`, emptySchema, {
+      errorMessage: 'Failed to revoke session',
+    });
+  }
+
+  // Sign out every device except this one
+  async revokeOtherSessions(): Promise<void> {
+    await apiClient.post('/auth/sessions/revoke-others', undefined, emptySchema, {
+      errorMessage: 'Failed to revoke sessions',
+    });
+  }
+
+  // Change the password of the signed-in user
+  async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+    await apiClient.post('/auth/change-password', { currentPassword, newPassword }, emptySchema, {
+      errorMessage: 'Failed to change password',
+    });
+  }
+
   // Forgot password
-  async forgotPassword(email: string): Promise<{ success: boolean; message: string }> {
+  async forgotPassword(email: string): Promise<AuthResponse<unknown>> {
+    return request(
+      { method: 'post', url: '/auth/forgot-password', data: { email }, errorMessage: 'Failed to send reset email' },
+      emptySchema
+    );
+  }
+
+  // Check that a password reset link is still usable before asking for a new password
+  async validateResetToken(token: string): Promise<boolean> {
     try {
-      const response = await api.post('/auth/forgot-password', { email });
-      return response.data;
-    } catch (error: any) {
-      throw new Error(error.response?.data?.error || 'Failed to send reset email');
+      await apiClient.get('/auth/reset-password/validate', emptySchema, {
+        params: { token },
+        skipAuthRefresh: true,
+        errorMessage: 'Failed to verify reset link',
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof ApiError && error.status !== null && error.status < 500) {
+        return false;
+      }
+      throw error;
     }
   }
 
-  // Reset password
-  async resetPassword(token: string, password: string): Promise<{ success: boolean; message: string }> {
-    try {
-      const response = await api.post('/auth/reset-password', { token, password });
-      return response.data;
-    } catch (error: any) {
-      throw new Error(error.response?.data?.error || 'Failed to reset password');
+  // Reset password. The backend may sign the user straight in by returning a session.
+  async resetPassword(token: string, password: string): Promise<AuthResponse<AuthSession | null>> {
+    const response = await request(
+      {
+        method: 'post',
+        url: '/auth/reset-password',
+        data: { token, password },
+        skipAuthRefresh: true,
+        errorMessage: 'Failed to reset password',
+      },
+      authSessionSchema.nullish().catch(null)
+    );
+    const session = response.data ?? null;
+
+    if (session) {
+      this.setSession(session);
     }
+
+    return { ...response, data: session };
+  }
+
+  // Confirm an email address from the emailed verification link
+  async verifyEmail(token: string): Promise<void> {
+    await apiClient.post('/auth/verify-email', { token }, emptySchema, {
+      skipAuthRefresh: true,
+      errorMessage: 'Failed to verify email',
+    });
+  }
+
+  // Send a new verification link to the signed-in user's email
+  async resendEmailVerification(): Promise<void> {
+    await apiClient.post('/auth/resend-verification', undefined, emptySchema, {
+      errorMessage: 'Failed to resend verification email',
+    });
+  }
+
+  // Text a one-time code to the signed-in user's phone number
+  async sendPhoneVerificationCode(): Promise<void> {
+    await apiClient.post('/auth/phone/send-code', undefined, emptySchema, {
+      errorMessage: 'Failed to send verification code',
+    });
+  }
+
+  // Confirm the phone number with the texted code
+  async verifyPhone(code: string): Promise<void> {
+    await apiClient.post('/auth/phone/verify', { code }, emptySchema, {
+      errorMessage: 'Failed to verify phone number',
+    });
   }
 
   // Refresh token
@@ -140,39 +442,40 @@ class AuthService {
         throw new Error('No refresh token available');
       }
 
-      const response = await api.post('/auth/refresh', { refreshToken });
-      const { token } = response.data.data;
-      
+      const { token, refreshToken: rotatedRefreshToken } = await apiClient.post(
+        '/auth/refresh',
+        { refreshToken },
+        refreshResponseSchema,
+        { skipAuthRefresh: true }
+      );
+
       this.setToken(token);
+      if (rotatedRefreshToken) {
+        this.setRefreshToken(rotatedRefreshToken);
+      }
       return token;
-    } catch (error: any) {
+    } catch {
       this.clearAuth();
-      throw new Error('Token refresh failed');
+      throw new ApiError('Token refresh failed', { status: 401 });
     }
   }
 
   // Get current user
   async getCurrentUser(): Promise<AdminUser> {
-    try {
-      const response = await api.get('/users/profile');
-      const user = response.data.data;
-      this.setUser(user);
-      return user;
-    } catch (error: any) {
-      throw new Error(error.response?.data?.error || 'Failed to get user profile');
-    }
+    const user = await apiClient.get('/users/profile', adminUserSchema, {
+      errorMessage: 'Failed to get user profile',
+    });
+    this.setUser(user);
+    return user;
   }
 
   // Update user profile
   async updateProfile(userData: Partial<AdminUser>): Promise<AdminUser> {
-    try {
-      const response = await api.put('/users/profile', userData);
-      const user = response.data.data;
-      this.setUser(user);
-      return user;
-    } catch (error: any) {
-      throw new Error(error.response?.data?.error || 'Failed to update profile');
-    }
+    const user = await apiClient.put('/users/profile', userData, adminUserSchema, {
+      errorMessage: 'Failed to update profile',
+    });
+    this.setUser(user);
+    return user;
   }
 
   // Check if user is authenticated
@@ -182,10 +485,10 @@ class AuthService {
     return !!(token && user);
   }
 
-  // Check if user is admin
+  // Check if user holds any admin panel role
   isAdmin(): boolean {
     const user = this.getUser();
-    return user?.role === 'admin';
+    return isStaffRole(user?.role);
   }
 
   // Token management
@@ -221,12 +524,50 @@ class AuthService {
     }
   }
 
+  // Impersonation management
+  setImpersonation(session: ImpersonationSession): void {
+    Cookies.set(this.IMPERSONATION_KEY, JSON.stringify(session), {
+      expires: new Date(session.expiresAt),
+      secure: true,
+      sameSite: 'strict',
+    });
+  }
+
+  getImpersonation(): ImpersonationSession | null {
+    const sessionStr = Cookies.get(this.IMPERSONATION_KEY);
+    if (!sessionStr) return null;
+
+    try {
+      const session = impersonationSessionSchema.parse(JSON.parse(sessionStr));
+      return new Date(session.expiresAt) > new Date() ? session : null;
+    } catch {
+      return null;
+    }
+  }
+
+  clearImpersonation(): void {
+    Cookies.remove(this.IMPERSONATION_KEY);
+  }
+
+  // Store the tokens and user from a successful sign-in
+  setSession(session: AuthSession): void {
+    this.setToken(session.token);
+    this.setRefreshToken(session.refreshToken);
+    this.setUser(session.user);
+  }
+
   // Clear all auth data
   clearAuth(): void {
     Cookies.remove(this.TOKEN_KEY);
     Cookies.remove(this.USER_KEY);
     Cookies.remove(this.REFRESH_TOKEN_KEY);
+    Cookies.remove(this.IMPERSONATION_KEY);
   }
 }
 
-export default new AuthService();
+const authService = new AuthService();
+
+// Let the API client renew expired access tokens through the refresh endpoint
+setRefreshHandler(() => authService.refreshToken());
+
+export default authService;
@@ -0,0 +1,397 @@
+import { z } from 'zod';
+import apiClient, { emptySchema } from './apiClient';
+import { Category, PRODUCT_STATUSES, Product, productSchema } from './products';
+
+export const SEO_TITLE_MAX_LENGTH = 70;
+export const SEO_DESCRIPTION_MAX_LENGTH = 160;
+
+export interface CategoryDetail extends Category {
+  parentId: string | null;
+  slug: string;
+  description: string;
+  imageUrl: string | null;
+  seoTitle: string;
+  seoDescription: string;
+  // Order among siblings, starting at 0
+  position: number;
+  productCount: number;
+}
+
+export interface CategoryNode extends CategoryDetail {
+  children: CategoryNode[];
+}
+
+export interface CategoryInput {
+  name: string;
+  slug: string;
+  parentId: string | null;
+  description: string;
+  imageUrl: string | null;
+  seoTitle: string;
+  seoDescription: string;
+}
+
+// Where a category is dropped: under parentId, at this index among its new siblings
+export interface CategoryMove {
+  parentId: string | null;
+  position: number;
+}
+
+export const COLLECTION_RULE_FIELDS = ['tag', 'title', 'category', 'status', 'price', 'inventory'] as const;
+
+export type CollectionRuleField = (typeof COLLECTION_RULE_FIELDS)[number];
+
+export const COLLECTION_RULE_FIELD_LABELS: Record<CollectionRuleField, string> = {
+  tag: 'Tag',
+  title: 'Title',
+  category: 'Category',
+  status: 'Status',
+  price: 'Price',
+  inventory: 'Inventory',
+};
+
+export const COLLECTION_RULE_OPERATORS = [
+  'equals',
+  'not_equals',
+  'contains',
+  'not_contains',
+  'greater_than',
+  'less_than',
+] as const;
+
+export type CollectionRuleOperator = (typeof COLLECTION_RULE_OPERATORS)[number];
+
+export const COLLECTION_RULE_OPERATOR_LABELS: Record<CollectionRuleOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  contains: 'contains',
+  not_contains: 'does not contain',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+};
+
+// Operators that make sense for each field, the first being the default
+export const FIELD_OPERATORS: Record<CollectionRuleField, CollectionRuleOperator[]> = {
+  tag: ['equals', 'not_equals'],
+  title: ['contains', 'not_contains', 'equals'],
+  category: ['equals', 'not_equals'],
+  status: ['equals', 'not_equals'],
+  price: ['less_than', 'greater_than', 'equals'],
+  inventory: ['less_than', 'greater_than'],
+};
+
+export const NUMERIC_RULE_FIELDS: CollectionRuleField[] = ['price', 'inventory'];
+
+// Match every rule (AND) or at least one (OR)
+export type CollectionMatch = 'all' | 'any';
+
+// Values are kept as strings, as typed; numeric fields are checked by the form schema
+export interface CollectionRule {
+  field: CollectionRuleField;
+  operator: CollectionRuleOperator;
+  value: string;
+}
+
+export interface Collection {
+  id: string;
+  title: string;
+  slug: string;
+  description: string;
+  match: CollectionMatch;
+  rules: CollectionRule[];
+  seoTitle: string;
+  seoDescription: string;
+  productCount: number;
+  updatedAt: string;
+}
+
+export type CollectionInput = Omit<Collection, 'id' | 'productCount' | 'updatedAt'>;
+
+export interface CollectionPreview {
+  count: number;
+  // The first few matching products
+  sample: Product[];
+}
+
+const categoryDetailSchema: z.ZodType<CategoryDetail> = z.object({
+  id: z.string(),
+  name: z.string(),
+  parentId: z.string().nullable(),
+  slug: z.string(),
+  description: z.string(),
+  imageUrl: z.string().nullable(),
+  seoTitle: z.string(),
+  seoDescription: z.string(),
+  position: z.number(),
+  productCount: z.number(),
+});
+
+const collectionRuleSchema: z.ZodType<CollectionRule> = z.object({
+  field: z.enum(COLLECTION_RULE_FIELDS),
+  operator: z.enum(COLLECTION_RULE_OPERATORS),
+  value: z.string(),
+});
+
+const collectionSchema: z.ZodType<Collection> = z.object({
+  id: z.string(),
+  title: z.string(),
+  slug: z.string(),
+  description: z.string(),
+  match: z.enum(['all', 'any']),
+  rules: z.array(collectionRuleSchema),
+  seoTitle: z.string(),
+  seoDescription: z.string(),
+  productCount: z.number(),
+  updatedAt: z.string(),
+});
+
+const collectionPreviewSchema: z.ZodType<CollectionPreview> = z.object({
+  count: z.number(),
+  sample: z.array(productSchema),
+});
+
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// Lowercase words joined by dashes, e.g. "Summer Sale!" becomes "summer-sale"
+export const slugify = (value: string): string =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+const slugField = z
+  .string()
+  .trim()
+  .min(1, 'Slug is required')
+  .regex(SLUG_PATTERN, 'Use lowercase letters, numbers and single dashes');
+
+const seoFields = {
+  seoTitle: z.string().trim().max(SEO_TITLE_MAX_LENGTH, `Keep the SEO title to ${SEO_TITLE_MAX_LENGTH} characters`),
+  seoDescription: z
+    .string()
+    .trim()
+    .max(SEO_DESCRIPTION_MAX_LENGTH, `Keep the SEO description to ${SEO_DESCRIPTION_MAX_LENGTH} characters`),
+};
+
+export const categoryFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be 100 characters or fewer'),
+  slug: slugField,
+  parentId: z.string(),
+  description: z.string().trim().max(5000, 'Description must be 5000 characters or fewer'),
+  imageUrl: z.string(),
+  ...seoFields,
+});
+
+export type CategoryFormValues = z.infer<typeof categoryFormSchema>;
+
+export const EMPTY_CATEGORY_FORM: CategoryFormValues = {
+  name: '',
+  slug: '',
+  parentId: '',
+  description: '',
+  imageUrl: '',
+  seoTitle: '',
+  seoDescription: '',
+};
+
+export const toCategoryFormValues = (category: CategoryDetail): CategoryFormValues => ({
+  name: category.name,
+  slug: category.slug,
+  parentId: category.parentId ?? '',
+  description: category.description,
+  imageUrl: category.imageUrl ?? '',
+  seoTitle: category.seoTitle,
+  seoDescription: category.seoDescription,
+});
+
+export const toCategoryInput = (values: CategoryFormValues): CategoryInput => ({
+  ...values,
+  parentId: values.parentId || null,
+  imageUrl: values.imageUrl || null,
+});
+
+const collectionRuleFormSchema = z
+  .object({
+    field: z.enum(COLLECTION_RULE_FIELDS),
+    operator: z.enum(COLLECTION_RULE_OPERATORS),
+    value: z.string().trim().min(1, 'Enter a value'),
+  })
+  .refine((rule) => FIELD_OPERATORS[rule.field].includes(rule.operator), {
+    message: 'Pick a condition',
+    path: ['operator'],
+  })
+  .refine((rule) => !NUMERIC_RULE_FIELDS.includes(rule.field) || /^\d+(\.\d{1,2})?$/.test(rule.value), {
+    message: 'Enter a number',
+    path: ['value'],
+  })
+  .refine((rule) => rule.field !== 'status' || (PRODUCT_STATUSES as readonly string[]).includes(rule.value), {
+    message: 'Pick a status',
+    path: ['value'],
+  });
+
+export const collectionFormSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200, 'Title must be 200 characters or fewer'),
+  slug: slugField,
+  description: z.string().trim().max(5000, 'Description must be 5000 characters or fewer'),
+  match: z.enum(['all', 'any']),
+  rules: z.array(collectionRuleFormSchema).min(1, 'Add at least one rule'),
+  ...seoFields,
+});
+
+export type CollectionFormValues = z.infer<typeof collectionFormSchema>;
+
+export const EMPTY_COLLECTION_RULE: CollectionRule = { field: 'tag', operator: 'equals', value: '' };
+
+export const EMPTY_COLLECTION_FORM: CollectionFormValues = {
+  title: '',
+  slug: '',
+  description: '',
+  match: 'all',
+  rules: [EMPTY_COLLECTION_RULE],
+  seoTitle: '',
+  seoDescription: '',
+};
+
+export const toCollectionFormValues = (collection: Collection): CollectionFormValues => ({
+  title: collection.title,
+  slug: collection.slug,
+  description: collection.description,
+  match: collection.match,
+  rules: collection.rules,
+  seoTitle: collection.seoTitle,
+  seoDescription: collection.seoDescription,
+});
+
+// Nest a flat category list by parentId, ordering siblings by position
+export const buildCategoryTree = (categories: CategoryDetail[]): CategoryNode[] => {
+  const nodes = new Map<string, CategoryNode>(categories.map((category) => [category.id, { ...category, children: [] }]));
+  const roots: CategoryNode[] = [];
+
+  nodes.forEach((node) => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    // Orphans whose parent is missing are shown at the top level rather than hidden
+    (parent ? parent.children : roots).push(node);
+  });
+
+  const sortLevel = (level: CategoryNode[]) => {
+    level.sort((a, b) => a.position - b.position);
+    level.forEach((node) => sortLevel(node.children));
+  };
+  sortLevel(roots);
+
+  return roots;
+};
+
+// True when candidateId is categoryId itself or sits somewhere below it
+export const isSelfOrDescendant = (
+  categories: CategoryDetail[],
+  categoryId: string,
+  candidateId: string | null
+): boolean => {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  let currentId = candidateId;
+
+  while (currentId) {
+    if (currentId === categoryId) {
+      return true;
+    }
+    currentId = byId.get(currentId)?.parentId ?? null;
+  }
+
+  return false;
+};
+
+// Category names with their ancestors, e.g. "Clothing › Shirts", in tree order
+export const getCategoryPaths = (categories: CategoryDetail[]): { id: string; path: string }[] => {
+  const paths: { id: string; path: string }[] = [];
+
+  const walk = (level: CategoryNode[], prefix: string) => {
+    level.forEach((node) => {
+      const path = prefix ? `${prefix} › ${node.name}` : node.name;
+      paths.push({ id: node.id, path });
+      walk(node.children, path);
+    });
+  };
+  walk(buildCategoryTree(categories), '');
+
+  return paths;
+};
+
+class CatalogService {
+  // Every category as a flat list; use buildCategoryTree to nest it
+  async getCategories(): Promise<CategoryDetail[]> {
+    return apiClient.get('/admin/categories', z.array(categoryDetailSchema), {
+      errorMessage: 'Failed to load categories',
+    });
+  }
+
+  async createCategory(input: CategoryInput): Promise<CategoryDetail> {
+    return apiClient.post('/admin/categories', input, categoryDetailSchema, {
+      errorMessage: 'Failed to create category',
+    });
+  }
+
+  async updateCategory(categoryId: string, input: CategoryInput): Promise<CategoryDetail> {
+    return apiClient.put(`/admin/categories/${categoryId}`, input, categoryDetailSchema, {
+      errorMessage: 'Failed to update category',
+    });
+  }
+
+  // Reparent or reorder; siblings shift around it, so the whole updated list comes back
+  async moveCategory(categoryId: string, move: CategoryMove): Promise<CategoryDetail[]> {
+    return apiClient.patch(`/admin/categories/${categoryId}/position`, move, z.array(categoryDetailSchema), {
+      errorMessage: 'Failed to move category',
+    });
+  }
+
+  // Products keep their other categories; child categories move up to the deleted category's parent
+  async deleteCategory(categoryId: string): Promise<void> {
+    await apiClient.delete(`/admin/categories/${categoryId}`, emptySchema, {
+      errorMessage: 'Failed to delete category',
+    });
+  }
+
+  async getCollections(): Promise<Collection[]> {
+    return apiClient.get('/admin/collections', z.array(collectionSchema), {
+      errorMessage: 'Failed to load collections',
+    });
+  }
+
+  async getCollection(collectionId: string): Promise<Collection> {
+    return apiClient.get(`/admin/collections/${collectionId}`, collectionSchema, {
+      errorMessage: 'Failed to load collection',
+    });
+  }
+
+  async createCollection(input: CollectionInput): Promise<Collection> {
+    return apiClient.post('/admin/collections', input, collectionSchema, {
+      errorMessage: 'Failed to create collection',
+    });
+  }
+
+  async updateCollection(collectionId: string, input: CollectionInput): Promise<Collection> {
+    return apiClient.put(`/admin/collections/${collectionId}`, input, collectionSchema, {
+      errorMessage: 'Failed to update collection',
+    });
+  }
+
+  async deleteCollection(collectionId: string): Promise<void> {
+    await apiClient.delete(`/admin/collections/${collectionId}`, emptySchema, {
+      errorMessage: 'Failed to delete collection',
+    });
+  }
+
+  // Count the products the rules would match right now, without saving anything
+  async previewCollection(match: CollectionMatch, rules: CollectionRule[], signal?: AbortSignal): Promise<CollectionPreview> {
+    return apiClient.post('/admin/collections/preview', { match, rules }, collectionPreviewSchema, {
+      signal,
+      errorMessage: 'Failed to preview collection',
+    });
+  }
+}
+
+const catalogService = new CatalogService();
+
+export default catalogService;
@@ -0,0 +1,9 @@
+// Self-service sign-up at /auth/register. Off by default: new admins join through invitations.
+export const isOpenRegistrationEnabled = process.env.NEXT_PUBLIC_ALLOW_OPEN_REGISTRATION === 'true';
+
+// Customer-facing store, opened in a new tab when staff view the store as a customer
+export const storefrontUrl = process.env.NEXT_PUBLIC_STOREFRONT_URL || '';
+
+// The token goes in the fragment so it never reaches server logs or Referer headers
+export const getStorefrontImpersonationUrl = (token: string): string =>
+  `${storefrontUrl}/impersonate#token=${encodeURIComponent(token)}`;
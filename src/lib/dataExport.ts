@@ -0,0 +1,86 @@
+import { ApiError, PaginatedList } from './apiClient';
+import { toCsv } from './spreadsheet';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (.xlsx)',
+  json: 'JSON',
+};
+
+// 'filtered' exports what the list currently shows across all its pages; 'all' ignores the filters
+export type ExportScope = 'filtered' | 'all';
+
+// Records are fetched one page at a time so a large export never sits in a single request
+export const EXPORT_PAGE_SIZE = 250;
+
+export const EXPORT_MAX_ROWS = 50000;
+
+export type ExportValue = string | number | boolean | null;
+
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  value: (row: T) => ExportValue;
+  // Columns are selected by default unless this is false
+  defaultSelected?: boolean;
+}
+
+export type ExportPageFetcher<T> = (page: number, pageSize: number) => Promise<PaginatedList<T>>;
+
+interface FetchAllOptions {
+  onProgress: (loaded: number, total: number) => void;
+  signal: AbortSignal;
+}
+
+// Walk every page of a list; checks the signal between pages so a cancel stops after the current request
+export const fetchAllPages = async <T>(fetchPage: ExportPageFetcher<T>, { onProgress, signal }: FetchAllOptions): Promise<T[]> => {
+  const rows: T[] = [];
+
+  for (let page = 1; ; page++) {
+    if (signal.aborted) {
+      throw new ApiError('Export was canceled', { code: 'CANCELED' });
+    }
+
+    const list = await fetchPage(page, EXPORT_PAGE_SIZE);
+    if (list.total > EXPORT_MAX_ROWS) {
+      throw new ApiError(`That is ${list.total} records. Narrow the filters to export at most ${EXPORT_MAX_ROWS} at a time.`);
+    }
+
+    rows.push(...list.items);
+    onProgress(rows.length, list.total);
+
+    if (list.items.length < EXPORT_PAGE_SIZE || rows.length >= list.total) {
+      return rows;
+    }
+  }
+};
+
+export const buildExportFile = async <T>(rows: T[], columns: ExportColumn<T>[], format: ExportFormat): Promise<Blob> => {
+  if (format === 'json') {
+    const records = rows.map((row) => Object.fromEntries(columns.map((column) => [column.key, column.value(row)])));
+    return new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' });
+  }
+
+  const headers = columns.map((column) => column.label);
+  const values = rows.map((row) => columns.map((column) => column.value(row)));
+
+  if (format === 'csv') {
+    // The byte order mark makes Excel read the file as UTF-8; customer-entered text must not run as a formula
+    return new Blob(['\uFEFF', toCsv(headers, values, { escapeFormulae: true })], { type: 'text/csv' });
+  }
+
+  // Loaded on demand; only XLSX exports need the writer
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  return writeXlsxFile([
+    headers.map((header) => ({ value: header, fontWeight: 'bold' as const })),
+    ...values.map((row) => row.map((value) => (value === null || value === '' ? null : value))),
+  ]).toBlob();
+};
+
+// e.g. orders-2024-05-01.csv
+export const getExportFilename = (prefix: string, format: ExportFormat): string =>
+  `${prefix}-${new Date().toISOString().slice(0, 10)}.${format}`;
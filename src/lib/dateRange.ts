@@ -0,0 +1,98 @@
+export type DateRangePreset = 'today' | '7d' | '30d' | 'custom';
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: 'today', label: 'Today' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: 'custom', label: 'Custom' },
+];
+
+// What the picker holds; custom bounds are date input values (YYYY-MM-DD)
+export interface DateRangeSelection {
+  preset: DateRangePreset;
+  customFrom?: string;
+  customTo?: string;
+}
+
+// Half-open interval in local time: from is inclusive, to is exclusive
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const toDateInputValue = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Parse a date input value as local midnight (Date.parse would treat it as UTC)
+export const parseDateInputValue = (value: string | undefined): Date | null => {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Returns an error message for an unusable custom range, or null when it is valid
+export const validateCustomRange = (customFrom: string | undefined, customTo: string | undefined): string | null => {
+  const from = parseDateInputValue(customFrom);
+  const to = parseDateInputValue(customTo);
+
+  if (!from || !to) {
+    return 'Choose a start and end date';
+  }
+  if (from > to) {
+    return 'Start date must be on or before the end date';
+  }
+  if (to > startOfDay(new Date())) {
+    return 'End date cannot be in the future';
+  }
+  return null;
+};
+
+// Turn a selection into concrete bounds, or null while a custom range is incomplete
+export const resolveDateRange = (selection: DateRangeSelection, now: Date = new Date()): DateRange | null => {
+  const tomorrow = addDays(startOfDay(now), 1);
+
+  switch (selection.preset) {
+    case 'today':
+      return { from: startOfDay(now), to: tomorrow };
+    case '7d':
+      return { from: addDays(tomorrow, -7), to: tomorrow };
+    case '30d':
+      return { from: addDays(tomorrow, -30), to: tomorrow };
+    case 'custom': {
+      if (validateCustomRange(selection.customFrom, selection.customTo)) {
+        return null;
+      }
+      const from = parseDateInputValue(selection.customFrom) as Date;
+      const to = parseDateInputValue(selection.customTo) as Date;
+      return { from, to: addDays(to, 1) };
+    }
+  }
+};
+
+export const getRangeDays = (range: DateRange): number =>
+  Math.round((range.to.getTime() - range.from.getTime()) / DAY_MS);
+
+// The period of equal length immediately before the range
+export const getPreviousRange = (range: DateRange): DateRange => ({
+  from: addDays(range.from, -getRangeDays(range)),
+  to: range.from,
+});
+
+export const getComparisonLabel = (range: DateRange): string => {
+  const days = getRangeDays(range);
+  return days === 1 ? 'vs previous day' : `vs previous ${days} days`;
+};
@@ -0,0 +1,501 @@
+import { z } from 'zod';
+import apiClient, { emptySchema, PaginatedList, paginatedSchema, SortOrder } from './apiClient';
+import { formatCurrency } from './format';
+
+export const DISCOUNT_TYPES = ['percentage', 'fixed_amount', 'free_shipping', 'buy_x_get_y'] as const;
+
+export type DiscountType = (typeof DISCOUNT_TYPES)[number];
+
+export const DISCOUNT_TYPE_LABELS: Record<DiscountType, string> = {
+  percentage: 'Percentage off',
+  fixed_amount: 'Fixed amount off',
+  free_shipping: 'Free shipping',
+  buy_x_get_y: 'Buy X get Y',
+};
+
+// Code discounts apply when a customer enters one of their codes; automatic ones apply to every qualifying cart
+export const DISCOUNT_METHODS = ['code', 'automatic'] as const;
+
+export type DiscountMethod = (typeof DISCOUNT_METHODS)[number];
+
+export const DISCOUNT_METHOD_LABELS: Record<DiscountMethod, string> = {
+  code: 'Discount code',
+  automatic: 'Automatic',
+};
+
+export const DISCOUNT_STATUSES = ['active', 'scheduled', 'expired', 'disabled'] as const;
+
+export type DiscountStatus = (typeof DISCOUNT_STATUSES)[number];
+
+export const DISCOUNT_STATUS_LABELS: Record<DiscountStatus, string> = {
+  active: 'Active',
+  scheduled: 'Scheduled',
+  expired: 'Expired',
+  disabled: 'Disabled',
+};
+
+export const DISCOUNT_TARGETS = ['all', 'products', 'collections'] as const;
+
+export type DiscountTarget = (typeof DISCOUNT_TARGETS)[number];
+
+export const DISCOUNT_TARGET_LABELS: Record<DiscountTarget, string> = {
+  all: 'All products',
+  products: 'Specific products',
+  collections: 'Specific collections',
+};
+
+// Codes are stored upper-case and matched without case at checkout
+const CODE_PATTERN = /^[A-Z0-9_-]+$/;
+
+export const CODE_MIN_LENGTH = 4;
+
+export const CODE_MAX_LENGTH = 32;
+
+export const BULK_CODE_MAX_COUNT = 10000;
+
+// Generated codes leave out characters that are easy to misread (0/O, 1/I/L)
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export interface DiscountItemRef {
+  id: string;
+  title: string;
+}
+
+export interface DiscountUsage {
+  // Each order redeems a discount once
+  orders: number;
+  customers: number;
+  discountTotal: number;
+  // Order totals after the discount
+  revenue: number;
+  lastUsedAt: string | null;
+}
+
+export interface Discount {
+  id: string;
+  title: string;
+  method: DiscountMethod;
+  type: DiscountType;
+  // Percent off for percentage discounts, amount off for fixed amounts; null for the other types
+  value: number | null;
+  // Buy X get Y only: the customer buys buyQuantity eligible items and gets getQuantity more at getDiscountPercent off
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  getDiscountPercent: number | null;
+  appliesTo: DiscountTarget;
+  products: DiscountItemRef[];
+  collections: DiscountItemRef[];
+  minimumOrderValue: number | null;
+  // Redemptions across every code; null means no limit
+  usageLimit: number | null;
+  perCustomerLimit: number | null;
+  startsAt: string;
+  endsAt: string | null;
+  isEnabled: boolean;
+  status: DiscountStatus;
+  codeCount: number;
+  usage: DiscountUsage;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DiscountCode {
+  id: string;
+  code: string;
+  usage: DiscountUsage;
+  createdAt: string;
+}
+
+export type DiscountSortField = 'title' | 'startsAt' | 'usage';
+
+export interface DiscountListParams {
+  page: number;
+  pageSize: number;
+  sortBy: DiscountSortField;
+  sortOrder: SortOrder;
+  search?: string;
+  status?: DiscountStatus;
+  type?: DiscountType;
+  method?: DiscountMethod;
+}
+
+export type DiscountCodeSortField = 'code' | 'orders' | 'lastUsedAt';
+
+export interface DiscountCodeListParams {
+  page: number;
+  pageSize: number;
+  sortBy: DiscountCodeSortField;
+  sortOrder: SortOrder;
+  search?: string;
+}
+
+// Body for create and update; eligible products and collections are sent as ids
+export interface DiscountInput {
+  title: string;
+  method: DiscountMethod;
+  type: DiscountType;
+  value: number | null;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  getDiscountPercent: number | null;
+  appliesTo: DiscountTarget;
+  productIds: string[];
+  collectionIds: string[];
+  minimumOrderValue: number | null;
+  usageLimit: number | null;
+  perCustomerLimit: number | null;
+  startsAt: string;
+  endsAt: string | null;
+  // First code of a new code discount; more are added from the discount page
+  code?: string;
+}
+
+export interface BulkCodeInput {
+  count: number;
+  prefix: string;
+  // Random characters after the prefix
+  length: number;
+}
+
+const itemRefSchema: z.ZodType<DiscountItemRef> = z.object({
+  id: z.string(),
+  title: z.string(),
+});
+
+const usageSchema: z.ZodType<DiscountUsage> = z.object({
+  orders: z.number(),
+  customers: z.number(),
+  discountTotal: z.number(),
+  revenue: z.number(),
+  lastUsedAt: z.string().nullable(),
+});
+
+const discountSchema: z.ZodType<Discount> = z.object({
+  id: z.string(),
+  title: z.string(),
+  method: z.enum(DISCOUNT_METHODS),
+  type: z.enum(DISCOUNT_TYPES),
+  value: z.number().nullable(),
+  buyQuantity: z.number().nullable(),
+  getQuantity: z.number().nullable(),
+  getDiscountPercent: z.number().nullable(),
+  appliesTo: z.enum(DISCOUNT_TARGETS),
+  products: z.array(itemRefSchema),
+  collections: z.array(itemRefSchema),
+  minimumOrderValue: z.number().nullable(),
+  usageLimit: z.number().nullable(),
+  perCustomerLimit: z.number().nullable(),
+  startsAt: z.string(),
+  endsAt: z.string().nullable(),
+  isEnabled: z.boolean(),
+  status: z.enum(DISCOUNT_STATUSES),
+  codeCount: z.number(),
+  usage: usageSchema,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const discountCodeSchema: z.ZodType<DiscountCode> = z.object({
+  id: z.string(),
+  code: z.string(),
+  usage: usageSchema,
+  createdAt: z.string(),
+});
+
+const PRICE_PATTERN = /^\d+(\.\d{1,2})?$/;
+
+const WHOLE_NUMBER_PATTERN = /^\d+$/;
+
+export const normalizeCode = (code: string): string => code.trim().toUpperCase();
+
+export const codeSchema = z
+  .string()
+  .transform(normalizeCode)
+  .pipe(
+    z
+      .string()
+      .min(CODE_MIN_LENGTH, `Codes need at least ${CODE_MIN_LENGTH} characters`)
+      .max(CODE_MAX_LENGTH, `Codes can be at most ${CODE_MAX_LENGTH} characters`)
+      .regex(CODE_PATTERN, 'Use letters, numbers, dashes and underscores')
+  );
+
+export const generateDiscountCode = (length: number): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+};
+
+// datetime-local inputs hold local time without a zone, e.g. 2024-05-01T09:00
+export const toDateTimeInputValue = (iso: string): string => {
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(
+    date.getMinutes()
+  )}`;
+};
+
+const optionalPrice = z.string().trim().regex(PRICE_PATTERN, 'Enter an amount like 50.00').or(z.literal(''));
+
+const optionalLimit = z.string().trim().regex(WHOLE_NUMBER_PATTERN, 'Enter a whole number').or(z.literal(''));
+
+// Form values keep numbers and dates as strings; the fields that matter depend on the type, so they are checked together
+export const discountFormSchema = z
+  .object({
+    title: z.string().trim().min(1, 'Title is required').max(200, 'Title must be 200 characters or fewer'),
+    method: z.enum(DISCOUNT_METHODS),
+    code: z.string(),
+    type: z.enum(DISCOUNT_TYPES),
+    value: z.string().trim(),
+    buyQuantity: z.string().trim(),
+    getQuantity: z.string().trim(),
+    getDiscountPercent: z.string().trim(),
+    appliesTo: z.enum(DISCOUNT_TARGETS),
+    products: z.array(z.object({ id: z.string(), title: z.string() })),
+    collectionIds: z.array(z.string()),
+    minimumOrderValue: optionalPrice,
+    usageLimit: optionalLimit,
+    perCustomerLimit: optionalLimit,
+    startsAt: z.string().min(1, 'Start date is required'),
+    endsAt: z.string(),
+  })
+  .superRefine((values, ctx) => {
+    const issue = (path: string, message: string) => ctx.addIssue({ code: 'custom', path: [path], message });
+    const isPercent = (value: string) => PRICE_PATTERN.test(value) && Number(value) > 0 && Number(value) <= 100;
+    const isCount = (value: string) => WHOLE_NUMBER_PATTERN.test(value) && Number(value) > 0;
+
+    if (values.type === 'percentage' && !isPercent(values.value)) {
+      issue('value', 'Enter a percentage between 0 and 100');
+    }
+    if (values.type === 'fixed_amount' && !(PRICE_PATTERN.test(values.value) && Number(values.value) > 0)) {
+      issue('value', 'Enter an amount like 10.00');
+    }
+    if (values.type === 'buy_x_get_y') {
+      if (!isCount(values.buyQuantity)) {
+        issue('buyQuantity', 'Enter a quantity of at least 1');
+      }
+      if (!isCount(values.getQuantity)) {
+        issue('getQuantity', 'Enter a quantity of at least 1');
+      }
+      if (!isPercent(values.getDiscountPercent)) {
+        issue('getDiscountPercent', 'Enter a percentage between 0 and 100');
+      }
+    }
+
+    // Free shipping covers the whole order, so it has no eligible items
+    if (values.type !== 'free_shipping') {
+      if (values.appliesTo === 'products' && values.products.length === 0) {
+        issue('products', 'Add at least one product');
+      }
+      if (values.appliesTo === 'collections' && values.collectionIds.length === 0) {
+        issue('collectionIds', 'Pick at least one collection');
+      }
+    }
+
+    if (values.usageLimit && Number(values.usageLimit) === 0) {
+      issue('usageLimit', 'Leave blank for no limit');
+    }
+    if (values.perCustomerLimit && Number(values.perCustomerLimit) === 0) {
+      issue('perCustomerLimit', 'Leave blank for no limit');
+    }
+    if (values.usageLimit && values.perCustomerLimit && Number(values.perCustomerLimit) > Number(values.usageLimit)) {
+      issue('perCustomerLimit', 'Cannot be more than the total limit');
+    }
+
+    const startsAt = Date.parse(values.startsAt);
+    if (values.startsAt && Number.isNaN(startsAt)) {
+      issue('startsAt', 'Enter a valid date');
+    }
+    if (values.endsAt) {
+      const endsAt = Date.parse(values.endsAt);
+      if (Number.isNaN(endsAt)) {
+        issue('endsAt', 'Enter a valid date');
+      } else if (endsAt <= startsAt) {
+        issue('endsAt', 'End must be after the start');
+      }
+    }
+  });
+
+export type DiscountFormValues = z.infer<typeof discountFormSchema>;
+
+// New discounts start now and run until they are ended
+export const getEmptyDiscountForm = (): DiscountFormValues => ({
+  title: '',
+  method: 'code',
+  code: '',
+  type: 'percentage',
+  value: '',
+  buyQuantity: '',
+  getQuantity: '',
+  getDiscountPercent: '100',
+  appliesTo: 'all',
+  products: [],
+  collectionIds: [],
+  minimumOrderValue: '',
+  usageLimit: '',
+  perCustomerLimit: '',
+  startsAt: toDateTimeInputValue(new Date().toISOString()),
+  endsAt: '',
+});
+
+const toFormNumber = (value: number | null, fractionDigits = 0) => (value === null ? '' : value.toFixed(fractionDigits));
+
+// Percentages accept up to two decimals, so 12.5 stays "12.5" rather than rounding to "13"
+const toFormPercent = (value: number | null) => (value === null ? '' : String(Number(value.toFixed(2))));
+
+export const toDiscountFormValues = (discount: Discount): DiscountFormValues => ({
+  title: discount.title,
+  method: discount.method,
+  code: '',
+  type: discount.type,
+  value: discount.type === 'fixed_amount' ? toFormNumber(discount.value, 2) : toFormPercent(discount.value),
+  buyQuantity: toFormNumber(discount.buyQuantity),
+  getQuantity: toFormNumber(discount.getQuantity),
+  getDiscountPercent: toFormPercent(discount.getDiscountPercent),
+  appliesTo: discount.appliesTo,
+  products: discount.products,
+  collectionIds: discount.collections.map((collection) => collection.id),
+  minimumOrderValue: toFormNumber(discount.minimumOrderValue, 2),
+  usageLimit: toFormNumber(discount.usageLimit),
+  perCustomerLimit: toFormNumber(discount.perCustomerLimit),
+  startsAt: toDateTimeInputValue(discount.startsAt),
+  endsAt: discount.endsAt ? toDateTimeInputValue(discount.endsAt) : '',
+});
+
+const toNumberOrNull = (value: string) => (value ? Number(value) : null);
+
+// Fields that do not belong to the chosen type are cleared so stale values are not saved
+export const toDiscountInput = (values: DiscountFormValues): DiscountInput => {
+  const isBuyXGetY = values.type === 'buy_x_get_y';
+  const appliesTo = values.type === 'free_shipping' ? 'all' : values.appliesTo;
+
+  return {
+    title: values.title,
+    method: values.method,
+    type: values.type,
+    value: values.type === 'percentage' || values.type === 'fixed_amount' ? Number(values.value) : null,
+    buyQuantity: isBuyXGetY ? Number(values.buyQuantity) : null,
+    getQuantity: isBuyXGetY ? Number(values.getQuantity) : null,
+    getDiscountPercent: isBuyXGetY ? Number(values.getDiscountPercent) : null,
+    appliesTo,
+    productIds: appliesTo === 'products' ? values.products.map((product) => product.id) : [],
+    collectionIds: appliesTo === 'collections' ? values.collectionIds : [],
+    minimumOrderValue: toNumberOrNull(values.minimumOrderValue),
+    usageLimit: toNumberOrNull(values.usageLimit),
+    perCustomerLimit: toNumberOrNull(values.perCustomerLimit),
+    startsAt: new Date(values.startsAt).toISOString(),
+    endsAt: values.endsAt ? new Date(values.endsAt).toISOString() : null,
+  };
+};
+
+// One-line summary for lists, e.g. "20% off · Orders over $50.00"
+export const describeDiscount = (discount: Discount): string => {
+  const parts: string[] = [];
+
+  switch (discount.type) {
+    case 'percentage':
+      parts.push(`${discount.value}% off`);
+      break;
+    case 'fixed_amount':
+      parts.push(`${formatCurrency(discount.value ?? 0)} off`);
+      break;
+    case 'free_shipping':
+      parts.push('Free shipping');
+      break;
+    case 'buy_x_get_y':
+      parts.push(
+        `Buy ${discount.buyQuantity}, get ${discount.getQuantity} ${
+          discount.getDiscountPercent === 100 ? 'free' : `at ${discount.getDiscountPercent}% off`
+        }`
+      );
+      break;
+  }
+
+  if (discount.appliesTo === 'products') {
+    parts.push(`${discount.products.length} ${discount.products.length === 1 ? 'product' : 'products'}`);
+  } else if (discount.appliesTo === 'collections') {
+    parts.push(`${discount.collections.length} ${discount.collections.length === 1 ? 'collection' : 'collections'}`);
+  }
+  if (discount.minimumOrderValue !== null) {
+    parts.push(`Orders over ${formatCurrency(discount.minimumOrderValue)}`);
+  }
+
+  return parts.join(' · ');
+};
+
+class DiscountService {
+  // One page of discounts matching the filters
+  async getDiscounts(params: DiscountListParams): Promise<PaginatedList<Discount>> {
+    return apiClient.get('/admin/discounts', paginatedSchema(discountSchema), {
+      params,
+      errorMessage: 'Failed to load discounts',
+    });
+  }
+
+  async getDiscount(discountId: string): Promise<Discount> {
+    return apiClient.get(`/admin/discounts/${discountId}`, discountSchema, {
+      errorMessage: 'Failed to load discount',
+    });
+  }
+
+  async createDiscount(input: DiscountInput): Promise<Discount> {
+    return apiClient.post('/admin/discounts', input, discountSchema, {
+      errorMessage: 'Failed to create discount',
+    });
+  }
+
+  // The method and the codes are not changed here
+  async updateDiscount(discountId: string, input: Omit<DiscountInput, 'code'>): Promise<Discount> {
+    return apiClient.put(`/admin/discounts/${discountId}`, input, discountSchema, {
+      errorMessage: 'Failed to update discount',
+    });
+  }
+
+  // Pause or resume a discount without touching its schedule
+  async setEnabled(discountId: string, isEnabled: boolean): Promise<Discount> {
+    return apiClient.patch(`/admin/discounts/${discountId}`, { isEnabled }, discountSchema, {
+      errorMessage: isEnabled ? 'Failed to enable discount' : 'Failed to disable discount',
+    });
+  }
+
+  async deleteDiscount(discountId: string): Promise<void> {
+    await apiClient.delete(`/admin/discounts/${discountId}`, emptySchema, {
+      errorMessage: 'Failed to delete discount',
+    });
+  }
+
+  // Codes of a discount with the usage of each
+  async getCodes(discountId: string, params: DiscountCodeListParams): Promise<PaginatedList<DiscountCode>> {
+    return apiClient.get(`/admin/discounts/${discountId}/codes`, paginatedSchema(discountCodeSchema), {
+      params,
+      errorMessage: 'Failed to load discount codes',
+    });
+  }
+
+  // Codes are unique across every discount; a taken code comes back as a field error on "code"
+  async addCode(discountId: string, code: string): Promise<DiscountCode> {
+    return apiClient.post(`/admin/discounts/${discountId}/codes`, { code: normalizeCode(code) }, discountCodeSchema, {
+      errorMessage: 'Failed to add code',
+    });
+  }
+
+  // The server generates the codes so they are unique; returns how many were created
+  async generateCodes(discountId: string, input: BulkCodeInput): Promise<number> {
+    const { created } = await apiClient.post(
+      `/admin/discounts/${discountId}/codes/generate`,
+      { ...input, prefix: normalizeCode(input.prefix) },
+      z.object({ created: z.number() }),
+      { errorMessage: 'Failed to generate codes' }
+    );
+    return created;
+  }
+
+  // Past orders keep their discount; the code just stops working
+  async deleteCode(discountId: string, codeId: string): Promise<void> {
+    await apiClient.delete(`/admin/discounts/${discountId}/codes/${codeId}`, emptySchema, {
+      errorMessage: 'Failed to delete code',
+    });
+  }
+}
+
+const discountService = new DiscountService();
+
+export default discountService;
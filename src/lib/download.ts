@@ -0,0 +1,23 @@
+// Object URLs are revoked after a delay so the browser has time to start the download or load the tab
+const REVOKE_DELAY_MS = 60 * 1000;
+
+// Save a blob to disk under the given file name
+export const saveBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+// Open a blob (e.g. a PDF) in a new tab so it can be printed.
+// Returns false when a popup blocker stopped the tab from opening.
+export const openBlob = (blob: Blob): boolean => {
+  const url = URL.createObjectURL(blob);
+  const opened = window.open(url, '_blank');
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+  return opened !== null;
+};
@@ -0,0 +1,23 @@
+const numberFormatter = new Intl.NumberFormat('en-US');
+const compactFormatter = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 });
+const currencyFormatter = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+const compactCurrencyFormatter = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  notation: 'compact',
+  maximumFractionDigits: 1,
+});
+
+export const formatNumber = (value: number): string => numberFormatter.format(value);
+
+export const formatCurrency = (value: number): string => currencyFormatter.format(value);
+
+// Whole cents, so comparing money amounts does not trip over floating point error
+export const toCents = (amount: number): number => Math.round(amount * 100);
+
+// Short form for chart axes, e.g. 12.5K
+export const formatCompactNumber = (value: number): string => compactFormatter.format(value);
+
+export const formatCompactCurrency = (value: number): string => compactCurrencyFormatter.format(value);
+
+export const formatPercent = (value: number, fractionDigits = 1): string => `${value.toFixed(fractionDigits)}%`;
@@ -0,0 +1,243 @@
+import { z } from 'zod';
+import apiClient, { PaginatedList, paginatedSchema, SortOrder } from './apiClient';
+
+export const ADJUSTMENT_REASONS = ['received', 'damaged', 'correction'] as const;
+
+export type AdjustmentReason = (typeof ADJUSTMENT_REASONS)[number];
+
+export const ADJUSTMENT_REASON_LABELS: Record<AdjustmentReason, string> = {
+  received: 'Received',
+  damaged: 'Damaged',
+  correction: 'Correction',
+};
+
+// Ledger entries also come from transfers and from orders and returns elsewhere in the system
+export const LEDGER_REASONS = [...ADJUSTMENT_REASONS, 'transfer_in', 'transfer_out', 'sale', 'return'] as const;
+
+export type LedgerReason = (typeof LEDGER_REASONS)[number];
+
+export const LEDGER_REASON_LABELS: Record<LedgerReason, string> = {
+  ...ADJUSTMENT_REASON_LABELS,
+  transfer_in: 'Transfer in',
+  transfer_out: 'Transfer out',
+  sale: 'Sale',
+  return: 'Return',
+};
+
+export type StockStatus = 'in_stock' | 'low_stock' | 'out_of_stock';
+
+export const STOCK_STATUS_LABELS: Record<StockStatus, string> = {
+  in_stock: 'In stock',
+  low_stock: 'Low stock',
+  out_of_stock: 'Out of stock',
+};
+
+export interface Location {
+  id: string;
+  name: string;
+  code: string;
+  isActive: boolean;
+}
+
+// Reserved units are held by unfulfilled orders; available = onHand - reserved
+export interface LocationStock {
+  locationId: string;
+  onHand: number;
+  reserved: number;
+  available: number;
+}
+
+export interface InventoryItem {
+  id: string;
+  sku: string;
+  productId: string;
+  productTitle: string;
+  variantTitle: string | null;
+  levels: LocationStock[];
+  totalOnHand: number;
+  totalAvailable: number;
+  // Null uses the store-wide default
+  lowStockThreshold: number | null;
+  status: StockStatus;
+  updatedAt: string;
+}
+
+export interface LedgerEntry {
+  id: string;
+  locationId: string;
+  // Signed change in on-hand units
+  change: number;
+  balanceAfter: number;
+  reason: LedgerReason;
+  note: string;
+  actorName: string | null;
+  // Links both halves of a transfer, or the order or return behind a sale or return
+  reference: string | null;
+  createdAt: string;
+}
+
+export interface InventorySettings {
+  defaultLowStockThreshold: number;
+}
+
+export type InventorySortField = 'sku' | 'available' | 'updatedAt';
+
+// 'low' means at or below the threshold, which includes items that are out of stock
+export type StockFilter = 'low' | 'out';
+
+export interface InventoryListParams {
+  page: number;
+  pageSize: number;
+  sortBy: InventorySortField;
+  sortOrder: SortOrder;
+  search?: string;
+  locationId?: string;
+  stock?: StockFilter;
+}
+
+export interface StockAdjustmentInput {
+  locationId: string;
+  // Signed change; see toAdjustmentChange
+  change: number;
+  reason: AdjustmentReason;
+  note: string;
+}
+
+export interface StockTransferInput {
+  fromLocationId: string;
+  toLocationId: string;
+  quantity: number;
+  note: string;
+}
+
+const locationSchema: z.ZodType<Location> = z.object({
+  id: z.string(),
+  name: z.string(),
+  code: z.string(),
+  isActive: z.boolean(),
+});
+
+const locationStockSchema: z.ZodType<LocationStock> = z.object({
+  locationId: z.string(),
+  onHand: z.number(),
+  reserved: z.number(),
+  available: z.number(),
+});
+
+const inventoryItemSchema: z.ZodType<InventoryItem> = z.object({
+  id: z.string(),
+  sku: z.string(),
+  productId: z.string(),
+  productTitle: z.string(),
+  variantTitle: z.string().nullable(),
+  levels: z.array(locationStockSchema),
+  totalOnHand: z.number(),
+  totalAvailable: z.number(),
+  lowStockThreshold: z.number().nullable(),
+  status: z.enum(['in_stock', 'low_stock', 'out_of_stock']),
+  updatedAt: z.string(),
+});
+
+const ledgerEntrySchema: z.ZodType<LedgerEntry> = z.object({
+  id: z.string(),
+  locationId: z.string(),
+  change: z.number(),
+  balanceAfter: z.number(),
+  reason: z.enum(LEDGER_REASONS),
+  note: z.string(),
+  actorName: z.string().nullable(),
+  reference: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+const inventorySettingsSchema: z.ZodType<InventorySettings> = z.object({
+  defaultLowStockThreshold: z.number(),
+});
+
+// Received stock always adds and damaged stock always removes; corrections keep the sign as entered
+export const toAdjustmentChange = (reason: AdjustmentReason, quantity: number): number => {
+  if (reason === 'received') {
+    return Math.abs(quantity);
+  }
+  if (reason === 'damaged') {
+    return -Math.abs(quantity);
+  }
+  return quantity;
+};
+
+export const getLocationStock = (item: InventoryItem, locationId: string): LocationStock =>
+  item.levels.find((level) => level.locationId === locationId) ?? { locationId, onHand: 0, reserved: 0, available: 0 };
+
+class InventoryService {
+  async getLocations(): Promise<Location[]> {
+    return apiClient.get('/admin/inventory/locations', z.array(locationSchema), {
+      errorMessage: 'Failed to load locations',
+    });
+  }
+
+  // One page of stock items matching the filters
+  async getInventory(params: InventoryListParams): Promise<PaginatedList<InventoryItem>> {
+    return apiClient.get('/admin/inventory', paginatedSchema(inventoryItemSchema), {
+      params,
+      errorMessage: 'Failed to load inventory',
+    });
+  }
+
+  async getItem(itemId: string): Promise<InventoryItem> {
+    return apiClient.get(`/admin/inventory/${itemId}`, inventoryItemSchema, {
+      errorMessage: 'Failed to load inventory item',
+    });
+  }
+
+  // Items at or below their threshold, lowest availability first
+  async getLowStock(limit: number): Promise<PaginatedList<InventoryItem>> {
+    return apiClient.get('/admin/inventory', paginatedSchema(inventoryItemSchema), {
+      params: { page: 1, pageSize: limit, stock: 'low', sortBy: 'available', sortOrder: 'asc' },
+      errorMessage: 'Failed to load low stock items',
+    });
+  }
+
+  async adjustStock(itemId: string, input: StockAdjustmentInput): Promise<InventoryItem> {
+    return apiClient.post(`/admin/inventory/${itemId}/adjustments`, input, inventoryItemSchema, {
+      errorMessage: 'Failed to adjust stock',
+    });
+  }
+
+  // Moves on-hand units between locations; both sides land in the ledger
+  async transferStock(itemId: string, input: StockTransferInput): Promise<InventoryItem> {
+    return apiClient.post(`/admin/inventory/${itemId}/transfers`, input, inventoryItemSchema, {
+      errorMessage: 'Failed to transfer stock',
+    });
+  }
+
+  // Pass null to fall back to the store-wide default
+  async setThreshold(itemId: string, lowStockThreshold: number | null): Promise<InventoryItem> {
+    return apiClient.patch(`/admin/inventory/${itemId}`, { lowStockThreshold }, inventoryItemSchema, {
+      errorMessage: 'Failed to update threshold',
+    });
+  }
+
+  // Newest entries first
+  async getLedger(itemId: string, page: number, pageSize: number, locationId?: string): Promise<PaginatedList<LedgerEntry>> {
+    return apiClient.get(`/admin/inventory/${itemId}/ledger`, paginatedSchema(ledgerEntrySchema), {
+      params: { page, pageSize, locationId },
+      errorMessage: 'Failed to load stock history',
+    });
+  }
+
+  async getSettings(): Promise<InventorySettings> {
+    return apiClient.get('/admin/inventory/settings', inventorySettingsSchema, {
+      errorMessage: 'Failed to load inventory settings',
+    });
+  }
+
+  async updateSettings(settings: InventorySettings): Promise<InventorySettings> {
+    return apiClient.put('/admin/inventory/settings', settings, inventorySettingsSchema, {
+      errorMessage: 'Failed to save inventory settings',
+    });
+  }
+}
+
+const inventoryService = new InventoryService();
+
+export default inventoryService;
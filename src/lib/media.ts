@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import apiClient from './apiClient';
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+// Originals above this are rejected before we spend time resizing them
+export const MAX_SOURCE_BYTES = 20 * 1024 * 1024;
+// Limit enforced by the backend on the file that is actually uploaded
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+export const MAX_IMAGE_DIMENSION = 2048;
+export const MAX_GALLERY_IMAGES = 20;
+
+// GIFs may be animated and would lose their frames on a canvas round trip
+const RESIZABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const RECOMPRESS_THRESHOLD_BYTES = 1024 * 1024;
+
+export interface MediaAsset {
+  id: string;
+  url: string;
+  alt: string;
+  width: number;
+  height: number;
+  size: number;
+  mimeType: string;
+  createdAt: string;
+}
+
+// Images are shown in array order; the primary image is the product thumbnail
+export interface ProductGallery {
+  images: MediaAsset[];
+  primaryImageId: string | null;
+}
+
+// Body for saving a gallery; alt text is per product image, not per upload
+export interface ProductGalleryInput {
+  images: { id: string; alt: string }[];
+  primaryImageId: string | null;
+}
+
+export interface UploadOptions {
+  // Fraction between 0 and 1
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+export const mediaAssetSchema: z.ZodType<MediaAsset> = z.object({
+  id: z.string(),
+  url: z.string(),
+  alt: z.string(),
+  width: z.number(),
+  height: z.number(),
+  size: z.number(),
+  mimeType: z.string(),
+  createdAt: z.string(),
+});
+
+const productGallerySchema: z.ZodType<ProductGallery> = z.object({
+  images: z.array(mediaAssetSchema),
+  primaryImageId: z.string().nullable(),
+});
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(0)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Returns an error message when the file cannot be uploaded, or null
+export const validateImageFile = (file: File): string | null => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return 'Only JPEG, PNG, WebP and GIF images are supported';
+  }
+  if (file.size > MAX_SOURCE_BYTES) {
+    return `Images must be smaller than ${formatFileSize(MAX_SOURCE_BYTES)}`;
+  }
+  return null;
+};
+
+// Scale large images down to MAX_IMAGE_DIMENSION and recompress them in the browser.
+// Returns the original file whenever processing would not make it smaller.
+export const resizeImage = async (file: File, maxDimension = MAX_IMAGE_DIMENSION, quality = 0.85): Promise<File> => {
+  if (!RESIZABLE_TYPES.includes(file.type)) {
+    return file;
+  }
+
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+
+  if (scale === 1 && file.size <= RECOMPRESS_THRESHOLD_BYTES) {
+    bitmap.close();
+    return file;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    return file;
+  }
+
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, file.type, quality));
+  if (!blob || blob.size >= file.size) {
+    return file;
+  }
+
+  return new File([blob], file.name, { type: blob.type, lastModified: Date.now() });
+};
+
+class MediaService {
+  // Upload a single image to the media library
+  async upload(file: File, { onProgress, signal }: UploadOptions = {}): Promise<MediaAsset> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    return apiClient.post('/admin/media', formData, mediaAssetSchema, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      // Large uploads on slow connections outlast the default request timeout
+      timeout: 0,
+      signal,
+      onUploadProgress: (event) => {
+        if (onProgress && event.total) {
+          onProgress(event.loaded / event.total);
+        }
+      },
+      errorMessage: 'Upload failed',
+    });
+  }
+
+  async getProductGallery(productId: string): Promise<ProductGallery> {
+    return apiClient.get(`/admin/products/${productId}/images`, productGallerySchema, {
+      errorMessage: 'Failed to load images',
+    });
+  }
+
+  // Replace the gallery; uploaded assets left out of the list are detached from the product
+  async saveProductGallery(productId: string, input: ProductGalleryInput): Promise<ProductGallery> {
+    return apiClient.put(`/admin/products/${productId}/images`, input, productGallerySchema, {
+      errorMessage: 'Failed to save images',
+    });
+  }
+}
+
+const mediaService = new MediaService();
+
+export default mediaService;
@@ -0,0 +1,432 @@
+import { z } from 'zod';
+import apiClient, { PaginatedList, paginatedSchema, SortOrder } from './apiClient';
+import { addDays, parseDateInputValue } from './dateRange';
+import { toCents } from './format';
+
+export const ORDER_STATUSES = ['pending', 'processing', 'partially_shipped', 'shipped', 'delivered', 'cancelled'] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  processing: 'Processing',
+  partially_shipped: 'Partially shipped',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+export const PAYMENT_STATUSES = ['pending', 'authorized', 'paid', 'partially_refunded', 'refunded', 'failed'] as const;
+
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Pending',
+  authorized: 'Authorized',
+  paid: 'Paid',
+  partially_refunded: 'Partially refunded',
+  refunded: 'Refunded',
+  failed: 'Failed',
+};
+
+export const FULFILLMENT_STATUSES = ['pending', 'shipped', 'delivered'] as const;
+
+export type FulfillmentStatus = (typeof FULFILLMENT_STATUSES)[number];
+
+export const FULFILLMENT_STATUS_LABELS: Record<FulfillmentStatus, string> = {
+  pending: 'Awaiting shipment',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+};
+
+export const CARRIERS = ['ups', 'usps', 'fedex', 'dhl', 'other'] as const;
+
+export type Carrier = (typeof CARRIERS)[number];
+
+export const CARRIER_LABELS: Record<Carrier, string> = {
+  ups: 'UPS',
+  usps: 'USPS',
+  fedex: 'FedEx',
+  dhl: 'DHL',
+  other: 'Other',
+};
+
+export const CANCEL_REASONS = ['customer_request', 'fraud', 'out_of_stock', 'payment_declined', 'duplicate', 'other'] as const;
+
+export type CancelReason = (typeof CANCEL_REASONS)[number];
+
+export const CANCEL_REASON_LABELS: Record<CancelReason, string> = {
+  customer_request: 'Customer changed their mind',
+  fraud: 'Suspected fraud',
+  out_of_stock: 'Items out of stock',
+  payment_declined: 'Payment declined',
+  duplicate: 'Duplicate order',
+  other: 'Other',
+};
+
+export interface Address {
+  name: string;
+  company?: string | null;
+  line1: string;
+  line2?: string | null;
+  city: string;
+  region?: string | null;
+  postalCode: string;
+  country: string;
+  phone?: string | null;
+}
+
+export interface OrderCustomer {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface OrderLineItem {
+  id: string;
+  productId: string | null;
+  title: string;
+  variantTitle?: string | null;
+  sku: string;
+  quantity: number;
+  fulfilledQuantity: number;
+  refundedQuantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface FulfillmentItem {
+  lineItemId: string;
+  quantity: number;
+}
+
+// A shipment covering some or all of the order's line items
+export interface Fulfillment {
+  id: string;
+  status: FulfillmentStatus;
+  items: FulfillmentItem[];
+  carrier?: Carrier | null;
+  trackingNumber?: string | null;
+  trackingUrl?: string | null;
+  createdAt: string;
+  shippedAt?: string | null;
+  deliveredAt?: string | null;
+}
+
+export interface FulfillmentInput {
+  items: FulfillmentItem[];
+  carrier: Carrier | null;
+  trackingNumber: string | null;
+  // Ship immediately instead of leaving the shipment awaiting pickup
+  markShipped: boolean;
+  notifyCustomer: boolean;
+}
+
+export type FulfillmentUpdate = Partial<Pick<Fulfillment, 'status' | 'carrier' | 'trackingNumber'>>;
+
+export interface RefundItem {
+  lineItemId: string;
+  quantity: number;
+  // Put the units back into sellable stock
+  restock: boolean;
+}
+
+// The amount is calculated by the backend from the items and shipping amount
+export interface RefundInput {
+  items: RefundItem[];
+  shippingAmount: number;
+  reason: string;
+  notifyCustomer: boolean;
+}
+
+export interface CancelOrderInput {
+  reason: CancelReason;
+  note: string;
+  // Refund captured payments and release authorizations
+  refundPayment: boolean;
+  restock: boolean;
+  notifyCustomer: boolean;
+}
+
+export interface BulkFulfillInput {
+  orderIds: string[];
+  carrier: Carrier | null;
+  markShipped: boolean;
+  notifyCustomer: boolean;
+}
+
+export interface BulkFulfillResult {
+  fulfilled: string[];
+  failed: { orderId: string; message: string }[];
+}
+
+export interface PaymentTransaction {
+  id: string;
+  kind: 'authorization' | 'capture' | 'refund' | 'void';
+  status: 'pending' | 'success' | 'failure';
+  amount: number;
+  gateway: string;
+  reference?: string | null;
+  createdAt: string;
+}
+
+// One entry in the order history; actor is null for system changes
+export interface OrderEvent {
+  id: string;
+  status: OrderStatus;
+  message: string;
+  actor?: string | null;
+  createdAt: string;
+}
+
+// Staff-only notes, never shown to the customer
+export interface OrderNote {
+  id: string;
+  body: string;
+  author: string;
+  createdAt: string;
+}
+
+// Row in the order list
+export interface OrderSummary {
+  id: string;
+  number: string;
+  customer: OrderCustomer;
+  status: OrderStatus;
+  paymentStatus: PaymentStatus;
+  itemCount: number;
+  total: number;
+  createdAt: string;
+}
+
+export interface Order extends OrderSummary {
+  lineItems: OrderLineItem[];
+  subtotal: number;
+  discountTotal: number;
+  shippingTotal: number;
+  taxTotal: number;
+  shippingAddress: Address | null;
+  billingAddress: Address | null;
+  transactions: PaymentTransaction[];
+  fulfillments: Fulfillment[];
+  refundedTotal: number;
+  cancelReason?: CancelReason | null;
+  timeline: OrderEvent[];
+  notes: OrderNote[];
+}
+
+export type OrderSortField = 'number' | 'createdAt' | 'total';
+
+// Dates are date input values (YYYY-MM-DD) and totals are strings, as they appear in the URL
+export interface OrderListParams {
+  page: number;
+  pageSize: number;
+  sortBy: OrderSortField;
+  sortOrder: SortOrder;
+  status?: OrderStatus;
+  paymentStatus?: PaymentStatus;
+  customer?: string;
+  from?: string;
+  to?: string;
+  minTotal?: string;
+  maxTotal?: string;
+}
+
+export const addressSchema: z.ZodType<Address> = z.object({
+  name: z.string(),
+  company: z.string().nullish(),
+  line1: z.string(),
+  line2: z.string().nullish(),
+  city: z.string(),
+  region: z.string().nullish(),
+  postalCode: z.string(),
+  country: z.string(),
+  phone: z.string().nullish(),
+});
+
+const orderCustomerSchema: z.ZodType<OrderCustomer> = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+});
+
+const orderLineItemSchema: z.ZodType<OrderLineItem> = z.object({
+  id: z.string(),
+  productId: z.string().nullable(),
+  title: z.string(),
+  variantTitle: z.string().nullish(),
+  sku: z.string(),
+  quantity: z.number(),
+  fulfilledQuantity: z.number(),
+  refundedQuantity: z.number(),
+  unitPrice: z.number(),
+  total: z.number(),
+});
+
+const fulfillmentSchema: z.ZodType<Fulfillment> = z.object({
+  id: z.string(),
+  status: z.enum(FULFILLMENT_STATUSES),
+  items: z.array(z.object({ lineItemId: z.string(), quantity: z.number() })),
+  carrier: z.enum(CARRIERS).nullish(),
+  trackingNumber: z.string().nullish(),
+  trackingUrl: z.string().nullish(),
+  createdAt: z.string(),
+  shippedAt: z.string().nullish(),
+  deliveredAt: z.string().nullish(),
+});
+
+const bulkFulfillResultSchema: z.ZodType<BulkFulfillResult> = z.object({
+  fulfilled: z.array(z.string()),
+  failed: z.array(z.object({ orderId: z.string(), message: z.string() })),
+});
+
+const paymentTransactionSchema: z.ZodType<PaymentTransaction> = z.object({
+  id: z.string(),
+  kind: z.enum(['authorization', 'capture', 'refund', 'void']),
+  status: z.enum(['pending', 'success', 'failure']),
+  amount: z.number(),
+  gateway: z.string(),
+  reference: z.string().nullish(),
+  createdAt: z.string(),
+});
+
+const orderEventSchema: z.ZodType<OrderEvent> = z.object({
+  id: z.string(),
+  status: z.enum(ORDER_STATUSES),
+  message: z.string(),
+  actor: z.string().nullish(),
+  createdAt: z.string(),
+});
+
+const orderNoteSchema: z.ZodType<OrderNote> = z.object({
+  id: z.string(),
+  body: z.string(),
+  author: z.string(),
+  createdAt: z.string(),
+});
+
+const orderSummaryFields = {
+  id: z.string(),
+  number: z.string(),
+  customer: orderCustomerSchema,
+  status: z.enum(ORDER_STATUSES),
+  paymentStatus: z.enum(PAYMENT_STATUSES),
+  itemCount: z.number(),
+  total: z.number(),
+  createdAt: z.string(),
+};
+
+export const orderSummarySchema: z.ZodType<OrderSummary> = z.object(orderSummaryFields);
+
+export const orderSchema: z.ZodType<Order> = z.object({
+  ...orderSummaryFields,
+  lineItems: z.array(orderLineItemSchema),
+  subtotal: z.number(),
+  discountTotal: z.number(),
+  shippingTotal: z.number(),
+  taxTotal: z.number(),
+  shippingAddress: addressSchema.nullable(),
+  billingAddress: addressSchema.nullable(),
+  transactions: z.array(paymentTransactionSchema),
+  fulfillments: z.array(fulfillmentSchema),
+  refundedTotal: z.number(),
+  cancelReason: z.enum(CANCEL_REASONS).nullish(),
+  timeline: z.array(orderEventSchema),
+  notes: z.array(orderNoteSchema),
+});
+
+export const getUnfulfilledQuantity = (item: OrderLineItem): number => Math.max(0, item.quantity - item.fulfilledQuantity);
+
+export const canFulfill = (order: Order): boolean =>
+  order.status !== 'cancelled' && order.lineItems.some((item) => getUnfulfilledQuantity(item) > 0);
+
+export const getRefundableQuantity = (item: OrderLineItem): number => Math.max(0, item.quantity - item.refundedQuantity);
+
+export const canRefund = (order: Order): boolean =>
+  (order.paymentStatus === 'paid' || order.paymentStatus === 'partially_refunded') &&
+  toCents(order.total) > toCents(order.refundedTotal);
+
+// Orders can only be cancelled before anything has shipped
+export const canCancel = (order: Order): boolean =>
+  (order.status === 'pending' || order.status === 'processing') &&
+  order.fulfillments.every((fulfillment) => fulfillment.status === 'pending');
+
+// The API takes an exclusive ISO upper bound, so the end date is moved to the next midnight
+const toQueryParams = ({ from, to, minTotal, maxTotal, ...rest }: OrderListParams) => {
+  const fromDate = parseDateInputValue(from);
+  const toDate = parseDateInputValue(to);
+
+  return {
+    ...rest,
+    from: fromDate?.toISOString(),
+    to: toDate ? addDays(toDate, 1).toISOString() : undefined,
+    minTotal: minTotal ? Number(minTotal) : undefined,
+    maxTotal: maxTotal ? Number(maxTotal) : undefined,
+  };
+};
+
+class OrderService {
+  // One page of orders matching the filters
+  async getOrders(params: OrderListParams): Promise<PaginatedList<OrderSummary>> {
+    return apiClient.get('/admin/orders', paginatedSchema(orderSummarySchema), {
+      params: toQueryParams(params),
+      errorMessage: 'Failed to load orders',
+    });
+  }
+
+  async getOrder(orderId: string): Promise<Order> {
+    return apiClient.get(`/admin/orders/${orderId}`, orderSchema, {
+      errorMessage: 'Failed to load order',
+    });
+  }
+
+  async addNote(orderId: string, body: string): Promise<OrderNote> {
+    return apiClient.post(`/admin/orders/${orderId}/notes`, { body }, orderNoteSchema, {
+      errorMessage: 'Failed to add note',
+    });
+  }
+
+  // Returns the updated order so line item quantities and status stay in sync
+  async createFulfillment(orderId: string, input: FulfillmentInput): Promise<Order> {
+    return apiClient.post(`/admin/orders/${orderId}/fulfillments`, input, orderSchema, {
+      errorMessage: 'Failed to fulfill items',
+    });
+  }
+
+  async updateFulfillment(orderId: string, fulfillmentId: string, update: FulfillmentUpdate): Promise<Order> {
+    return apiClient.patch(`/admin/orders/${orderId}/fulfillments/${fulfillmentId}`, update, orderSchema, {
+      errorMessage: 'Failed to update shipment',
+    });
+  }
+
+  async createRefund(orderId: string, input: RefundInput): Promise<Order> {
+    return apiClient.post(`/admin/orders/${orderId}/refunds`, input, orderSchema, {
+      errorMessage: 'Failed to issue refund',
+    });
+  }
+
+  async cancelOrder(orderId: string, input: CancelOrderInput): Promise<Order> {
+    return apiClient.post(`/admin/orders/${orderId}/cancel`, input, orderSchema, {
+      errorMessage: 'Failed to cancel order',
+    });
+  }
+
+  // Fulfill every remaining item on each order; orders that cannot be fulfilled are reported, not fatal
+  async bulkFulfill(input: BulkFulfillInput): Promise<BulkFulfillResult> {
+    return apiClient.post('/admin/orders/bulk-fulfill', input, bulkFulfillResultSchema, {
+      errorMessage: 'Failed to fulfill orders',
+    });
+  }
+
+  // Carrier labels for every shipment on the given orders, as a single PDF
+  async getShippingLabels(orderIds: string[]): Promise<Blob> {
+    return apiClient.download('/admin/orders/labels', {
+      params: { orderIds: orderIds.join(',') },
+      errorMessage: 'Failed to generate shipping labels',
+    });
+  }
+}
+
+const orderService = new OrderService();
+
+export default orderService;
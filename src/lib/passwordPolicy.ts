@@ -0,0 +1,108 @@
+import { COMMON_PASSWORDS } from './data/commonPasswords';
+
+export const MIN_PASSWORD_LENGTH = 10;
+export const MIN_CHARACTER_CLASSES = 3;
+
+export type PasswordStrength = 'weak' | 'fair' | 'good' | 'strong';
+
+export interface PasswordCheck {
+  id: 'length' | 'character_classes' | 'not_common' | 'not_email';
+  label: string;
+  passed: boolean;
+}
+
+export interface PasswordEvaluation {
+  checks: PasswordCheck[];
+  isValid: boolean;
+  score: number; // 0-4
+  strength: PasswordStrength;
+}
+
+export interface PasswordContext {
+  email?: string;
+}
+
+const CHARACTER_CLASSES = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/];
+
+const countCharacterClasses = (password: string) =>
+  CHARACTER_CLASSES.filter((pattern) => pattern.test(password)).length;
+
+const isCommonPassword = (password: string) => {
+  const normalized = password.toLowerCase();
+  const stem = normalized.replace(/[\d\W_]+$/, '');
+  return COMMON_PASSWORDS.has(normalized) || (stem.length > 0 && COMMON_PASSWORDS.has(stem));
+};
+
+const containsEmail = (password: string, email?: string) => {
+  if (!email) {
+    return false;
+  }
+
+  const normalized = password.toLowerCase();
+  const [localPart] = email.toLowerCase().split('@');
+  return normalized.includes(email.toLowerCase()) || (localPart.length >= 3 && normalized.includes(localPart));
+};
+
+const STRENGTH_BY_SCORE: PasswordStrength[] = ['weak', 'weak', 'fair', 'good', 'strong'];
+
+// Check a password against the admin password policy
+export const evaluatePassword = (password: string, context: PasswordContext = {}): PasswordEvaluation => {
+  const classes = countCharacterClasses(password);
+  const checks: PasswordCheck[] = [
+    {
+      id: 'length',
+      label: `At least ${MIN_PASSWORD_LENGTH} characters`,
+      passed: password.length >= MIN_PASSWORD_LENGTH,
+    },
+    {
+      id: 'character_classes',
+      label: `${MIN_CHARACTER_CLASSES} of: lowercase, uppercase, number, symbol`,
+      passed: classes >= MIN_CHARACTER_CLASSES,
+    },
+    {
+      id: 'not_common',
+      label: 'Not a commonly breached password',
+      passed: password.length > 0 && !isCommonPassword(password),
+    },
+    {
+      id: 'not_email',
+      label: 'Does not contain your email',
+      passed: password.length > 0 && !containsEmail(password, context.email),
+    },
+  ];
+
+  const isValid = checks.every((check) => check.passed);
+
+  let score = 0;
+  if (password.length >= MIN_PASSWORD_LENGTH) score++;
+  if (password.length >= 14) score++;
+  if (classes >= MIN_CHARACTER_CLASSES) score++;
+  if (classes === CHARACTER_CLASSES.length) score++;
+  // A password that fails the policy never rates above weak
+  if (!isValid) score = Math.min(score, 1);
+
+  return { checks, isValid, score, strength: STRENGTH_BY_SCORE[score] };
+};
+
+// Return the first policy violation as a form error, or null when the password is acceptable
+export const validatePassword = (password: string, context: PasswordContext = {}): string | null => {
+  if (!password) {
+    return 'Password is required';
+  }
+
+  const failed = evaluatePassword(password, context).checks.find((check) => !check.passed);
+  if (!failed) {
+    return null;
+  }
+
+  switch (failed.id) {
+    case 'length':
+      return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    case 'character_classes':
+      return `Password must use at least ${MIN_CHARACTER_CLASSES} of: lowercase, uppercase, numbers, symbols`;
+    case 'not_common':
+      return 'This password is too common. Choose something harder to guess';
+    case 'not_email':
+      return 'Password must not contain your email address';
+  }
+};
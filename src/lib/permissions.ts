@@ -0,0 +1,120 @@
+export const ROLES = [
+  'super_admin',
+  'admin',
+  'catalog_manager',
+  'order_operator',
+  'support_agent',
+  'analyst',
+] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const PERMISSIONS = [
+  'dashboard:view',
+  'analytics:view',
+  'products:read',
+  'products:write',
+  'products:pricing',
+  'inventory:read',
+  'inventory:write',
+  'orders:read',
+  'orders:write',
+  'customers:read',
+  'customers:write',
+  'marketing:read',
+  'marketing:write',
+  'data:export',
+  'team:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  super_admin: 'Super Admin',
+  admin: 'Admin',
+  catalog_manager: 'Catalog Manager',
+  order_operator: 'Order Operator',
+  support_agent: 'Support Agent',
+  analyst: 'Analyst (read-only)',
+};
+
+// Permission matrix. Accounts created before roles existed carry the legacy
+// 'admin' role and keep full access until they are reassigned.
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  super_admin: PERMISSIONS,
+  admin: PERMISSIONS,
+  catalog_manager: [
+    'dashboard:view',
+    'analytics:view',
+    'products:read',
+    'products:write',
+    'products:pricing',
+    'inventory:read',
+    'inventory:write',
+    'marketing:read',
+    'marketing:write',
+  ],
+  order_operator: [
+    'dashboard:view',
+    'products:read',
+    'inventory:read',
+    'inventory:write',
+    'orders:read',
+    'orders:write',
+    'customers:read',
+  ],
+  support_agent: [
+    'dashboard:view',
+    'orders:read',
+    'customers:read',
+    'customers:write',
+  ],
+  analyst: [
+    'dashboard:view',
+    'analytics:view',
+    'products:read',
+    'inventory:read',
+    'orders:read',
+    'customers:read',
+    'marketing:read',
+    'data:export',
+  ],
+};
+
+// Route prefixes and the permission needed to open them
+const ROUTE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  { prefix: '/dashboard', permission: 'dashboard:view' },
+  { prefix: '/products', permission: 'products:read' },
+  { prefix: '/products/new', permission: 'products:write' },
+  { prefix: '/products/import', permission: 'products:write' },
+  { prefix: '/catalog', permission: 'products:read' },
+  { prefix: '/catalog/collections/new', permission: 'products:write' },
+  { prefix: '/inventory', permission: 'inventory:read' },
+  { prefix: '/orders', permission: 'orders:read' },
+  { prefix: '/returns', permission: 'orders:read' },
+  { prefix: '/users', permission: 'customers:read' },
+  { prefix: '/marketing', permission: 'marketing:read' },
+  { prefix: '/marketing/discounts/new', permission: 'marketing:write' },
+  { prefix: '/team', permission: 'team:manage' },
+];
+
+export const isStaffRole = (role: unknown): role is Role =>
+  typeof role === 'string' && (ROLES as readonly string[]).includes(role);
+
+export const hasPermission = (role: unknown, permission: Permission): boolean =>
+  isStaffRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+
+// Roles that can be granted to new staff (the legacy 'admin' role is not handed out)
+export const ASSIGNABLE_ROLES: Role[] = ROLES.filter((role) => role !== 'admin');
+
+export const getRoleLabel = (role: string): string =>
+  isStaffRole(role) ? ROLE_LABELS[role] : role;
+
+// Find the permission guarding a path, preferring the most specific prefix
+export const getRequiredPermission = (pathname: string): Permission | null => {
+  const match = ROUTE_PERMISSIONS
+    .filter(({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+
+  return match?.permission ?? null;
+};
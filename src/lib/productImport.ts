@@ -0,0 +1,319 @@
+import { z } from 'zod';
+import apiClient from './apiClient';
+import { CategoryDetail, getCategoryPaths } from './catalog';
+import { PRODUCT_STATUS_LABELS, PRODUCT_STATUSES, ProductInput, ProductStatus, productFormSchema } from './products';
+
+// Larger files should be split; the dry run validates every row in the browser
+export const IMPORT_MAX_ROWS = 5000;
+
+export const IMPORT_CHUNK_SIZE = 50;
+
+const SKU_LOOKUP_CHUNK_SIZE = 500;
+
+export const IMPORT_FIELDS = ['sku', 'title', 'description', 'price', 'compareAtPrice', 'status', 'categories'] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  sku: 'SKU',
+  title: 'Title',
+  description: 'Description',
+  price: 'Price',
+  compareAtPrice: 'Compare-at price',
+  status: 'Status',
+  categories: 'Categories',
+};
+
+// New products need these; existing products only change the columns that are mapped
+const REQUIRED_FOR_CREATE: ImportField[] = ['sku', 'title', 'price'];
+
+// Header spellings recognised when suggesting a mapping, compared without case, spaces or punctuation
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  sku: ['sku', 'variantsku', 'itemcode', 'productcode'],
+  title: ['title', 'name', 'productname', 'producttitle'],
+  description: ['description', 'body', 'bodyhtml', 'details'],
+  price: ['price', 'saleprice', 'variantprice'],
+  compareAtPrice: ['compareatprice', 'compareprice', 'msrp', 'rrp', 'listprice', 'variantcompareatprice'],
+  status: ['status', 'state'],
+  categories: ['categories', 'category', 'collections', 'type', 'producttype'],
+};
+
+// Column index for each field, or null when the field is not imported
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type ImportAction = 'create' | 'update' | 'skip';
+
+// Only the mapped fields are sent, so updates leave the other fields alone
+export type ProductImportRow = Pick<ProductInput, 'sku'> & Partial<Omit<ProductInput, 'sku'>>;
+
+export interface ImportRowCheck {
+  // Row in the file counting the header as row 1, with blank lines left out
+  rowNumber: number;
+  sku: string;
+  action: ImportAction;
+  errors: string[];
+  input: ProductImportRow | null;
+}
+
+export interface ImportSummary {
+  create: number;
+  update: number;
+  skip: number;
+  invalid: number;
+}
+
+export type ImportRowStatus = 'created' | 'updated' | 'failed';
+
+export interface ImportRowResult {
+  rowNumber: number;
+  sku: string;
+  status: ImportRowStatus;
+  error: string | null;
+}
+
+const existingSkuSchema = z.array(z.object({ id: z.string(), sku: z.string() }));
+
+const importBatchResultSchema = z.object({
+  results: z.array(
+    z.object({
+      rowNumber: z.number(),
+      sku: z.string(),
+      status: z.enum(['created', 'updated', 'failed']),
+      error: z.string().nullable(),
+    })
+  ),
+});
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Suggest a column for each field from the header names; each column is used at most once
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+
+  return IMPORT_FIELDS.reduce((mapping, field) => {
+    const index = normalized.findIndex((header, i) => !used.has(i) && FIELD_ALIASES[field].includes(header));
+    if (index !== -1) {
+      used.add(index);
+    }
+    return { ...mapping, [field]: index === -1 ? null : index };
+  }, {} as ColumnMapping);
+};
+
+export const getMappingErrors = (mapping: ColumnMapping): string[] => {
+  const errors: string[] = [];
+  if (mapping.sku === null) {
+    errors.push('Map a column to SKU. It is used to match rows to existing products.');
+  }
+
+  const columns = IMPORT_FIELDS.map((field) => mapping[field]).filter((column) => column !== null);
+  if (new Set(columns).size !== columns.length) {
+    errors.push('Each column can only be mapped to one field.');
+  }
+
+  return errors;
+};
+
+// Categories can be given by name, or by path ("Clothing > Shirts") when names repeat across the tree
+const buildCategoryLookup = (categories: CategoryDetail[]) => {
+  const byPath = new Map<string, string>();
+  const byName = new Map<string, string[]>();
+
+  getCategoryPaths(categories).forEach(({ id, path }) => {
+    byPath.set(path.toLowerCase().replace(/\s*›\s*/g, ' > '), id);
+  });
+  categories.forEach((category) => {
+    const name = category.name.toLowerCase();
+    byName.set(name, [...(byName.get(name) ?? []), category.id]);
+  });
+
+  return (value: string): { id?: string; error?: string } => {
+    const key = value.toLowerCase().replace(/\s*[>›]\s*/g, ' > ');
+    const pathMatch = byPath.get(key);
+    if (pathMatch) {
+      return { id: pathMatch };
+    }
+
+    const nameMatches = byName.get(key) ?? [];
+    if (nameMatches.length === 1) {
+      return { id: nameMatches[0] };
+    }
+    return {
+      error:
+        nameMatches.length > 1
+          ? `Category "${value}" exists in more than one place; use its full path, e.g. "Parent > ${value}"`
+          : `Unknown category "${value}"`,
+    };
+  };
+};
+
+const parseStatus = (value: string): ProductStatus | null => {
+  const lower = value.toLowerCase();
+  return PRODUCT_STATUSES.find((status) => status === lower || PRODUCT_STATUS_LABELS[status].toLowerCase() === lower) ?? null;
+};
+
+const firstIssue = (result: { success: boolean; error?: z.ZodError }) => result.error?.issues[0]?.message;
+
+// Client-side dry run: validate every row with the product form rules and work out what the import would do
+export const checkImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  existingSkus: Set<string>,
+  categories: CategoryDetail[],
+  skipExisting: boolean
+): ImportRowCheck[] => {
+  const shape = productFormSchema.shape;
+  const findCategory = buildCategoryLookup(categories);
+  const seenSkus = new Map<string, number>();
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? undefined : (row[column] ?? '').trim();
+    };
+
+    const sku = cell('sku') ?? '';
+    const isMappedRowEmpty = IMPORT_FIELDS.every((field) => !cell(field));
+    if (isMappedRowEmpty) {
+      return { rowNumber, sku, action: 'skip', errors: [], input: null };
+    }
+
+    const action: ImportAction = existingSkus.has(sku.toLowerCase()) ? (skipExisting ? 'skip' : 'update') : 'create';
+    const errors: string[] = [];
+    const input: ProductImportRow = { sku };
+
+    const skuIssue = firstIssue(shape.sku.safeParse(sku));
+    if (skuIssue) {
+      errors.push(skuIssue);
+    } else if (seenSkus.has(sku.toLowerCase())) {
+      errors.push(`Duplicate SKU; already used on row ${seenSkus.get(sku.toLowerCase())}`);
+    } else {
+      seenSkus.set(sku.toLowerCase(), rowNumber);
+    }
+
+    if (action === 'skip') {
+      return { rowNumber, sku, action, errors, input: null };
+    }
+
+    if (action === 'create') {
+      REQUIRED_FOR_CREATE.filter((field) => field !== 'sku' && !cell(field)).forEach((field) =>
+        errors.push(`${IMPORT_FIELD_LABELS[field]} is required for new products`)
+      );
+    }
+
+    const title = cell('title');
+    if (title) {
+      const issue = firstIssue(shape.title.safeParse(title));
+      if (issue) {
+        errors.push(issue);
+      } else {
+        input.title = title;
+      }
+    }
+
+    const description = cell('description');
+    if (description !== undefined) {
+      const issue = firstIssue(shape.description.safeParse(description));
+      if (issue) {
+        errors.push(issue);
+      } else {
+        input.description = description;
+      }
+    }
+
+    const price = cell('price');
+    if (price) {
+      const issue = firstIssue(shape.price.safeParse(price));
+      if (issue) {
+        errors.push(issue);
+      } else {
+        input.price = Number(price);
+      }
+    }
+
+    // A blank compare-at price clears it
+    const compareAtPrice = cell('compareAtPrice');
+    if (compareAtPrice !== undefined) {
+      const issue = firstIssue(shape.compareAtPrice.safeParse(compareAtPrice));
+      if (issue) {
+        errors.push(issue);
+      } else {
+        input.compareAtPrice = compareAtPrice ? Number(compareAtPrice) : null;
+      }
+    }
+    if (input.price !== undefined && input.compareAtPrice && input.compareAtPrice <= input.price) {
+      errors.push('Compare-at price must be higher than the price');
+    }
+
+    const status = cell('status');
+    if (status) {
+      const parsed = parseStatus(status);
+      if (parsed) {
+        input.status = parsed;
+      } else {
+        errors.push(`Status must be one of ${PRODUCT_STATUSES.map((value) => PRODUCT_STATUS_LABELS[value]).join(', ')}`);
+      }
+    } else if (action === 'create') {
+      input.status = 'draft';
+    }
+
+    // Several categories are separated by commas or semicolons
+    const categoryNames = cell('categories');
+    if (categoryNames !== undefined) {
+      const matches = categoryNames
+        .split(/[,;]/)
+        .map((name) => name.trim())
+        .filter(Boolean)
+        .map(findCategory);
+      matches.forEach((match) => {
+        if (match.error) {
+          errors.push(match.error);
+        }
+      });
+      input.categoryIds = matches.flatMap((match) => (match.id ? [match.id] : []));
+    } else if (action === 'create') {
+      input.categoryIds = [];
+    }
+
+    return { rowNumber, sku, action, errors, input: errors.length === 0 ? input : null };
+  });
+};
+
+export const summarizeImport = (checks: ImportRowCheck[]): ImportSummary =>
+  checks.reduce(
+    (summary, check) =>
+      check.errors.length > 0
+        ? { ...summary, invalid: summary.invalid + 1 }
+        : { ...summary, [check.action]: summary[check.action] + 1 },
+    { create: 0, update: 0, skip: 0, invalid: 0 }
+  );
+
+class ProductImportService {
+  // Which of these SKUs already belong to a product, lower-cased for matching
+  async findExistingSkus(skus: string[]): Promise<Set<string>> {
+    const existing = new Set<string>();
+    for (let start = 0; start < skus.length; start += SKU_LOOKUP_CHUNK_SIZE) {
+      const products = await apiClient.post(
+        '/admin/products/lookup',
+        { skus: skus.slice(start, start + SKU_LOOKUP_CHUNK_SIZE) },
+        existingSkuSchema,
+        { errorMessage: 'Failed to check existing products' }
+      );
+      products.forEach((product) => existing.add(product.sku.toLowerCase()));
+    }
+    return existing;
+  }
+
+  // Creates or updates each row by SKU, so a batch can be resent safely; rows fail individually without failing the batch
+  async importBatch(rows: { rowNumber: number; product: ProductImportRow }[]): Promise<ImportRowResult[]> {
+    const { results } = await apiClient.post('/admin/products/import', { rows }, importBatchResultSchema, {
+      errorMessage: 'Failed to import products',
+    });
+    return results;
+  }
+}
+
+const productImportService = new ProductImportService();
+
+export default productImportService;
@@ -0,0 +1,172 @@
+import { z } from 'zod';
+import apiClient, { PaginatedList, paginatedSchema, SortOrder } from './apiClient';
+
+export const PRODUCT_STATUSES = ['draft', 'published', 'archived'] as const;
+
+export type ProductStatus = (typeof PRODUCT_STATUSES)[number];
+
+export const PRODUCT_STATUS_LABELS: Record<ProductStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+export interface Category {
+  id: string;
+  name: string;
+  parentId?: string | null;
+}
+
+export interface Product {
+  id: string;
+  title: string;
+  description: string;
+  sku: string;
+  price: number;
+  compareAtPrice?: number | null;
+  status: ProductStatus;
+  categories: Category[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ProductSortField = 'title' | 'sku' | 'price' | 'status' | 'updatedAt';
+
+export interface ProductListParams {
+  page: number;
+  pageSize: number;
+  sortBy: ProductSortField;
+  sortOrder: SortOrder;
+  search?: string;
+  status?: ProductStatus;
+  categoryId?: string;
+}
+
+// Body for create and update; categories are sent as ids
+export interface ProductInput {
+  title: string;
+  description: string;
+  sku: string;
+  price: number;
+  compareAtPrice: number | null;
+  status: ProductStatus;
+  categoryIds: string[];
+}
+
+export const categorySchema: z.ZodType<Category> = z.object({
+  id: z.string(),
+  name: z.string(),
+  parentId: z.string().nullish(),
+});
+
+export const productSchema: z.ZodType<Product> = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  sku: z.string(),
+  price: z.number(),
+  compareAtPrice: z.number().nullish(),
+  status: z.enum(PRODUCT_STATUSES),
+  categories: z.array(categorySchema),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const PRICE_PATTERN = /^\d+(\.\d{1,2})?$/;
+
+// Form values keep prices as strings so the inputs can be edited freely and validated on submit
+export const productFormSchema = z
+  .object({
+    title: z.string().trim().min(1, 'Title is required').max(200, 'Title must be 200 characters or fewer'),
+    description: z.string().trim().max(5000, 'Description must be 5000 characters or fewer'),
+    sku: z
+      .string()
+      .trim()
+      .min(1, 'SKU is required')
+      .regex(/^[A-Za-z0-9._-]+$/, 'SKU can only contain letters, numbers, dots, dashes and underscores'),
+    price: z.string().trim().regex(PRICE_PATTERN, 'Enter a price like 19.99'),
+    compareAtPrice: z.string().trim().regex(PRICE_PATTERN, 'Enter a price like 24.99').or(z.literal('')),
+    status: z.enum(PRODUCT_STATUSES),
+    categoryIds: z.array(z.string()),
+  })
+  .refine((values) => !values.compareAtPrice || Number(values.compareAtPrice) > Number(values.price), {
+    message: 'Compare-at price must be higher than the price',
+    path: ['compareAtPrice'],
+  });
+
+export type ProductFormValues = z.infer<typeof productFormSchema>;
+
+export const EMPTY_PRODUCT_FORM: ProductFormValues = {
+  title: '',
+  description: '',
+  sku: '',
+  price: '',
+  compareAtPrice: '',
+  status: 'draft',
+  categoryIds: [],
+};
+
+export const toProductFormValues = (product: Product): ProductFormValues => ({
+  title: product.title,
+  description: product.description,
+  sku: product.sku,
+  price: product.price.toFixed(2),
+  compareAtPrice: product.compareAtPrice != null ? product.compareAtPrice.toFixed(2) : '',
+  status: product.status,
+  categoryIds: product.categories.map((category) => category.id),
+});
+
+export const toProductInput = (values: ProductFormValues): ProductInput => ({
+  title: values.title,
+  description: values.description,
+  sku: values.sku,
+  price: Number(values.price),
+  compareAtPrice: values.compareAtPrice ? Number(values.compareAtPrice) : null,
+  status: values.status,
+  categoryIds: values.categoryIds,
+});
+
+class ProductService {
+  // One page of products matching the filters
+  async getProducts(params: ProductListParams): Promise<PaginatedList<Product>> {
+    return apiClient.get('/admin/products', paginatedSchema(productSchema), {
+      params,
+      errorMessage: 'Failed to load products',
+    });
+  }
+
+  async getProduct(productId: string): Promise<Product> {
+    return apiClient.get(`/admin/products/${productId}`, productSchema, {
+      errorMessage: 'Failed to load product',
+    });
+  }
+
+  async createProduct(input: ProductInput): Promise<Product> {
+    return apiClient.post('/admin/products', input, productSchema, {
+      errorMessage: 'Failed to create product',
+    });
+  }
+
+  async updateProduct(productId: string, input: ProductInput): Promise<Product> {
+    return apiClient.put(`/admin/products/${productId}`, input, productSchema, {
+      errorMessage: 'Failed to update product',
+    });
+  }
+
+  // Move a product between draft, published and archived without touching other fields
+  async setStatus(productId: string, status: ProductStatus): Promise<Product> {
+    return apiClient.patch(`/admin/products/${productId}`, { status }, productSchema, {
+      errorMessage: 'Failed to update product status',
+    });
+  }
+
+  async getCategories(): Promise<Category[]> {
+    return apiClient.get('/admin/categories', z.array(categorySchema), {
+      errorMessage: 'Failed to load categories',
+    });
+  }
+}
+
+const productService = new ProductService();
+
+export default productService;
@@ -0,0 +1,27 @@
+export const LOGIN_PATH = '/auth/login';
+export const DEFAULT_AUTHENTICATED_PATH = '/dashboard';
+export const RETURN_TO_PARAM = 'returnTo';
+
+// Only allow same-origin relative paths so returnTo cannot be used as an open redirect
+export const sanitizeReturnTo = (value: string | null | undefined): string | null => {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) {
+    return null;
+  }
+
+  if (value === LOGIN_PATH || value.startsWith(`${LOGIN_PATH}?`)) {
+    return null;
+  }
+
+  return value;
+};
+
+// Build the login URL that sends the user back to the given path after signing in
+export const buildLoginPath = (returnTo?: string | null): string => {
+  const safeReturnTo = sanitizeReturnTo(returnTo);
+  if (!safeReturnTo || safeReturnTo === '/') {
+    return LOGIN_PATH;
+  }
+
+  const params = new URLSearchParams({ [RETURN_TO_PARAM]: safeReturnTo });
+  return `${LOGIN_PATH}?${params.toString()}`;
+};
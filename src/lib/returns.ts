@@ -0,0 +1,165 @@
+import { z } from 'zod';
+import apiClient, { PaginatedList, paginatedSchema } from './apiClient';
+
+export const RETURN_STATUSES = ['requested', 'approved', 'received', 'refunded', 'rejected'] as const;
+
+export type ReturnStatus = (typeof RETURN_STATUSES)[number];
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  received: 'Received',
+  refunded: 'Refunded',
+  rejected: 'Rejected',
+};
+
+// A return moves forward one step at a time and can be rejected until it is refunded
+export const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ['approved', 'rejected'],
+  approved: ['received', 'rejected'],
+  received: ['refunded', 'rejected'],
+  refunded: [],
+  rejected: [],
+};
+
+export const RETURN_REASONS = ['damaged', 'wrong_item', 'not_as_described', 'size_fit', 'no_longer_needed', 'other'] as const;
+
+export type ReturnReason = (typeof RETURN_REASONS)[number];
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  damaged: 'Damaged or defective',
+  wrong_item: 'Wrong item sent',
+  not_as_described: 'Not as described',
+  size_fit: 'Size or fit',
+  no_longer_needed: 'No longer needed',
+  other: 'Other',
+};
+
+export interface ReturnItem {
+  lineItemId: string;
+  title: string;
+  sku: string;
+  quantity: number;
+  reason: ReturnReason;
+}
+
+// Audit trail entry; fromStatus is null for notes and for the initial request
+export interface ReturnEvent {
+  id: string;
+  fromStatus: ReturnStatus | null;
+  toStatus: ReturnStatus | null;
+  note?: string | null;
+  actor: string;
+  createdAt: string;
+}
+
+export interface ReturnRequest {
+  id: string;
+  number: string;
+  orderId: string;
+  orderNumber: string;
+  customerName: string;
+  status: ReturnStatus;
+  items: ReturnItem[];
+  refundAmount?: number | null;
+  createdAt: string;
+  updatedAt: string;
+  history: ReturnEvent[];
+}
+
+export interface ReturnListParams {
+  page: number;
+  pageSize: number;
+  status?: ReturnStatus;
+  search?: string;
+}
+
+export interface CreateReturnInput {
+  items: { lineItemId: string; quantity: number; reason: ReturnReason }[];
+  note: string;
+}
+
+export interface ReturnTransitionInput {
+  status: ReturnStatus;
+  note: string;
+  // Only used when moving to refunded
+  restock?: boolean;
+}
+
+const returnEventSchema: z.ZodType<ReturnEvent> = z.object({
+  id: z.string(),
+  fromStatus: z.enum(RETURN_STATUSES).nullable(),
+  toStatus: z.enum(RETURN_STATUSES).nullable(),
+  note: z.string().nullish(),
+  actor: z.string(),
+  createdAt: z.string(),
+});
+
+export const returnRequestSchema: z.ZodType<ReturnRequest> = z.object({
+  id: z.string(),
+  number: z.string(),
+  orderId: z.string(),
+  orderNumber: z.string(),
+  customerName: z.string(),
+  status: z.enum(RETURN_STATUSES),
+  items: z.array(
+    z.object({
+      lineItemId: z.string(),
+      title: z.string(),
+      sku: z.string(),
+      quantity: z.number(),
+      reason: z.enum(RETURN_REASONS),
+    })
+  ),
+  refundAmount: z.number().nullish(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  history: z.array(returnEventSchema),
+});
+
+export const isReturnOpen = (status: ReturnStatus): boolean => RETURN_TRANSITIONS[status].length > 0;
+
+class ReturnService {
+  async getReturns(params: ReturnListParams): Promise<PaginatedList<ReturnRequest>> {
+    return apiClient.get('/admin/returns', paginatedSchema(returnRequestSchema), {
+      params,
+      errorMessage: 'Failed to load returns',
+    });
+  }
+
+  async getOrderReturns(orderId: string): Promise<ReturnRequest[]> {
+    return apiClient.get(`/admin/orders/${orderId}/returns`, z.array(returnRequestSchema), {
+      errorMessage: 'Failed to load returns',
+    });
+  }
+
+  async getReturn(returnId: string): Promise<ReturnRequest> {
+    return apiClient.get(`/admin/returns/${returnId}`, returnRequestSchema, {
+      errorMessage: 'Failed to load return',
+    });
+  }
+
+  // Open a return on behalf of the customer
+  async createReturn(orderId: string, input: CreateReturnInput): Promise<ReturnRequest> {
+    return apiClient.post(`/admin/orders/${orderId}/returns`, input, returnRequestSchema, {
+      errorMessage: 'Failed to create return',
+    });
+  }
+
+  // Move the return to its next status; refunding issues the refund for the returned items
+  async transition(returnId: string, input: ReturnTransitionInput): Promise<ReturnRequest> {
+    return apiClient.post(`/admin/returns/${returnId}/transitions`, input, returnRequestSchema, {
+      errorMessage: 'Failed to update return',
+    });
+  }
+
+  async addNote(returnId: string, note: string): Promise<ReturnRequest> {
+    return apiClient.post(`/admin/returns/${returnId}/notes`, { note }, returnRequestSchema, {
+      errorMessage: 'Failed to add note',
+    });
+  }
+}
+
+const returnService = new ReturnService();
+
+export default returnService;
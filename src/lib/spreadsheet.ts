@@ -0,0 +1,78 @@
+import Papa from 'papaparse';
+import { readSheet } from 'read-excel-file/browser';
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// A sheet as plain text: the header row, then every data row padded to the header width
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetError';
+  }
+}
+
+const isXlsx = (file: File) => /\.xlsx$/i.test(file.name);
+
+const isCsv = (file: File) => /\.csv$/i.test(file.name) || file.type === 'text/csv';
+
+const readCsv = (file: File): Promise<string[][]> =>
+  new Promise((resolve, reject) => {
+    Papa.parse<string[]>(file, {
+      skipEmptyLines: 'greedy',
+      complete: (result) => resolve(result.data),
+      error: (error) => reject(new SpreadsheetError(`Could not read the CSV file: ${error.message}`)),
+    });
+  });
+
+// Dates become ISO days and everything else its plain text form, so both formats validate the same way
+const readXlsx = async (file: File): Promise<string[][]> => {
+  try {
+    const data = await readSheet(file);
+    return data.map((row) =>
+      row.map((cell) => {
+        if (cell === null) {
+          return '';
+        }
+        if (cell instanceof Date) {
+          return cell.toISOString().slice(0, 10);
+        }
+        return String(cell);
+      })
+    );
+  } catch {
+    throw new SpreadsheetError('Could not read the spreadsheet. Save it as .xlsx or .csv and try again.');
+  }
+};
+
+// Read the first sheet of a CSV or XLSX file; the first non-empty row is taken as the header
+export const parseSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  if (!isXlsx(file) && !isCsv(file)) {
+    throw new SpreadsheetError('Choose a .csv or .xlsx file.');
+  }
+
+  const data = await (isXlsx(file) ? readXlsx(file) : readCsv(file));
+  const [headerRow, ...dataRows] = data.filter((row) => row.some((cell) => cell.trim() !== ''));
+  if (!headerRow) {
+    throw new SpreadsheetError('The file is empty.');
+  }
+
+  // Excel adds a byte order mark to CSV exports
+  const headers = headerRow.map((header, index) => (index === 0 ? header.replace(/^\uFEFF/, '') : header).trim());
+
+  return {
+    headers,
+    rows: dataRows.map((row) => headers.map((_, index) => (row[index] ?? '').trim())),
+  };
+};
+
+// escapeFormulae prefixes cells starting with =, +, - or @ so spreadsheet apps show them as text instead of running them
+export const toCsv = (
+  headers: string[],
+  rows: (string | number | boolean | null)[][],
+  { escapeFormulae = false }: { escapeFormulae?: boolean } = {}
+): string => Papa.unparse({ fields: headers, data: rows }, { escapeFormulae });
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import apiClient, { emptySchema } from './apiClient';
+import { AdminUser, adminUserSchema } from './auth';
+import { ROLES, Role } from './permissions';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+export interface Invitation {
+  id: string;
+  email: string;
+  role: Role;
+  status: InvitationStatus;
+  invitedBy?: Pick<AdminUser, 'id' | 'firstName' | 'lastName' | 'email'>;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// What an invitee sees before creating their account
+export interface InvitationPreview {
+  email: string;
+  role: Role;
+  invitedByName?: string;
+  expiresAt: string;
+}
+
+export interface SendInvitationRequest {
+  email: string;
+  role: Role;
+}
+
+const invitationSchema: z.ZodType<Invitation> = z.object({
+  id: z.string(),
+  email: z.string(),
+  role: z.enum(ROLES),
+  status: z.enum(['pending', 'accepted', 'expired', 'revoked']),
+  invitedBy: z
+    .object({ id: z.string(), firstName: z.string(), lastName: z.string(), email: z.string() })
+    .optional(),
+  createdAt: z.string(),
+  expiresAt: z.string(),
+});
+
+const invitationPreviewSchema: z.ZodType<InvitationPreview> = z.object({
+  email: z.string(),
+  role: z.enum(ROLES),
+  invitedByName: z.string().optional(),
+  expiresAt: z.string(),
+});
+
+class TeamService {
+  // List staff accounts
+  async getMembers(): Promise<AdminUser[]> {
+    return apiClient.get('/admin/team', z.array(adminUserSchema), {
+      errorMessage: 'Failed to load team members',
+    });
+  }
+
+  // List invitations, newest first
+  async getInvitations(): Promise<Invitation[]> {
+    return apiClient.get('/admin/invitations', z.array(invitationSchema), {
+      errorMessage: 'Failed to load invitations',
+    });
+  }
+
+  // Email an invitation to join with the given role
+  async sendInvitation(invitation: SendInvitationRequest): Promise<Invitation> {
+    return apiClient.post('/admin/invitations', invitation, invitationSchema, {
+      errorMessage: 'Failed to send invitation',
+    });
+  }
+
+  // Send the invitation email again and extend its expiry
+  async resendInvitation(invitationId: string): Promise<Invitation> {
+    return apiClient.post(`/admin/invitations/${invitationId}/resend`, undefined, invitationSchema, {
+      errorMessage: 'Failed to resend invitation',
+    });
+  }
+
+  // Invalidate a pending invitation
+  async revokeInvitation(invitationId: string): Promise<void> {
+    await apiClient.delete(`/admin/invitations/${invitationId}`, emptySchema, {
+      errorMessage: 'Failed to revoke invitation',
+    });
+  }
+
+  // Look up an invitation from its emailed token (no session required)
+  async getInvitationPreview(token: string): Promise<InvitationPreview> {
+    return apiClient.get(`/auth/invitations/${encodeURIComponent(token)}`, invitationPreviewSchema, {
+      skipAuthRefresh: true,
+      errorMessage: 'This invitation is invalid or has expired',
+    });
+  }
+}
+
+const teamService = new TeamService();
+
+export default teamService;
@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import apiClient, { emptySchema, PaginatedList, paginatedSchema, SortOrder } from './apiClient';
+import { AdminUser, adminUserSchema } from './auth';
+import { addDays, parseDateInputValue } from './dateRange';
+import { Address, addressSchema, OrderSummary, orderSummarySchema } from './orders';
+import { getRoleLabel, isStaffRole } from './permissions';
+
+// Shoppers share the user table with staff but carry this role instead of a staff role
+export const CUSTOMER_ROLE = 'customer';
+
+export type UserSortField = 'name' | 'createdAt' | 'lastLogin';
+
+// Flags and dates are kept as strings, as they appear in the URL
+export interface UserListParams {
+  page: number;
+  pageSize: number;
+  sortBy: UserSortField;
+  sortOrder: SortOrder;
+  search?: string;
+  role?: string;
+  status?: 'active' | 'inactive';
+  verified?: 'yes' | 'no';
+  signupFrom?: string;
+  signupTo?: string;
+}
+
+export interface SavedAddress extends Address {
+  id: string;
+  isDefaultShipping: boolean;
+  isDefaultBilling: boolean;
+}
+
+const savedAddressSchema: z.ZodType<SavedAddress> = z.intersection(
+  addressSchema,
+  z.object({
+    id: z.string(),
+    isDefaultShipping: z.boolean(),
+    isDefaultBilling: z.boolean(),
+  })
+);
+
+export const getUserRoleLabel = (role: string): string => (role === CUSTOMER_ROLE ? 'Customer' : getRoleLabel(role));
+
+export const isStaffUser = (user: AdminUser): boolean => isStaffRole(user.role);
+
+// The API takes an exclusive ISO upper bound, so the end date is moved to the next midnight
+const toQueryParams = ({ status, verified, signupFrom, signupTo, ...rest }: UserListParams) => {
+  const fromDate = parseDateInputValue(signupFrom);
+  const toDate = parseDateInputValue(signupTo);
+
+  return {
+    ...rest,
+    isActive: status ? status === 'active' : undefined,
+    isEmailVerified: verified ? verified === 'yes' : undefined,
+    createdFrom: fromDate?.toISOString(),
+    createdTo: toDate ? addDays(toDate, 1).toISOString() : undefined,
+  };
+};
+
+class UserService {
+  // One page of users (customers and staff) matching the filters
+  async getUsers(params: UserListParams): Promise<PaginatedList<AdminUser>> {
+    return apiClient.get('/admin/users', paginatedSchema(adminUserSchema), {
+      params: toQueryParams(params),
+      errorMessage: 'Failed to load users',
+    });
+  }
+
+  async getUser(userId: string): Promise<AdminUser> {
+    return apiClient.get(`/admin/users/${userId}`, adminUserSchema, {
+      errorMessage: 'Failed to load user',
+    });
+  }
+
+  async getUserOrders(userId: string, page: number, pageSize: number): Promise<PaginatedList<OrderSummary>> {
+    return apiClient.get(`/admin/users/${userId}/orders`, paginatedSchema(orderSummarySchema), {
+      params: { page, pageSize },
+      errorMessage: 'Failed to load orders',
+    });
+  }
+
+  async getUserAddresses(userId: string): Promise<SavedAddress[]> {
+    return apiClient.get(`/admin/users/${userId}/addresses`, z.array(savedAddressSchema), {
+      errorMessage: 'Failed to load addresses',
+    });
+  }
+
+  // Deactivated users cannot sign in and their sessions are ended
+  async setActive(userId: string, isActive: boolean): Promise<AdminUser> {
+    return apiClient.patch(`/admin/users/${userId}`, { isActive }, adminUserSchema, {
+      errorMessage: isActive ? 'Failed to reactivate user' : 'Failed to deactivate user',
+    });
+  }
+
+  // Email the user a reset link; their current password keeps working until they use it
+  async sendPasswordReset(userId: string): Promise<void> {
+    await apiClient.post(`/admin/users/${userId}/password-reset`, {}, emptySchema, {
+      errorMessage: 'Failed to send password reset',
+    });
+  }
+
+  async resendVerification(userId: string): Promise<void> {
+    await apiClient.post(`/admin/users/${userId}/verification`, {}, emptySchema, {
+      errorMessage: 'Failed to resend verification email',
+    });
+  }
+
+  async changeRole(userId: string, role: string): Promise<AdminUser> {
+    return apiClient.patch(`/admin/users/${userId}/role`, { role }, adminUserSchema, {
+      errorMessage: 'Failed to change role',
+    });
+  }
+}
+
+const userService = new UserService();
+
+export default userService;
@@ -0,0 +1,202 @@
+import { z } from 'zod';
+import apiClient from './apiClient';
+
+// Largest matrix we let admins generate; beyond this the table becomes unusable
+export const MAX_VARIANTS = 100;
+
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+export interface ProductVariant {
+  id?: string;
+  // Option name to the chosen value, e.g. { Size: 'M', Color: 'Red' }
+  optionValues: Record<string, string>;
+  sku: string;
+  price: number | null; // null falls back to the product price
+  barcode: string;
+  weight: number | null; // grams
+  stock: number;
+}
+
+export interface ProductVariants {
+  options: ProductOption[];
+  variants: ProductVariant[];
+}
+
+// Editable copy of a variant; numeric fields stay strings until the table is saved
+export interface VariantRow {
+  id?: string;
+  optionValues: Record<string, string>;
+  sku: string;
+  price: string;
+  barcode: string;
+  weight: string;
+  stock: string;
+}
+
+export type VariantField = 'sku' | 'price' | 'barcode' | 'weight' | 'stock';
+
+const productOptionSchema: z.ZodType<ProductOption> = z.object({
+  name: z.string(),
+  values: z.array(z.string()),
+});
+
+const productVariantSchema: z.ZodType<ProductVariant> = z.object({
+  id: z.string().optional(),
+  optionValues: z.record(z.string(), z.string()),
+  sku: z.string(),
+  price: z.number().nullable(),
+  barcode: z.string(),
+  weight: z.number().nullable(),
+  stock: z.number(),
+});
+
+const productVariantsSchema: z.ZodType<ProductVariants> = z.object({
+  options: z.array(productOptionSchema),
+  variants: z.array(productVariantSchema),
+});
+
+export const variantRowSchema = z.object({
+  sku: z.string().trim().min(1, 'SKU is required'),
+  price: z.string().trim().regex(/^\d+(\.\d{1,2})?$/, 'Invalid price').or(z.literal('')),
+  barcode: z.string().trim().regex(/^\d{8,14}$/, 'Use 8–14 digits').or(z.literal('')),
+  weight: z.string().trim().regex(/^\d+(\.\d+)?$/, 'Invalid weight').or(z.literal('')),
+  stock: z.string().trim().regex(/^\d+$/, 'Whole number'),
+});
+
+// Stable identity for a combination, independent of key order
+export const getVariantKey = (optionValues: Record<string, string>, options: ProductOption[]): string =>
+  options.map((option) => `${option.name}=${optionValues[option.name] ?? ''}`).join('|');
+
+export const getVariantTitle = (optionValues: Record<string, string>, options: ProductOption[]): string =>
+  options.map((option) => optionValues[option.name]).join(' / ');
+
+// Number of rows the options would generate
+export const countCombinations = (options: ProductOption[]): number =>
+  options.length === 0 ? 0 : options.reduce((total, option) => total * option.values.length, 1);
+
+const slugifySkuPart = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Rows agree when every option they both define has the same value
+const isCompatible = (row: VariantRow, optionValues: Record<string, string>) =>
+  Object.entries(row.optionValues).every(([name, value]) => !(name in optionValues) || optionValues[name] === value);
+
+// Build one row per combination of option values. Existing rows are kept for their exact
+// combination first; remaining combinations then reuse a compatible row, so adding or
+// removing a whole option carries SKUs and stock over instead of recreating every variant.
+export const generateVariantMatrix = (options: ProductOption[], existing: VariantRow[], baseSku: string): VariantRow[] => {
+  const usable = options.filter((option) => option.name && option.values.length > 0);
+  if (usable.length === 0) {
+    return [];
+  }
+
+  const combinations = usable.reduce<Record<string, string>[]>(
+    (acc, option) => acc.flatMap((combo) => option.values.map((value) => ({ ...combo, [option.name]: value }))),
+    [{}]
+  );
+
+  const claimed = new Set<VariantRow>();
+  const exactByKey = new Map(
+    existing
+      .filter((row) => Object.keys(row.optionValues).length === usable.length)
+      .map((row) => [getVariantKey(row.optionValues, usable), row])
+  );
+
+  const matches = combinations.map((optionValues) => {
+    const match = exactByKey.get(getVariantKey(optionValues, usable));
+    if (match && !claimed.has(match)) {
+      claimed.add(match);
+      return match;
+    }
+    return undefined;
+  });
+
+  return combinations.map((optionValues, index) => {
+    const match = matches[index] ?? existing.find((row) => !claimed.has(row) && isCompatible(row, optionValues));
+    if (match) {
+      claimed.add(match);
+      return { ...match, optionValues };
+    }
+
+    return {
+      optionValues,
+      sku: [baseSku, ...usable.map((option) => slugifySkuPart(optionValues[option.name]))].filter(Boolean).join('-'),
+      price: '',
+      barcode: '',
+      weight: '',
+      stock: '0',
+    };
+  });
+};
+
+export const toVariantRow = (variant: ProductVariant): VariantRow => ({
+  id: variant.id,
+  optionValues: variant.optionValues,
+  sku: variant.sku,
+  price: variant.price != null ? variant.price.toFixed(2) : '',
+  barcode: variant.barcode,
+  weight: variant.weight != null ? String(variant.weight) : '',
+  stock: String(variant.stock),
+});
+
+export const toProductVariant = (row: VariantRow): ProductVariant => ({
+  id: row.id,
+  optionValues: row.optionValues,
+  sku: row.sku.trim(),
+  price: row.price ? Number(row.price) : null,
+  barcode: row.barcode.trim(),
+  weight: row.weight ? Number(row.weight) : null,
+  stock: Number(row.stock),
+});
+
+// Per-row field errors keyed by row index; empty when every row is valid
+export const validateVariantRows = (rows: VariantRow[]): Record<number, Partial<Record<VariantField, string>>> => {
+  const errors: Record<number, Partial<Record<VariantField, string>>> = {};
+  const skuCounts = new Map<string, number>();
+  rows.forEach((row) => {
+    const sku = row.sku.trim().toLowerCase();
+    skuCounts.set(sku, (skuCounts.get(sku) ?? 0) + 1);
+  });
+
+  rows.forEach((row, index) => {
+    const rowErrors: Partial<Record<VariantField, string>> = {};
+    const parsed = variantRowSchema.safeParse(row);
+    if (!parsed.success) {
+      parsed.error.issues.forEach((issue) => {
+        const field = issue.path[0] as VariantField;
+        rowErrors[field] ??= issue.message;
+      });
+    }
+
+    if (!rowErrors.sku && (skuCounts.get(row.sku.trim().toLowerCase()) ?? 0) > 1) {
+      rowErrors.sku = 'SKU must be unique';
+    }
+
+    if (Object.keys(rowErrors).length > 0) {
+      errors[index] = rowErrors;
+    }
+  });
+
+  return errors;
+};
+
+class VariantService {
+  async getVariants(productId: string): Promise<ProductVariants> {
+    return apiClient.get(`/admin/products/${productId}/variants`, productVariantsSchema, {
+      errorMessage: 'Failed to load variants',
+    });
+  }
+
+  // Replace the option set and variant list; variants missing from the list are deleted
+  async saveVariants(productId: string, payload: ProductVariants): Promise<ProductVariants> {
+    return apiClient.put(`/admin/products/${productId}/variants`, payload, productVariantsSchema, {
+      errorMessage: 'Failed to save variants',
+    });
+  }
+}
+
+const variantService = new VariantService();
+
+export default variantService;
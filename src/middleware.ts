@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errors, jwtVerify, JWTPayload } from 'jose';
+import { isOpenRegistrationEnabled } from '@/lib/config';
+import { getRequiredPermission, hasPermission, isStaffRole } from '@/lib/permissions';
+import { DEFAULT_AUTHENTICATED_PATH, LOGIN_PATH, RETURN_TO_PARAM } from '@/lib/redirect';
+
+const TOKEN_COOKIE = 'admin_token';
+const FORBIDDEN_PATH = '/forbidden';
+const REGISTER_PATH = '/auth/register';
+const REFRESH_TOKEN_COOKIE = 'admin_refresh_token';
+
+// Routes that are reachable without an admin session
+const PUBLIC_PATH_PREFIXES = ['/auth'];
+
+interface AdminTokenPayload extends JWTPayload {
+  role?: string;
+}
+
+const isPublicPath = (pathname: string) =>
+  PUBLIC_PATH_PREFIXES.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+
+const getSecret = () => new TextEncoder().encode(process.env.JWT_SECRET || '');
+
+// Verify the access token signature and return its claims, or null when it cannot be trusted
+const verifyToken = async (token: string, canRefresh: boolean): Promise<AdminTokenPayload | null> => {
+  try {
+    const { payload } = await jwtVerify<AdminTokenPayload>(token, getSecret());
+    return payload;
+  } catch (error) {
+    // The signature was valid but the token expired; the client will refresh it on its next API call
+    if (error instanceof errors.JWTExpired && canRefresh) {
+      return error.payload as AdminTokenPayload;
+    }
+    return null;
+  }
+};
+
+const redirectToLogin = (request: NextRequest) => {
+  const url = request.nextUrl.clone();
+  const { pathname, search } = request.nextUrl;
+
+  url.pathname = LOGIN_PATH;
+  url.search = '';
+  if (pathname !== '/') {
+    url.searchParams.set(RETURN_TO_PARAM, `${pathname}${search}`);
+  }
+
+  return NextResponse.redirect(url);
+};
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+
+  // New admins join through invitations unless open sign-up is switched on
+  if (pathname === REGISTER_PATH && !isOpenRegistrationEnabled) {
+    return NextResponse.redirect(new URL(LOGIN_PATH, request.url));
+  }
+
+  if (isPublicPath(pathname)) {
+    return NextResponse.next();
+  }
+
+  const token = request.cookies.get(TOKEN_COOKIE)?.value;
+  if (!token) {
+    return redirectToLogin(request);
+  }
+
+  const payload = await verifyToken(token, request.cookies.has(REFRESH_TOKEN_COOKIE));
+  if (!payload || !isStaffRole(payload.role)) {
+    return redirectToLogin(request);
+  }
+
+  if (pathname === '/') {
+    return NextResponse.redirect(new URL(DEFAULT_AUTHENTICATED_PATH, request.url));
+  }
+
+  const requiredPermission = getRequiredPermission(pathname);
+  if (requiredPermission && !hasPermission(payload.role, requiredPermission)) {
+    return NextResponse.rewrite(new URL(FORBIDDEN_PATH, request.url), { status: 403 });
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Skip Next.js internals and static files
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\..*).*)'],
+};